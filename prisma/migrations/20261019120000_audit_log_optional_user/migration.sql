@@ -0,0 +1,21 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_LogsAuditoria" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "action" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entityId" TEXT,
+    "details" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LogsAuditoria_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_LogsAuditoria" ("action", "createdAt", "details", "entity", "entityId", "id", "ipAddress", "userId") SELECT "action", "createdAt", "details", "entity", "entityId", "id", "ipAddress", "userId" FROM "LogsAuditoria";
+DROP TABLE "LogsAuditoria";
+ALTER TABLE "new_LogsAuditoria" RENAME TO "LogsAuditoria";
+CREATE INDEX "LogsAuditoria_entity_entityId_idx" ON "LogsAuditoria"("entity", "entityId");
+CREATE INDEX "LogsAuditoria_createdAt_idx" ON "LogsAuditoria"("createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Cupons" ADD COLUMN "printCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ItensPedidoCompra" ADD COLUMN "receivedQuantity" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ItensPedidoCompra" ADD COLUMN "receivedAmount" REAL NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Fornecedores" ADD COLUMN "paymentTerms" TEXT;
+
+-- AlterTable
+ALTER TABLE "PedidosCompra" ADD COLUMN "paymentTerms" TEXT;
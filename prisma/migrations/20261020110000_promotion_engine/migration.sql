@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Promocoes" ADD COLUMN "buyQuantity" INTEGER;
+ALTER TABLE "Promocoes" ADD COLUMN "getQuantity" INTEGER;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ItensVenda" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "saleId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "promotionId" TEXT,
+    "promotionDiscount" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "ItensVenda_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItensVenda_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItensVenda_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promocoes" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ItensVenda" ("discount", "id", "productId", "quantity", "saleId", "total", "unitPrice") SELECT "discount", "id", "productId", "quantity", "saleId", "total", "unitPrice" FROM "ItensVenda";
+DROP TABLE "ItensVenda";
+ALTER TABLE "new_ItensVenda" RENAME TO "ItensVenda";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "SessoesCaixa" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "terminal" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "openingFloat" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "openedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" DATETIME,
+    "closedById" TEXT,
+    "closingReport" TEXT,
+    "difference" REAL,
+    CONSTRAINT "SessoesCaixa_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "SessoesCaixa_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "MovimentacoesCaixa" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MovimentacoesCaixa_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "SessoesCaixa" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesCaixa_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Vendas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "userId" TEXT NOT NULL,
+    "subtotal" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PAID',
+    "notes" TEXT,
+    "sessionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Vendas_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Clientes" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Vendas_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Vendas_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "SessoesCaixa" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Vendas" ("clientId", "createdAt", "discount", "id", "notes", "paymentMethod", "paymentStatus", "subtotal", "total", "updatedAt", "userId") SELECT "clientId", "createdAt", "discount", "id", "notes", "paymentMethod", "paymentStatus", "subtotal", "total", "updatedAt", "userId" FROM "Vendas";
+DROP TABLE "Vendas";
+ALTER TABLE "new_Vendas" RENAME TO "Vendas";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "SessoesCaixa_userId_status_idx" ON "SessoesCaixa"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "SessoesCaixa_terminal_status_idx" ON "SessoesCaixa"("terminal", "status");
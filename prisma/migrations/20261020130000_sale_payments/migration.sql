@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "PagamentosVenda" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "saleId" TEXT NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "amountReceived" REAL,
+    CONSTRAINT "PagamentosVenda_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PagamentosVenda_paymentMethod_idx" ON "PagamentosVenda"("paymentMethod");
+
+-- Backfill: vendas existentes viram uma parcela única na forma de pagamento da venda
+INSERT INTO "PagamentosVenda" ("id", "saleId", "paymentMethod", "amount")
+SELECT lower(hex(randomblob(16))), "id", "paymentMethod", "total" FROM "Vendas" WHERE "total" > 0;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Clientes" ADD COLUMN "storeCredit" REAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Vendas" ADD COLUMN "returnedAmount" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Vendas" ADD COLUMN "creditRefunded" REAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ItensVenda" ADD COLUMN "returnedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DevolucoesVenda" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "saleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "refundMethod" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "reason" TEXT,
+    "sessionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DevolucoesVenda_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "DevolucoesVenda_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItensDevolucao" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "returnId" TEXT NOT NULL,
+    "saleItemId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" REAL NOT NULL,
+    "damaged" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "ItensDevolucao_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "DevolucoesVenda" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItensDevolucao_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "ItensVenda" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItensDevolucao_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DevolucoesVenda_saleId_idx" ON "DevolucoesVenda"("saleId");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "TransacoesCreditoLoja" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "remaining" REAL NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME,
+    "description" TEXT,
+    "saleId" TEXT,
+    "returnId" TEXT,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TransacoesCreditoLoja_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Clientes" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TransacoesCreditoLoja_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TransacoesCreditoLoja_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "DevolucoesVenda" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TransacoesCreditoLoja_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TransacoesCreditoLoja_clientId_type_idx" ON "TransacoesCreditoLoja"("clientId", "type");
+
+-- Saldo existente (devoluções anteriores) vira uma emissão com 90 dias de validade
+INSERT INTO "TransacoesCreditoLoja" ("id", "clientId", "type", "amount", "remaining", "expiresAt", "description", "createdAt")
+SELECT lower(hex(randomblob(16))), "id", 'ISSUE', "storeCredit", "storeCredit",
+       strftime('%Y-%m-%dT%H:%M:%S.000+00:00', 'now', '+90 days'),
+       'Saldo anterior ao controle de validade',
+       strftime('%Y-%m-%dT%H:%M:%S.000+00:00', 'now')
+FROM "Clientes" WHERE "storeCredit" > 0;
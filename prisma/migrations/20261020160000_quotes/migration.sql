@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Orcamentos" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "userId" TEXT NOT NULL,
+    "subtotal" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "validUntil" DATETIME NOT NULL,
+    "notes" TEXT,
+    "saleId" TEXT,
+    "convertedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Orcamentos_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Clientes" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Orcamentos_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Orcamentos_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItensOrcamento" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "quoteId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "promotionId" TEXT,
+    "promotionDiscount" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "ItensOrcamento_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Orcamentos" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItensOrcamento_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItensOrcamento_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promocoes" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Orcamentos_saleId_key" ON "Orcamentos"("saleId");
+
+-- CreateIndex
+CREATE INDEX "Orcamentos_status_idx" ON "Orcamentos"("status");
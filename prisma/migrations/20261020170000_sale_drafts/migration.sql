@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "VendasSuspensas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "subtotal" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "VendasSuspensas_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Clientes" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "VendasSuspensas_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "VendasSuspensas_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "SessoesCaixa" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItensVendaSuspensa" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "draftId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "promotionId" TEXT,
+    "promotionDiscount" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "ItensVendaSuspensa_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "VendasSuspensas" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItensVendaSuspensa_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItensVendaSuspensa_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promocoes" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "VendasSuspensas_userId_idx" ON "VendasSuspensas"("userId");
+
+-- CreateIndex
+CREATE INDEX "VendasSuspensas_updatedAt_idx" ON "VendasSuspensas"("updatedAt");
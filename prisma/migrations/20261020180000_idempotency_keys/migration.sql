@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ChavesIdempotencia" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "statusCode" INTEGER,
+    "responseBody" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ChavesIdempotencia_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ChavesIdempotencia_createdAt_idx" ON "ChavesIdempotencia"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChavesIdempotencia_userId_key_key" ON "ChavesIdempotencia"("userId", "key");
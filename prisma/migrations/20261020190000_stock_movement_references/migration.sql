@@ -0,0 +1,55 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_MovimentacoesEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT,
+    "unitPrice" REAL,
+    "totalPrice" REAL,
+    "saleId" TEXT,
+    "purchaseOrderId" TEXT,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MovimentacoesEstoque_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "PedidosCompra" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_MovimentacoesEstoque" ("createdAt", "id", "productId", "quantity", "reason", "totalPrice", "type", "unitPrice") SELECT "createdAt", "id", "productId", "quantity", "reason", "totalPrice", "type", "unitPrice" FROM "MovimentacoesEstoque";
+DROP TABLE "MovimentacoesEstoque";
+ALTER TABLE "new_MovimentacoesEstoque" RENAME TO "MovimentacoesEstoque";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_saleId_idx" ON "MovimentacoesEstoque"("saleId");
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_purchaseOrderId_idx" ON "MovimentacoesEstoque"("purchaseOrderId");
+
+-- Backfill: venda, devolução e cancelamento gravavam "... venda #<id>" no motivo
+UPDATE "MovimentacoesEstoque"
+SET "saleId" = substr("reason", instr("reason", '#') + 1, 36)
+WHERE ("reason" LIKE 'Venda #%'
+    OR "reason" LIKE 'Devolução da venda #%'
+    OR "reason" LIKE 'Avaria na devolução da venda #%'
+    OR "reason" LIKE 'Cancelamento da venda #%')
+  AND EXISTS (
+    SELECT 1 FROM "Vendas" WHERE "Vendas"."id" = substr("reason", instr("reason", '#') + 1, 36)
+  );
+
+-- Backfill: a saída da venda foi registrada pelo operador da venda
+UPDATE "MovimentacoesEstoque"
+SET "userId" = (SELECT "Vendas"."userId" FROM "Vendas" WHERE "Vendas"."id" = "MovimentacoesEstoque"."saleId")
+WHERE "saleId" IS NOT NULL AND "type" = 'EXIT' AND "reason" LIKE 'Venda #%';
+
+-- Backfill: recebimento de pedido gravava "Pedido de compra #<id>" no motivo
+UPDATE "MovimentacoesEstoque"
+SET "purchaseOrderId" = substr("reason", instr("reason", '#') + 1, 36)
+WHERE "reason" LIKE 'Pedido de compra #%'
+  AND EXISTS (
+    SELECT 1 FROM "PedidosCompra" WHERE "PedidosCompra"."id" = substr("reason", instr("reason", '#') + 1, 36)
+  );
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "LotesEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "entryMovementId" TEXT,
+    "code" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expirationDate" DATETIME,
+    "unitCost" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LotesEstoque_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "LotesEstoque_entryMovementId_fkey" FOREIGN KEY ("entryMovementId") REFERENCES "MovimentacoesEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AlocacoesLote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lotId" TEXT NOT NULL,
+    "movementId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AlocacoesLote_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "LotesEstoque" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AlocacoesLote_movementId_fkey" FOREIGN KEY ("movementId") REFERENCES "MovimentacoesEstoque" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LotesEstoque_entryMovementId_key" ON "LotesEstoque"("entryMovementId");
+
+-- CreateIndex
+CREATE INDEX "LotesEstoque_productId_remaining_idx" ON "LotesEstoque"("productId", "remaining");
+
+-- CreateIndex
+CREATE INDEX "LotesEstoque_expirationDate_idx" ON "LotesEstoque"("expirationDate");
+
+-- CreateIndex
+CREATE INDEX "AlocacoesLote_lotId_idx" ON "AlocacoesLote"("lotId");
+
+-- CreateIndex
+CREATE INDEX "AlocacoesLote_movementId_idx" ON "AlocacoesLote"("movementId");
+
+-- Backfill: o saldo atual de cada produto vira um lote com a validade do cadastro
+INSERT INTO "LotesEstoque" ("id", "productId", "quantity", "remaining", "expirationDate", "unitCost", "createdAt", "updatedAt")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+        || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "id",
+    "quantity",
+    "quantity",
+    "expirationDate",
+    "costPrice",
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "Produtos"
+WHERE "quantity" > 0;
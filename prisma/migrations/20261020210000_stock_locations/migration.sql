@@ -0,0 +1,123 @@
+-- CreateTable
+CREATE TABLE "LocaisEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "EstoquePorLocal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "minQuantity" INTEGER,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EstoquePorLocal_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "EstoquePorLocal_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "LocaisEstoque" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TransferenciasEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "fromLocationId" TEXT NOT NULL,
+    "toLocationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TransferenciasEstoque_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TransferenciasEstoque_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "LocaisEstoque" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TransferenciasEstoque_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "LocaisEstoque" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TransferenciasEstoque_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_MovimentacoesEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT,
+    "unitPrice" REAL,
+    "totalPrice" REAL,
+    "saleId" TEXT,
+    "purchaseOrderId" TEXT,
+    "userId" TEXT,
+    "locationId" TEXT,
+    "transferId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MovimentacoesEstoque_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Vendas" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "PedidosCompra" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "LocaisEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MovimentacoesEstoque_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "TransferenciasEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_MovimentacoesEstoque" ("createdAt", "id", "productId", "purchaseOrderId", "quantity", "reason", "saleId", "totalPrice", "type", "unitPrice", "userId") SELECT "createdAt", "id", "productId", "purchaseOrderId", "quantity", "reason", "saleId", "totalPrice", "type", "unitPrice", "userId" FROM "MovimentacoesEstoque";
+DROP TABLE "MovimentacoesEstoque";
+ALTER TABLE "new_MovimentacoesEstoque" RENAME TO "MovimentacoesEstoque";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LocaisEstoque_name_key" ON "LocaisEstoque"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EstoquePorLocal_productId_locationId_key" ON "EstoquePorLocal"("productId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "EstoquePorLocal_locationId_idx" ON "EstoquePorLocal"("locationId");
+
+-- CreateIndex
+CREATE INDEX "TransferenciasEstoque_productId_idx" ON "TransferenciasEstoque"("productId");
+
+-- CreateIndex
+CREATE INDEX "TransferenciasEstoque_createdAt_idx" ON "TransferenciasEstoque"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_saleId_idx" ON "MovimentacoesEstoque"("saleId");
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_purchaseOrderId_idx" ON "MovimentacoesEstoque"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_locationId_idx" ON "MovimentacoesEstoque"("locationId");
+
+-- CreateIndex
+CREATE INDEX "MovimentacoesEstoque_transferId_idx" ON "MovimentacoesEstoque"("transferId");
+
+-- Backfill: todo o estoque atual fica no local padrão "Loja"
+INSERT INTO "LocaisEstoque" ("id", "name", "description", "isDefault", "isActive", "createdAt", "updatedAt")
+VALUES (
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+        || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    'Loja',
+    'Local padrão, baixado pelas vendas',
+    true,
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+);
+
+INSERT INTO "EstoquePorLocal" ("id", "productId", "locationId", "quantity", "updatedAt")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+        || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "Produtos"."id",
+    "LocaisEstoque"."id",
+    "Produtos"."quantity",
+    CURRENT_TIMESTAMP
+FROM "Produtos"
+CROSS JOIN "LocaisEstoque"
+WHERE "LocaisEstoque"."isDefault" = true;
+
+UPDATE "MovimentacoesEstoque"
+SET "locationId" = (SELECT "id" FROM "LocaisEstoque" WHERE "isDefault" = true);
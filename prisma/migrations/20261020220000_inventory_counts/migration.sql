@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "Inventarios" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "locationId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "userId" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "approvedAt" DATETIME,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Inventarios_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "LocaisEstoque" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Inventarios_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Categorias" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Inventarios_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Inventarios_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "Usuarios" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItensInventario" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "countId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "expectedQuantity" INTEGER NOT NULL,
+    "unitCost" REAL NOT NULL,
+    "movementId" TEXT,
+    CONSTRAINT "ItensInventario_countId_fkey" FOREIGN KEY ("countId") REFERENCES "Inventarios" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItensInventario_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ItensInventario_movementId_fkey" FOREIGN KEY ("movementId") REFERENCES "MovimentacoesEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ContagensInventario" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "itemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ContagensInventario_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "ItensInventario" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ContagensInventario_userId_fkey" FOREIGN KEY ("userId") REFERENCES "Usuarios" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Inventarios_locationId_status_idx" ON "Inventarios"("locationId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItensInventario_movementId_key" ON "ItensInventario"("movementId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItensInventario_countId_productId_key" ON "ItensInventario"("countId", "productId");
+
+-- CreateIndex
+CREATE INDEX "ContagensInventario_itemId_idx" ON "ContagensInventario"("itemId");
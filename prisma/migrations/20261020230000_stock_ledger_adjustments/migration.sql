@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "MovimentacoesEstoque" ADD COLUMN "previousQuantity" INTEGER;
+ALTER TABLE "MovimentacoesEstoque" ADD COLUMN "newQuantity" INTEGER;
+
+-- O livro de movimentações começa nesta migração. As movimentações
+-- anteriores ficam como histórico, sem alteração: os ajustes antigos
+-- continuam com o saldo informado em "quantity" (a diferença não é
+-- conhecida) e "previousQuantity"/"newQuantity" nulos. A reconciliação
+-- refaz o estoque a partir do saldo de abertura abaixo e ignora o que
+-- veio antes dele.
+
+-- Saldo de abertura de cada produto em cada local com estoque ou com
+-- movimentações (data no mesmo formato gravado pela aplicação, para
+-- ordenar junto)
+INSERT INTO "MovimentacoesEstoque" ("id", "productId", "type", "quantity", "reason", "locationId", "newQuantity", "createdAt")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+        || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "EstoquePorLocal"."productId",
+    'ADJUSTMENT',
+    0,
+    'Saldo de abertura do livro de movimentações',
+    "EstoquePorLocal"."locationId",
+    "EstoquePorLocal"."quantity",
+    strftime('%Y-%m-%dT%H:%M:%f+00:00', 'now')
+FROM "EstoquePorLocal"
+WHERE "EstoquePorLocal"."quantity" <> 0
+   OR EXISTS (SELECT 1 FROM "MovimentacoesEstoque" WHERE "MovimentacoesEstoque"."productId" = "EstoquePorLocal"."productId");
@@ -0,0 +1,12 @@
+-- A movimentação TRANSFER da origem passa a ter quantidade negativa, para
+-- que o saldo de cada local possa ser refeito pelo livro. As transferências
+-- já registradas gravaram as duas movimentações com quantidade positiva.
+UPDATE "MovimentacoesEstoque"
+SET "quantity" = -"quantity"
+WHERE "type" = 'TRANSFER'
+  AND "quantity" > 0
+  AND "locationId" = (
+      SELECT "TransferenciasEstoque"."fromLocationId"
+      FROM "TransferenciasEstoque"
+      WHERE "TransferenciasEstoque"."id" = "MovimentacoesEstoque"."transferId"
+  );
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Vendas" ADD COLUMN "creditPaid" REAL NOT NULL DEFAULT 0;
+
+-- Parte fiado de cada venda (parcelas FIADO; sem parcelas, a venda inteira
+-- quando a forma principal é FIADO)
+CREATE TEMP VIEW "FiadoVenda" AS
+SELECT
+    "Vendas"."id",
+    "Vendas"."clientId",
+    "Vendas"."createdAt",
+    "Vendas"."paymentStatus",
+    round(
+        CASE
+            WHEN EXISTS (SELECT 1 FROM "PagamentosVenda" WHERE "PagamentosVenda"."saleId" = "Vendas"."id")
+                THEN COALESCE((SELECT SUM("amount") FROM "PagamentosVenda" WHERE "PagamentosVenda"."saleId" = "Vendas"."id" AND "paymentMethod" = 'FIADO'), 0)
+            WHEN "Vendas"."paymentMethod" = 'FIADO' THEN "Vendas"."total"
+            ELSE 0
+        END - "Vendas"."creditRefunded", 2) AS "outstanding"
+FROM "Vendas";
+
+-- Vendas fiado já pagas: todo o fiado restante foi pago
+UPDATE "Vendas"
+SET "creditPaid" = (SELECT "outstanding" FROM "FiadoVenda" WHERE "FiadoVenda"."id" = "Vendas"."id")
+WHERE "paymentStatus" = 'PAID'
+  AND (SELECT "outstanding" FROM "FiadoVenda" WHERE "FiadoVenda"."id" = "Vendas"."id") > 0;
+
+-- Vendas fiado pendentes: o que os pagamentos já abateram do débito do
+-- cliente (soma pendente - débito atual) é atribuído às mais antigas
+-- primeiro, como os pagamentos faziam
+WITH "Pendentes" AS (
+    SELECT
+        "FiadoVenda"."id",
+        "FiadoVenda"."outstanding",
+        SUM("FiadoVenda"."outstanding") OVER (
+            PARTITION BY "FiadoVenda"."clientId"
+            ORDER BY "FiadoVenda"."createdAt", "FiadoVenda"."id"
+            ROWS UNBOUNDED PRECEDING
+        ) - "FiadoVenda"."outstanding" AS "olderOutstanding",
+        SUM("FiadoVenda"."outstanding") OVER (PARTITION BY "FiadoVenda"."clientId") - "Clientes"."currentDebt" AS "paid"
+    FROM "FiadoVenda"
+    JOIN "Clientes" ON "Clientes"."id" = "FiadoVenda"."clientId"
+    WHERE "FiadoVenda"."paymentStatus" = 'PENDING' AND "FiadoVenda"."outstanding" > 0
+)
+UPDATE "Vendas"
+SET "creditPaid" = (
+    SELECT round(min("outstanding", "paid" - "olderOutstanding"), 2)
+    FROM "Pendentes" WHERE "Pendentes"."id" = "Vendas"."id"
+)
+WHERE "id" IN (SELECT "id" FROM "Pendentes" WHERE "paid" - "olderOutstanding" > 0.005);
+
+DROP VIEW "FiadoVenda";
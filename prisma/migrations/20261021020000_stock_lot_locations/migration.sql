@@ -0,0 +1,48 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_LotesEstoque" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "entryMovementId" TEXT,
+    "locationId" TEXT,
+    "originLotId" TEXT,
+    "code" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expirationDate" DATETIME,
+    "unitCost" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LotesEstoque_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Produtos" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "LotesEstoque_entryMovementId_fkey" FOREIGN KEY ("entryMovementId") REFERENCES "MovimentacoesEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LotesEstoque_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "LocaisEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LotesEstoque_originLotId_fkey" FOREIGN KEY ("originLotId") REFERENCES "LotesEstoque" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_LotesEstoque" ("code", "createdAt", "entryMovementId", "expirationDate", "id", "productId", "quantity", "remaining", "unitCost", "updatedAt") SELECT "code", "createdAt", "entryMovementId", "expirationDate", "id", "productId", "quantity", "remaining", "unitCost", "updatedAt" FROM "LotesEstoque";
+DROP TABLE "LotesEstoque";
+ALTER TABLE "new_LotesEstoque" RENAME TO "LotesEstoque";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LotesEstoque_entryMovementId_key" ON "LotesEstoque"("entryMovementId");
+
+-- CreateIndex
+CREATE INDEX "LotesEstoque_productId_locationId_remaining_idx" ON "LotesEstoque"("productId", "locationId", "remaining");
+
+-- CreateIndex
+CREATE INDEX "LotesEstoque_productId_remaining_idx" ON "LotesEstoque"("productId", "remaining");
+
+-- CreateIndex
+CREATE INDEX "LotesEstoque_expirationDate_idx" ON "LotesEstoque"("expirationDate");
+
+-- Backfill: cada lote fica no local da entrada que o criou; lotes sem
+-- entrada com local ficam no local padrão. As baixas anteriores não
+-- olhavam o local, então o saldo de um lote pode não estar de fato nesse
+-- local: o primeiro inventário de cada local acerta a diferença.
+UPDATE "LotesEstoque"
+SET "locationId" = COALESCE(
+    (SELECT "locationId" FROM "MovimentacoesEstoque" WHERE "MovimentacoesEstoque"."id" = "LotesEstoque"."entryMovementId"),
+    (SELECT "id" FROM "LocaisEstoque" WHERE "isDefault" = 1 LIMIT 1)
+);
@@ -5,16 +5,36 @@
 
 import express, { Application, Request, Response } from 'express';
 import { prisma } from './infrastructure/database/prisma-client';
+import { PrismaUnitOfWork } from './infrastructure/database/PrismaUnitOfWork';
 
 // Repositories
 import { PrismaProductRepository } from './infrastructure/repositories/PrismaProductRepository';
 import { PrismaCategoryRepository } from './infrastructure/repositories/PrismaCategoryRepository';
 import { PrismaSupplierRepository } from './infrastructure/repositories/PrismaSupplierRepository';
 import { PrismaClientRepository } from './infrastructure/repositories/PrismaClientRepository';
+import { PrismaClientTransactionRepository } from './infrastructure/repositories/PrismaClientTransactionRepository';
+import { PrismaStoreCreditRepository } from './infrastructure/repositories/PrismaStoreCreditRepository';
 import { PrismaUserRepository } from './infrastructure/repositories/PrismaUserRepository';
 import { PrismaStockMovementRepository } from './infrastructure/repositories/PrismaStockMovementRepository';
+import { PrismaStockLotRepository } from './infrastructure/repositories/PrismaStockLotRepository';
+import { PrismaStockLocationRepository } from './infrastructure/repositories/PrismaStockLocationRepository';
+import { PrismaProductStockRepository } from './infrastructure/repositories/PrismaProductStockRepository';
+import { PrismaStockTransferRepository } from './infrastructure/repositories/PrismaStockTransferRepository';
+import { PrismaInventoryCountRepository } from './infrastructure/repositories/PrismaInventoryCountRepository';
 import { PrismaSaleRepository } from './infrastructure/repositories/PrismaSaleRepository';
+import { PrismaSaleReturnRepository } from './infrastructure/repositories/PrismaSaleReturnRepository';
 import { PrismaFinancialAccountRepository } from './infrastructure/repositories/PrismaFinancialAccountRepository';
+import { PrismaCashFlowRepository } from './infrastructure/repositories/PrismaCashFlowRepository';
+import { PrismaAuditLogRepository } from './infrastructure/repositories/PrismaAuditLogRepository';
+import { PrismaIdempotencyKeyRepository } from './infrastructure/repositories/PrismaIdempotencyKeyRepository';
+import { PrismaPurchaseOrderRepository } from './infrastructure/repositories/PrismaPurchaseOrderRepository';
+import { PrismaPromotionRepository } from './infrastructure/repositories/PrismaPromotionRepository';
+import { PrismaQuoteRepository } from './infrastructure/repositories/PrismaQuoteRepository';
+import { PrismaCashRegisterRepository } from './infrastructure/repositories/PrismaCashRegisterRepository';
+
+// Services
+import { JwtTokenService } from './infrastructure/services/JwtTokenService';
+import { ScryptPasswordHasher } from './infrastructure/services/ScryptPasswordHasher';
 
 // Use Cases - Products
 import {
@@ -56,13 +76,18 @@ import {
   UpdateClientUseCase,
   DeleteClientUseCase,
   GetClientsWithDebtsUseCase,
+  RegisterClientPaymentUseCase,
+  GetClientStatementUseCase,
   GetTotalDebtsUseCase,
+  IssueStoreCreditUseCase,
+  ExpireStoreCreditsUseCase,
 } from './application/use-cases/ClientUseCases';
 
 // Use Cases - Users
 import {
   CreateUserUseCase,
   AuthenticateUserUseCase,
+  ValidateAccessTokenUseCase,
   GetUserByIdUseCase,
   GetPaginatedUsersUseCase,
   UpdateUserUseCase,
@@ -79,8 +104,39 @@ import {
   GetStockMovementsByTypeUseCase,
   GetStockMovementsByDateRangeUseCase,
   GetStockReportUseCase,
+  ReconcileStockUseCase,
 } from './application/use-cases/StockMovementUseCases';
 
+// Use Cases - Stock Lots
+import {
+  GetStockLotsUseCase,
+  GetStockLotByIdUseCase,
+  GetExpiredStockLotsUseCase,
+  GetExpiringStockLotsUseCase,
+} from './application/use-cases/StockLotUseCases';
+
+// Use Cases - Stock Locations
+import {
+  CreateStockLocationUseCase,
+  GetStockLocationsUseCase,
+  GetStockLocationByIdUseCase,
+  UpdateStockLocationUseCase,
+  GetProductStocksUseCase,
+  GetLowStockByLocationUseCase,
+  SetLocationMinQuantityUseCase,
+  TransferStockUseCase,
+  GetStockTransfersUseCase,
+  GetStockTransferByIdUseCase,
+} from './application/use-cases/StockLocationUseCases';
+import {
+  CreateInventoryCountUseCase,
+  GetInventoryCountsUseCase,
+  GetInventoryCountByIdUseCase,
+  RecordInventoryCountsUseCase,
+  ApproveInventoryCountUseCase,
+  CancelInventoryCountUseCase,
+} from './application/use-cases/InventoryCountUseCases';
+
 // Use Cases - Sales
 import {
   CreateSaleUseCase,
@@ -90,8 +146,22 @@ import {
   GetTodaySalesUseCase,
   GetSalesSummaryUseCase,
   GetSalesByDateRangeUseCase,
+  GetSaleReceiptUseCase,
+  ReturnSaleItemsUseCase,
+  GetSaleReturnsUseCase,
 } from './application/use-cases/SaleUseCases';
 
+// Use Cases - Sale Drafts
+import {
+  CreateSaleDraftUseCase,
+  GetSaleDraftsUseCase,
+  GetSaleDraftByIdUseCase,
+  AddSaleDraftItemUseCase,
+  RemoveSaleDraftItemUseCase,
+  DiscardSaleDraftUseCase,
+  FinalizeSaleDraftUseCase,
+} from './application/use-cases/SaleDraftUseCases';
+
 // Use Cases - Financial
 import {
   CreatePayableAccountUseCase,
@@ -102,8 +172,60 @@ import {
   CancelAccountUseCase,
   GetOverdueAccountsUseCase,
   GetFinancialSummaryUseCase,
+  GetCashFlowReportUseCase,
 } from './application/use-cases/FinancialUseCases';
 
+// Use Cases - Audit Logs
+import {
+  GetAuditLogsUseCase,
+  GetAuditLogByIdUseCase,
+} from './application/use-cases/AuditLogUseCases';
+
+// Use Cases - Idempotency Keys
+import {
+  BeginIdempotentRequestUseCase,
+  CompleteIdempotentRequestUseCase,
+  ReleaseIdempotentRequestUseCase,
+} from './application/use-cases/IdempotencyUseCases';
+
+// Use Cases - Purchase Orders
+import {
+  CreatePurchaseOrderUseCase,
+  GetPurchaseOrderByIdUseCase,
+  GetPurchaseOrdersUseCase,
+  ApprovePurchaseOrderUseCase,
+  CancelPurchaseOrderUseCase,
+  ReceivePurchaseOrderUseCase,
+} from './application/use-cases/PurchaseOrderUseCases';
+
+// Use Cases - Promotions
+import {
+  CreatePromotionUseCase,
+  GetPromotionByIdUseCase,
+  GetPromotionsUseCase,
+  UpdatePromotionUseCase,
+  DeletePromotionUseCase,
+} from './application/use-cases/PromotionUseCases';
+
+// Use Cases - Quotes
+import {
+  CreateQuoteUseCase,
+  GetQuoteByIdUseCase,
+  GetQuotesUseCase,
+  CancelQuoteUseCase,
+  ConvertQuoteToSaleUseCase,
+} from './application/use-cases/QuoteUseCases';
+
+// Use Cases - Cash Registers
+import {
+  OpenCashRegisterUseCase,
+  GetCurrentCashRegisterUseCase,
+  GetCashRegisterByIdUseCase,
+  GetCashRegistersUseCase,
+  RegisterCashMovementUseCase,
+  CloseCashRegisterUseCase,
+} from './application/use-cases/CashRegisterUseCases';
+
 // Controllers
 import { ProductController } from './presentation/controllers/ProductController';
 import { CategoryController } from './presentation/controllers/CategoryController';
@@ -111,21 +233,44 @@ import { SupplierController } from './presentation/controllers/SupplierControlle
 import { ClientController } from './presentation/controllers/ClientController';
 import { UserController } from './presentation/controllers/UserController';
 import { StockMovementController } from './presentation/controllers/StockMovementController';
+import { StockLotController } from './presentation/controllers/StockLotController';
+import { StockLocationController } from './presentation/controllers/StockLocationController';
+import { StockTransferController } from './presentation/controllers/StockTransferController';
+import { InventoryCountController } from './presentation/controllers/InventoryCountController';
 import { SaleController } from './presentation/controllers/SaleController';
+import { SaleDraftController } from './presentation/controllers/SaleDraftController';
 import { FinancialController } from './presentation/controllers/FinancialController';
+import { AuditLogController } from './presentation/controllers/AuditLogController';
+import { PurchaseOrderController } from './presentation/controllers/PurchaseOrderController';
+import { PromotionController } from './presentation/controllers/PromotionController';
+import { QuoteController } from './presentation/controllers/QuoteController';
+import { CashRegisterController } from './presentation/controllers/CashRegisterController';
 
 // Routes
+import { createAuthRoutes } from './presentation/routes/authRoutes';
 import { createProductRoutes } from './presentation/routes/productRoutes';
 import { createCategoryRoutes } from './presentation/routes/categoryRoutes';
 import { createSupplierRoutes } from './presentation/routes/supplierRoutes';
 import { createClientRoutes } from './presentation/routes/clientRoutes';
 import { createUserRoutes } from './presentation/routes/userRoutes';
 import { createStockMovementRoutes } from './presentation/routes/stockMovementRoutes';
+import { createStockLotRoutes } from './presentation/routes/stockLotRoutes';
+import { createStockLocationRoutes } from './presentation/routes/stockLocationRoutes';
+import { createStockTransferRoutes } from './presentation/routes/stockTransferRoutes';
+import { createInventoryCountRoutes } from './presentation/routes/inventoryCountRoutes';
 import { createSaleRoutes } from './presentation/routes/saleRoutes';
+import { createSaleDraftRoutes } from './presentation/routes/saleDraftRoutes';
 import { createFinancialRoutes } from './presentation/routes/financialRoutes';
+import { createAuditLogRoutes } from './presentation/routes/auditLogRoutes';
+import { createPurchaseOrderRoutes } from './presentation/routes/purchaseOrderRoutes';
+import { createPromotionRoutes } from './presentation/routes/promotionRoutes';
+import { createQuoteRoutes } from './presentation/routes/quoteRoutes';
+import { createCashRegisterRoutes } from './presentation/routes/cashRegisterRoutes';
 
-// Error Handler
+// Middlewares
 import { errorHandler } from './presentation/middlewares/errorHandler';
+import { createAuthMiddleware } from './presentation/middlewares/authMiddleware';
+import { createIdempotencyMiddleware } from './presentation/middlewares/idempotencyMiddleware';
 
 export function createApp(): Application {
   const app = express();
@@ -150,21 +295,77 @@ export function createApp(): Application {
   const categoryRepository = new PrismaCategoryRepository(prisma);
   const supplierRepository = new PrismaSupplierRepository(prisma);
   const clientRepository = new PrismaClientRepository(prisma);
+  const clientTransactionRepository = new PrismaClientTransactionRepository(prisma);
+  const storeCreditRepository = new PrismaStoreCreditRepository(prisma);
   const userRepository = new PrismaUserRepository(prisma);
   const stockMovementRepository = new PrismaStockMovementRepository(prisma);
+  const stockLotRepository = new PrismaStockLotRepository(prisma);
+  const stockLocationRepository = new PrismaStockLocationRepository(prisma);
+  const productStockRepository = new PrismaProductStockRepository(prisma);
+  const stockTransferRepository = new PrismaStockTransferRepository(prisma);
+  const inventoryCountRepository = new PrismaInventoryCountRepository(prisma);
   const saleRepository = new PrismaSaleRepository(prisma);
+  const saleReturnRepository = new PrismaSaleReturnRepository(prisma);
   const financialRepository = new PrismaFinancialAccountRepository(prisma);
+  const cashFlowRepository = new PrismaCashFlowRepository(prisma);
+  const auditLogRepository = new PrismaAuditLogRepository(prisma);
+  const idempotencyKeyRepository = new PrismaIdempotencyKeyRepository(prisma);
+  const purchaseOrderRepository = new PrismaPurchaseOrderRepository(prisma);
+  const promotionRepository = new PrismaPromotionRepository(prisma);
+  const quoteRepository = new PrismaQuoteRepository(prisma);
+  const cashRegisterRepository = new PrismaCashRegisterRepository(prisma);
+  const unitOfWork = new PrismaUnitOfWork(prisma);
+
+  // Initialize services
+  // Segredo padrão (público no repositório) só em desenvolvimento e testes
+  const isLocalEnv = process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+  const jwtSecret = process.env.JWT_SECRET ?? (isLocalEnv ? 'dev-secret-change-in-production' : undefined);
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET deve ser definido (o segredo padrão só vale com NODE_ENV development ou test)');
+  }
+  const tokenService = new JwtTokenService(
+    jwtSecret,
+    process.env.JWT_EXPIRES_IN ?? '1d'
+  );
+  const passwordHasher = new ScryptPasswordHasher({
+    N: Number(process.env.PASSWORD_HASH_COST ?? 32768),
+    r: 8,
+    p: 1,
+  });
+
+  // Dados da loja impressos no cupom (RF08)
+  const storeInfo = {
+    name: process.env.STORE_NAME ?? process.env.APP_NAME ?? 'Estoque API',
+    document: process.env.STORE_DOCUMENT,
+    address: process.env.STORE_ADDRESS,
+    phone: process.env.STORE_PHONE,
+  };
+
+  // Validade padrão do vale-troca emitido em devoluções e estornos
+  const storeCreditValidityDays = Number(process.env.STORE_CREDIT_VALIDITY_DAYS ?? 90);
+
+  // Validade padrão dos orçamentos
+  const quoteValidityDays = Number(process.env.QUOTE_VALIDITY_DAYS ?? 7);
+
+  // Minutos sem alteração até a venda suspensa expirar
+  const saleDraftTtlMinutes = Number(process.env.SALE_DRAFT_TTL_MINUTES ?? 120);
+
+  // Horas em que uma chave de idempotência devolve a resposta original
+  const idempotencyKeyTtlHours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? 24);
+
+  // Segundos em que uma requisição idempotente sem resposta mantém a chave reservada
+  const idempotencyKeyLeaseSeconds = Number(process.env.IDEMPOTENCY_KEY_LEASE_SECONDS ?? 120);
 
   // Initialize Product Use Cases
-  const createProductUseCase = new CreateProductUseCase(productRepository, categoryRepository, supplierRepository);
+  const createProductUseCase = new CreateProductUseCase(productRepository, categoryRepository, supplierRepository, unitOfWork);
   const getProductByIdUseCase = new GetProductByIdUseCase(productRepository);
   const getProductByBarcodeUseCase = new GetProductByBarcodeUseCase(productRepository);
   const getAllProductsUseCase = new GetAllProductsUseCase(productRepository);
   const getLowStockProductsUseCase = new GetLowStockProductsUseCase(productRepository);
-  const getExpiredProductsUseCase = new GetExpiredProductsUseCase(productRepository);
+  const getExpiredProductsUseCase = new GetExpiredProductsUseCase(productRepository, stockLotRepository);
   const getProductsByCategoryUseCase = new GetProductsByCategoryUseCase(productRepository);
   const getProductsBySupplierUseCase = new GetProductsBySupplierUseCase(productRepository);
-  const updateProductUseCase = new UpdateProductUseCase(productRepository, categoryRepository, supplierRepository);
+  const updateProductUseCase = new UpdateProductUseCase(productRepository, categoryRepository, supplierRepository, auditLogRepository);
   const deleteProductUseCase = new DeleteProductUseCase(productRepository);
 
   // Initialize Category Use Cases
@@ -189,43 +390,127 @@ export function createApp(): Application {
   const deleteClientUseCase = new DeleteClientUseCase(clientRepository);
   const getClientsWithDebtsUseCase = new GetClientsWithDebtsUseCase(clientRepository);
   const getTotalDebtsUseCase = new GetTotalDebtsUseCase(clientRepository);
+  const registerClientPaymentUseCase = new RegisterClientPaymentUseCase(unitOfWork);
+  const getClientStatementUseCase = new GetClientStatementUseCase(clientRepository, clientTransactionRepository, storeCreditRepository);
+  const issueStoreCreditUseCase = new IssueStoreCreditUseCase(unitOfWork, storeCreditValidityDays);
+  const expireStoreCreditsUseCase = new ExpireStoreCreditsUseCase(unitOfWork);
 
   // Initialize User Use Cases
-  const createUserUseCase = new CreateUserUseCase(userRepository);
-  const authenticateUserUseCase = new AuthenticateUserUseCase(userRepository);
+  const createUserUseCase = new CreateUserUseCase(userRepository, passwordHasher, auditLogRepository);
+  const authenticateUserUseCase = new AuthenticateUserUseCase(userRepository, tokenService, passwordHasher, auditLogRepository);
+  const validateAccessTokenUseCase = new ValidateAccessTokenUseCase(userRepository, tokenService);
   const getUserByIdUseCase = new GetUserByIdUseCase(userRepository);
   const getPaginatedUsersUseCase = new GetPaginatedUsersUseCase(userRepository);
-  const updateUserUseCase = new UpdateUserUseCase(userRepository);
-  const deactivateUserUseCase = new DeactivateUserUseCase(userRepository);
-  const changePasswordUseCase = new ChangePasswordUseCase(userRepository);
+  const updateUserUseCase = new UpdateUserUseCase(userRepository, auditLogRepository);
+  const deactivateUserUseCase = new DeactivateUserUseCase(userRepository, auditLogRepository);
+  const changePasswordUseCase = new ChangePasswordUseCase(userRepository, passwordHasher, auditLogRepository);
 
   // Initialize Stock Movement Use Cases
-  const createStockEntryUseCase = new CreateStockEntryUseCase(stockMovementRepository, productRepository);
+  const createStockEntryUseCase = new CreateStockEntryUseCase(unitOfWork);
   const getStockMovementByIdUseCase = new GetStockMovementByIdUseCase(stockMovementRepository);
   const getAllStockMovementsUseCase = new GetAllStockMovementsUseCase(stockMovementRepository);
   const getStockMovementsByProductUseCase = new GetStockMovementsByProductUseCase(stockMovementRepository);
   const getStockMovementsByTypeUseCase = new GetStockMovementsByTypeUseCase(stockMovementRepository);
   const getStockMovementsByDateRangeUseCase = new GetStockMovementsByDateRangeUseCase(stockMovementRepository);
   const getStockReportUseCase = new GetStockReportUseCase(stockMovementRepository, productRepository);
+  const reconcileStockUseCase = new ReconcileStockUseCase(productRepository, stockMovementRepository, productStockRepository, unitOfWork);
+
+  // Initialize Stock Lot Use Cases
+  const getStockLotsUseCase = new GetStockLotsUseCase(stockLotRepository);
+  const getStockLotByIdUseCase = new GetStockLotByIdUseCase(stockLotRepository);
+  const getExpiredStockLotsUseCase = new GetExpiredStockLotsUseCase(stockLotRepository);
+  const getExpiringStockLotsUseCase = new GetExpiringStockLotsUseCase(stockLotRepository);
+
+  // Initialize Stock Location Use Cases
+  const createStockLocationUseCase = new CreateStockLocationUseCase(unitOfWork);
+  const getStockLocationsUseCase = new GetStockLocationsUseCase(stockLocationRepository);
+  const getStockLocationByIdUseCase = new GetStockLocationByIdUseCase(stockLocationRepository);
+  const updateStockLocationUseCase = new UpdateStockLocationUseCase(unitOfWork);
+  const getProductStocksUseCase = new GetProductStocksUseCase(productStockRepository);
+  const getLowStockByLocationUseCase = new GetLowStockByLocationUseCase(productStockRepository, stockLocationRepository);
+  const setLocationMinQuantityUseCase = new SetLocationMinQuantityUseCase(productStockRepository, stockLocationRepository, productRepository);
+  const transferStockUseCase = new TransferStockUseCase(unitOfWork);
+  const getStockTransfersUseCase = new GetStockTransfersUseCase(stockTransferRepository);
+  const getStockTransferByIdUseCase = new GetStockTransferByIdUseCase(stockTransferRepository);
+
+  // Initialize Inventory Count Use Cases
+  const createInventoryCountUseCase = new CreateInventoryCountUseCase(unitOfWork, categoryRepository);
+  const getInventoryCountsUseCase = new GetInventoryCountsUseCase(inventoryCountRepository);
+  const getInventoryCountByIdUseCase = new GetInventoryCountByIdUseCase(inventoryCountRepository);
+  const recordInventoryCountsUseCase = new RecordInventoryCountsUseCase(unitOfWork);
+  const approveInventoryCountUseCase = new ApproveInventoryCountUseCase(unitOfWork);
+  const cancelInventoryCountUseCase = new CancelInventoryCountUseCase(unitOfWork);
 
   // Initialize Sale Use Cases
-  const createSaleUseCase = new CreateSaleUseCase(saleRepository, productRepository, clientRepository, stockMovementRepository);
+  const createSaleUseCase = new CreateSaleUseCase(unitOfWork, storeInfo);
   const getSaleByIdUseCase = new GetSaleByIdUseCase(saleRepository);
   const getPaginatedSalesUseCase = new GetPaginatedSalesUseCase(saleRepository);
-  const cancelSaleUseCase = new CancelSaleUseCase(saleRepository, productRepository, stockMovementRepository, clientRepository);
+  const cancelSaleUseCase = new CancelSaleUseCase(unitOfWork, storeCreditValidityDays);
   const getTodaySalesUseCase = new GetTodaySalesUseCase(saleRepository);
   const getSalesSummaryUseCase = new GetSalesSummaryUseCase(saleRepository);
   const getSalesByDateRangeUseCase = new GetSalesByDateRangeUseCase(saleRepository);
+  const getSaleReceiptUseCase = new GetSaleReceiptUseCase(unitOfWork, storeInfo);
+  const returnSaleItemsUseCase = new ReturnSaleItemsUseCase(unitOfWork, storeCreditValidityDays);
+  const getSaleReturnsUseCase = new GetSaleReturnsUseCase(saleRepository, saleReturnRepository);
+
+  // Initialize Sale Draft Use Cases
+  const createSaleDraftUseCase = new CreateSaleDraftUseCase(unitOfWork, saleDraftTtlMinutes);
+  const getSaleDraftsUseCase = new GetSaleDraftsUseCase(unitOfWork, saleDraftTtlMinutes);
+  const getSaleDraftByIdUseCase = new GetSaleDraftByIdUseCase(unitOfWork, saleDraftTtlMinutes);
+  const addSaleDraftItemUseCase = new AddSaleDraftItemUseCase(unitOfWork, saleDraftTtlMinutes);
+  const removeSaleDraftItemUseCase = new RemoveSaleDraftItemUseCase(unitOfWork, saleDraftTtlMinutes);
+  const discardSaleDraftUseCase = new DiscardSaleDraftUseCase(unitOfWork, saleDraftTtlMinutes);
+  const finalizeSaleDraftUseCase = new FinalizeSaleDraftUseCase(unitOfWork, storeInfo, saleDraftTtlMinutes);
 
   // Initialize Financial Use Cases
   const createPayableUseCase = new CreatePayableAccountUseCase(financialRepository);
   const createReceivableUseCase = new CreateReceivableAccountUseCase(financialRepository);
   const getAccountByIdUseCase = new GetAccountByIdUseCase(financialRepository);
   const getPaginatedAccountsUseCase = new GetPaginatedAccountsUseCase(financialRepository);
-  const registerPaymentUseCase = new RegisterAccountPaymentUseCase(financialRepository);
-  const cancelAccountUseCase = new CancelAccountUseCase(financialRepository);
+  const registerPaymentUseCase = new RegisterAccountPaymentUseCase(unitOfWork);
+  const cancelAccountUseCase = new CancelAccountUseCase(financialRepository, auditLogRepository);
   const getOverdueAccountsUseCase = new GetOverdueAccountsUseCase(financialRepository);
   const getFinancialSummaryUseCase = new GetFinancialSummaryUseCase(financialRepository);
+  const getCashFlowReportUseCase = new GetCashFlowReportUseCase(cashFlowRepository);
+
+  // Initialize Audit Log Use Cases
+  const getAuditLogsUseCase = new GetAuditLogsUseCase(auditLogRepository);
+  const getAuditLogByIdUseCase = new GetAuditLogByIdUseCase(auditLogRepository);
+
+  // Initialize Idempotency Use Cases
+  const beginIdempotentRequestUseCase = new BeginIdempotentRequestUseCase(idempotencyKeyRepository, idempotencyKeyTtlHours, idempotencyKeyLeaseSeconds);
+  const completeIdempotentRequestUseCase = new CompleteIdempotentRequestUseCase(idempotencyKeyRepository);
+  const releaseIdempotentRequestUseCase = new ReleaseIdempotentRequestUseCase(idempotencyKeyRepository);
+
+  // Initialize Purchase Order Use Cases
+  const createPurchaseOrderUseCase = new CreatePurchaseOrderUseCase(purchaseOrderRepository, supplierRepository, productRepository, auditLogRepository);
+  const getPurchaseOrderByIdUseCase = new GetPurchaseOrderByIdUseCase(purchaseOrderRepository, financialRepository);
+  const getPurchaseOrdersUseCase = new GetPurchaseOrdersUseCase(purchaseOrderRepository);
+  const approvePurchaseOrderUseCase = new ApprovePurchaseOrderUseCase(purchaseOrderRepository, auditLogRepository);
+  const cancelPurchaseOrderUseCase = new CancelPurchaseOrderUseCase(purchaseOrderRepository, auditLogRepository);
+  const receivePurchaseOrderUseCase = new ReceivePurchaseOrderUseCase(unitOfWork);
+
+  // Initialize Promotion Use Cases
+  const createPromotionUseCase = new CreatePromotionUseCase(promotionRepository, productRepository, categoryRepository, auditLogRepository);
+  const getPromotionByIdUseCase = new GetPromotionByIdUseCase(promotionRepository);
+  const getPromotionsUseCase = new GetPromotionsUseCase(promotionRepository);
+  const updatePromotionUseCase = new UpdatePromotionUseCase(promotionRepository, productRepository, categoryRepository, auditLogRepository);
+  const deletePromotionUseCase = new DeletePromotionUseCase(promotionRepository, auditLogRepository);
+
+  // Initialize Quote Use Cases
+  const createQuoteUseCase = new CreateQuoteUseCase(unitOfWork, quoteValidityDays);
+  const getQuoteByIdUseCase = new GetQuoteByIdUseCase(quoteRepository);
+  const getQuotesUseCase = new GetQuotesUseCase(quoteRepository);
+  const cancelQuoteUseCase = new CancelQuoteUseCase(unitOfWork);
+  const convertQuoteToSaleUseCase = new ConvertQuoteToSaleUseCase(unitOfWork, storeInfo);
+
+  // Initialize Cash Register Use Cases
+  const openCashRegisterUseCase = new OpenCashRegisterUseCase(unitOfWork);
+  const getCurrentCashRegisterUseCase = new GetCurrentCashRegisterUseCase(cashRegisterRepository, saleRepository);
+  const getCashRegisterByIdUseCase = new GetCashRegisterByIdUseCase(cashRegisterRepository, saleRepository);
+  const getCashRegistersUseCase = new GetCashRegistersUseCase(cashRegisterRepository);
+  const registerCashMovementUseCase = new RegisterCashMovementUseCase(unitOfWork);
+  const closeCashRegisterUseCase = new CloseCashRegisterUseCase(unitOfWork);
 
   // Initialize Controllers
   const productController = new ProductController(
@@ -264,7 +549,11 @@ export function createApp(): Application {
     updateClientUseCase,
     deleteClientUseCase,
     getClientsWithDebtsUseCase,
-    getTotalDebtsUseCase
+    getTotalDebtsUseCase,
+    registerClientPaymentUseCase,
+    getClientStatementUseCase,
+    issueStoreCreditUseCase,
+    expireStoreCreditsUseCase
   );
 
   const userController = new UserController(
@@ -284,7 +573,40 @@ export function createApp(): Application {
     getStockMovementsByProductUseCase,
     getStockMovementsByTypeUseCase,
     getStockMovementsByDateRangeUseCase,
-    getStockReportUseCase
+    getStockReportUseCase,
+    reconcileStockUseCase
+  );
+
+  const stockLotController = new StockLotController(
+    getStockLotsUseCase,
+    getStockLotByIdUseCase,
+    getExpiredStockLotsUseCase,
+    getExpiringStockLotsUseCase
+  );
+
+  const stockLocationController = new StockLocationController(
+    createStockLocationUseCase,
+    getStockLocationsUseCase,
+    getStockLocationByIdUseCase,
+    updateStockLocationUseCase,
+    getProductStocksUseCase,
+    getLowStockByLocationUseCase,
+    setLocationMinQuantityUseCase
+  );
+
+  const stockTransferController = new StockTransferController(
+    transferStockUseCase,
+    getStockTransfersUseCase,
+    getStockTransferByIdUseCase
+  );
+
+  const inventoryCountController = new InventoryCountController(
+    createInventoryCountUseCase,
+    getInventoryCountsUseCase,
+    getInventoryCountByIdUseCase,
+    recordInventoryCountsUseCase,
+    approveInventoryCountUseCase,
+    cancelInventoryCountUseCase
   );
 
   const saleController = new SaleController(
@@ -294,7 +616,20 @@ export function createApp(): Application {
     cancelSaleUseCase,
     getTodaySalesUseCase,
     getSalesSummaryUseCase,
-    getSalesByDateRangeUseCase
+    getSalesByDateRangeUseCase,
+    getSaleReceiptUseCase,
+    returnSaleItemsUseCase,
+    getSaleReturnsUseCase
+  );
+
+  const saleDraftController = new SaleDraftController(
+    createSaleDraftUseCase,
+    getSaleDraftsUseCase,
+    getSaleDraftByIdUseCase,
+    addSaleDraftItemUseCase,
+    removeSaleDraftItemUseCase,
+    discardSaleDraftUseCase,
+    finalizeSaleDraftUseCase
   );
 
   const financialController = new FinancialController(
@@ -305,20 +640,83 @@ export function createApp(): Application {
     registerPaymentUseCase,
     cancelAccountUseCase,
     getOverdueAccountsUseCase,
-    getFinancialSummaryUseCase
+    getFinancialSummaryUseCase,
+    getCashFlowReportUseCase
+  );
+
+  const purchaseOrderController = new PurchaseOrderController(
+    createPurchaseOrderUseCase,
+    getPurchaseOrderByIdUseCase,
+    getPurchaseOrdersUseCase,
+    approvePurchaseOrderUseCase,
+    cancelPurchaseOrderUseCase,
+    receivePurchaseOrderUseCase
+  );
+
+  const promotionController = new PromotionController(
+    createPromotionUseCase,
+    getPromotionByIdUseCase,
+    getPromotionsUseCase,
+    updatePromotionUseCase,
+    deletePromotionUseCase
+  );
+
+  const quoteController = new QuoteController(
+    createQuoteUseCase,
+    getQuoteByIdUseCase,
+    getQuotesUseCase,
+    cancelQuoteUseCase,
+    convertQuoteToSaleUseCase
+  );
+
+  const cashRegisterController = new CashRegisterController(
+    openCashRegisterUseCase,
+    getCurrentCashRegisterUseCase,
+    getCashRegisterByIdUseCase,
+    getCashRegistersUseCase,
+    registerCashMovementUseCase,
+    closeCashRegisterUseCase
+  );
+
+  const auditLogController = new AuditLogController(
+    getAuditLogsUseCase,
+    getAuditLogByIdUseCase
   );
 
   // Register routes
   const apiPrefix = '/api/v1';
-  
+
+  // Rotas públicas (login) - antes do middleware de autenticação
+  app.use(`${apiPrefix}/users`, createAuthRoutes(userController));
+
+  // Todas as rotas abaixo exigem token de acesso válido
+  app.use(apiPrefix, createAuthMiddleware(validateAccessTokenUseCase));
+
+  // Repetição segura (cabeçalho Idempotency-Key) nas operações que gravam dinheiro ou estoque
+  const idempotent = createIdempotencyMiddleware(
+    beginIdempotentRequestUseCase,
+    completeIdempotentRequestUseCase,
+    releaseIdempotentRequestUseCase
+  );
+
   app.use(`${apiPrefix}/products`, createProductRoutes(productController));
   app.use(`${apiPrefix}/categories`, createCategoryRoutes(categoryController));
   app.use(`${apiPrefix}/suppliers`, createSupplierRoutes(supplierController));
   app.use(`${apiPrefix}/clients`, createClientRoutes(clientController));
   app.use(`${apiPrefix}/users`, createUserRoutes(userController));
-  app.use(`${apiPrefix}/stock-movements`, createStockMovementRoutes(stockMovementController));
-  app.use(`${apiPrefix}/sales`, createSaleRoutes(saleController));
-  app.use(`${apiPrefix}/financial`, createFinancialRoutes(financialController));
+  app.use(`${apiPrefix}/stock-movements`, createStockMovementRoutes(stockMovementController, idempotent));
+  app.use(`${apiPrefix}/stock-lots`, createStockLotRoutes(stockLotController));
+  app.use(`${apiPrefix}/stock-locations`, createStockLocationRoutes(stockLocationController));
+  app.use(`${apiPrefix}/stock-transfers`, createStockTransferRoutes(stockTransferController, idempotent));
+  app.use(`${apiPrefix}/inventory-counts`, createInventoryCountRoutes(inventoryCountController, idempotent));
+  app.use(`${apiPrefix}/sales`, createSaleRoutes(saleController, idempotent));
+  app.use(`${apiPrefix}/sale-drafts`, createSaleDraftRoutes(saleDraftController));
+  app.use(`${apiPrefix}/financial`, createFinancialRoutes(financialController, idempotent));
+  app.use(`${apiPrefix}/audit-logs`, createAuditLogRoutes(auditLogController));
+  app.use(`${apiPrefix}/purchase-orders`, createPurchaseOrderRoutes(purchaseOrderController));
+  app.use(`${apiPrefix}/promotions`, createPromotionRoutes(promotionController));
+  app.use(`${apiPrefix}/quotes`, createQuoteRoutes(quoteController));
+  app.use(`${apiPrefix}/cash-registers`, createCashRegisterRoutes(cashRegisterController));
 
   // 404 handler
   app.use((req: Request, res: Response) => {
@@ -0,0 +1,70 @@
+// ============================================================================
+// DTOs DE AUDITORIA
+// ============================================================================
+// 
+// O log de auditoria (RF22) registra QUEM fez O QUÊ, QUANDO e DE ONDE
+// nas operações críticas do sistema:
+// 
+// - Logins (inclusive tentativas recusadas)
+// - Criação e cancelamento de vendas
+// - Movimentações manuais de estoque
+// - Pagamento e cancelamento de contas
+// - Alterações de preço
+// - Alterações de usuários
+// 
+// Alterações guardam somente os campos modificados, no formato:
+// { "before": { "salePrice": 10 }, "after": { "salePrice": 12 } }
+// 
+// ============================================================================
+
+import { AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+
+/**
+ * DTO com o contexto da requisição que originou a ação
+ * 
+ * @description
+ * Preenchido pela camada de apresentação (usuário do token e IP)
+ * e repassado aos casos de uso que geram logs de auditoria.
+ */
+export interface AuditContextDTO {
+  /** Usuário autenticado que executou a ação */
+  userId?: string;
+
+  /** Endereço IP de origem */
+  ipAddress?: string;
+}
+
+/**
+ * DTO para filtros de busca de logs de auditoria
+ * 
+ * @example
+ * ```typescript
+ * // Alterações de preço de um produto no mês
+ * const filters: AuditLogFiltersDTO = {
+ *   entity: AuditEntity.PRODUCT,
+ *   entityId: 'uuid-do-produto',
+ *   action: AuditAction.PRICE_CHANGE,
+ *   startDate: new Date('2025-12-01'),
+ *   endDate: new Date('2025-12-31')
+ * };
+ * ```
+ */
+export interface AuditLogFiltersDTO {
+  /** Usuário que realizou a ação */
+  userId?: string;
+
+  /** Entidade afetada */
+  entity?: AuditEntity;
+
+  /** ID da entidade afetada */
+  entityId?: string;
+
+  /** Ação realizada */
+  action?: AuditAction;
+
+  /** Data inicial */
+  startDate?: Date;
+
+  /** Data final */
+  endDate?: Date;
+}
@@ -0,0 +1,157 @@
+// ============================================================================
+// DTOs DE CAIXA (ABERTURA E FECHAMENTO)
+// ============================================================================
+//
+// FLUXO DE UM CAIXA:
+//
+// 1. ABERTURA (OPEN)
+//    - O operador informa o caixa (terminal) e o fundo de troco
+//    - Cada operador e cada caixa têm no máximo uma sessão aberta
+//
+// 2. OPERAÇÃO
+//    - As vendas do operador são vinculadas à sessão aberta
+//    - Sangria: retirada de dinheiro da gaveta (não pode passar do que há nela)
+//    - Suprimento: reforço de dinheiro na gaveta
+//
+// 3. FECHAMENTO (CLOSED)
+//    - O operador informa o valor contado em dinheiro, cartão e PIX
+//    - O relatório compara esperado x contado e mostra a diferença
+//
+// Operar o caixa de outro usuário (sangria, fechamento) exige GERENTE/ADMIN.
+//
+// ============================================================================
+
+import { PaymentMethod } from '../../domain/entities/Sale';
+import {
+  CashRegisterSession,
+  CashRegisterStatus,
+  CashRegisterReport,
+} from '../../domain/entities/CashRegisterSession';
+import { CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+
+/**
+ * DTO para abertura de caixa
+ *
+ * @example
+ * ```typescript
+ * const dto: OpenCashRegisterDTO = {
+ *   userId: 'uuid-operador',
+ *   terminal: 'Caixa 02',
+ *   openingFloat: 150
+ * };
+ * ```
+ */
+export interface OpenCashRegisterDTO {
+  /**
+   * Operador do caixa
+   * - Preenchido pelo controller a partir do token de acesso
+   */
+  userId: string;
+
+  /**
+   * Identificação do caixa
+   * - Opcional (padrão: "Caixa 01")
+   */
+  terminal?: string;
+
+  /**
+   * Fundo de troco colocado na gaveta
+   * - Obrigatório (pode ser zero)
+   */
+  openingFloat: number;
+
+  /** Observações da abertura */
+  notes?: string;
+}
+
+/**
+ * DTO para sangria ou suprimento
+ */
+export interface CashRegisterMovementDTO {
+  /** Sessão de caixa */
+  sessionId: string;
+
+  /** WITHDRAWAL (sangria) ou DEPOSIT (suprimento) */
+  type: CashRegisterMovementType;
+
+  /** Valor (maior que zero) */
+  amount: number;
+
+  /**
+   * Motivo
+   * - Obrigatório
+   * - Ex: "Recolhimento ao cofre", "Reforço de troco"
+   */
+  reason: string;
+
+  /** Usuário que registrou (token de acesso) */
+  userId: string;
+
+  /** Usuário pode operar o caixa de outro operador (GERENTE/ADMIN) */
+  canSupervise?: boolean;
+}
+
+/**
+ * DTO para fechamento de caixa
+ *
+ * @example
+ * ```typescript
+ * const dto: CloseCashRegisterDTO = {
+ *   sessionId: 'uuid-sessao',
+ *   userId: 'uuid-operador',
+ *   counted: { CASH: 412.50, CARD: 830.00, PIX: 215.90 }
+ * };
+ * ```
+ */
+export interface CloseCashRegisterDTO {
+  /** Sessão de caixa */
+  sessionId: string;
+
+  /**
+   * Valores contados por forma de pagamento
+   * - Obrigatório para as formas que tiveram movimento
+   * - Fiado não é contado (não entra na gaveta)
+   */
+  counted: Partial<Record<PaymentMethod, number>>;
+
+  /** Observações do fechamento (ex.: justificativa da diferença) */
+  notes?: string;
+
+  /** Usuário que fecha o caixa (token de acesso) */
+  userId: string;
+
+  /** Usuário pode fechar o caixa de outro operador (GERENTE/ADMIN) */
+  canSupervise?: boolean;
+}
+
+/**
+ * DTO para filtros de busca de sessões de caixa
+ */
+export interface CashRegisterFiltersDTO {
+  /** Filtrar por operador */
+  userId?: string;
+
+  /** Filtrar por caixa */
+  terminal?: string;
+
+  /** Filtrar por status (OPEN, CLOSED) */
+  status?: CashRegisterStatus;
+
+  /** Abertura a partir de */
+  startDate?: Date;
+
+  /** Abertura até */
+  endDate?: Date;
+}
+
+/**
+ * DTO de resposta com a sessão e seu relatório
+ *
+ * @description
+ * Caixa aberto: relatório parcial (sem valores contados).
+ * Caixa fechado: relatório gravado no fechamento.
+ */
+export interface CashRegisterDetailsDTO {
+  session: CashRegisterSession;
+  report: CashRegisterReport;
+}
@@ -12,14 +12,27 @@
 // 2. Cliente tem um débito atual (currentDebt)
 // 3. Regra: currentDebt não pode ultrapassar creditLimit
 // 4. Cliente paga as dívidas e débito diminui
+// 5. Cada compra (DEBIT) e pagamento (CREDIT) vira um lançamento no extrato
 // 
 // EXEMPLO:
 // - Limite: R$ 500,00
 // - Débito atual: R$ 200,00
 // - Pode comprar mais R$ 300,00 no fiado
 // 
+// VALE-TROCA (CRÉDITO NA LOJA):
+// 
+// 1. Cliente recebe crédito em devoluções ou por lançamento do gerente
+// 2. O crédito tem validade; o que vencer sem uso é baixado
+// 3. O crédito é usado como forma de pagamento (STORE_CREDIT) em vendas
+// 
 // ============================================================================
 
+import { ClientTransaction, ClientTransactionType } from '../../domain/entities/ClientTransaction';
+import {
+  StoreCreditTransaction,
+  StoreCreditTransactionType,
+} from '../../domain/entities/StoreCreditTransaction';
+
 /**
  * DTO para criação de cliente
  * 
@@ -157,3 +170,194 @@ export interface DebtReportDTO {
     creditLimit: number;
   }>;
 }
+
+/**
+ * DTO para registro de pagamento do fiado
+ * 
+ * @description
+ * O pagamento pode ser parcial ou total. O valor é abatido do débito e
+ * as vendas fiado pendentes são quitadas da mais antiga para a mais nova,
+ * enquanto o valor acumulado cobrir o total de cada uma. O dinheiro entra
+ * no caixa aberto de quem recebe.
+ * 
+ * @example
+ * ```typescript
+ * const dto: RegisterClientPaymentDTO = {
+ *   userId: 'uuid-operador',
+ *   amount: 50,
+ *   description: 'Pagamento em dinheiro no balcão'
+ * };
+ * ```
+ */
+export interface RegisterClientPaymentDTO {
+  /**
+   * ID do operador que recebe o pagamento
+   * - Preenchido pelo controller a partir do token de acesso
+   * - Precisa ter caixa aberto
+   */
+  userId: string;
+
+  /**
+   * Valor pago
+   * - Obrigatório
+   * - Maior que zero e até o débito atual
+   */
+  amount: number;
+
+  /** Descrição do pagamento (opcional) */
+  description?: string;
+}
+
+/**
+ * DTO de resposta do pagamento do fiado
+ */
+export interface ClientPaymentResultDTO {
+  /** Transação de crédito registrada */
+  transaction: ClientTransaction;
+
+  /** Débito restante do cliente */
+  remainingDebt: number;
+
+  /** IDs das vendas fiado quitadas por este pagamento */
+  paidSaleIds: string[];
+}
+
+/**
+ * Linha do extrato do cliente
+ */
+export interface ClientStatementEntryDTO {
+  id?: string;
+  date?: Date;
+  type: ClientTransactionType;
+  description?: string | null;
+  saleId?: string | null;
+  amount: number;
+
+  /** Saldo devedor após o lançamento */
+  balance: number;
+}
+
+/**
+ * DTO de resposta do extrato do cliente
+ * 
+ * @description
+ * Lançamentos do período com saldo acumulado, partindo do saldo
+ * devedor existente antes da data inicial.
+ */
+export interface ClientStatementDTO {
+  clientId: string;
+  clientName: string;
+  startDate?: Date;
+  endDate?: Date;
+
+  /** Saldo devedor antes do período */
+  openingBalance: number;
+
+  /** Total de compras fiado no período */
+  totalDebits: number;
+
+  /** Total de pagamentos/estornos no período */
+  totalCredits: number;
+
+  /** Saldo devedor ao final do período */
+  closingBalance: number;
+
+  entries: ClientStatementEntryDTO[];
+
+  /** Extrato do vale-troca no mesmo período */
+  storeCredit: StoreCreditStatementDTO;
+}
+
+/**
+ * Linha do extrato do vale-troca
+ */
+export interface StoreCreditStatementEntryDTO {
+  id?: string;
+  date?: Date;
+  type: StoreCreditTransactionType;
+  description?: string | null;
+  saleId?: string | null;
+  amount: number;
+
+  /** Validade (emissões) */
+  expiresAt?: Date | null;
+
+  /** Saldo de vale-troca após o lançamento */
+  balance: number;
+}
+
+/**
+ * Extrato do vale-troca do cliente
+ */
+export interface StoreCreditStatementDTO {
+  /** Saldo antes do período */
+  openingBalance: number;
+
+  /** Total emitido no período */
+  totalIssued: number;
+
+  /** Total usado em vendas no período */
+  totalRedeemed: number;
+
+  /** Total vencido no período */
+  totalExpired: number;
+
+  /** Saldo ao final do período */
+  closingBalance: number;
+
+  /** Crédito utilizável hoje (emissões ainda não vencidas) */
+  available: number;
+
+  entries: StoreCreditStatementEntryDTO[];
+}
+
+/**
+ * DTO para emissão manual de vale-troca
+ * 
+ * @description
+ * Crédito concedido pelo gerente fora de uma devolução (ex: cortesia,
+ * acerto de troco). Vale por `validityDays` ou pela validade padrão.
+ * 
+ * @example
+ * ```typescript
+ * const dto: IssueStoreCreditDTO = {
+ *   amount: 20,
+ *   reason: 'Produto entregue com defeito',
+ *   userId: 'uuid-gerente'
+ * };
+ * ```
+ */
+export interface IssueStoreCreditDTO {
+  /**
+   * Valor do crédito
+   * - Obrigatório
+   * - Maior que zero
+   */
+  amount: number;
+
+  /** Motivo da emissão (obrigatório) */
+  reason: string;
+
+  /** Dias de validade (padrão da loja se omitido) */
+  validityDays?: number;
+
+  /** Usuário que emitiu o crédito */
+  userId: string;
+}
+
+/**
+ * DTO de resposta da baixa de vale-troca vencido
+ */
+export interface ExpireStoreCreditsResultDTO {
+  /** Data de referência da baixa */
+  expiredAt: Date;
+
+  /** Clientes que tiveram crédito baixado */
+  clientIds: string[];
+
+  /** Lançamentos EXPIRE registrados */
+  transactions: StoreCreditTransaction[];
+
+  /** Valor total baixado */
+  totalAmount: number;
+}
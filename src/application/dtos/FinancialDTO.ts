@@ -25,10 +25,13 @@
 // 
 // FLUXO DE CAIXA:
 // Entradas - Saídas = Saldo
+// Lançado automaticamente por vendas pagas, pagamentos de fiado, contas
+// pagas/recebidas e cancelamentos de vendas pagas (RF16).
 // 
 // ============================================================================
 
 import { AccountCategory } from '../../domain/entities/FinancialAccount';
+import { CashFlowType, CashFlowCategory } from '../../domain/entities/CashFlow';
 
 /**
  * DTO para criação de conta financeira
@@ -211,3 +214,94 @@ export interface FinancialSummaryDTO {
    */
   overdueAmount: number;
 }
+
+/**
+ * Agrupamento do relatório de fluxo de caixa
+ * - daily: por dia (AAAA-MM-DD)
+ * - monthly: por mês (AAAA-MM)
+ * - yearly: por ano (AAAA)
+ */
+export type CashFlowGrouping = 'daily' | 'monthly' | 'yearly';
+
+/**
+ * Total de uma categoria no fluxo de caixa
+ */
+export interface CashFlowCategoryTotalDTO {
+  /** Entrada ou saída */
+  type: CashFlowType;
+
+  /** Categoria do lançamento */
+  category: CashFlowCategory;
+
+  /** Soma dos lançamentos */
+  total: number;
+
+  /** Quantidade de lançamentos */
+  count: number;
+}
+
+/**
+ * Movimento do caixa em um período (dia, mês ou ano)
+ */
+export interface CashFlowPeriodDTO {
+  /** Identificação do período (ex.: '2026-10-19', '2026-10', '2026') */
+  period: string;
+
+  /** Saldo no início do período */
+  openingBalance: number;
+
+  /** Total de entradas */
+  income: number;
+
+  /** Total de saídas */
+  expense: number;
+
+  /** Entradas - saídas */
+  net: number;
+
+  /** Saldo no fim do período */
+  closingBalance: number;
+
+  /** Totais por categoria */
+  categories: CashFlowCategoryTotalDTO[];
+}
+
+/**
+ * DTO de resposta do relatório de fluxo de caixa (RF16)
+ *
+ * @description
+ * O saldo inicial é formado por todos os lançamentos anteriores ao
+ * período; o saldo final é o saldo inicial mais o resultado do período.
+ * Somente períodos com lançamentos aparecem em `periods`.
+ */
+export interface CashFlowReportDTO {
+  /** Início do período consultado */
+  startDate: Date;
+
+  /** Fim do período consultado */
+  endDate: Date;
+
+  /** Agrupamento usado */
+  groupBy: CashFlowGrouping;
+
+  /** Saldo antes do período */
+  openingBalance: number;
+
+  /** Total de entradas no período */
+  totalIncome: number;
+
+  /** Total de saídas no período */
+  totalExpense: number;
+
+  /** Resultado do período (entradas - saídas) */
+  netFlow: number;
+
+  /** Saldo ao fim do período */
+  closingBalance: number;
+
+  /** Totais por categoria no período inteiro */
+  categories: CashFlowCategoryTotalDTO[];
+
+  /** Movimento agrupado por dia, mês ou ano */
+  periods: CashFlowPeriodDTO[];
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// DTOs DE IDEMPOTÊNCIA
+// ============================================================================
+// 
+// O front-end repete POST /sales (e outras operações que movimentam
+// dinheiro ou estoque) quando a rede falha. Para a repetição não duplicar a
+// operação, o cliente envia o cabeçalho `Idempotency-Key` com um valor
+// único por operação (ex: um UUID gerado ao clicar em "Finalizar").
+// 
+// FLUXO:
+// 
+// 1. PRIMEIRA REQUISIÇÃO
+//    - A chave é reservada e a operação é executada
+//    - Resposta de sucesso (2xx) é guardada junto com a chave
+//    - Resposta de erro libera a chave (a operação não aconteceu)
+// 
+// 2. REPETIÇÃO (mesma chave, dentro da janela de retenção)
+//    - Mesma requisição -> devolve a resposta guardada, sem executar de novo
+//    - Corpo diferente -> rejeitada (422)
+//    - Original ainda em processamento -> 409
+// 
+// ============================================================================
+
+/**
+ * DTO para início de uma requisição idempotente
+ * 
+ * @example
+ * ```typescript
+ * const dto: BeginIdempotentRequestDTO = {
+ *   userId: 'uuid-operador',
+ *   key: '3f1c9a2e-7b41-4c55-9d0e-1a2b3c4d5e6f',
+ *   method: 'POST',
+ *   path: '/api/v1/sales',
+ *   requestHash: 'e3b0c44298fc1c149afbf4c8996fb924...'
+ * };
+ * ```
+ */
+export interface BeginIdempotentRequestDTO {
+  /** Usuário autenticado (a chave vale por usuário) */
+  userId: string;
+
+  /** Valor do cabeçalho Idempotency-Key */
+  key: string;
+
+  /** Método HTTP */
+  method: string;
+
+  /** Caminho da requisição */
+  path: string;
+
+  /** Hash do corpo da requisição */
+  requestHash: string;
+}
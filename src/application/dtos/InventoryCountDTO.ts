@@ -0,0 +1,118 @@
+// ============================================================================
+// DTOs DE INVENTÁRIO (CONTAGEM FÍSICA)
+// ============================================================================
+// 
+// O inventário substitui os ajustes lançados produto a produto na
+// contagem mensal.
+// 
+// FLUXO:
+// 
+// 1. ABERTURA
+//    - Local (padrão: local padrão) e, opcionalmente, uma categoria
+//    - Guarda o saldo esperado de cada produto ativo no local
+//    - Um local não pode ter dois inventários abertos do mesmo escopo
+// 
+// 2. CONTAGEM
+//    - Cada usuário lança as quantidades que contou
+//    - Vale a última contagem de cada usuário; contagens diferentes
+//      deixam o produto divergente até uma recontagem
+// 
+// 3. APROVAÇÃO
+//    - Exige que nenhum produto esteja divergente
+//    - Lança um ADJUSTMENT só para os produtos contados com diferença:
+//      o saldo atual do local recebe a diferença (contado - esperado)
+//    - Produtos não contados ficam como estão
+// 
+// ============================================================================
+
+import { InventoryCount, InventoryCountStatus } from '../../domain/entities/InventoryCount';
+import { StockMovement } from '../../domain/entities/StockMovement';
+
+/**
+ * DTO para abertura de inventário
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreateInventoryCountDTO = {
+ *   userId: 'uuid-gerente',
+ *   locationId: 'uuid-deposito',
+ *   categoryId: 'uuid-bebidas',
+ *   notes: 'Inventário mensal de outubro'
+ * };
+ * ```
+ */
+export interface CreateInventoryCountDTO {
+  /** Usuário que abre o inventário */
+  userId: string;
+
+  /** Local contado (padrão: local padrão) */
+  locationId?: string;
+
+  /** Categoria contada (padrão: todos os produtos ativos) */
+  categoryId?: string;
+
+  /** Observações */
+  notes?: string;
+}
+
+/**
+ * Quantidade contada de um produto
+ */
+export interface InventoryCountEntryDTO {
+  /** ID do produto (deve fazer parte do inventário) */
+  productId: string;
+
+  /** Quantidade encontrada (inteiro >= 0) */
+  quantity: number;
+}
+
+/**
+ * DTO para lançamento de contagens
+ * 
+ * @example
+ * ```typescript
+ * const dto: RecordInventoryCountsDTO = {
+ *   userId: 'uuid-repositor',
+ *   items: [
+ *     { productId: 'uuid-refri', quantity: 46 },
+ *     { productId: 'uuid-suco', quantity: 12 }
+ *   ]
+ * };
+ * ```
+ */
+export interface RecordInventoryCountsDTO {
+  /** Quem contou (recontagem substitui a contagem anterior do mesmo usuário) */
+  userId: string;
+
+  /**
+   * Produtos contados
+   * - Obrigatório
+   * - Pelo menos 1 item, sem produtos repetidos
+   */
+  items: InventoryCountEntryDTO[];
+}
+
+/**
+ * DTO de resposta da aprovação
+ */
+export interface ApproveInventoryCountResultDTO {
+  /** Inventário aprovado */
+  count: InventoryCount;
+
+  /** Ajustes lançados (um por produto contado com diferença) */
+  movements: StockMovement[];
+}
+
+/**
+ * DTO para filtros de busca de inventários
+ */
+export interface InventoryCountFiltersDTO {
+  /** Filtrar por local */
+  locationId?: string;
+
+  /** Filtrar por categoria */
+  categoryId?: string;
+
+  /** Filtrar por status */
+  status?: InventoryCountStatus;
+}
@@ -0,0 +1,111 @@
+// ============================================================================
+// DTOs DE PROMOÇÃO
+// ============================================================================
+// 
+// Promoções são aplicadas automaticamente no caixa: ao registrar a venda,
+// cada item recebe o desconto da melhor promoção válida para ele.
+// 
+// TIPOS:
+// - PERCENTAGE:   10 → 10% de desconto no item
+// - FIXED_AMOUNT: 1.50 → R$ 1,50 de desconto por unidade
+// - BUY_X_GET_Y:  buyQuantity 2, getQuantity 1, value 100 → leve 3 pague 2
+// 
+// ESCOPO:
+// - productIds e categoryIds restringem os produtos da promoção
+// - Omitidos (ou null) = todos os produtos/categorias
+// 
+// ============================================================================
+
+import { PromotionType } from '../../domain/entities/Promotion';
+
+/**
+ * DTO para criação de promoção
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreatePromotionDTO = {
+ *   name: 'Leve 3 pague 2 - Refrigerantes',
+ *   type: PromotionType.BUY_X_GET_Y,
+ *   value: 100,
+ *   buyQuantity: 2,
+ *   getQuantity: 1,
+ *   startDate: new Date('2026-10-01'),
+ *   endDate: new Date('2026-10-31T23:59:59'),
+ *   categoryIds: ['uuid-bebidas']
+ * };
+ * ```
+ */
+export interface CreatePromotionDTO {
+  /**
+   * Nome da promoção
+   * - Obrigatório
+   * - Aparece no cupom da venda
+   */
+  name: string;
+
+  /** Descrição (opcional) */
+  description?: string;
+
+  /**
+   * Tipo da promoção
+   * @see PromotionType
+   */
+  type: PromotionType;
+
+  /**
+   * Valor do desconto
+   * - PERCENTAGE e BUY_X_GET_Y: percentual (até 100)
+   * - FIXED_AMOUNT: reais por unidade
+   */
+  value: number;
+
+  /** BUY_X_GET_Y: quantidade que o cliente paga (X) */
+  buyQuantity?: number;
+
+  /** BUY_X_GET_Y: quantidade bonificada (Y) */
+  getQuantity?: number;
+
+  /**
+   * Valor mínimo da compra (bruto, antes de descontos)
+   * - Opcional
+   */
+  minPurchase?: number;
+
+  /** Início da promoção */
+  startDate: Date;
+
+  /** Fim da promoção (inclusive) */
+  endDate: Date;
+
+  /** Promoção ativa (padrão: true) */
+  isActive?: boolean;
+
+  /** Produtos participantes (omitido = todos) */
+  productIds?: string[] | null;
+
+  /** Categorias participantes (omitido = todas) */
+  categoryIds?: string[] | null;
+}
+
+/**
+ * DTO para atualização de promoção
+ * 
+ * @description
+ * Todos os campos são opcionais; os não informados mantêm o valor atual.
+ * Envie `null` em productIds/categoryIds para voltar a valer para todos.
+ */
+export type UpdatePromotionDTO = Partial<CreatePromotionDTO>;
+
+/**
+ * DTO para filtros de busca de promoções
+ */
+export interface PromotionFiltersDTO {
+  /** Filtrar por tipo */
+  type?: PromotionType;
+
+  /** Filtrar por ativa/inativa */
+  isActive?: boolean;
+
+  /** Somente promoções valendo agora */
+  running?: boolean;
+}
@@ -0,0 +1,241 @@
+// ============================================================================
+// DTOs DE PEDIDO DE COMPRA
+// ============================================================================
+//
+// Pedido de compra é a encomenda de mercadorias a um fornecedor (RF14).
+//
+// FLUXO DE UM PEDIDO:
+//
+// 1. CRIAÇÃO (PENDING)
+//    - Fornecedor e itens (produto + quantidade + custo) são informados
+//    - O total é calculado a partir dos itens
+//
+// 2. APROVAÇÃO (APPROVED)
+//    - Somente GERENTE ou ADMIN
+//
+// 3. RECEBIMENTO (RECEIVED)
+//    - Mercadoria chega e entra no estoque (movimentação ENTRY por item)
+//    - Entregas parciais mantêm o pedido APPROVED até tudo chegar
+//    - O custo entregue atualiza o preço de custo do produto
+//    - Cada entrega gera contas a pagar (categoria SUPPLIER) parceladas
+//      conforme a condição de pagamento (ex.: 30/60/90 dias)
+//
+// Pedidos pendentes ou aprovados podem ser cancelados (CANCELLED).
+//
+// ============================================================================
+
+import { PurchaseOrder, PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+import { StockMovement } from '../../domain/entities/StockMovement';
+import { FinancialAccount } from '../../domain/entities/FinancialAccount';
+
+/**
+ * DTO para um item do pedido de compra
+ *
+ * @example
+ * ```typescript
+ * const item: PurchaseItemDTO = {
+ *   productId: 'uuid-arroz',
+ *   quantity: 20,
+ *   unitPrice: 18.50
+ * };
+ * ```
+ */
+export interface PurchaseItemDTO {
+  /**
+   * ID do produto
+   * - Obrigatório
+   * - Não pode se repetir no mesmo pedido
+   */
+  productId: string;
+
+  /**
+   * Quantidade solicitada
+   * - Obrigatório
+   * - Número inteiro maior que zero
+   */
+  quantity: number;
+
+  /**
+   * Custo unitário negociado
+   * - Opcional (padrão: preço de custo atual do produto)
+   */
+  unitPrice?: number;
+}
+
+/**
+ * DTO para criação de pedido de compra
+ *
+ * @example
+ * ```typescript
+ * const dto: CreatePurchaseOrderDTO = {
+ *   supplierId: 'uuid-fornecedor',
+ *   expectedDate: new Date('2026-11-05'),
+ *   items: [
+ *     { productId: 'uuid-arroz', quantity: 20, unitPrice: 18.50 },
+ *     { productId: 'uuid-feijao', quantity: 30 }
+ *   ],
+ *   notes: 'Entregar pela manhã'
+ * };
+ * ```
+ */
+export interface CreatePurchaseOrderDTO {
+  /**
+   * ID do fornecedor
+   * - Obrigatório
+   */
+  supplierId: string;
+
+  /**
+   * Itens do pedido
+   * - Obrigatório
+   * - Pelo menos 1 item
+   */
+  items: PurchaseItemDTO[];
+
+  /** Data prevista de entrega (opcional) */
+  expectedDate?: Date;
+
+  /**
+   * Condição de pagamento (ex.: "30/60/90")
+   * - Opcional (padrão: condição cadastrada no fornecedor, ou 30 dias)
+   */
+  paymentTerms?: string;
+
+  /** Observações (opcional) */
+  notes?: string;
+}
+
+/**
+ * DTO para um item entregue no recebimento
+ */
+export interface ReceivedItemDTO {
+  /**
+   * ID do produto
+   * - Obrigatório
+   * - Deve fazer parte do pedido
+   */
+  productId: string;
+
+  /**
+   * Quantidade entregue nesta remessa
+   * - Obrigatório
+   * - Número inteiro maior que zero (pode exceder o que falta)
+   */
+  quantity: number;
+
+  /**
+   * Custo unitário cobrado
+   * - Opcional (padrão: custo negociado no pedido)
+   */
+  unitPrice?: number;
+
+  /** Validade do lote entregue (opcional) */
+  expirationDate?: Date;
+
+  /** Código do lote impresso na embalagem (opcional) */
+  lotCode?: string;
+}
+
+/**
+ * DTO para recebimento (total ou parcial) de pedido de compra
+ *
+ * @example
+ * ```typescript
+ * // Fornecedor entregou só parte do arroz, com custo reajustado
+ * const dto: ReceivePurchaseOrderDTO = {
+ *   items: [{ productId: 'uuid-arroz', quantity: 12, unitPrice: 19.00 }]
+ * };
+ * ```
+ */
+export interface ReceivePurchaseOrderDTO {
+  /**
+   * Itens entregues
+   * - Obrigatório
+   * - Pelo menos 1 item, sem produtos repetidos
+   */
+  items: ReceivedItemDTO[];
+
+  /** Observação da entrega (ex.: número da nota fiscal) */
+  notes?: string;
+
+  /** Local que recebe a mercadoria (padrão: local padrão) */
+  locationId?: string;
+}
+
+/**
+ * DTO de resposta do recebimento
+ */
+export interface ReceivePurchaseOrderResultDTO {
+  /** Pedido atualizado */
+  order: PurchaseOrder;
+
+  /** Movimentações de entrada geradas */
+  movements: StockMovement[];
+
+  /** Contas a pagar geradas para a entrega */
+  payables: FinancialAccount[];
+}
+
+/**
+ * Situação de pagamento das contas de um pedido
+ * - NOT_BILLED: nenhuma conta gerada (nada recebido)
+ * - PENDING: contas em aberto, nenhuma paga
+ * - PARTIALLY_PAID: parte das parcelas paga
+ * - PAID: todas as parcelas pagas
+ * - OVERDUE: existe parcela vencida em aberto
+ */
+export type PurchaseOrderPaymentStatus = 'NOT_BILLED' | 'PENDING' | 'PARTIALLY_PAID' | 'PAID' | 'OVERDUE';
+
+/**
+ * DTO com o resumo das contas a pagar do pedido
+ */
+export interface PurchaseOrderPaymentSummaryDTO {
+  /** Situação consolidada */
+  status: PurchaseOrderPaymentStatus;
+
+  /** Quantidade de parcelas (exceto canceladas) */
+  installments: number;
+
+  /** Valor total faturado */
+  totalBilled: number;
+
+  /** Valor já pago */
+  totalPaid: number;
+
+  /** Valor em aberto */
+  totalPending: number;
+
+  /** Valor vencido em aberto */
+  totalOverdue: number;
+}
+
+/**
+ * DTO de detalhe do pedido com suas contas a pagar
+ */
+export interface PurchaseOrderDetailsDTO {
+  /** Pedido de compra */
+  order: PurchaseOrder;
+
+  /** Contas a pagar vinculadas (referenceId = ID do pedido) */
+  payables: FinancialAccount[];
+
+  /** Resumo da situação de pagamento */
+  payment: PurchaseOrderPaymentSummaryDTO;
+}
+
+/**
+ * DTO para filtros de busca de pedidos de compra
+ */
+export interface PurchaseOrderFiltersDTO {
+  /** Filtrar por fornecedor */
+  supplierId?: string;
+
+  /** Filtrar por status */
+  status?: PurchaseOrderStatus;
+
+  /** Data inicial (criação) */
+  startDate?: Date;
+
+  /** Data final (criação) */
+  endDate?: Date;
+}
@@ -0,0 +1,150 @@
+// ============================================================================
+// DTOs DE ORÇAMENTO
+// ============================================================================
+// 
+// Orçamento é a proposta de preço entregue ao cliente (ex: atacado) antes
+// da compra.
+// 
+// FLUXO:
+// 
+// 1. CRIAÇÃO
+//    - Itens são precificados como na venda (preço do cadastro, promoções
+//      vigentes e descontos manuais)
+//    - Estoque NÃO é reservado nem baixado
+//    - O orçamento vale até `validUntil`
+// 
+// 2. CONVERSÃO
+//    - Estoque e preços são conferidos novamente
+//    - A venda é registrada com os preços do dia
+//    - Preços que mudaram desde o orçamento são informados na resposta
+// 
+// ============================================================================
+
+import { PaymentMethod, Sale } from '../../domain/entities/Sale';
+import { Quote, QuoteStatus } from '../../domain/entities/Quote';
+import { SaleItemDTO, SalePaymentDTO } from './SaleDTO';
+
+/**
+ * DTO para criação de orçamento
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreateQuoteDTO = {
+ *   clientId: 'uuid-mercadinho',
+ *   userId: 'uuid-vendedor',
+ *   items: [{ productId: 'uuid-refrigerante', quantity: 120, discount: 12 }],
+ *   validityDays: 15
+ * };
+ * ```
+ */
+export interface CreateQuoteDTO {
+  /** Cliente do orçamento (opcional) */
+  clientId?: string;
+
+  /**
+   * ID do usuário que emite o orçamento
+   * - Preenchido pelo controller a partir do token de acesso
+   */
+  userId: string;
+
+  /**
+   * Itens orçados
+   * - Obrigatório
+   * - Pelo menos 1 item
+   * - O estoque não é conferido aqui
+   */
+  items: SaleItemDTO[];
+
+  /** Desconto geral do orçamento (em reais) */
+  discount?: number;
+
+  /** Observações (opcional) */
+  notes?: string;
+
+  /**
+   * Dias de validade
+   * - Opcional (padrão: QUOTE_VALIDITY_DAYS)
+   */
+  validityDays?: number;
+}
+
+/**
+ * DTO para filtros de busca de orçamentos
+ */
+export interface QuoteFiltersDTO {
+  /** Filtrar por cliente */
+  clientId?: string;
+
+  /** Filtrar por emissor */
+  userId?: string;
+
+  /** Filtrar por status (OPEN, CONVERTED, CANCELLED) */
+  status?: QuoteStatus;
+}
+
+/**
+ * DTO para conversão do orçamento em venda
+ * 
+ * @description
+ * Itens, descontos e cliente vêm do orçamento; aqui entra só o pagamento.
+ */
+export interface ConvertQuoteDTO {
+  /**
+   * ID do operador que registra a venda
+   * - Preenchido pelo controller a partir do token de acesso
+   */
+  userId: string;
+
+  /** Forma de pagamento única (ou `payments`) */
+  paymentMethod?: PaymentMethod;
+
+  /** Parcelas do pagamento dividido */
+  payments?: SalePaymentDTO[];
+
+  /** Valor entregue pelo cliente (pagamento único em dinheiro) */
+  amountPaid?: number;
+
+  /** Liberar venda fiado acima do limite de crédito */
+  overrideCreditLimit?: boolean;
+}
+
+/**
+ * DTO de um item cujo valor mudou entre o orçamento e a venda
+ */
+export interface QuotePriceChangeDTO {
+  productId: string;
+  productName?: string;
+  quantity: number;
+
+  /** Preço unitário no orçamento */
+  quotedUnitPrice: number;
+
+  /** Preço unitário na venda */
+  currentUnitPrice: number;
+
+  /** Total do item no orçamento (com descontos) */
+  quotedTotal: number;
+
+  /** Total do item na venda (com descontos) */
+  currentTotal: number;
+
+  /** currentTotal - quotedTotal (positivo = ficou mais caro) */
+  difference: number;
+}
+
+/**
+ * DTO de resposta da conversão do orçamento
+ */
+export interface QuoteConversionResultDTO {
+  /** Venda registrada */
+  sale: Sale;
+
+  /** Orçamento já marcado como convertido */
+  quote: Quote;
+
+  /** Total do orçamento (para comparar com `sale.total`) */
+  quotedTotal: number;
+
+  /** Itens com preço ou promoção diferentes do orçamento */
+  priceChanges: QuotePriceChangeDTO[];
+}
@@ -11,17 +11,18 @@
 //    - Cliente (opcional) é identificado
 //    - Itens são adicionados (produto + quantidade)
 //    - Descontos são aplicados
-//    - Forma de pagamento é escolhida
+//    - Forma de pagamento é escolhida (ou várias, somando o total)
 // 
 // 2. PROCESSAMENTO
 //    - Valida estoque de cada item
 //    - Calcula totais
 //    - Baixa estoque (cria movimentação EXIT)
-//    - Se fiado, atualiza débito do cliente
+//    - Se houver parcela fiado, verifica o limite de crédito e lança
+//      somente essa parcela no débito do cliente
 // 
 // 3. FINALIZAÇÃO
 //    - Venda é registrada
-//    - Pode gerar cupom/comprovante
+//    - Cupom é emitido com número sequencial (RF08)
 // 
 // FORMAS DE PAGAMENTO:
 // - CASH: Dinheiro (liquidação imediata)
@@ -29,9 +30,24 @@
 // - PIX: Pagamento instantâneo
 // - FIADO: Crédito do cliente (fica devendo)
 // 
+// PAGAMENTO DIVIDIDO:
+// - `payments` lista as parcelas (forma + valor); a soma deve ser o total
+// - Parcela em dinheiro pode informar `amountReceived` para calcular o troco
+// 
+// VENDA SUSPENSA:
+// - Montada item a item no caixa e estacionada enquanto outro cliente é
+//   atendido; não baixa estoque até a finalização
+// - Expira após SALE_DRAFT_TTL_MINUTES sem alteração
+// 
+// DEVOLUÇÃO:
+// - Itens da venda e quantidades devolvidas (nunca mais que o vendido)
+// - Reembolso em dinheiro, crédito na loja ou abatimento do fiado
+// 
 // ============================================================================
 
-import { PaymentMethod } from '../../domain/entities/Sale';
+import { Sale, PaymentMethod } from '../../domain/entities/Sale';
+import { RefundMethod } from '../../domain/entities/SaleReturn';
+import { Receipt } from '../../domain/entities/Receipt';
 
 /**
  * DTO para um item da venda
@@ -74,6 +90,33 @@ export interface SaleItemDTO {
   discount?: number;
 }
 
+/**
+ * DTO para uma parcela do pagamento da venda
+ * 
+ * @example
+ * ```typescript
+ * // R$ 50 no PIX e o restante (R$ 30) em dinheiro, cliente entrega R$ 50
+ * const payments: SalePaymentDTO[] = [
+ *   { paymentMethod: PaymentMethod.PIX, amount: 50 },
+ *   { paymentMethod: PaymentMethod.CASH, amount: 30, amountReceived: 50 }
+ * ];
+ * ```
+ */
+export interface SalePaymentDTO {
+  /** Forma de pagamento da parcela */
+  paymentMethod: PaymentMethod;
+
+  /** Valor da parcela (maior que zero) */
+  amount: number;
+
+  /**
+   * Valor entregue pelo cliente
+   * - Somente dinheiro (CASH)
+   * - Opcional (padrão: o valor da parcela, sem troco)
+   */
+  amountReceived?: number;
+}
+
 /**
  * DTO para criação de venda
  * 
@@ -116,6 +159,7 @@ export interface CreateSaleDTO {
    * ID do usuário (operador de caixa)
    * - Obrigatório
    * - Registra quem fez a venda (auditoria)
+   * - Preenchido pelo controller a partir do token de acesso
    */
   userId: string;
 
@@ -136,11 +180,19 @@ export interface CreateSaleDTO {
   discount?: number;
 
   /**
-   * Forma de pagamento
-   * - Obrigatório
+   * Forma de pagamento única
+   * - Obrigatório quando `payments` não é informado
+   * - Equivale a uma parcela com o total da venda
    * @see PaymentMethod
    */
-  paymentMethod: PaymentMethod;
+  paymentMethod?: PaymentMethod;
+
+  /**
+   * Parcelas do pagamento dividido
+   * - Opcional (substitui `paymentMethod` e `amountPaid`)
+   * - A soma dos valores deve ser igual ao total da venda
+   */
+  payments?: SalePaymentDTO[];
 
   /**
    * Observações da venda
@@ -148,6 +200,195 @@ export interface CreateSaleDTO {
    * - Ex: "Cliente vai buscar amanhã", "Falta troco"
    */
   notes?: string;
+
+  /**
+   * Liberar venda fiado acima do limite de crédito do cliente
+   * - Opcional (padrão: false)
+   * - Somente GERENTE ou ADMIN (verificado pelo controller)
+   * - A liberação é registrada no log de auditoria
+   */
+  overrideCreditLimit?: boolean;
+
+  /**
+   * Valor entregue pelo cliente (pagamento único em dinheiro)
+   * - Opcional (padrão: o total da venda)
+   * - Não pode ser menor que o total
+   * - Usado para calcular o troco impresso no cupom
+   */
+  amountPaid?: number;
+}
+
+/**
+ * DTO para abrir uma venda suspensa
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreateSaleDraftDTO = {
+ *   userId: 'uuid-operador',
+ *   items: [{ productId: 'uuid-refrigerante', quantity: 2 }],
+ *   notes: 'Cliente foi buscar a carteira'
+ * };
+ * ```
+ */
+export interface CreateSaleDraftDTO {
+  /**
+   * ID do operador
+   * - Preenchido pelo controller a partir do token de acesso
+   * - Precisa ter caixa aberto
+   */
+  userId: string;
+
+  /** Cliente (opcional; pode ser informado na finalização) */
+  clientId?: string;
+
+  /** Itens já lançados (opcional; podem ser adicionados depois) */
+  items?: SaleItemDTO[];
+
+  /** Desconto geral (em reais) */
+  discount?: number;
+
+  /** Observações */
+  notes?: string;
+}
+
+/**
+ * DTO do operador que altera ou descarta uma venda suspensa
+ *
+ * @description
+ * Só o operador que suspendeu a venda pode mexer nela; GERENTE e ADMIN
+ * podem assumir a venda suspensa de outro operador.
+ */
+export interface SaleDraftOperatorDTO {
+  /** Usuário que altera a venda suspensa (token de acesso) */
+  userId: string;
+
+  /** Usuário pode alterar a venda suspensa de outro operador (GERENTE/ADMIN) */
+  canSupervise?: boolean;
+}
+
+/**
+ * DTO para filtros de vendas suspensas
+ */
+export interface SaleDraftFiltersDTO {
+  /** Filtrar por operador */
+  userId?: string;
+
+  /** Filtrar por sessão de caixa */
+  sessionId?: string;
+}
+
+/**
+ * DTO para finalizar uma venda suspensa
+ * 
+ * @description
+ * Itens e desconto vêm da venda suspensa; aqui entra o pagamento, como
+ * em CreateSaleDTO.
+ */
+export interface FinalizeSaleDraftDTO {
+  /**
+   * ID do operador que finaliza
+   * - Preenchido pelo controller a partir do token de acesso
+   */
+  userId: string;
+
+  /** Usuário pode finalizar a venda suspensa de outro operador (GERENTE/ADMIN) */
+  canSupervise?: boolean;
+
+  /** Cliente (substitui o da venda suspensa) */
+  clientId?: string;
+
+  /** Forma de pagamento única (ou `payments`) */
+  paymentMethod?: PaymentMethod;
+
+  /** Parcelas do pagamento dividido */
+  payments?: SalePaymentDTO[];
+
+  /** Valor entregue pelo cliente (pagamento único em dinheiro) */
+  amountPaid?: number;
+
+  /** Liberar venda fiado acima do limite de crédito */
+  overrideCreditLimit?: boolean;
+}
+
+/**
+ * DTO de resposta de uma venda suspensa
+ */
+export interface SaleDraftDTO {
+  /** Venda com status DRAFT */
+  draft: Sale;
+
+  /** Momento em que expira se não for alterada */
+  expiresAt: Date;
+}
+
+/**
+ * DTO para um item devolvido
+ */
+export interface SaleReturnItemDTO {
+  /**
+   * ID do item da venda (`items[].id` da venda)
+   * - Obrigatório
+   * - Cada item aparece uma vez por devolução
+   */
+  saleItemId: string;
+
+  /**
+   * Quantidade devolvida
+   * - Obrigatório
+   * - Inteiro maior que zero, até a quantidade ainda não devolvida
+   */
+  quantity: number;
+
+  /**
+   * Item avariado
+   * - Opcional (padrão: false)
+   * - Avariado não volta ao estoque: é registrado como perda
+   */
+  damaged?: boolean;
+}
+
+/**
+ * DTO para devolução de itens de uma venda
+ * 
+ * @example
+ * ```typescript
+ * // Cliente devolve 1 de 10 refrigerantes, com defeito, e leva crédito na loja
+ * const dto: CreateSaleReturnDTO = {
+ *   saleId: 'uuid-venda',
+ *   userId: 'uuid-operador',
+ *   items: [{ saleItemId: 'uuid-item', quantity: 1, damaged: true }],
+ *   refundMethod: RefundMethod.STORE_CREDIT,
+ *   reason: 'Lata amassada'
+ * };
+ * ```
+ */
+export interface CreateSaleReturnDTO {
+  /** Venda de origem */
+  saleId: string;
+
+  /**
+   * ID do usuário que registra a devolução
+   * - Preenchido pelo controller a partir do token de acesso
+   */
+  userId: string;
+
+  /**
+   * Itens devolvidos
+   * - Obrigatório
+   * - Pelo menos 1 item
+   */
+  items: SaleReturnItemDTO[];
+
+  /**
+   * Forma de reembolso
+   * - CASH: sai da gaveta do caixa aberto do operador
+   * - STORE_CREDIT: vira crédito na loja do cliente da venda
+   * - FIADO: abate o débito fiado ainda pendente da venda
+   */
+  refundMethod: RefundMethod;
+
+  /** Motivo da devolução (opcional) */
+  reason?: string;
 }
 
 /**
@@ -189,19 +430,37 @@ export interface SalesSummaryDTO {
   /** Total de vendas no período */
   totalSales: number;
 
-  /** Valor total vendido */
+  /** Valor total vendido (líquido das devoluções) */
   totalAmount: number;
 
+  /** Valor devolvido em devoluções */
+  totalReturned: number;
+
   /** Total de descontos concedidos */
   totalDiscount: number;
 
   /** Quantidade de vendas canceladas */
   cancelledSales: number;
 
-  /** Vendas por forma de pagamento */
+  /** Parcelas de pagamento por forma de pagamento */
   byPaymentMethod: {
     method: PaymentMethod;
     count: number;
     total: number;
   }[];
 }
+
+/**
+ * DTO de resposta do cupom da venda
+ * 
+ * @description
+ * O cupom em si é imutável; `cancelled` reflete o status atual da venda
+ * para que a reimpressão de uma venda cancelada seja identificada.
+ */
+export interface SaleReceiptDTO {
+  /** Cupom (com a quantidade de vias já impressas) */
+  receipt: Receipt;
+
+  /** Venda cancelada depois da emissão */
+  cancelled: boolean;
+}
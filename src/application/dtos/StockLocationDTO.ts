@@ -0,0 +1,124 @@
+// ============================================================================
+// DTOs DE LOCAIS DE ESTOQUE
+// ============================================================================
+// 
+// O estoque fica em mais de um lugar: depósito, prateleira, uma segunda
+// loja. Cada produto tem um saldo por local e o estoque do produto
+// (Product.quantity) é a soma dos locais.
+// 
+// REGRAS:
+// 
+// 1. LOCAL PADRÃO
+//    - Exatamente um local é o padrão
+//    - Vendas, devoluções e cancelamentos movimentam o local padrão
+//      (devoluções voltam para o local de onde a venda saiu)
+//    - Entradas e ajustes sem local informado também
+// 
+// 2. TRANSFERÊNCIA
+//    - Tira do local de origem e põe no de destino na mesma transação
+//    - Gera duas movimentações TRANSFER: negativa na origem, positiva no destino
+//    - O estoque total do produto não muda
+// 
+// 3. ESTOQUE BAIXO
+//    - Total: estoque do produto x mínimo do produto
+//    - Por local: saldo do local x mínimo do local (ou do produto)
+// 
+// ============================================================================
+
+import { StockTransfer } from '../../domain/entities/StockTransfer';
+import { StockMovement } from '../../domain/entities/StockMovement';
+
+/**
+ * DTO para cadastro de local de estoque
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreateStockLocationDTO = {
+ *   name: 'Depósito',
+ *   description: 'Sala dos fundos'
+ * };
+ * ```
+ */
+export interface CreateStockLocationDTO {
+  /** Nome do local (único) */
+  name: string;
+
+  /** Descrição do local */
+  description?: string;
+
+  /** Tornar este o local padrão (padrão: false) */
+  isDefault?: boolean;
+}
+
+/**
+ * DTO para atualização de local de estoque
+ * 
+ * @description
+ * Para trocar o local padrão, marque `isDefault: true` no novo padrão;
+ * o anterior é desmarcado automaticamente.
+ */
+export interface UpdateStockLocationDTO {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+/**
+ * DTO para transferência entre locais
+ * 
+ * @example
+ * ```typescript
+ * const dto: CreateStockTransferDTO = {
+ *   productId: 'uuid-arroz',
+ *   fromLocationId: 'uuid-deposito',
+ *   toLocationId: 'uuid-prateleira',
+ *   quantity: 24,
+ *   reason: 'Reposição da gôndola'
+ * };
+ * ```
+ */
+export interface CreateStockTransferDTO {
+  /** Produto transferido */
+  productId: string;
+
+  /** Local de origem */
+  fromLocationId: string;
+
+  /** Local de destino */
+  toLocationId: string;
+
+  /** Quantidade (inteiro maior que zero, até o saldo da origem) */
+  quantity: number;
+
+  /** Motivo da transferência */
+  reason?: string;
+}
+
+/**
+ * DTO de resposta da transferência
+ */
+export interface StockTransferResultDTO {
+  /** Transferência registrada */
+  transfer: StockTransfer;
+
+  /** Movimentações geradas (saída na origem, entrada no destino) */
+  movements: StockMovement[];
+}
+
+/**
+ * DTO para filtros de busca de transferências
+ */
+export interface StockTransferFiltersDTO {
+  /** Filtrar por produto */
+  productId?: string;
+
+  /** Filtrar por local (origem ou destino) */
+  locationId?: string;
+
+  /** Data inicial */
+  startDate?: Date;
+
+  /** Data final */
+  endDate?: Date;
+}
@@ -0,0 +1,74 @@
+// ============================================================================
+// DTOs DE LOTE DE ESTOQUE
+// ============================================================================
+// 
+// Cada entrada de mercadoria forma um lote com quantidade, validade e custo
+// próprios. O estoque do produto é a soma dos lotes (mais eventuais unidades
+// sem lote, como sobras de inventário).
+// 
+// ORDEM DE BAIXA (FEFO - First Expired, First Out):
+// 
+// 1. VENDA
+//    - Lotes dentro da validade, do que vence antes para o que vence depois
+//    - Unidades sem lote
+//    - Lotes vencidos só quando não há mais nada
+// 
+// 2. PERDA / SAÍDA MANUAL / AJUSTE PARA BAIXO
+//    - Todos os lotes em ordem de validade (vencidos primeiro)
+//    - Unidades sem lote por último
+// 
+// Devoluções e cancelamentos de venda repõem os lotes que a venda baixou.
+// 
+// 3. TRANSFERÊNCIA
+//    - Baixa os lotes da origem em ordem de validade e cria no destino
+//      lotes com a mesma validade, código e custo
+// 
+// Cada lote fica em um local: as baixas só usam os lotes do local
+// movimentado.
+// 
+// ============================================================================
+
+import { StockLot } from '../../domain/entities/StockLot';
+
+/**
+ * DTO para filtros de busca de lotes
+ * 
+ * @example
+ * ```typescript
+ * // Todos os lotes do leite, inclusive os esgotados
+ * const filters: StockLotFiltersDTO = {
+ *   productId: 'uuid-leite',
+ *   includeDepleted: true
+ * };
+ * ```
+ */
+export interface StockLotFiltersDTO {
+  /** Filtrar por produto */
+  productId?: string;
+
+  /** Filtrar por local */
+  locationId?: string;
+
+  /** Incluir lotes sem saldo (padrão: false) */
+  includeDepleted?: boolean;
+}
+
+/**
+ * DTO de resposta dos relatórios de lotes vencidos e a vencer
+ */
+export interface StockLotReportDTO {
+  /** Data de referência do relatório */
+  referenceDate: Date;
+
+  /** Janela em dias (somente no relatório de lotes a vencer) */
+  days?: number;
+
+  /** Soma dos saldos dos lotes listados */
+  totalQuantity: number;
+
+  /** Valor dos saldos a preço de custo */
+  totalValue: number;
+
+  /** Lotes em ordem de validade */
+  lots: StockLot[];
+}
@@ -18,6 +18,8 @@
 // 3. ADJUSTMENT (Ajuste)
 //    - Correção após inventário
 //    - Acerto de quantidade
+//    - Informa o novo saldo do local; grava a diferença com sinal e o
+//      saldo do local antes e depois
 // 
 // 4. RETURN (Devolução)
 //    - Cliente devolveu produto
@@ -32,6 +34,13 @@
 // Cada movimentação é um registro permanente. Não pode ser editada.
 // Isso permite auditoria e rastreabilidade completa.
 // 
+// CONCEITO: Reconciliação
+// Refazendo as movimentações em ordem, a partir do saldo de abertura,
+// chega-se ao estoque de cada produto. Diferença para Product.quantity
+// (drift) indica estoque alterado fora das movimentações. O livro começa
+// no saldo de abertura criado na sua implantação; o que veio antes é só
+// histórico.
+// 
 // ============================================================================
 
 import { MovementType } from '../../domain/entities/StockMovement';
@@ -84,6 +93,7 @@ export interface CreateStockMovementDTO {
    * Quantidade movimentada
    * - Obrigatório
    * - Sempre positivo (o tipo determina o sinal)
+   * - Em ADJUSTMENT, o novo saldo do local (pode ser zero)
    * 
    * IMPORTANTE: Para saídas (EXIT, LOSS), o sistema
    * verifica se há estoque suficiente.
@@ -105,6 +115,25 @@ export interface CreateStockMovementDTO {
    * - total = unitPrice * quantity
    */
   unitPrice?: number;
+
+  /**
+   * Validade do lote recebido (somente ENTRY)
+   * - Opcional (lote sem validade)
+   */
+  expirationDate?: Date;
+
+  /**
+   * Código do lote impresso na embalagem (somente ENTRY)
+   * - Opcional
+   */
+  lotCode?: string;
+
+  /**
+   * Local de estoque movimentado
+   * - Opcional (padrão: local padrão)
+   * - Em ADJUSTMENT, `quantity` é o novo saldo do local
+   */
+  locationId?: string;
 }
 
 /**
@@ -127,6 +156,21 @@ export interface StockMovementFiltersDTO {
   /** Filtrar por tipo */
   type?: MovementType;
 
+  /** Filtrar por venda de origem */
+  saleId?: string;
+
+  /** Filtrar por pedido de compra de origem */
+  purchaseOrderId?: string;
+
+  /** Filtrar por usuário que registrou */
+  userId?: string;
+
+  /** Filtrar por local de estoque */
+  locationId?: string;
+
+  /** Filtrar por transferência entre locais */
+  transferId?: string;
+
   /** Data inicial */
   startDate?: Date;
 
@@ -160,3 +204,87 @@ export interface StockReportDTO {
   /** Últimas 10 movimentações */
   recentMovements: any[];
 }
+
+/**
+ * DTO para reconciliação do estoque com o livro de movimentações
+ *
+ * @example
+ * ```typescript
+ * // Só relatório
+ * const dto: ReconcileStockDTO = {};
+ *
+ * // Corrige o estoque de um produto
+ * const dto: ReconcileStockDTO = { productId: 'uuid-do-produto', fix: true };
+ * ```
+ */
+export interface ReconcileStockDTO {
+  /** Restringir a um produto (padrão: todos) */
+  productId?: string;
+
+  /**
+   * Corrigir o estoque dos produtos com diferença
+   * - Padrão: false (só relatório)
+   * - Cada local com diferença recebe um ajuste para o saldo do livro
+   * - Recusada se o estoque do produto não for a soma dos locais
+   */
+  fix?: boolean;
+}
+
+/**
+ * Local com saldo diferente do livro de movimentações
+ */
+export interface StockLocationDriftDTO {
+  /** ID do local (null: movimentações sem local) */
+  locationId: string | null;
+  locationName?: string;
+
+  /** Saldo gravado no local */
+  quantity: number;
+
+  /** Saldo refeito a partir das movimentações do local */
+  ledgerQuantity: number;
+
+  /** quantity - ledgerQuantity */
+  drift: number;
+}
+
+/**
+ * Produto com estoque (total ou de algum local) diferente do livro de
+ * movimentações
+ */
+export interface StockDriftDTO {
+  productId: string;
+  productName: string;
+
+  /** Estoque gravado no produto */
+  quantity: number;
+
+  /** Estoque refeito a partir das movimentações */
+  ledgerQuantity: number;
+
+  /** quantity - ledgerQuantity (positivo: produto com estoque a mais) */
+  drift: number;
+
+  /** Movimentações consideradas (a partir do saldo de abertura) */
+  movements: number;
+
+  /** Locais com diferença */
+  locations: StockLocationDriftDTO[];
+}
+
+/**
+ * DTO de resposta da reconciliação
+ */
+export interface StockReconciliationDTO {
+  /** Momento da verificação */
+  checkedAt: Date;
+
+  /** Produtos verificados */
+  checkedProducts: number;
+
+  /** Se os produtos com diferença foram corrigidos */
+  fixed: boolean;
+
+  /** Produtos com diferença (na correção, os corrigidos) */
+  drifts: StockDriftDTO[];
+}
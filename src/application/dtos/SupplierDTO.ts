@@ -69,6 +69,14 @@ export interface CreateSupplierDTO {
    * usando o algoritmo oficial da Receita Federal.
    */
   cnpj?: string;
+
+  /**
+   * Condição de pagamento padrão
+   * - Opcional (padrão: 30 dias)
+   * - Dias após a entrega separados por "/" (ex.: "30/60/90")
+   * - Usada nas contas a pagar geradas pelos pedidos de compra
+   */
+  paymentTerms?: string;
 }
 
 /**
@@ -100,6 +108,9 @@ export interface UpdateSupplierDTO {
 
   /** Novo CNPJ */
   cnpj?: string;
+
+  /** Nova condição de pagamento padrão (ex.: "30/60/90") */
+  paymentTerms?: string;
 }
 
 /**
@@ -24,12 +24,12 @@
 // 
 // SEGURANÇA:
 // - Senha deve ter mínimo 6 caracteres
-// - Em produção, usar hash (bcrypt) para armazenar senhas
+// - Senhas são armazenadas como hash scrypt (IPasswordHasher)
 // - NUNCA armazenar senha em texto puro
 // 
 // ============================================================================
 
-import { UserRole } from '../../domain/entities/User';
+import { User, UserRole } from '../../domain/entities/User';
 
 /**
  * DTO para criação de usuário
@@ -122,12 +122,32 @@ export interface LoginDTO {
   password: string;
 }
 
+/**
+ * DTO de resposta do login
+ * 
+ * @description
+ * Retornado após autenticação bem-sucedida.
+ * O token deve ser enviado nas próximas requisições no cabeçalho
+ * `Authorization: Bearer <token>`.
+ */
+export interface AuthResultDTO {
+  /** Usuário autenticado */
+  user: User;
+
+  /** Token de acesso assinado */
+  token: string;
+
+  /** Data/hora de expiração do token */
+  expiresAt: Date;
+}
+
 /**
  * DTO para alteração de senha
  * 
  * @description
  * Separado do UpdateUserDTO por segurança.
- * Exige a senha atual para validação.
+ * Exige a senha atual para validação, exceto quando um gerenciador de
+ * usuários altera a senha de outro usuário.
  * 
  * @example
  * ```typescript
@@ -142,11 +162,14 @@ export interface ChangePasswordDTO {
   /** ID do usuário */
   userId: string;
 
-  /** Senha atual (para validação) */
-  currentPassword: string;
+  /** Senha atual (para validação; dispensada na redefinição por gerenciador) */
+  currentPassword?: string;
 
   /** Nova senha (mínimo 6 caracteres) */
   newPassword: string;
+
+  /** Se quem altera pode gerenciar usuários (redefine sem a senha atual) */
+  canManageUsers?: boolean;
 }
 
 /**
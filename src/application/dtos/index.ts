@@ -53,6 +53,21 @@ export {
   SupplierFiltersDTO,
 } from './SupplierDTO';
 
+// ============================================================================
+// DTOs DE PEDIDO DE COMPRA
+// ============================================================================
+export {
+  PurchaseItemDTO,
+  CreatePurchaseOrderDTO,
+  PurchaseOrderFiltersDTO,
+  ReceivedItemDTO,
+  ReceivePurchaseOrderDTO,
+  ReceivePurchaseOrderResultDTO,
+  PurchaseOrderPaymentStatus,
+  PurchaseOrderPaymentSummaryDTO,
+  PurchaseOrderDetailsDTO,
+} from './PurchaseOrderDTO';
+
 // ============================================================================
 // DTOs DE PRODUTO
 // ============================================================================
@@ -68,6 +83,10 @@ export {
 export {
   CreateStockMovementDTO,
   StockMovementFiltersDTO,
+  ReconcileStockDTO,
+  StockDriftDTO,
+  StockLocationDriftDTO,
+  StockReconciliationDTO,
   StockReportDTO,
 } from './StockMovementDTO';
 
@@ -78,6 +97,7 @@ export {
   CreateUserDTO,
   UpdateUserDTO,
   LoginDTO,
+  AuthResultDTO,
   ChangePasswordDTO,
   UserFiltersDTO,
 } from './UserDTO';
@@ -90,6 +110,14 @@ export {
   UpdateClientDTO,
   ClientFiltersDTO,
   DebtReportDTO,
+  RegisterClientPaymentDTO,
+  ClientPaymentResultDTO,
+  ClientStatementEntryDTO,
+  ClientStatementDTO,
+  StoreCreditStatementEntryDTO,
+  StoreCreditStatementDTO,
+  IssueStoreCreditDTO,
+  ExpireStoreCreditsResultDTO,
 } from './ClientDTO';
 
 // ============================================================================
@@ -97,11 +125,51 @@ export {
 // ============================================================================
 export {
   SaleItemDTO,
+  SalePaymentDTO,
   CreateSaleDTO,
   SaleFiltersDTO,
   SalesSummaryDTO,
+  SaleReceiptDTO,
+  SaleReturnItemDTO,
+  CreateSaleReturnDTO,
+  CreateSaleDraftDTO,
+  SaleDraftOperatorDTO,
+  SaleDraftFiltersDTO,
+  FinalizeSaleDraftDTO,
+  SaleDraftDTO,
 } from './SaleDTO';
 
+// ============================================================================
+// DTOs DE PROMOÇÃO
+// ============================================================================
+export {
+  CreatePromotionDTO,
+  UpdatePromotionDTO,
+  PromotionFiltersDTO,
+} from './PromotionDTO';
+
+// ============================================================================
+// DTOs DE ORÇAMENTO
+// ============================================================================
+export {
+  CreateQuoteDTO,
+  QuoteFiltersDTO,
+  ConvertQuoteDTO,
+  QuotePriceChangeDTO,
+  QuoteConversionResultDTO,
+} from './QuoteDTO';
+
+// ============================================================================
+// DTOs DE CAIXA
+// ============================================================================
+export {
+  OpenCashRegisterDTO,
+  CashRegisterMovementDTO,
+  CloseCashRegisterDTO,
+  CashRegisterFiltersDTO,
+  CashRegisterDetailsDTO,
+} from './CashRegisterDTO';
+
 // ============================================================================
 // DTOs FINANCEIROS
 // ============================================================================
@@ -110,4 +178,53 @@ export {
   RegisterPaymentDTO,
   FinancialAccountFiltersDTO,
   FinancialSummaryDTO,
+  CashFlowGrouping,
+  CashFlowCategoryTotalDTO,
+  CashFlowPeriodDTO,
+  CashFlowReportDTO,
 } from './FinancialDTO';
+
+// ============================================================================
+// DTOs DE AUDITORIA
+// ============================================================================
+export {
+  AuditContextDTO,
+  AuditLogFiltersDTO,
+} from './AuditLogDTO';
+
+// ============================================================================
+// DTOs DE IDEMPOTÊNCIA
+// ============================================================================
+export {
+  BeginIdempotentRequestDTO,
+} from './IdempotencyDTO';
+
+// ============================================================================
+// DTOs DE LOTE DE ESTOQUE
+// ============================================================================
+export {
+  StockLotFiltersDTO,
+  StockLotReportDTO,
+} from './StockLotDTO';
+
+// ============================================================================
+// DTOs DE LOCAIS DE ESTOQUE
+// ============================================================================
+export {
+  CreateStockLocationDTO,
+  UpdateStockLocationDTO,
+  CreateStockTransferDTO,
+  StockTransferResultDTO,
+  StockTransferFiltersDTO,
+} from './StockLocationDTO';
+
+// ============================================================================
+// DTOs DE INVENTÁRIO
+// ============================================================================
+export {
+  CreateInventoryCountDTO,
+  InventoryCountEntryDTO,
+  RecordInventoryCountsDTO,
+  ApproveInventoryCountResultDTO,
+  InventoryCountFiltersDTO,
+} from './InventoryCountDTO';
@@ -0,0 +1,46 @@
+// ============================================================================
+// USE CASES: AUDIT LOG (LOG DE AUDITORIA)
+// ============================================================================
+// Casos de uso para consulta dos logs de auditoria.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+// 
+// Os logs são gravados pelos próprios casos de uso auditados
+// (vendas, estoque, financeiro, produtos e usuários), que recebem o
+// IAuditLogRepository e o contexto da requisição (AuditContextDTO).
+// 
+// Requisitos atendidos:
+// - RF22: Manter logs de acesso e ações críticas
+// ============================================================================
+
+import { AuditLog } from '../../domain/entities/AuditLog';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+
+// Importando DTOs da pasta centralizada
+import { AuditLogFiltersDTO } from '../dtos';
+
+// Re-exportando DTOs para manter compatibilidade
+export { AuditContextDTO, AuditLogFiltersDTO } from '../dtos';
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Listar Logs de Auditoria
+ */
+export class GetAuditLogsUseCase {
+  constructor(private auditLogRepository: IAuditLogRepository) {}
+
+  async execute(filters?: AuditLogFiltersDTO): Promise<AuditLog[]> {
+    return this.auditLogRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Log de Auditoria por ID
+ */
+export class GetAuditLogByIdUseCase {
+  constructor(private auditLogRepository: IAuditLogRepository) {}
+
+  async execute(id: string): Promise<AuditLog | null> {
+    return this.auditLogRepository.findById(id);
+  }
+}
@@ -0,0 +1,310 @@
+// ============================================================================
+// USE CASES: CASH REGISTER (ABERTURA E FECHAMENTO DE CAIXA)
+// ============================================================================
+// Casos de uso para as sessões de caixa.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Conferência de Caixa
+// ==============================
+// O sistema sabe quanto deveria haver em cada forma de pagamento (fundo de
+// troco + vendas + suprimentos + recebimentos de fiado - sangrias -
+// reembolsos); o operador informa quanto contou. A diferença (sobra ou
+// falta) fica registrada no fechamento.
+//
+// Sangrias e suprimentos são transferências entre a gaveta e o cofre: não
+// geram lançamentos no fluxo de caixa da loja.
+// ============================================================================
+
+import { PaymentMethod, PaymentStatus } from '../../domain/entities/Sale';
+import {
+  CashRegisterSession,
+  CashRegisterReport,
+} from '../../domain/entities/CashRegisterSession';
+import { CashRegisterMovement, CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { ICashRegisterRepository } from '../../domain/repositories/ICashRegisterRepository';
+import { ISaleRepository } from '../../domain/repositories/ISaleRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+
+// Importando DTOs da pasta centralizada
+import {
+  OpenCashRegisterDTO,
+  CashRegisterMovementDTO,
+  CloseCashRegisterDTO,
+  CashRegisterFiltersDTO,
+  CashRegisterDetailsDTO,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  EntityNotFoundError,
+  EntityAlreadyExistsError,
+  InvalidEntityStateError,
+  UnauthorizedOperationError,
+  ValidationError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export {
+  OpenCashRegisterDTO,
+  CashRegisterMovementDTO,
+  CloseCashRegisterDTO,
+  CashRegisterFiltersDTO,
+  CashRegisterDetailsDTO,
+} from '../dtos';
+
+/** Caixa usado quando a abertura não informa o terminal */
+const DEFAULT_TERMINAL = 'Caixa 01';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Monta o relatório da sessão a partir das parcelas de pagamento das vendas
+ * vinculadas a ela (venda dividida entra em cada forma de pagamento)
+ * @param counted - Valores contados (somente no fechamento)
+ */
+async function buildSessionReport(
+  sales: ISaleRepository,
+  session: CashRegisterSession,
+  counted?: Partial<Record<PaymentMethod, number>>
+): Promise<CashRegisterReport> {
+  const sessionSales = await sales.findAll({ sessionId: session.id });
+  const validSales = sessionSales.filter(sale => sale.paymentStatus !== PaymentStatus.CANCELLED);
+
+  return session.buildReport(
+    validSales.flatMap(sale => sale.payments.map(payment => ({
+      paymentMethod: payment.paymentMethod,
+      amount: payment.amount,
+    }))),
+    validSales.length,
+    sessionSales.length - validSales.length,
+    counted
+  );
+}
+
+/**
+ * Garante que o usuário pode operar a sessão (dono do caixa ou supervisor)
+ * @throws UnauthorizedOperationError se a sessão for de outro operador
+ */
+function ensureCanOperate(
+  session: CashRegisterSession,
+  userId: string,
+  canSupervise?: boolean
+): void {
+  if (session.userId !== userId && !canSupervise) {
+    throw new UnauthorizedOperationError('operar o caixa de outro usuário');
+  }
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Abrir Caixa
+ * @description Cada operador e cada caixa podem ter apenas uma sessão aberta
+ */
+export class OpenCashRegisterUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: OpenCashRegisterDTO, context: AuditContextDTO = {}): Promise<CashRegisterSession> {
+    return this.unitOfWork.execute(async ({ cashRegisters, auditLogs }) => {
+      const session = new CashRegisterSession({
+        terminal: data.terminal ?? DEFAULT_TERMINAL,
+        userId: data.userId,
+        openingFloat: data.openingFloat,
+        notes: data.notes,
+      });
+
+      if (await cashRegisters.findOpenByUser(data.userId)) {
+        throw new InvalidEntityStateError('Caixa', 'abrir', 'operador já possui um caixa aberto');
+      }
+      if (await cashRegisters.findOpenByTerminal(session.terminal)) {
+        throw new EntityAlreadyExistsError('Caixa aberto', 'terminal', session.terminal);
+      }
+
+      const created = await cashRegisters.create(session);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.REGISTER_OPEN,
+        entity: AuditEntity.CASH_REGISTER,
+        entityId: created.id,
+        details: AuditLog.diff({}, {
+          terminal: created.terminal,
+          openingFloat: created.openingFloat,
+        }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return created;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Caixa Atual do Operador
+ * @description Retorna a sessão aberta do usuário com o relatório parcial
+ */
+export class GetCurrentCashRegisterUseCase {
+  constructor(
+    private cashRegisterRepository: ICashRegisterRepository,
+    private saleRepository: ISaleRepository
+  ) {}
+
+  async execute(userId: string): Promise<CashRegisterDetailsDTO | null> {
+    const session = await this.cashRegisterRepository.findOpenByUser(userId);
+    if (!session) return null;
+
+    return {
+      session,
+      report: await buildSessionReport(this.saleRepository, session),
+    };
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Sessão de Caixa
+ * @description Caixa fechado retorna o relatório gravado no fechamento
+ */
+export class GetCashRegisterByIdUseCase {
+  constructor(
+    private cashRegisterRepository: ICashRegisterRepository,
+    private saleRepository: ISaleRepository
+  ) {}
+
+  async execute(id: string): Promise<CashRegisterDetailsDTO | null> {
+    const session = await this.cashRegisterRepository.findById(id);
+    if (!session) return null;
+
+    return {
+      session,
+      report: session.closingReport ?? await buildSessionReport(this.saleRepository, session),
+    };
+  }
+}
+
+/**
+ * Caso de Uso: Listar Sessões de Caixa
+ */
+export class GetCashRegistersUseCase {
+  constructor(private cashRegisterRepository: ICashRegisterRepository) {}
+
+  async execute(filters: CashRegisterFiltersDTO = {}): Promise<CashRegisterSession[]> {
+    return this.cashRegisterRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Registrar Sangria ou Suprimento
+ * @description A sangria não pode retirar mais dinheiro do que há na gaveta
+ */
+export class RegisterCashMovementUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: CashRegisterMovementDTO, context: AuditContextDTO = {}): Promise<CashRegisterMovement> {
+    return this.unitOfWork.execute(async ({ cashRegisters, sales, auditLogs }) => {
+      const session = await cashRegisters.findById(data.sessionId);
+      if (!session) {
+        throw new EntityNotFoundError('Caixa', data.sessionId);
+      }
+
+      const isWithdrawal = data.type === CashRegisterMovementType.WITHDRAWAL;
+      ensureCanOperate(session, data.userId, data.canSupervise);
+
+      if (!session.isOpen()) {
+        throw new InvalidEntityStateError('Caixa', 'movimentar', 'caixa já está fechado');
+      }
+
+      const movement = new CashRegisterMovement({
+        sessionId: session.id!,
+        type: data.type,
+        amount: data.amount,
+        reason: data.reason,
+        userId: data.userId,
+      });
+
+      if (isWithdrawal) {
+        const report = await buildSessionReport(sales, session);
+        const cashInDrawer = report.lines
+          .find(line => line.paymentMethod === PaymentMethod.CASH)?.expected ?? 0;
+        if (movement.amount > cashInDrawer) {
+          throw new ValidationError([{
+            field: 'amount',
+            message: `Sangria maior que o dinheiro no caixa (R$ ${cashInDrawer.toFixed(2)})`,
+          }]);
+        }
+      }
+
+      const created = await cashRegisters.addMovement(movement);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: isWithdrawal ? AuditAction.CASH_WITHDRAWAL : AuditAction.CASH_DEPOSIT,
+        entity: AuditEntity.CASH_REGISTER,
+        entityId: session.id,
+        details: AuditLog.diff({}, { amount: created.amount, reason: created.reason }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return created;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Fechar Caixa
+ * @description Compara os valores contados com os esperados e grava o relatório
+ */
+export class CloseCashRegisterUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: CloseCashRegisterDTO, context: AuditContextDTO = {}): Promise<CashRegisterDetailsDTO> {
+    return this.unitOfWork.execute(async ({ cashRegisters, sales, auditLogs }) => {
+      const session = await cashRegisters.findById(data.sessionId);
+      if (!session) {
+        throw new EntityNotFoundError('Caixa', data.sessionId);
+      }
+
+      ensureCanOperate(session, data.userId, data.canSupervise);
+
+      if (!session.isOpen()) {
+        throw new InvalidEntityStateError('Caixa', 'fechar', 'caixa já está fechado');
+      }
+
+      // Formas de pagamento com movimento precisam ser contadas
+      const expected = await buildSessionReport(sales, session);
+      const errors = expected.lines
+        .filter(line => {
+          const value = data.counted[line.paymentMethod];
+          return value === undefined ? line.expected > 0 : typeof value !== 'number' || value < 0;
+        })
+        .map(line => ({
+          field: `counted.${line.paymentMethod}`,
+          message: 'Informe o valor contado (maior ou igual a zero)',
+        }));
+      if (errors.length > 0) {
+        throw new ValidationError(errors);
+      }
+
+      const report = await buildSessionReport(sales, session, data.counted);
+      session.close(report, data.userId, data.notes);
+
+      const closed = await cashRegisters.saveClosing(session);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.REGISTER_CLOSE,
+        entity: AuditEntity.CASH_REGISTER,
+        entityId: closed.id,
+        details: AuditLog.diff({}, {
+          expectedTotal: report.expectedTotal,
+          countedTotal: report.countedTotal,
+          difference: report.difference,
+        }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return { session: closed, report: closed.closingReport! };
+    });
+  }
+}
@@ -9,6 +9,10 @@
 // - Clientes podem ter limite de crédito para vendas fiado
 // - Clientes com débito não podem ser excluídos
 // - CPF e email devem ser únicos quando informados
+// - Pagamentos do fiado quitam as vendas pendentes da mais antiga para a
+//   mais nova e ficam registrados no extrato (ClientTransaction)
+// - Vale-troca (Client.storeCredit) tem validade; créditos vencidos deixam
+//   de valer na venda e são baixados com registro de auditoria
 // 
 // Requisitos atendidos:
 // - RF10: Cadastro de clientes
@@ -17,20 +21,61 @@
 // ============================================================================
 
 import { Client } from '../../domain/entities/Client';
+import { ClientTransaction, ClientTransactionType } from '../../domain/entities/ClientTransaction';
+import { StoreCreditTransaction, StoreCreditTransactionType } from '../../domain/entities/StoreCreditTransaction';
+import { CashFlow, CashFlowType, CashFlowCategory } from '../../domain/entities/CashFlow';
+import { CashRegisterMovement, CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
 import { IClientRepository, ClientFilters } from '../../domain/repositories/IClientRepository';
+import { IClientTransactionRepository } from '../../domain/repositories/IClientTransactionRepository';
+import { IStoreCreditRepository } from '../../domain/repositories/IStoreCreditRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
 
 // Importando DTOs da pasta centralizada
-import { CreateClientDTO, UpdateClientDTO } from '../dtos';
+import {
+  CreateClientDTO,
+  UpdateClientDTO,
+  RegisterClientPaymentDTO,
+  ClientPaymentResultDTO,
+  ClientStatementDTO,
+  ClientStatementEntryDTO,
+  StoreCreditStatementDTO,
+  StoreCreditStatementEntryDTO,
+  IssueStoreCreditDTO,
+  ExpireStoreCreditsResultDTO,
+  AuditContextDTO,
+} from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
   EntityAlreadyExistsError,
+  InvalidEntityStateError,
+  ValidationError,
+  FieldValidationError,
   ClientHasDebtsError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
-export { CreateClientDTO, UpdateClientDTO } from '../dtos';
+export {
+  CreateClientDTO,
+  UpdateClientDTO,
+  RegisterClientPaymentDTO,
+  ClientPaymentResultDTO,
+  ClientStatementDTO,
+  IssueStoreCreditDTO,
+  ExpireStoreCreditsResultDTO,
+} from '../dtos';
+
+/** Tolerância para comparação de valores em reais (meio centavo) */
+const CENT_TOLERANCE = 0.005;
+
+/**
+ * Arredonda um valor em reais para centavos
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
 // ==================== USE CASES ====================
 
@@ -159,3 +204,372 @@ export class DeleteClientUseCase {
     return this.clientRepository.delete(id);
   }
 }
+
+/**
+ * Caso de Uso: Registrar Pagamento do Fiado (RF12)
+ * 
+ * @description
+ * Abate o valor do débito, registra uma transação CREDIT e marca como
+ * PAID as vendas fiado pendentes, da mais antiga para a mais nova,
+ * enquanto o valor já pago cobrir a parcela fiado de cada uma. Uma venda
+ * coberta apenas em parte continua PENDING.
+ *
+ * O dinheiro entra na gaveta do caixa aberto de quem recebe (DEBT_PAYMENT),
+ * para que o esperado em dinheiro no fechamento confira.
+ */
+export class RegisterClientPaymentUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(
+    clientId: string,
+    data: RegisterClientPaymentDTO,
+    context: AuditContextDTO = {}
+  ): Promise<ClientPaymentResultDTO> {
+    if (!Number.isFinite(data.amount) || data.amount <= 0) {
+      throw new ValidationError([{ field: 'amount', message: 'Valor do pagamento deve ser maior que zero' }]);
+    }
+
+    return this.unitOfWork.execute(async ({ clients, clientTransactions, sales, cashRegisters, cashFlows, auditLogs }) => {
+      const client = await clients.findById(clientId);
+      if (!client) {
+        throw new EntityNotFoundError('Cliente', clientId);
+      }
+
+      const session = await cashRegisters.findOpenByUser(data.userId);
+      if (!session) {
+        throw new InvalidEntityStateError('Pagamento do fiado', 'registrar', 'operador não possui caixa aberto');
+      }
+
+      if (data.amount > client.currentDebt + CENT_TOLERANCE) {
+        throw new InvalidEntityStateError(
+          'Cliente',
+          'registrar pagamento',
+          `valor maior que o débito atual (R$ ${client.currentDebt.toFixed(2)})`
+        );
+      }
+
+      const previousDebt = client.currentDebt;
+      const remainingDebt = Math.max(0, roundMoney(previousDebt - data.amount));
+      await clients.updateDebt(clientId, remainingDebt);
+
+      const transaction = await clientTransactions.create(new ClientTransaction({
+        clientId,
+        type: ClientTransactionType.CREDIT,
+        amount: data.amount,
+        description: data.description ?? 'Pagamento de fiado',
+      }));
+
+      await cashRegisters.addMovement(new CashRegisterMovement({
+        sessionId: session.id!,
+        type: CashRegisterMovementType.DEBT_PAYMENT,
+        amount: data.amount,
+        reason: `Pagamento de fiado - ${client.name}`,
+        userId: data.userId,
+      }));
+
+      await cashFlows.create(new CashFlow({
+        type: CashFlowType.INCOME,
+        category: CashFlowCategory.FIADO_PAYMENT,
+        description: `Pagamento de fiado - ${client.name}`,
+        amount: data.amount,
+        date: transaction.createdAt,
+        referenceId: clientId,
+      }));
+
+      // O pagamento abate o fiado das vendas pendentes, mais antigas
+      // primeiro; cada venda guarda o quanto do seu fiado já foi pago
+      const pendingSales = (await sales.findPendingByClient(clientId))
+        .filter(sale => sale.isCredit() && sale.getOutstandingCredit() > 0)
+        .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+      let unallocated = roundMoney(data.amount);
+      const paidSaleIds: string[] = [];
+
+      for (const sale of pendingSales) {
+        if (unallocated <= 0) break;
+
+        const allocated = Math.min(unallocated, sale.getOutstandingCredit());
+        sale.registerCreditPayment(allocated);
+        await sales.saveCreditPayment(sale);
+        unallocated = roundMoney(unallocated - allocated);
+
+        if (sale.isPaid()) {
+          paidSaleIds.push(sale.id!);
+        }
+      }
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.PAYMENT,
+        entity: AuditEntity.CLIENT,
+        entityId: clientId,
+        details: {
+          amount: data.amount,
+          paidSaleIds,
+          ...AuditLog.diff({ currentDebt: previousDebt }, { currentDebt: remainingDebt }),
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return { transaction, remainingDebt, paidSaleIds };
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Emitir Vale-Troca
+ * 
+ * @description
+ * Lançamento manual do gerente (fora de uma devolução). O crédito vale
+ * por `validityDays` ou pela validade padrão da loja.
+ */
+export class IssueStoreCreditUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private defaultValidityDays: number
+  ) {}
+
+  async execute(
+    clientId: string,
+    data: IssueStoreCreditDTO,
+    context: AuditContextDTO = {}
+  ): Promise<StoreCreditTransaction> {
+    const validityDays = data.validityDays ?? this.defaultValidityDays;
+    const errors: FieldValidationError[] = [];
+    if (!Number.isFinite(data.amount) || data.amount <= 0) {
+      errors.push({ field: 'amount', message: 'Valor do crédito deve ser maior que zero' });
+    }
+    if (!data.reason?.trim()) {
+      errors.push({ field: 'reason', message: 'Motivo da emissão é obrigatório' });
+    }
+    if (!Number.isInteger(validityDays) || validityDays <= 0) {
+      errors.push({ field: 'validityDays', message: 'Validade deve ser um número inteiro de dias maior que zero' });
+    }
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    return this.unitOfWork.execute(async ({ clients, storeCredits, auditLogs }) => {
+      const client = await clients.findById(clientId);
+      if (!client) {
+        throw new EntityNotFoundError('Cliente', clientId);
+      }
+      if (!client.isActive) {
+        throw new InvalidEntityStateError('Cliente', 'emitir vale-troca', 'cliente está inativo');
+      }
+
+      const amount = roundMoney(data.amount);
+      const issued = await storeCredits.create(new StoreCreditTransaction({
+        clientId,
+        type: StoreCreditTransactionType.ISSUE,
+        amount,
+        expiresAt: StoreCreditTransaction.expiryDate(new Date(), validityDays),
+        userId: data.userId,
+        description: data.reason.trim(),
+      }));
+
+      const storeCredit = roundMoney(client.storeCredit + amount);
+      await clients.updateStoreCredit(clientId, storeCredit);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.STORE_CREDIT_ISSUE,
+        entity: AuditEntity.CLIENT,
+        entityId: clientId,
+        details: {
+          transactionId: issued.id,
+          amount,
+          reason: issued.description,
+          expiresAt: issued.expiresAt,
+          ...AuditLog.diff({ storeCredit: client.storeCredit }, { storeCredit }),
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return issued;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Baixar Vale-Troca Vencido
+ * 
+ * @description
+ * Zera o saldo das emissões vencidas até `at` com um lançamento EXPIRE
+ * para cada uma, abate o saldo de vale-troca dos clientes e registra uma
+ * auditoria por cliente. Pode ser executado a qualquer momento (ex: rotina
+ * diária): emissões já baixadas não são processadas de novo.
+ */
+export class ExpireStoreCreditsUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(context: AuditContextDTO = {}, at: Date = new Date()): Promise<ExpireStoreCreditsResultDTO> {
+    return this.unitOfWork.execute(async ({ clients, storeCredits, auditLogs }) => {
+      const expired = await storeCredits.findExpired(at);
+
+      const byClient = new Map<string, StoreCreditTransaction[]>();
+      for (const issue of expired) {
+        byClient.set(issue.clientId, [...(byClient.get(issue.clientId) ?? []), issue]);
+      }
+
+      const transactions: StoreCreditTransaction[] = [];
+      let totalAmount = 0;
+
+      for (const [clientId, issues] of byClient) {
+        const client = await clients.findById(clientId);
+        if (!client) continue;
+
+        let clientAmount = 0;
+        for (const issue of issues) {
+          const amount = issue.remaining;
+          await storeCredits.updateRemaining(issue.id!, 0);
+          transactions.push(await storeCredits.create(new StoreCreditTransaction({
+            clientId,
+            type: StoreCreditTransactionType.EXPIRE,
+            amount,
+            userId: context.userId,
+            description: `Vencimento do vale-troca de ${issue.createdAt?.toISOString().slice(0, 10) ?? 'data desconhecida'}`,
+          })));
+          clientAmount += amount;
+        }
+
+        clientAmount = roundMoney(clientAmount);
+        totalAmount += clientAmount;
+        const storeCredit = Math.max(0, roundMoney(client.storeCredit - clientAmount));
+        await clients.updateStoreCredit(clientId, storeCredit);
+
+        await auditLogs.create(new AuditLog({
+          userId: context.userId,
+          action: AuditAction.STORE_CREDIT_EXPIRE,
+          entity: AuditEntity.CLIENT,
+          entityId: clientId,
+          details: {
+            amount: clientAmount,
+            expiredIssues: issues.map(issue => issue.id),
+            ...AuditLog.diff({ storeCredit: client.storeCredit }, { storeCredit }),
+          },
+          ipAddress: context.ipAddress,
+        }));
+      }
+
+      return {
+        expiredAt: at,
+        clientIds: [...byClient.keys()],
+        transactions,
+        totalAmount: roundMoney(totalAmount),
+      };
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Extrato do Cliente (RF12)
+ * 
+ * @description
+ * Lista os lançamentos do período com saldo acumulado. O saldo inicial
+ * é o saldo devedor formado pelas transações anteriores ao período.
+ * O vale-troca tem o seu próprio extrato no mesmo período.
+ */
+export class GetClientStatementUseCase {
+  constructor(
+    private clientRepository: IClientRepository,
+    private clientTransactionRepository: IClientTransactionRepository,
+    private storeCreditRepository: IStoreCreditRepository
+  ) {}
+
+  async execute(clientId: string, startDate?: Date, endDate?: Date): Promise<ClientStatementDTO> {
+    const client = await this.clientRepository.findById(clientId);
+    if (!client) {
+      throw new EntityNotFoundError('Cliente', clientId);
+    }
+
+    const openingBalance = startDate
+      ? roundMoney(await this.clientTransactionRepository.getBalance(clientId, startDate))
+      : 0;
+    const transactions = await this.clientTransactionRepository.findByClient(clientId, { startDate, endDate });
+
+    let balance = openingBalance;
+    let totalDebits = 0;
+    let totalCredits = 0;
+
+    const entries: ClientStatementEntryDTO[] = transactions.map(transaction => {
+      balance = roundMoney(balance + transaction.getBalanceImpact());
+      if (transaction.type === ClientTransactionType.DEBIT) {
+        totalDebits = roundMoney(totalDebits + transaction.amount);
+      } else {
+        totalCredits = roundMoney(totalCredits + transaction.amount);
+      }
+
+      return {
+        id: transaction.id,
+        date: transaction.createdAt,
+        type: transaction.type,
+        description: transaction.description,
+        saleId: transaction.saleId,
+        amount: transaction.amount,
+        balance,
+      };
+    });
+
+    return {
+      clientId,
+      clientName: client.name,
+      startDate,
+      endDate,
+      openingBalance,
+      totalDebits,
+      totalCredits,
+      closingBalance: balance,
+      entries,
+      storeCredit: await this.buildStoreCreditStatement(clientId, startDate, endDate),
+    };
+  }
+
+  /**
+   * Extrato do vale-troca com saldo acumulado
+   */
+  private async buildStoreCreditStatement(
+    clientId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<StoreCreditStatementDTO> {
+    const openingBalance = startDate
+      ? await this.storeCreditRepository.getBalance(clientId, startDate)
+      : 0;
+    const transactions = await this.storeCreditRepository.findByClient(clientId, { startDate, endDate });
+    const available = await this.storeCreditRepository.findAvailable(clientId, new Date());
+
+    let balance = openingBalance;
+    const totals = {
+      [StoreCreditTransactionType.ISSUE]: 0,
+      [StoreCreditTransactionType.REDEEM]: 0,
+      [StoreCreditTransactionType.EXPIRE]: 0,
+    };
+
+    const entries: StoreCreditStatementEntryDTO[] = transactions.map(transaction => {
+      balance = roundMoney(balance + transaction.getBalanceImpact());
+      totals[transaction.type] += transaction.amount;
+
+      return {
+        id: transaction.id,
+        date: transaction.createdAt,
+        type: transaction.type,
+        description: transaction.description,
+        saleId: transaction.saleId,
+        amount: transaction.amount,
+        expiresAt: transaction.expiresAt,
+        balance,
+      };
+    });
+
+    return {
+      openingBalance,
+      totalIssued: roundMoney(totals[StoreCreditTransactionType.ISSUE]),
+      totalRedeemed: roundMoney(totals[StoreCreditTransactionType.REDEEM]),
+      totalExpired: roundMoney(totals[StoreCreditTransactionType.EXPIRE]),
+      closingBalance: balance,
+      available: roundMoney(available.reduce((sum, issue) => sum + issue.remaining, 0)),
+      entries,
+    };
+  }
+}
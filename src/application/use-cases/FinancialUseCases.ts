@@ -27,23 +27,73 @@ import {
   AccountStatus,
   AccountCategory 
 } from '../../domain/entities/FinancialAccount';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { CashFlow, CashFlowType } from '../../domain/entities/CashFlow';
 import { 
   IFinancialAccountRepository, 
   FinancialAccountFilters,
   FinancialSummary 
 } from '../../domain/repositories/IFinancialAccountRepository';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { ICashFlowRepository } from '../../domain/repositories/ICashFlowRepository';
 
 // Importando DTOs da pasta centralizada
-import { CreateFinancialAccountDTO, RegisterPaymentDTO } from '../dtos';
+import {
+  CreateFinancialAccountDTO,
+  RegisterPaymentDTO,
+  AuditContextDTO,
+  CashFlowGrouping,
+  CashFlowCategoryTotalDTO,
+  CashFlowPeriodDTO,
+  CashFlowReportDTO,
+} from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
-  InvalidEntityStateError 
+  InvalidEntityStateError,
+  ValidationError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
-export { CreateFinancialAccountDTO, RegisterPaymentDTO as RegisterAccountPaymentDTO } from '../dtos';
+export {
+  CreateFinancialAccountDTO,
+  RegisterPaymentDTO as RegisterAccountPaymentDTO,
+  CashFlowGrouping,
+  CashFlowReportDTO,
+} from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Chave do período de um lançamento (datas em UTC)
+ */
+function periodKey(date: Date, groupBy: CashFlowGrouping): string {
+  const iso = date.toISOString();
+  if (groupBy === 'yearly') return iso.slice(0, 4);
+  if (groupBy === 'monthly') return iso.slice(0, 7);
+  return iso.slice(0, 10);
+}
+
+/**
+ * Soma os lançamentos por tipo e categoria
+ */
+function totalsByCategory(entries: CashFlow[]): CashFlowCategoryTotalDTO[] {
+  const totals = new Map<string, CashFlowCategoryTotalDTO>();
+
+  for (const entry of entries) {
+    const key = `${entry.type}:${entry.category}`;
+    const current = totals.get(key) ?? { type: entry.type, category: entry.category, total: 0, count: 0 };
+    current.total += entry.amount;
+    current.count += 1;
+    totals.set(key, current);
+  }
+
+  return [...totals.values()].sort((a, b) =>
+    a.type === b.type ? b.total - a.total : a.type === CashFlowType.INCOME ? -1 : 1
+  );
+}
 
 // ==================== USE CASES ====================
 
@@ -127,29 +177,57 @@ export class GetDueSoonAccountsUseCase {
 
 /**
  * Caso de Uso: Registrar Pagamento de Conta
+ * @description Baixa a conta e lança a entrada/saída no fluxo de caixa
+ *              na mesma transação.
  */
 export class RegisterAccountPaymentUseCase {
-  constructor(private financialAccountRepository: IFinancialAccountRepository) {}
-
-  async execute(data: RegisterPaymentDTO): Promise<FinancialAccount> {
-    const account = await this.financialAccountRepository.findById(data.accountId);
-    if (!account) {
-      throw new EntityNotFoundError('Conta', data.accountId);
-    }
-
-    if (account.status === AccountStatus.PAID) {
-      throw new InvalidEntityStateError('Conta', 'pagar', 'já foi paga');
-    }
-
-    if (account.status === AccountStatus.CANCELLED) {
-      throw new InvalidEntityStateError('Conta', 'pagar', 'foi cancelada');
-    }
-
-    // Registra o pagamento
-    return this.financialAccountRepository.pay(
-      data.accountId,
-      data.paidAt ?? new Date()
-    );
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: RegisterPaymentDTO, context: AuditContextDTO = {}): Promise<FinancialAccount> {
+    return this.unitOfWork.execute(async ({ financialAccounts, cashFlows, auditLogs }) => {
+      const account = await financialAccounts.findById(data.accountId);
+      if (!account) {
+        throw new EntityNotFoundError('Conta', data.accountId);
+      }
+
+      if (account.status === AccountStatus.PAID) {
+        throw new InvalidEntityStateError('Conta', 'pagar', 'já foi paga');
+      }
+
+      if (account.status === AccountStatus.CANCELLED) {
+        throw new InvalidEntityStateError('Conta', 'pagar', 'foi cancelada');
+      }
+
+      // Registra o pagamento
+      const paidAccount = await financialAccounts.pay(
+        data.accountId,
+        data.paidAt ?? new Date()
+      );
+
+      // Conta a pagar sai do caixa; conta a receber entra
+      await cashFlows.create(new CashFlow({
+        type: paidAccount.isPayable() ? CashFlowType.EXPENSE : CashFlowType.INCOME,
+        category: CashFlow.categoryForAccount(paidAccount.category),
+        description: paidAccount.description,
+        amount: paidAccount.amount,
+        date: paidAccount.paidDate ?? data.paidAt ?? new Date(),
+        referenceId: paidAccount.id,
+      }));
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.PAYMENT,
+        entity: AuditEntity.FINANCIAL_ACCOUNT,
+        entityId: data.accountId,
+        details: AuditLog.diff(
+          { status: account.status, paidDate: account.paidDate },
+          { status: paidAccount.status, paidDate: paidAccount.paidDate }
+        ),
+        ipAddress: context.ipAddress,
+      }));
+
+      return paidAccount;
+    });
   }
 }
 
@@ -157,9 +235,12 @@ export class RegisterAccountPaymentUseCase {
  * Caso de Uso: Cancelar Conta
  */
 export class CancelAccountUseCase {
-  constructor(private financialAccountRepository: IFinancialAccountRepository) {}
+  constructor(
+    private financialAccountRepository: IFinancialAccountRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(id: string): Promise<FinancialAccount> {
+  async execute(id: string, context: AuditContextDTO = {}): Promise<FinancialAccount> {
     const account = await this.financialAccountRepository.findById(id);
     if (!account) {
       throw new EntityNotFoundError('Conta', id);
@@ -169,7 +250,18 @@ export class CancelAccountUseCase {
       throw new InvalidEntityStateError('Conta', 'cancelar', 'já foi paga');
     }
 
-    return this.financialAccountRepository.cancel(id);
+    const cancelledAccount = await this.financialAccountRepository.cancel(id);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.CANCEL,
+      entity: AuditEntity.FINANCIAL_ACCOUNT,
+      entityId: id,
+      details: AuditLog.diff({ status: account.status }, { status: cancelledAccount.status }),
+      ipAddress: context.ipAddress,
+    }));
+
+    return cancelledAccount;
   }
 }
 
@@ -216,3 +308,68 @@ export class GetAccountsByStatusUseCase {
     return this.financialAccountRepository.findByStatus(status);
   }
 }
+
+/**
+ * Caso de Uso: Relatório de Fluxo de Caixa (RF16)
+ *
+ * @description
+ * Agrupa os lançamentos do período por dia, mês ou ano, com saldo
+ * inicial, saldo final e totais por categoria.
+ */
+export class GetCashFlowReportUseCase {
+  constructor(private cashFlowRepository: ICashFlowRepository) {}
+
+  async execute(startDate: Date, endDate: Date, groupBy: CashFlowGrouping = 'daily'): Promise<CashFlowReportDTO> {
+    if (startDate > endDate) {
+      throw new ValidationError([{ field: 'startDate', message: 'Data inicial deve ser anterior à data final' }]);
+    }
+
+    const openingBalance = await this.cashFlowRepository.getBalance(startDate);
+    const entries = await this.cashFlowRepository.findByPeriod(startDate, endDate);
+
+    const grouped = new Map<string, CashFlow[]>();
+    for (const entry of entries) {
+      const key = periodKey(entry.date, groupBy);
+      grouped.set(key, [...(grouped.get(key) ?? []), entry]);
+    }
+
+    let balance = openingBalance;
+    const periods: CashFlowPeriodDTO[] = [...grouped.entries()].map(([period, periodEntries]) => {
+      const income = periodEntries
+        .filter(entry => entry.type === CashFlowType.INCOME)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      const expense = periodEntries
+        .filter(entry => entry.type === CashFlowType.EXPENSE)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
+      const periodOpening = balance;
+      balance += income - expense;
+
+      return {
+        period,
+        openingBalance: periodOpening,
+        income,
+        expense,
+        net: income - expense,
+        closingBalance: balance,
+        categories: totalsByCategory(periodEntries),
+      };
+    });
+
+    const totalIncome = periods.reduce((sum, period) => sum + period.income, 0);
+    const totalExpense = periods.reduce((sum, period) => sum + period.expense, 0);
+
+    return {
+      startDate,
+      endDate,
+      groupBy,
+      openingBalance,
+      totalIncome,
+      totalExpense,
+      netFlow: totalIncome - totalExpense,
+      closingBalance: openingBalance + totalIncome - totalExpense,
+      categories: totalsByCategory(entries),
+      periods,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+// ============================================================================
+// USE CASES: IDEMPOTENCY KEY (CHAVE DE IDEMPOTÊNCIA)
+// ============================================================================
+// Casos de uso para requisições repetíveis com o cabeçalho Idempotency-Key.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Executar Uma Vez, Responder Sempre Igual
+// ==================================================
+// A primeira requisição reserva a chave e é executada normalmente. Se der
+// certo (2xx), a resposta fica guardada e as repetições com a mesma chave a
+// recebem de volta sem executar a operação de novo. Se der errado, a chave
+// é liberada: nada foi gravado e o cliente pode tentar outra vez.
+//
+// As chaves valem por `retentionHours`; as mais antigas são removidas antes
+// de cada nova requisição idempotente.
+//
+// A reserva sem resposta dura só `leaseSeconds`: se o servidor cair no meio
+// da requisição, a repetição feita depois desse prazo reserva a chave de
+// novo em vez de receber 409 até o fim da retenção.
+// ============================================================================
+
+import { IdempotencyKey } from '../../domain/entities/IdempotencyKey';
+import { IIdempotencyKeyRepository } from '../../domain/repositories/IIdempotencyKeyRepository';
+
+// Importando DTOs da pasta centralizada
+import { BeginIdempotentRequestDTO } from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  ValidationError,
+  IdempotencyKeyReusedError,
+  IdempotencyKeyInProgressError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export { BeginIdempotentRequestDTO } from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Verifica se o status HTTP é de sucesso (2xx)
+ */
+function isSuccessStatus(statusCode: number): boolean {
+  return statusCode >= 200 && statusCode < 300;
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Iniciar Requisição Idempotente
+ *
+ * @description
+ * Retorna a chave reservada para a requisição. Se a chave já tiver a
+ * resposta guardada (`isCompleted()`), a requisição é uma repetição e a
+ * resposta original deve ser devolvida sem executar a operação.
+ *
+ * Regras:
+ * - A chave vale por usuário, dentro da janela de retenção
+ * - Mesma chave com método, caminho ou corpo diferentes é rejeitada
+ * - Mesma chave com a requisição original em andamento é rejeitada;
+ *   sem resposta depois de `leaseSeconds`, a chave é reservada de novo
+ *
+ * @throws IdempotencyKeyReusedError se a chave foi usada em outra requisição
+ * @throws IdempotencyKeyInProgressError se a requisição original não terminou
+ */
+export class BeginIdempotentRequestUseCase {
+  constructor(
+    private idempotencyKeyRepository: IIdempotencyKeyRepository,
+    private retentionHours: number,
+    private leaseSeconds: number
+  ) {}
+
+  async execute(data: BeginIdempotentRequestDTO): Promise<IdempotencyKey> {
+    const key = data.key.trim();
+    if (key.length === 0 || key.length > IdempotencyKey.MAX_KEY_LENGTH) {
+      throw new ValidationError([{
+        field: 'Idempotency-Key',
+        message: `Chave de idempotência deve ter entre 1 e ${IdempotencyKey.MAX_KEY_LENGTH} caracteres`,
+      }]);
+    }
+
+    await this.idempotencyKeyRepository.deleteOlderThan(
+      new Date(Date.now() - this.retentionHours * 60 * 60 * 1000)
+    );
+
+    const existing = await this.idempotencyKeyRepository.findByKey(data.userId, key);
+    if (existing && !this.isAbandoned(existing, data)) {
+      return this.checkExisting(existing, data);
+    }
+    if (existing) {
+      await this.idempotencyKeyRepository.delete(existing.id!);
+    }
+
+    const reserved = await this.idempotencyKeyRepository.reserve(new IdempotencyKey({
+      key,
+      userId: data.userId,
+      method: data.method,
+      path: data.path,
+      requestHash: data.requestHash,
+    }));
+
+    // Outra requisição com a mesma chave reservou primeiro
+    if (!reserved) {
+      throw new IdempotencyKeyInProgressError(key);
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Reserva da mesma requisição que ficou sem resposta além do prazo
+   */
+  private isAbandoned(existing: IdempotencyKey, data: BeginIdempotentRequestDTO): boolean {
+    return existing.matches(data.method, data.path, data.requestHash)
+      && existing.isAbandoned(this.leaseSeconds);
+  }
+
+  /**
+   * Confere se a chave existente é da mesma requisição e já tem resposta
+   */
+  private checkExisting(existing: IdempotencyKey, data: BeginIdempotentRequestDTO): IdempotencyKey {
+    if (!existing.matches(data.method, data.path, data.requestHash)) {
+      throw new IdempotencyKeyReusedError(existing.key);
+    }
+    if (!existing.isCompleted()) {
+      throw new IdempotencyKeyInProgressError(existing.key);
+    }
+    return existing;
+  }
+}
+
+/**
+ * Caso de Uso: Concluir Requisição Idempotente
+ *
+ * @description
+ * Guarda a resposta de sucesso (2xx) da requisição original. Qualquer
+ * outra resposta libera a chave, já que a operação não foi registrada.
+ */
+export class CompleteIdempotentRequestUseCase {
+  constructor(private idempotencyKeyRepository: IIdempotencyKeyRepository) {}
+
+  async execute(id: string, statusCode: number, body: unknown): Promise<void> {
+    if (!isSuccessStatus(statusCode)) {
+      await this.idempotencyKeyRepository.delete(id);
+      return;
+    }
+
+    await this.idempotencyKeyRepository.complete(id, statusCode, JSON.stringify(body ?? null));
+  }
+}
+
+/**
+ * Caso de Uso: Liberar Requisição Idempotente
+ * @description Usado quando a requisição original termina sem resposta
+ *              (ex: conexão encerrada pelo cliente)
+ */
+export class ReleaseIdempotentRequestUseCase {
+  constructor(private idempotencyKeyRepository: IIdempotencyKeyRepository) {}
+
+  async execute(id: string): Promise<void> {
+    await this.idempotencyKeyRepository.delete(id);
+  }
+}
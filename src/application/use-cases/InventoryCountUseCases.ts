@@ -0,0 +1,303 @@
+// ============================================================================
+// USE CASES: INVENTORY COUNT (INVENTÁRIO)
+// ============================================================================
+// Casos de uso da contagem física do estoque de um local.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Diferença sobre o saldo esperado
+// ==========================================
+// A abertura guarda o saldo de cada produto no local (esperado). Na
+// aprovação, a diferença contada (contado - esperado) é somada ao saldo
+// atual do local por um ajuste (ADJUSTMENT), de modo que vendas feitas
+// depois da abertura não são desfeitas. Produtos sem contagem ou sem
+// diferença não recebem ajuste.
+//
+// Requisitos atendidos:
+// - RF02: Controle de entrada e saída (ajuste de inventário)
+// ============================================================================
+
+import { InventoryCount, InventoryCountStatus } from '../../domain/entities/InventoryCount';
+import { InventoryCountItem } from '../../domain/entities/InventoryCountItem';
+import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { IInventoryCountRepository } from '../../domain/repositories/IInventoryCountRepository';
+import { ICategoryRepository } from '../../domain/repositories/ICategoryRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { resolveStockLocation } from './StockLocationUseCases';
+import { registerStockMovement } from './StockMovementUseCases';
+
+// Importando DTOs da pasta centralizada
+import {
+  CreateInventoryCountDTO,
+  RecordInventoryCountsDTO,
+  ApproveInventoryCountResultDTO,
+  InventoryCountFiltersDTO,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+  ValidationError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export {
+  CreateInventoryCountDTO,
+  InventoryCountEntryDTO,
+  RecordInventoryCountsDTO,
+  ApproveInventoryCountResultDTO,
+  InventoryCountFiltersDTO,
+} from '../dtos';
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Abrir Inventário
+ * @description Guarda o saldo esperado no local de cada produto ativo
+ *              (da categoria, se informada)
+ */
+export class CreateInventoryCountUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private categoryRepository: ICategoryRepository
+  ) {}
+
+  async execute(data: CreateInventoryCountDTO, context: AuditContextDTO = {}): Promise<InventoryCount> {
+    if (data.categoryId && !(await this.categoryRepository.findById(data.categoryId))) {
+      throw new EntityNotFoundError('Categoria', data.categoryId);
+    }
+
+    return this.unitOfWork.execute(async ({ products, stockLocations, productStocks, inventoryCounts, auditLogs }) => {
+      const location = await resolveStockLocation(stockLocations, data.locationId);
+
+      // Dois inventários abertos do mesmo produto no local ajustariam a diferença duas vezes
+      const open = await inventoryCounts.findAll({ locationId: location.id!, status: InventoryCountStatus.OPEN });
+      if (open.some(count => count.overlaps(data.categoryId))) {
+        throw new InvalidEntityStateError('Inventário', 'abrir', `já existe inventário aberto em ${location.name} para estes produtos`);
+      }
+
+      const scope = await products.findAll({ categoryId: data.categoryId, isActive: true });
+      if (scope.length === 0) {
+        throw new ValidationError([{ field: 'categoryId', message: 'Nenhum produto ativo para contar' }]);
+      }
+
+      const stocks = await productStocks.findAll({ locationId: location.id! });
+      const count = await inventoryCounts.create(new InventoryCount({
+        locationId: location.id!,
+        categoryId: data.categoryId,
+        notes: data.notes,
+        userId: data.userId,
+        items: scope.map(product => new InventoryCountItem({
+          productId: product.id!,
+          expectedQuantity: stocks.find(stock => stock.productId === product.id)?.quantity ?? 0,
+          unitCost: product.costPrice,
+        })),
+      }));
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.CREATE,
+        entity: AuditEntity.INVENTORY_COUNT,
+        entityId: count.id,
+        details: {
+          locationId: count.locationId,
+          categoryId: count.categoryId ?? null,
+          totalItems: count.items.length,
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return count;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Listar Inventários
+ */
+export class GetInventoryCountsUseCase {
+  constructor(private inventoryCountRepository: IInventoryCountRepository) {}
+
+  async execute(filters?: InventoryCountFiltersDTO): Promise<InventoryCount[]> {
+    return this.inventoryCountRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Inventário por ID
+ * @description Itens com contagens e diferenças em unidades e custo
+ */
+export class GetInventoryCountByIdUseCase {
+  constructor(private inventoryCountRepository: IInventoryCountRepository) {}
+
+  async execute(id: string): Promise<InventoryCount | null> {
+    return this.inventoryCountRepository.findById(id);
+  }
+}
+
+/**
+ * Caso de Uso: Lançar Contagens
+ * @description Registra as quantidades contadas por um usuário; a nova
+ *              contagem do mesmo usuário substitui a anterior
+ */
+export class RecordInventoryCountsUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(id: string, data: RecordInventoryCountsDTO): Promise<InventoryCount> {
+    if (!data.items || data.items.length === 0) {
+      throw new ValidationError([{ field: 'items', message: 'Informe pelo menos 1 produto contado' }]);
+    }
+
+    const productIds = data.items.map(item => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ValidationError([{ field: 'items', message: 'Produto repetido na contagem' }]);
+    }
+
+    if (data.items.some(item => !Number.isInteger(item.quantity) || item.quantity < 0)) {
+      throw new ValidationError([{ field: 'items', message: 'Quantidade contada deve ser um número inteiro maior ou igual a zero' }]);
+    }
+
+    return this.unitOfWork.execute(async ({ inventoryCounts }) => {
+      const count = await inventoryCounts.findById(id);
+      if (!count) {
+        throw new EntityNotFoundError('Inventário', id);
+      }
+
+      if (!count.isOpen()) {
+        throw new InvalidEntityStateError('Inventário', 'lançar contagens', `está ${count.getStatusDescription().toLowerCase()}`);
+      }
+
+      for (const counted of data.items) {
+        const item = count.findItem(counted.productId);
+        if (!item) {
+          throw new ValidationError([{
+            field: 'items',
+            message: `Produto ${counted.productId} não faz parte do inventário`,
+          }]);
+        }
+
+        await inventoryCounts.addEntry(item.id!, data.userId, counted.quantity);
+      }
+
+      return (await inventoryCounts.findById(id))!;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Aprovar Inventário
+ *
+ * @description
+ * Lança um ajuste para cada produto contado com diferença, na mesma
+ * transação que conclui o inventário.
+ *
+ * Regras:
+ * - Inventário aberto, com pelo menos um produto contado
+ * - Nenhum produto com contagens divergentes
+ * - Novo saldo do local = saldo atual + (contado - esperado), nunca
+ *   abaixo de zero
+ */
+export class ApproveInventoryCountUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<ApproveInventoryCountResultDTO> {
+    return this.unitOfWork.execute(async (repositories) => {
+      const { inventoryCounts, productStocks, auditLogs } = repositories;
+
+      const count = await inventoryCounts.findById(id);
+      if (!count) {
+        throw new EntityNotFoundError('Inventário', id);
+      }
+
+      if (!count.isOpen()) {
+        throw new InvalidEntityStateError('Inventário', 'aprovar', `está ${count.getStatusDescription().toLowerCase()}`);
+      }
+
+      const divergent = count.getDivergentItems();
+      if (divergent.length > 0) {
+        const names = divergent.map(item => item.productName ?? item.productId).join(', ');
+        throw new InvalidEntityStateError('Inventário', 'aprovar', `contagens divergentes: ${names}; recontar`);
+      }
+
+      const summary = count.getVarianceSummary();
+      if (summary.countedItems === 0) {
+        throw new InvalidEntityStateError('Inventário', 'aprovar', 'nenhum produto contado');
+      }
+
+      const movements: StockMovement[] = [];
+      for (const item of count.getItemsWithVariance()) {
+        const current = (await productStocks.find(item.productId, count.locationId))?.quantity ?? 0;
+        const adjusted = Math.max(0, current + item.getVariance()!);
+        if (adjusted === current) continue;
+
+        const { movement } = await registerStockMovement(repositories, {
+          productId: item.productId,
+          type: MovementType.ADJUSTMENT,
+          quantity: adjusted,
+          reason: `Inventário #${count.id}`,
+          locationId: count.locationId,
+        }, context.userId);
+
+        await inventoryCounts.setItemMovement(item.id!, movement.id!);
+        movements.push(movement);
+      }
+
+      const approved = await inventoryCounts.approve(id, context.userId);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.APPROVE,
+        entity: AuditEntity.INVENTORY_COUNT,
+        entityId: id,
+        details: {
+          ...AuditLog.diff({ status: count.status }, { status: approved.status }),
+          locationId: count.locationId,
+          countedItems: summary.countedItems,
+          uncountedItems: summary.uncountedItems,
+          adjustments: movements.length,
+          netUnits: summary.netUnits,
+          netCost: summary.netCost,
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return { count: approved, movements };
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Cancelar Inventário
+ * @description Encerra a contagem sem lançar ajustes
+ */
+export class CancelInventoryCountUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<InventoryCount> {
+    return this.unitOfWork.execute(async ({ inventoryCounts, auditLogs }) => {
+      const count = await inventoryCounts.findById(id);
+      if (!count) {
+        throw new EntityNotFoundError('Inventário', id);
+      }
+
+      if (!count.isOpen()) {
+        throw new InvalidEntityStateError('Inventário', 'cancelar', `está ${count.getStatusDescription().toLowerCase()}`);
+      }
+
+      const cancelled = await inventoryCounts.cancel(id);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.CANCEL,
+        entity: AuditEntity.INVENTORY_COUNT,
+        entityId: id,
+        details: AuditLog.diff({ status: count.status }, { status: cancelled.status }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return cancelled;
+    });
+  }
+}
@@ -16,17 +16,25 @@
 // ============================================================================
 
 import { Product } from '../../domain/entities/Product';
+import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
 import { IProductRepository, ProductFilters } from '../../domain/repositories/IProductRepository';
 import { ICategoryRepository } from '../../domain/repositories/ICategoryRepository';
 import { ISupplierRepository } from '../../domain/repositories/ISupplierRepository';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+import { IStockLotRepository } from '../../domain/repositories/IStockLotRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { receiveStockLot } from './StockLotUseCases';
+import { resolveStockLocation } from './StockLocationUseCases';
 
 // Importando DTOs da pasta centralizada
-import { CreateProductDTO, UpdateProductDTO } from '../dtos';
+import { CreateProductDTO, UpdateProductDTO, AuditContextDTO } from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
-  EntityAlreadyExistsError 
+  EntityAlreadyExistsError,
+  ValidationError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
@@ -36,16 +44,18 @@ export { CreateProductDTO, UpdateProductDTO } from '../dtos';
 
 /**
  * Caso de Uso: Criar Produto
- * @description Cria um novo produto validando categoria, fornecedor e código de barras
+ * @description Cria um novo produto validando categoria, fornecedor e código de barras;
+ *              o estoque inicial entra no local padrão como movimentação de entrada
  */
 export class CreateProductUseCase {
   constructor(
     private productRepository: IProductRepository,
     private categoryRepository: ICategoryRepository,
-    private supplierRepository: ISupplierRepository
+    private supplierRepository: ISupplierRepository,
+    private unitOfWork: IUnitOfWork
   ) {}
 
-  async execute(data: CreateProductDTO): Promise<Product> {
+  async execute(data: CreateProductDTO, context: AuditContextDTO = {}): Promise<Product> {
     // Verificar se categoria existe
     const category = await this.categoryRepository.findById(data.categoryId);
     if (!category) {
@@ -83,7 +93,35 @@ export class CreateProductUseCase {
       expirationDate: data.expirationDate,
     });
 
-    return this.productRepository.create(product);
+    return this.unitOfWork.execute(async ({ products, stockMovements, stockLots, stockLocations, productStocks }) => {
+      const created = await products.create(product);
+
+      // Estoque inicial entra no local padrão, no livro de movimentações e
+      // forma o primeiro lote do produto
+      if (created.quantity > 0) {
+        const location = await resolveStockLocation(stockLocations);
+        await productStocks.increment(created.id!, location.id!, created.quantity);
+        const movement = await stockMovements.create(new StockMovement({
+          productId: created.id!,
+          type: MovementType.ENTRY,
+          quantity: created.quantity,
+          reason: 'Estoque inicial',
+          unitPrice: created.costPrice,
+          userId: context.userId,
+          locationId: location.id,
+        }));
+        await receiveStockLot(stockLots, {
+          productId: created.id!,
+          locationId: location.id!,
+          quantity: created.quantity,
+          movementId: movement.id,
+          expirationDate: created.expirationDate,
+          unitCost: created.costPrice,
+        });
+      }
+
+      return created;
+    });
   }
 }
 
@@ -134,13 +172,20 @@ export class GetLowStockProductsUseCase {
 
 /**
  * Caso de Uso: Produtos Vencidos (RF13)
- * @description Retorna produtos com data de validade expirada
+ * @description Retorna produtos com saldo em algum lote vencido
  */
 export class GetExpiredProductsUseCase {
-  constructor(private productRepository: IProductRepository) {}
+  constructor(
+    private productRepository: IProductRepository,
+    private stockLotRepository: IStockLotRepository
+  ) {}
 
   async execute(): Promise<Product[]> {
-    return this.productRepository.findExpired();
+    const expiredLots = await this.stockLotRepository.findAll({ expiresBefore: new Date() });
+    const productIds = [...new Set(expiredLots.map(lot => lot.productId))];
+
+    const products = await Promise.all(productIds.map(id => this.productRepository.findById(id)));
+    return products.filter((product): product is Product => product !== null);
   }
 }
 
@@ -173,10 +218,11 @@ export class UpdateProductUseCase {
   constructor(
     private productRepository: IProductRepository,
     private categoryRepository: ICategoryRepository,
-    private supplierRepository: ISupplierRepository
+    private supplierRepository: ISupplierRepository,
+    private auditLogRepository: IAuditLogRepository
   ) {}
 
-  async execute(id: string, data: UpdateProductDTO): Promise<Product> {
+  async execute(id: string, data: UpdateProductDTO, context: AuditContextDTO = {}): Promise<Product> {
     const existingProduct = await this.productRepository.findById(id);
     if (!existingProduct) {
       throw new EntityNotFoundError('Produto', id);
@@ -198,6 +244,14 @@ export class UpdateProductUseCase {
       }
     }
 
+    // Estoque só muda por movimentação, para o livro fechar com o produto
+    if (data.quantity !== undefined && data.quantity !== existingProduct.quantity) {
+      throw new ValidationError([{
+        field: 'quantity',
+        message: 'Estoque não é alterado no cadastro; registre uma movimentação (ajuste) em /stock-movements',
+      }]);
+    }
+
     // Verificar código de barras único
     if (data.barcode) {
       const productWithSameBarcode = await this.productRepository.findByBarcode(data.barcode);
@@ -206,7 +260,25 @@ export class UpdateProductUseCase {
       }
     }
 
-    return this.productRepository.update(id, data);
+    const updatedProduct = await this.productRepository.update(id, data);
+
+    // Alterações de preço são auditadas (RF22)
+    const priceDiff = AuditLog.diff(
+      { costPrice: existingProduct.costPrice, salePrice: existingProduct.salePrice },
+      { costPrice: updatedProduct.costPrice, salePrice: updatedProduct.salePrice }
+    );
+    if (Object.keys(priceDiff.after).length > 0) {
+      await this.auditLogRepository.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.PRICE_CHANGE,
+        entity: AuditEntity.PRODUCT,
+        entityId: id,
+        details: priceDiff,
+        ipAddress: context.ipAddress,
+      }));
+    }
+
+    return updatedProduct;
   }
 }
 
@@ -0,0 +1,251 @@
+// ============================================================================
+// USE CASES: PROMOTION (PROMOÇÃO)
+// ============================================================================
+// Casos de uso para o cadastro de promoções.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Regras de Negócio na Entidade
+// =======================================
+// O cálculo do desconto e a escolha da promoção vencedora ficam na entidade
+// Promotion; aqui apenas validamos as referências (produtos e categorias)
+// e registramos as alterações na auditoria. O desconto é aplicado pelo
+// caso de uso de criação de venda.
+// ============================================================================
+
+import { Promotion } from '../../domain/entities/Promotion';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { IPromotionRepository } from '../../domain/repositories/IPromotionRepository';
+import { IProductRepository } from '../../domain/repositories/IProductRepository';
+import { ICategoryRepository } from '../../domain/repositories/ICategoryRepository';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+
+// Importando DTOs da pasta centralizada
+import { CreatePromotionDTO, UpdatePromotionDTO, PromotionFiltersDTO, AuditContextDTO } from '../dtos';
+
+// Importando erros de domínio específicos
+import { EntityNotFoundError, InvalidEntityStateError } from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export { CreatePromotionDTO, UpdatePromotionDTO, PromotionFiltersDTO } from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Verifica se os produtos e categorias do escopo existem
+ * @throws EntityNotFoundError no primeiro ID inexistente
+ */
+async function ensureScopeExists(
+  products: IProductRepository,
+  categories: ICategoryRepository,
+  productIds?: string[] | null,
+  categoryIds?: string[] | null
+): Promise<void> {
+  for (const productId of productIds ?? []) {
+    if (!await products.findById(productId)) {
+      throw new EntityNotFoundError('Produto', productId);
+    }
+  }
+
+  for (const categoryId of categoryIds ?? []) {
+    if (!await categories.findById(categoryId)) {
+      throw new EntityNotFoundError('Categoria', categoryId);
+    }
+  }
+}
+
+/**
+ * Campos da promoção registrados na auditoria
+ */
+function auditSnapshot(promotion: Promotion): Record<string, unknown> {
+  return {
+    name: promotion.name,
+    type: promotion.type,
+    value: promotion.value,
+    buyQuantity: promotion.buyQuantity,
+    getQuantity: promotion.getQuantity,
+    minPurchase: promotion.minPurchase,
+    startDate: promotion.startDate,
+    endDate: promotion.endDate,
+    isActive: promotion.isActive,
+    productIds: promotion.productIds?.join(',') ?? null,
+    categoryIds: promotion.categoryIds?.join(',') ?? null,
+  };
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Criar Promoção
+ * @description Cria uma promoção validando o escopo de produtos e categorias
+ */
+export class CreatePromotionUseCase {
+  constructor(
+    private promotionRepository: IPromotionRepository,
+    private productRepository: IProductRepository,
+    private categoryRepository: ICategoryRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(data: CreatePromotionDTO, context: AuditContextDTO = {}): Promise<Promotion> {
+    const promotion = new Promotion({
+      name: data.name,
+      description: data.description,
+      type: data.type,
+      value: data.value,
+      buyQuantity: data.buyQuantity,
+      getQuantity: data.getQuantity,
+      minPurchase: data.minPurchase,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      isActive: data.isActive ?? true,
+      productIds: data.productIds,
+      categoryIds: data.categoryIds,
+    });
+
+    await ensureScopeExists(
+      this.productRepository,
+      this.categoryRepository,
+      promotion.productIds,
+      promotion.categoryIds
+    );
+
+    const created = await this.promotionRepository.create(promotion);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.CREATE,
+      entity: AuditEntity.PROMOTION,
+      entityId: created.id,
+      details: AuditLog.diff({}, auditSnapshot(created)),
+      ipAddress: context.ipAddress,
+    }));
+
+    return created;
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Promoção por ID
+ */
+export class GetPromotionByIdUseCase {
+  constructor(private promotionRepository: IPromotionRepository) {}
+
+  async execute(id: string): Promise<Promotion | null> {
+    return this.promotionRepository.findById(id);
+  }
+}
+
+/**
+ * Caso de Uso: Listar Promoções
+ * @description Lista promoções por tipo, situação ou somente as valendo agora
+ */
+export class GetPromotionsUseCase {
+  constructor(private promotionRepository: IPromotionRepository) {}
+
+  async execute(filters: PromotionFiltersDTO = {}): Promise<Promotion[]> {
+    return this.promotionRepository.findAll({
+      type: filters.type,
+      isActive: filters.isActive,
+      runningAt: filters.running ? new Date() : undefined,
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Atualizar Promoção
+ * @description Vendas já registradas mantêm o desconto calculado na época
+ */
+export class UpdatePromotionUseCase {
+  constructor(
+    private promotionRepository: IPromotionRepository,
+    private productRepository: IProductRepository,
+    private categoryRepository: ICategoryRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(id: string, data: UpdatePromotionDTO, context: AuditContextDTO = {}): Promise<Promotion> {
+    const existing = await this.promotionRepository.findById(id);
+    if (!existing) {
+      throw new EntityNotFoundError('Promoção', id);
+    }
+
+    // Monta a promoção completa para validar a combinação de campos
+    const promotion = new Promotion({
+      id,
+      name: data.name ?? existing.name,
+      description: data.description !== undefined ? data.description : existing.description,
+      type: data.type ?? existing.type,
+      value: data.value ?? existing.value,
+      buyQuantity: data.buyQuantity !== undefined ? data.buyQuantity : existing.buyQuantity,
+      getQuantity: data.getQuantity !== undefined ? data.getQuantity : existing.getQuantity,
+      minPurchase: data.minPurchase !== undefined ? data.minPurchase : existing.minPurchase,
+      startDate: data.startDate ?? existing.startDate,
+      endDate: data.endDate ?? existing.endDate,
+      isActive: data.isActive ?? existing.isActive,
+      productIds: data.productIds !== undefined ? data.productIds : existing.productIds,
+      categoryIds: data.categoryIds !== undefined ? data.categoryIds : existing.categoryIds,
+    });
+
+    await ensureScopeExists(
+      this.productRepository,
+      this.categoryRepository,
+      data.productIds,
+      data.categoryIds
+    );
+
+    const updated = await this.promotionRepository.update(id, promotion);
+
+    const details = AuditLog.diff(auditSnapshot(existing), auditSnapshot(updated));
+    if (Object.keys(details.after).length > 0) {
+      await this.auditLogRepository.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.UPDATE,
+        entity: AuditEntity.PROMOTION,
+        entityId: id,
+        details,
+        ipAddress: context.ipAddress,
+      }));
+    }
+
+    return updated;
+  }
+}
+
+/**
+ * Caso de Uso: Excluir Promoção
+ * @description Promoções já aplicadas em vendas não são excluídas (o item
+ *              de venda perderia a referência); devem ser desativadas.
+ */
+export class DeletePromotionUseCase {
+  constructor(
+    private promotionRepository: IPromotionRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<void> {
+    const existing = await this.promotionRepository.findById(id);
+    if (!existing) {
+      throw new EntityNotFoundError('Promoção', id);
+    }
+
+    const usage = await this.promotionRepository.countUsage(id);
+    if (usage > 0) {
+      throw new InvalidEntityStateError(
+        'Promoção',
+        'excluir',
+        `já aplicada em ${usage} item(ns) de venda; desative-a em vez de excluir`
+      );
+    }
+
+    await this.promotionRepository.delete(id);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.DELETE,
+      entity: AuditEntity.PROMOTION,
+      entityId: id,
+      details: AuditLog.diff(auditSnapshot(existing), {}),
+      ipAddress: context.ipAddress,
+    }));
+  }
+}
@@ -0,0 +1,459 @@
+// ============================================================================
+// USE CASES: PURCHASE ORDER (PEDIDO DE COMPRA)
+// ============================================================================
+// Casos de uso para o ciclo de vida dos pedidos de compra.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Ciclo de Vida do Pedido
+// =================================
+// PENDING → APPROVED → RECEIVED, com cancelamento possível antes do
+// recebimento. A aprovação é restrita a gerentes (verificada na rota) e,
+// assim como o cancelamento, fica registrada no log de auditoria.
+//
+// CONCEITO: Recebimento
+// =====================
+// Cada entrega gera movimentações ENTRY vinculadas ao pedido, soma as
+// quantidades recebidas nos itens e atualiza o preço de custo dos produtos.
+// Entregas parciais mantêm o pedido APPROVED; ele só passa a RECEIVED quando
+// todos os itens chegaram. Cada entrega também gera as contas a pagar do
+// fornecedor (categoria SUPPLIER, referenceId = ID do pedido), parceladas
+// conforme a condição de pagamento. Tudo acontece em uma única transação.
+//
+// Requisitos atendidos:
+// - RF14: Registrar pedidos de compra de fornecedores
+// ============================================================================
+
+import { PurchaseOrder, PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+import { PurchaseItem } from '../../domain/entities/PurchaseItem';
+import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { PaymentTerms } from '../../domain/entities/PaymentTerms';
+import {
+  FinancialAccount,
+  AccountType,
+  AccountStatus,
+  AccountCategory,
+} from '../../domain/entities/FinancialAccount';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import {
+  IPurchaseOrderRepository,
+  PurchaseOrderFilters,
+} from '../../domain/repositories/IPurchaseOrderRepository';
+import { ISupplierRepository } from '../../domain/repositories/ISupplierRepository';
+import { IProductRepository } from '../../domain/repositories/IProductRepository';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+import { IFinancialAccountRepository } from '../../domain/repositories/IFinancialAccountRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { receiveStockLot } from './StockLotUseCases';
+import { resolveStockLocation } from './StockLocationUseCases';
+
+// Importando DTOs da pasta centralizada
+import {
+  CreatePurchaseOrderDTO,
+  PurchaseItemDTO,
+  ReceivePurchaseOrderDTO,
+  ReceivePurchaseOrderResultDTO,
+  PurchaseOrderDetailsDTO,
+  PurchaseOrderPaymentSummaryDTO,
+  PurchaseOrderPaymentStatus,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+  ValidationError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export {
+  CreatePurchaseOrderDTO,
+  PurchaseItemDTO,
+  ReceivedItemDTO,
+  ReceivePurchaseOrderDTO,
+  ReceivePurchaseOrderResultDTO,
+  PurchaseOrderDetailsDTO,
+  PurchaseOrderPaymentSummaryDTO,
+  PurchaseOrderPaymentStatus,
+} from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Arredonda um valor em reais para centavos
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Resolve a condição de pagamento do pedido: a informada, a do fornecedor
+ * ou a padrão (30 dias)
+ * @throws ValidationError se o formato for inválido
+ */
+function resolvePaymentTerms(requested: string | undefined, supplierTerms: string | null | undefined): string {
+  try {
+    return PaymentTerms.parse(requested ?? supplierTerms ?? PaymentTerms.DEFAULT).toString();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Condição de pagamento inválida';
+    throw new ValidationError([{ field: 'paymentTerms', message }]);
+  }
+}
+
+/**
+ * Consolida a situação de pagamento das contas de um pedido
+ */
+function summarizePayables(payables: FinancialAccount[]): PurchaseOrderPaymentSummaryDTO {
+  const active = payables.filter(account => account.status !== AccountStatus.CANCELLED);
+  const paid = active.filter(account => account.isPaid());
+  const open = active.filter(account => !account.isPaid());
+  const overdue = open.filter(account => account.isOverdue());
+
+  const sum = (accounts: FinancialAccount[]) => accounts.reduce((total, account) => total + account.amount, 0);
+
+  let status: PurchaseOrderPaymentStatus = 'PENDING';
+  if (active.length === 0) {
+    status = 'NOT_BILLED';
+  } else if (overdue.length > 0) {
+    status = 'OVERDUE';
+  } else if (open.length === 0) {
+    status = 'PAID';
+  } else if (paid.length > 0) {
+    status = 'PARTIALLY_PAID';
+  }
+
+  return {
+    status,
+    installments: active.length,
+    totalBilled: sum(active),
+    totalPaid: sum(paid),
+    totalPending: sum(open),
+    totalOverdue: sum(overdue),
+  };
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Criar Pedido de Compra
+ * @description Valida fornecedor e produtos e calcula o total a partir dos itens
+ */
+export class CreatePurchaseOrderUseCase {
+  constructor(
+    private purchaseOrderRepository: IPurchaseOrderRepository,
+    private supplierRepository: ISupplierRepository,
+    private productRepository: IProductRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(data: CreatePurchaseOrderDTO, context: AuditContextDTO = {}): Promise<PurchaseOrder> {
+    const supplier = await this.supplierRepository.findById(data.supplierId);
+    if (!supplier) {
+      throw new EntityNotFoundError('Fornecedor', data.supplierId);
+    }
+
+    if (!data.items || data.items.length === 0) {
+      throw new ValidationError([{ field: 'items', message: 'O pedido deve ter pelo menos 1 item' }]);
+    }
+
+    const productIds = data.items.map(item => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ValidationError([{ field: 'items', message: 'Produto repetido no pedido' }]);
+    }
+
+    const order = new PurchaseOrder({
+      supplierId: data.supplierId,
+      expectedDate: data.expectedDate,
+      paymentTerms: resolvePaymentTerms(data.paymentTerms, supplier.paymentTerms),
+      notes: data.notes,
+    });
+
+    for (const itemData of data.items) {
+      const product = await this.productRepository.findById(itemData.productId);
+      if (!product) {
+        throw new EntityNotFoundError('Produto', itemData.productId);
+      }
+
+      order.addItem(new PurchaseItem({
+        productId: product.id!,
+        productName: product.name,
+        quantity: itemData.quantity,
+        unitPrice: itemData.unitPrice ?? product.costPrice,
+      }));
+    }
+
+    const created = await this.purchaseOrderRepository.create(order);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.CREATE,
+      entity: AuditEntity.PURCHASE_ORDER,
+      entityId: created.id,
+      details: AuditLog.diff({}, {
+        supplierId: created.supplierId,
+        totalAmount: created.totalAmount,
+        totalItems: created.getTotalItems(),
+      }),
+      ipAddress: context.ipAddress,
+    }));
+
+    return created;
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Pedido de Compra por ID
+ * @description Retorna o pedido com suas contas a pagar e a situação de pagamento
+ */
+export class GetPurchaseOrderByIdUseCase {
+  constructor(
+    private purchaseOrderRepository: IPurchaseOrderRepository,
+    private financialAccountRepository: IFinancialAccountRepository
+  ) {}
+
+  async execute(id: string): Promise<PurchaseOrderDetailsDTO | null> {
+    const order = await this.purchaseOrderRepository.findById(id);
+    if (!order) {
+      return null;
+    }
+
+    const payables = await this.financialAccountRepository.findAll({
+      type: AccountType.PAYABLE,
+      referenceId: id,
+    });
+
+    return { order, payables, payment: summarizePayables(payables) };
+  }
+}
+
+/**
+ * Caso de Uso: Listar Pedidos de Compra (por fornecedor, status e período)
+ */
+export class GetPurchaseOrdersUseCase {
+  constructor(private purchaseOrderRepository: IPurchaseOrderRepository) {}
+
+  async execute(filters?: PurchaseOrderFilters): Promise<PurchaseOrder[]> {
+    return this.purchaseOrderRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Aprovar Pedido de Compra
+ * @description Somente pedidos pendentes podem ser aprovados
+ */
+export class ApprovePurchaseOrderUseCase {
+  constructor(
+    private purchaseOrderRepository: IPurchaseOrderRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<PurchaseOrder> {
+    const order = await this.purchaseOrderRepository.findById(id);
+    if (!order) {
+      throw new EntityNotFoundError('Pedido de compra', id);
+    }
+
+    if (!order.canBeApproved()) {
+      throw new InvalidEntityStateError('Pedido de compra', 'aprovar', `está ${order.getStatusDescription().toLowerCase()}`);
+    }
+
+    const approved = await this.purchaseOrderRepository.updateStatus(id, PurchaseOrderStatus.APPROVED);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.APPROVE,
+      entity: AuditEntity.PURCHASE_ORDER,
+      entityId: id,
+      details: AuditLog.diff({ status: order.status }, { status: approved.status }),
+      ipAddress: context.ipAddress,
+    }));
+
+    return approved;
+  }
+}
+
+/**
+ * Caso de Uso: Cancelar Pedido de Compra
+ * @description Pedidos já recebidos não podem ser cancelados
+ */
+export class CancelPurchaseOrderUseCase {
+  constructor(
+    private purchaseOrderRepository: IPurchaseOrderRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<PurchaseOrder> {
+    const order = await this.purchaseOrderRepository.findById(id);
+    if (!order) {
+      throw new EntityNotFoundError('Pedido de compra', id);
+    }
+
+    if (!order.canBeCancelled()) {
+      throw new InvalidEntityStateError('Pedido de compra', 'cancelar', `está ${order.getStatusDescription().toLowerCase()}`);
+    }
+
+    const cancelled = await this.purchaseOrderRepository.updateStatus(id, PurchaseOrderStatus.CANCELLED);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.CANCEL,
+      entity: AuditEntity.PURCHASE_ORDER,
+      entityId: id,
+      details: AuditLog.diff({ status: order.status }, { status: cancelled.status }),
+      ipAddress: context.ipAddress,
+    }));
+
+    return cancelled;
+  }
+}
+
+/**
+ * Caso de Uso: Receber Pedido de Compra
+ * @description Registra uma entrega (parcial, completa ou com excedente):
+ *              entrada no estoque, custo do produto e progresso do pedido,
+ *              em uma única transação.
+ */
+export class ReceivePurchaseOrderUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(
+    id: string,
+    data: ReceivePurchaseOrderDTO,
+    context: AuditContextDTO = {}
+  ): Promise<ReceivePurchaseOrderResultDTO> {
+    if (!data.items || data.items.length === 0) {
+      throw new ValidationError([{ field: 'items', message: 'Informe pelo menos 1 item entregue' }]);
+    }
+
+    const productIds = data.items.map(item => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ValidationError([{ field: 'items', message: 'Produto repetido na entrega' }]);
+    }
+
+    return this.unitOfWork.execute(async ({ purchaseOrders, suppliers, products, stockMovements, stockLots, stockLocations, productStocks, financialAccounts, auditLogs }) => {
+      const order = await purchaseOrders.findById(id);
+      if (!order) {
+        throw new EntityNotFoundError('Pedido de compra', id);
+      }
+
+      if (!order.canBeReceived()) {
+        throw new InvalidEntityStateError('Pedido de compra', 'receber', `está ${order.getStatusDescription().toLowerCase()}`);
+      }
+
+      const location = await resolveStockLocation(stockLocations, data.locationId);
+
+      const receivedAt = new Date();
+      const movements: StockMovement[] = [];
+      let deliveryAmount = 0;
+
+      for (const delivered of data.items) {
+        const item = order.findItem(delivered.productId);
+        if (!item) {
+          throw new ValidationError([{
+            field: 'items',
+            message: `Produto ${delivered.productId} não faz parte do pedido`,
+          }]);
+        }
+
+        const product = await products.findById(delivered.productId);
+        if (!product) {
+          throw new EntityNotFoundError('Produto', delivered.productId);
+        }
+
+        const unitCost = delivered.unitPrice ?? item.unitPrice;
+        item.receive(delivered.quantity, unitCost);
+        deliveryAmount = roundMoney(deliveryAmount + delivered.quantity * unitCost);
+
+        await productStocks.increment(product.id!, location.id!, delivered.quantity);
+        await products.incrementStock(product.id!, delivered.quantity);
+
+        // O custo da última entrega passa a ser o preço de custo do produto
+        if (product.costPrice !== unitCost) {
+          await products.update(product.id!, { costPrice: unitCost });
+          await auditLogs.create(new AuditLog({
+            userId: context.userId,
+            action: AuditAction.PRICE_CHANGE,
+            entity: AuditEntity.PRODUCT,
+            entityId: product.id,
+            details: AuditLog.diff({ costPrice: product.costPrice }, { costPrice: unitCost }),
+            ipAddress: context.ipAddress,
+          }));
+        }
+
+        const movement = new StockMovement({
+          productId: product.id!,
+          type: MovementType.ENTRY,
+          quantity: delivered.quantity,
+          reason: data.notes
+            ? `Pedido de compra #${order.id} - ${data.notes}`
+            : `Pedido de compra #${order.id}`,
+          unitPrice: unitCost,
+          purchaseOrderId: order.id,
+          userId: context.userId,
+          locationId: location.id,
+        });
+        const createdMovement = await stockMovements.create(movement);
+        movements.push(createdMovement);
+
+        await receiveStockLot(stockLots, {
+          productId: product.id!,
+          locationId: location.id!,
+          quantity: delivered.quantity,
+          movementId: createdMovement.id,
+          code: delivered.lotCode,
+          expirationDate: delivered.expirationDate,
+          unitCost,
+        });
+      }
+
+      // Contas a pagar da entrega, parceladas conforme a condição do pedido
+      const supplier = await suppliers.findById(order.supplierId);
+      const terms = PaymentTerms.parse(order.paymentTerms ?? supplier?.paymentTerms ?? PaymentTerms.DEFAULT);
+      const payables: FinancialAccount[] = [];
+
+      if (deliveryAmount > 0) {
+        const installments = terms.split(deliveryAmount, receivedAt).filter(installment => installment.amount > 0);
+        for (const installment of installments) {
+          const suffix = installment.count > 1 ? ` (${installment.number}/${installment.count})` : '';
+          payables.push(await financialAccounts.create(new FinancialAccount({
+            type: AccountType.PAYABLE,
+            status: AccountStatus.PENDING,
+            category: AccountCategory.SUPPLIER,
+            description: `Pedido de compra #${order.id} - ${supplier?.name ?? 'Fornecedor'}${suffix}`,
+            amount: installment.amount,
+            dueDate: installment.dueDate,
+            referenceId: order.id,
+            notes: data.notes,
+          })));
+        }
+      }
+
+      const previousStatus = order.status;
+      if (order.isFullyReceived()) {
+        order.markAsReceived(receivedAt);
+      }
+
+      const updated = await purchaseOrders.saveReceiving(order);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.RECEIVE,
+        entity: AuditEntity.PURCHASE_ORDER,
+        entityId: id,
+        details: {
+          items: data.items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice ?? order.findItem(item.productId)?.unitPrice,
+          })),
+          billedAmount: payables.reduce((sum, account) => sum + account.amount, 0),
+          installments: payables.length,
+          ...AuditLog.diff({ status: previousStatus }, { status: updated.status }),
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return { order: updated, movements, payables };
+    });
+  }
+}
@@ -0,0 +1,310 @@
+// ============================================================================
+// USE CASES: QUOTE (ORÇAMENTO)
+// ============================================================================
+// Casos de uso para orçamentos (propostas de preço antes da compra).
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Mesma Precificação da Venda
+// =====================================
+// Os itens do orçamento passam pela mesma precificação do caixa
+// (priceSaleItems): preço do cadastro, promoção vencedora e desconto manual.
+// O orçamento não confere, não reserva e não baixa estoque.
+//
+// Na conversão, a venda é registrada por registerSale (mesma transação que
+// marca o orçamento como convertido): estoque e preços são conferidos de
+// novo e a venda sai com os valores do dia. Os itens cujo valor mudou desde
+// o orçamento são devolvidos em `priceChanges`.
+// ============================================================================
+
+import { Quote } from '../../domain/entities/Quote';
+import { QuoteItem } from '../../domain/entities/QuoteItem';
+import { Sale } from '../../domain/entities/Sale';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { ReceiptStoreInfo } from '../../domain/entities/Receipt';
+import { IQuoteRepository } from '../../domain/repositories/IQuoteRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { priceSaleItems, registerSale } from './SaleUseCases';
+
+// Importando DTOs da pasta centralizada
+import {
+  CreateQuoteDTO,
+  QuoteFiltersDTO,
+  ConvertQuoteDTO,
+  QuotePriceChangeDTO,
+  QuoteConversionResultDTO,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  EntityNotFoundError,
+  InvalidEntityStateError,
+  ValidationError,
+  FieldValidationError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export {
+  CreateQuoteDTO,
+  QuoteFiltersDTO,
+  ConvertQuoteDTO,
+  QuotePriceChangeDTO,
+  QuoteConversionResultDTO,
+} from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Arredonda um valor em reais para centavos
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compara os itens orçados com os itens vendidos
+ *
+ * @description
+ * Cada item da venda corresponde ao item orçado do mesmo produto e
+ * quantidade. Entra na lista o item cujo preço unitário ou total (com
+ * promoção e descontos) mudou.
+ */
+function comparePrices(quote: Quote, sale: Sale): QuotePriceChangeDTO[] {
+  const pending = [...sale.items];
+  const changes: QuotePriceChangeDTO[] = [];
+
+  for (const quoted of quote.items) {
+    const index = pending.findIndex(item =>
+      item.productId === quoted.productId && item.quantity === quoted.quantity
+    );
+    if (index < 0) continue;
+
+    const [sold] = pending.splice(index, 1);
+    if (sold.unitPrice === quoted.unitPrice && sold.total === quoted.total) continue;
+
+    changes.push({
+      productId: quoted.productId,
+      productName: quoted.productName ?? sold.productName,
+      quantity: quoted.quantity,
+      quotedUnitPrice: quoted.unitPrice,
+      currentUnitPrice: sold.unitPrice,
+      quotedTotal: quoted.total,
+      currentTotal: sold.total,
+      difference: roundMoney(sold.total - quoted.total),
+    });
+  }
+
+  return changes;
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Criar Orçamento
+ *
+ * @description
+ * Precifica os itens como o caixa faria agora, sem conferir estoque. A
+ * validade padrão (`defaultValidityDays`) pode ser trocada por orçamento.
+ */
+export class CreateQuoteUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private defaultValidityDays: number
+  ) {}
+
+  async execute(data: CreateQuoteDTO, context: AuditContextDTO = {}): Promise<Quote> {
+    const validityDays = data.validityDays ?? this.defaultValidityDays;
+    const errors: FieldValidationError[] = [];
+    if (!data.items || data.items.length === 0) {
+      errors.push({ field: 'items', message: 'Orçamento deve ter pelo menos um item' });
+    }
+    if (!Number.isInteger(validityDays) || validityDays <= 0) {
+      errors.push({ field: 'validityDays', message: 'Validade deve ser um número inteiro de dias maior que zero' });
+    }
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    return this.unitOfWork.execute(async ({ clients, products, promotions, quotes, auditLogs }) => {
+      if (data.clientId && !await clients.findById(data.clientId)) {
+        throw new EntityNotFoundError('Cliente', data.clientId);
+      }
+
+      const now = new Date();
+      const { items, subtotal } = await priceSaleItems({ products, promotions }, data.items, now, false);
+
+      const discount = data.discount ?? 0;
+      if (discount > subtotal) {
+        throw new ValidationError([{
+          field: 'discount',
+          message: 'Desconto não pode ser maior que o subtotal',
+        }]);
+      }
+
+      const created = await quotes.create(new Quote({
+        clientId: data.clientId,
+        userId: data.userId,
+        subtotal,
+        discount,
+        total: roundMoney(subtotal - discount),
+        validUntil: new Date(now.getTime() + validityDays * 24 * 60 * 60 * 1000),
+        notes: data.notes,
+        items: items.map(item => QuoteItem.fromSaleItem(item)),
+      }));
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.CREATE,
+        entity: AuditEntity.QUOTE,
+        entityId: created.id,
+        details: AuditLog.diff({}, {
+          clientId: created.clientId ?? null,
+          total: created.total,
+          validUntil: created.validUntil,
+        }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return created;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Orçamento por ID
+ */
+export class GetQuoteByIdUseCase {
+  constructor(private quoteRepository: IQuoteRepository) {}
+
+  async execute(id: string): Promise<Quote | null> {
+    return this.quoteRepository.findById(id);
+  }
+}
+
+/**
+ * Caso de Uso: Listar Orçamentos
+ */
+export class GetQuotesUseCase {
+  constructor(private quoteRepository: IQuoteRepository) {}
+
+  async execute(filters?: QuoteFiltersDTO): Promise<Quote[]> {
+    return this.quoteRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Cancelar Orçamento
+ * @description Somente orçamentos abertos (vencidos inclusive)
+ */
+export class CancelQuoteUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(id: string, context: AuditContextDTO = {}): Promise<Quote> {
+    return this.unitOfWork.execute(async ({ quotes, auditLogs }) => {
+      const quote = await quotes.findById(id);
+      if (!quote) {
+        throw new EntityNotFoundError('Orçamento', id);
+      }
+      if (!quote.isOpen()) {
+        throw new InvalidEntityStateError('Orçamento', 'cancelar', `está com status ${quote.status}`);
+      }
+
+      const cancelled = await quotes.cancel(id);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.CANCEL,
+        entity: AuditEntity.QUOTE,
+        entityId: id,
+        details: AuditLog.diff({ status: quote.status }, { status: cancelled.status }),
+        ipAddress: context.ipAddress,
+      }));
+
+      return cancelled;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Converter Orçamento em Venda
+ *
+ * @description
+ * Registra a venda com os itens, descontos manuais e cliente do orçamento,
+ * seguindo todas as regras da venda (caixa aberto, estoque, limite do
+ * fiado, vale-troca). Preços e promoções são os do momento da conversão;
+ * as diferenças em relação ao orçamento voltam em `priceChanges`.
+ *
+ * Regras:
+ * - Somente orçamento aberto e dentro da validade
+ * - Venda e orçamento são gravados na mesma transação
+ */
+export class ConvertQuoteToSaleUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private store: ReceiptStoreInfo
+  ) {}
+
+  async execute(
+    id: string,
+    data: ConvertQuoteDTO,
+    context: AuditContextDTO = {}
+  ): Promise<QuoteConversionResultDTO> {
+    return this.unitOfWork.execute(async repositories => {
+      const { quotes, auditLogs } = repositories;
+
+      const quote = await quotes.findById(id);
+      if (!quote) {
+        throw new EntityNotFoundError('Orçamento', id);
+      }
+      if (!quote.isOpen()) {
+        throw new InvalidEntityStateError('Orçamento', 'converter', `está com status ${quote.status}`);
+      }
+      if (quote.isExpired()) {
+        throw new InvalidEntityStateError('Orçamento', 'converter', 'validade expirou');
+      }
+
+      const sale = await registerSale(repositories, {
+        clientId: quote.clientId ?? undefined,
+        userId: data.userId,
+        items: quote.items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          discount: item.getManualDiscount(),
+        })),
+        discount: quote.discount,
+        paymentMethod: data.paymentMethod,
+        payments: data.payments,
+        amountPaid: data.amountPaid,
+        overrideCreditLimit: data.overrideCreditLimit,
+        notes: quote.notes ? `Orçamento #${quote.id} - ${quote.notes}` : `Orçamento #${quote.id}`,
+      }, context, this.store);
+
+      const converted = await quotes.markConverted(id, sale.id!);
+      const priceChanges = comparePrices(quote, sale);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.CONVERT,
+        entity: AuditEntity.QUOTE,
+        entityId: id,
+        details: {
+          before: { status: quote.status, total: quote.total },
+          after: {
+            status: converted.status,
+            saleId: sale.id,
+            total: sale.total,
+            priceChanges: priceChanges.length,
+          },
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return {
+        sale,
+        quote: converted,
+        quotedTotal: quote.total,
+        priceChanges,
+      };
+    });
+  }
+}
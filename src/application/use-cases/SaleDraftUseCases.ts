@@ -0,0 +1,291 @@
+// ============================================================================
+// USE CASES: SALE DRAFT (VENDA SUSPENSA)
+// ============================================================================
+// Casos de uso para vendas suspensas no caixa.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Venda em Montagem
+// ===========================
+// Em horário de pico o operador estaciona uma venda pela metade (o cliente
+// foi buscar a carteira) e atende o próximo. A venda suspensa é uma Sale com
+// status DRAFT montada com addItem/removeItem; os itens são precificados
+// como no caixa, mas o estoque só é conferido e baixado na finalização,
+// que registra a venda com registerSale (preços e promoções do momento).
+//
+// Uma venda suspensa sem alteração por `ttlMinutes` expira: é descartada
+// automaticamente antes de qualquer operação com vendas suspensas.
+//
+// Só o operador que suspendeu a venda pode alterá-la, descartá-la ou
+// finalizá-la; GERENTE e ADMIN podem assumir a de outro operador.
+// ============================================================================
+
+import { Sale, PaymentStatus } from '../../domain/entities/Sale';
+import { ReceiptStoreInfo } from '../../domain/entities/Receipt';
+import { ISaleDraftRepository } from '../../domain/repositories/ISaleDraftRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { priceSaleItems, registerSale } from './SaleUseCases';
+
+// Importando DTOs da pasta centralizada
+import {
+  CreateSaleDraftDTO,
+  SaleDraftOperatorDTO,
+  SaleDraftFiltersDTO,
+  FinalizeSaleDraftDTO,
+  SaleDraftDTO,
+  SaleItemDTO,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import { EntityNotFoundError, InvalidEntityStateError, UnauthorizedOperationError } from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export { CreateSaleDraftDTO, SaleDraftOperatorDTO, SaleDraftFiltersDTO, FinalizeSaleDraftDTO, SaleDraftDTO } from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Monta a resposta com o momento de expiração da venda suspensa
+ */
+function toDraftDTO(draft: Sale, ttlMinutes: number): SaleDraftDTO {
+  const lastChange = draft.updatedAt ?? draft.createdAt ?? new Date();
+  return {
+    draft,
+    expiresAt: new Date(lastChange.getTime() + ttlMinutes * 60 * 1000),
+  };
+}
+
+/**
+ * Descarta as vendas suspensas sem alteração há mais de `ttlMinutes`
+ */
+async function discardExpired(saleDrafts: ISaleDraftRepository, ttlMinutes: number): Promise<void> {
+  await saleDrafts.deleteStale(new Date(Date.now() - ttlMinutes * 60 * 1000));
+}
+
+/**
+ * Busca uma venda suspensa ainda válida que o usuário pode alterar (dono
+ * da venda ou supervisor)
+ * @throws EntityNotFoundError se não existir (ou já tiver expirado)
+ * @throws UnauthorizedOperationError se a venda for de outro operador
+ */
+async function findDraft(
+  saleDrafts: ISaleDraftRepository,
+  id: string,
+  operator: SaleDraftOperatorDTO
+): Promise<Sale> {
+  const draft = await saleDrafts.findById(id);
+  if (!draft) {
+    throw new EntityNotFoundError('Venda suspensa', id);
+  }
+  if (draft.userId !== operator.userId && !operator.canSupervise) {
+    throw new UnauthorizedOperationError('alterar a venda suspensa de outro operador');
+  }
+  return draft;
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Suspender Venda
+ *
+ * @description
+ * Abre uma venda suspensa no caixa aberto do operador, com os itens já
+ * lançados (opcional). Cada item precisa ter estoque no momento, mas nada
+ * é baixado.
+ */
+export class CreateSaleDraftUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(data: CreateSaleDraftDTO): Promise<SaleDraftDTO> {
+    return this.unitOfWork.execute(async ({ saleDrafts, cashRegisters, clients, products, promotions }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+
+      const session = await cashRegisters.findOpenByUser(data.userId);
+      if (!session) {
+        throw new InvalidEntityStateError('Venda suspensa', 'abrir', 'operador não possui caixa aberto');
+      }
+
+      if (data.clientId && !await clients.findById(data.clientId)) {
+        throw new EntityNotFoundError('Cliente', data.clientId);
+      }
+
+      const draft = new Sale({
+        clientId: data.clientId,
+        userId: data.userId,
+        sessionId: session.id,
+        subtotal: 0,
+        total: 0,
+        paymentStatus: PaymentStatus.DRAFT,
+        notes: data.notes,
+      });
+
+      const { items } = await priceSaleItems({ products, promotions }, data.items ?? [], new Date(), true);
+      items.forEach(item => draft.addItem(item));
+      draft.discount = data.discount ?? 0;
+
+      return toDraftDTO(await saleDrafts.create(draft), this.ttlMinutes);
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Listar Vendas Suspensas
+ */
+export class GetSaleDraftsUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(filters?: SaleDraftFiltersDTO): Promise<SaleDraftDTO[]> {
+    return this.unitOfWork.execute(async ({ saleDrafts }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+
+      const drafts = await saleDrafts.findAll(filters);
+      return drafts.map(draft => toDraftDTO(draft, this.ttlMinutes));
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Retomar Venda Suspensa
+ */
+export class GetSaleDraftByIdUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(id: string): Promise<SaleDraftDTO | null> {
+    return this.unitOfWork.execute(async ({ saleDrafts }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+
+      const draft = await saleDrafts.findById(id);
+      return draft ? toDraftDTO(draft, this.ttlMinutes) : null;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Adicionar Item à Venda Suspensa
+ * @description Precifica o item como no caixa e renova a validade
+ */
+export class AddSaleDraftItemUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(id: string, item: SaleItemDTO, operator: SaleDraftOperatorDTO): Promise<SaleDraftDTO> {
+    return this.unitOfWork.execute(async ({ saleDrafts, products, promotions }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+      const draft = await findDraft(saleDrafts, id, operator);
+
+      const { items } = await priceSaleItems({ products, promotions }, [item], new Date(), true);
+      draft.addItem(items[0]);
+
+      return toDraftDTO(await saleDrafts.save(draft), this.ttlMinutes);
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Remover Item da Venda Suspensa
+ * @description O desconto geral é limitado ao novo subtotal
+ */
+export class RemoveSaleDraftItemUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(id: string, itemId: string, operator: SaleDraftOperatorDTO): Promise<SaleDraftDTO> {
+    return this.unitOfWork.execute(async ({ saleDrafts }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+      const draft = await findDraft(saleDrafts, id, operator);
+
+      if (!draft.items.some(item => item.id === itemId)) {
+        throw new EntityNotFoundError('Item da venda suspensa', itemId);
+      }
+
+      draft.removeItem(itemId);
+      if (draft.discount > draft.subtotal) {
+        draft.discount = draft.subtotal;
+      }
+
+      return toDraftDTO(await saleDrafts.save(draft), this.ttlMinutes);
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Descartar Venda Suspensa
+ */
+export class DiscardSaleDraftUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(id: string, operator: SaleDraftOperatorDTO): Promise<void> {
+    return this.unitOfWork.execute(async ({ saleDrafts }) => {
+      await discardExpired(saleDrafts, this.ttlMinutes);
+      await findDraft(saleDrafts, id, operator);
+
+      await saleDrafts.delete(id);
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Finalizar Venda Suspensa
+ *
+ * @description
+ * Registra a venda com os itens (quantidade e desconto manual) e o desconto
+ * geral da venda suspensa, seguindo todas as regras de CreateSaleUseCase:
+ * estoque, preços e promoções são conferidos agora. A venda suspensa é
+ * excluída na mesma transação.
+ */
+export class FinalizeSaleDraftUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private store: ReceiptStoreInfo,
+    private ttlMinutes: number
+  ) {}
+
+  async execute(id: string, data: FinalizeSaleDraftDTO, context: AuditContextDTO = {}): Promise<Sale> {
+    return this.unitOfWork.execute(async repositories => {
+      const { saleDrafts } = repositories;
+
+      await discardExpired(saleDrafts, this.ttlMinutes);
+      const draft = await findDraft(saleDrafts, id, data);
+
+      if (draft.items.length === 0) {
+        throw new InvalidEntityStateError('Venda suspensa', 'finalizar', 'não possui itens');
+      }
+
+      const sale = await registerSale(repositories, {
+        clientId: data.clientId ?? draft.clientId ?? undefined,
+        userId: data.userId,
+        items: draft.items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          discount: Math.round((item.discount - item.promotionDiscount) * 100) / 100,
+        })),
+        discount: draft.discount,
+        paymentMethod: data.paymentMethod,
+        payments: data.payments,
+        amountPaid: data.amountPaid,
+        overrideCreditLimit: data.overrideCreditLimit,
+        notes: draft.notes ?? undefined,
+      }, context, this.store);
+
+      await saleDrafts.delete(id);
+
+      return sale;
+    });
+  }
+}
@@ -8,11 +8,16 @@
 // =========================================
 // Uma venda envolve várias operações:
 // 1. Validar produtos e estoque
-// 2. Calcular totais e descontos
+// 2. Calcular totais e descontos (promoções vigentes + descontos manuais)
 // 3. Criar a venda
 // 4. Baixar estoque
 // 5. Registrar movimentações
-// 6. Atualizar débito do cliente (se fiado)
+// 6. Atualizar débito do cliente (parcela fiado)
+// 7. Baixar o vale-troca usado (parcela em crédito na loja)
+// 8. Vincular a venda ao caixa aberto do operador
+// 
+// Por isso criação, devolução e cancelamento rodam dentro de uma unidade de
+// trabalho (IUnitOfWork): ou todos os passos são gravados, ou nenhum.
 // 
 // Requisitos atendidos:
 // - RF06: Registro de vendas
@@ -23,131 +28,518 @@
 
 import { Sale, PaymentMethod, PaymentStatus } from '../../domain/entities/Sale';
 import { SaleItem } from '../../domain/entities/SaleItem';
+import { SalePayment } from '../../domain/entities/SalePayment';
+import { SaleReturn, RefundMethod } from '../../domain/entities/SaleReturn';
+import { SaleReturnItem } from '../../domain/entities/SaleReturnItem';
+import { CashRegisterMovement, CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+import { Product } from '../../domain/entities/Product';
+import { Client } from '../../domain/entities/Client';
+import { Promotion } from '../../domain/entities/Promotion';
 import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { ClientTransaction, ClientTransactionType } from '../../domain/entities/ClientTransaction';
+import { StoreCreditTransaction, StoreCreditTransactionType } from '../../domain/entities/StoreCreditTransaction';
+import { CashFlow, CashFlowType, CashFlowCategory } from '../../domain/entities/CashFlow';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { Receipt, ReceiptStoreInfo } from '../../domain/entities/Receipt';
+import { StockLocation } from '../../domain/entities/StockLocation';
 import { ISaleRepository, SaleFilters, SalesSummary } from '../../domain/repositories/ISaleRepository';
-import { IProductRepository } from '../../domain/repositories/IProductRepository';
-import { IClientRepository } from '../../domain/repositories/IClientRepository';
-import { IStockMovementRepository } from '../../domain/repositories/IStockMovementRepository';
+import { IReceiptRepository } from '../../domain/repositories/IReceiptRepository';
+import { ISaleReturnRepository } from '../../domain/repositories/ISaleReturnRepository';
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { consumeStockLots, restoreStockLots } from './StockLotUseCases';
+import { resolveStockLocation } from './StockLocationUseCases';
 
 // Importando DTOs da pasta centralizada
-import { CreateSaleDTO, SaleItemDTO } from '../dtos';
+import { CreateSaleDTO, SaleItemDTO, SaleReceiptDTO, CreateSaleReturnDTO, AuditContextDTO } from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
   InvalidEntityStateError,
+  ValidationError,
   InsufficientStockError,
-  InactiveProductError
+  InactiveProductError,
+  CreditLimitExceededError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
-export { CreateSaleDTO, SaleItemDTO } from '../dtos';
+export { CreateSaleDTO, SaleItemDTO, SaleReceiptDTO, SaleReturnItemDTO, CreateSaleReturnDTO } from '../dtos';
 
-// ==================== USE CASES ====================
+// ==================== FUNÇÕES AUXILIARES ====================
 
 /**
- * Caso de Uso: Criar Venda
+ * Arredonda um valor em reais para centavos
  */
-export class CreateSaleUseCase {
-  constructor(
-    private saleRepository: ISaleRepository,
-    private productRepository: IProductRepository,
-    private clientRepository: IClientRepository,
-    private stockMovementRepository: IStockMovementRepository
-  ) {}
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
-  async execute(data: CreateSaleDTO): Promise<Sale> {
-    // Validar cliente se informado
-    if (data.clientId) {
-      const client = await this.clientRepository.findById(data.clientId);
-      if (!client) {
-        throw new EntityNotFoundError('Cliente', data.clientId);
-      }
+/**
+ * Monta as parcelas do pagamento da venda
+ *
+ * @description
+ * Sem `payments`, a venda inteira é paga em `paymentMethod` (com o valor
+ * entregue em `amountPaid`, se for dinheiro). Venda de valor zero não tem
+ * parcelas.
+ * @throws ValidationError se as parcelas não fecharem o total da venda
+ */
+function buildPayments(data: CreateSaleDTO, total: number): SalePayment[] {
+  if (!data.payments) {
+    if (total === 0) return [];
+
+    const isCash = data.paymentMethod === PaymentMethod.CASH;
+    if (isCash && data.amountPaid !== undefined && data.amountPaid < total) {
+      throw new ValidationError([{ field: 'amountPaid', message: 'Valor recebido é menor que o total da venda' }]);
     }
 
-    // Validar produtos e montar itens da venda
-    const saleItems: SaleItem[] = [];
-    let subtotal = 0;
+    return [new SalePayment({
+      paymentMethod: data.paymentMethod!,
+      amount: total,
+      amountReceived: isCash ? data.amountPaid : undefined,
+    })];
+  }
 
-    for (const itemData of data.items) {
-      const product = await this.productRepository.findById(itemData.productId);
-      if (!product) {
-        throw new EntityNotFoundError('Produto', itemData.productId);
-      }
-      if (!product.isActive) {
-        throw new InactiveProductError(product.name);
-      }
-      if (product.quantity < itemData.quantity) {
-        throw new InsufficientStockError(product.name, product.quantity, itemData.quantity);
-      }
+  const payments = data.payments.map(payment => new SalePayment({
+    paymentMethod: payment.paymentMethod,
+    amount: roundMoney(payment.amount),
+    amountReceived: payment.amountReceived,
+  }));
 
-      const itemTotal = (product.salePrice * itemData.quantity) - (itemData.discount ?? 0);
-      subtotal += itemTotal;
+  const paid = roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  if (paid !== total) {
+    throw new ValidationError([{
+      field: 'payments',
+      message: `Soma dos pagamentos (R$ ${paid.toFixed(2)}) difere do total da venda (R$ ${total.toFixed(2)})`,
+    }]);
+  }
 
-      saleItems.push(new SaleItem({
-        productId: itemData.productId,
-        productName: product.name,
-        quantity: itemData.quantity,
-        unitPrice: product.salePrice,
-        discount: itemData.discount ?? 0,
-        total: itemTotal,
-      }));
+  return payments;
+}
+
+/**
+ * Emite vale-troca para o cliente e atualiza o saldo dele
+ *
+ * @description
+ * Usado no reembolso de devoluções e no estorno de vendas pagas com
+ * vale-troca. O crédito vale por `validityDays` a partir de hoje.
+ */
+async function issueStoreCredit(
+  repositories: Pick<TransactionalRepositories, 'storeCredits' | 'clients'>,
+  client: Client,
+  amount: number,
+  validityDays: number,
+  details: { saleId?: string; returnId?: string; userId?: string; description: string }
+): Promise<StoreCreditTransaction> {
+  const issued = await repositories.storeCredits.create(new StoreCreditTransaction({
+    clientId: client.id!,
+    type: StoreCreditTransactionType.ISSUE,
+    amount,
+    expiresAt: StoreCreditTransaction.expiryDate(new Date(), validityDays),
+    ...details,
+  }));
+  await repositories.clients.updateStoreCredit(client.id!, roundMoney(client.storeCredit + amount));
+
+  return issued;
+}
+
+/**
+ * Local de onde a venda baixou o produto
+ *
+ * @description
+ * Devoluções e cancelamentos repõem o estoque no mesmo local da saída.
+ * Vendas anteriores aos locais, ou cujo local foi desativado, voltam
+ * para o local padrão.
+ */
+async function findSaleStockLocation(
+  repositories: Pick<TransactionalRepositories, 'stockMovements' | 'stockLocations'>,
+  saleId: string,
+  productId: string
+): Promise<StockLocation> {
+  const [exit] = await repositories.stockMovements.findAll({ saleId, productId, type: MovementType.EXIT });
+  const location = exit?.locationId ? await repositories.stockLocations.findById(exit.locationId) : null;
+
+  return location?.isActive ? location : resolveStockLocation(repositories.stockLocations);
+}
+
+/**
+ * Emite o cupom de uma venda com o próximo número da sequência
+ * 
+ * @description
+ * Deve ser chamada dentro da unidade de trabalho: o número só é
+ * consumido se a transação for confirmada (sequência sem lacunas).
+ */
+async function issueReceipt(
+  receipts: IReceiptRepository,
+  sale: Sale,
+  store: ReceiptStoreInfo,
+  clientName: string | null
+): Promise<Receipt> {
+  const lastNumber = await receipts.findLastNumber();
+
+  return receipts.create(new Receipt({
+    saleId: sale.id!,
+    number: Receipt.nextNumber(lastNumber),
+    content: {
+      store,
+      saleDate: sale.createdAt ?? new Date(),
+      clientName,
+      items: sale.items.map(item => ({
+        productName: item.productName ?? item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        total: item.total,
+        promotionName: item.promotionName ?? undefined,
+      })),
+      subtotal: sale.subtotal,
+      discount: sale.discount,
+      total: sale.total,
+      paymentMethod: sale.paymentMethod,
+      payments: sale.payments.map(payment => ({
+        paymentMethod: payment.paymentMethod,
+        amount: payment.amount,
+        amountReceived: payment.amountReceived ?? undefined,
+      })),
+      amountPaid: roundMoney(sale.payments.reduce(
+        (sum, payment) => sum + (payment.amountReceived ?? payment.amount),
+        0
+      )),
+      change: sale.getChange(),
+    },
+  }));
+}
+
+/**
+ * Precifica os itens como no caixa
+ *
+ * @description
+ * Cada item recebe automaticamente o desconto da melhor promoção vigente
+ * na data (regras em Promotion), somado ao desconto manual do item. Usada
+ * na venda e no orçamento; só a venda confere o estoque (`checkStock`).
+ * @returns Itens precificados e o subtotal (antes do desconto geral)
+ */
+export async function priceSaleItems(
+  repositories: Pick<TransactionalRepositories, 'products' | 'promotions'>,
+  items: SaleItemDTO[],
+  date: Date,
+  checkStock: boolean
+): Promise<{ items: SaleItem[]; subtotal: number }> {
+  // Validar produtos
+  const lines: { itemData: SaleItemDTO; product: Product }[] = [];
+  for (const itemData of items) {
+    const product = await repositories.products.findById(itemData.productId);
+    if (!product) {
+      throw new EntityNotFoundError('Produto', itemData.productId);
     }
+    if (!product.isActive) {
+      throw new InactiveProductError(product.name);
+    }
+    if (checkStock && product.quantity < itemData.quantity) {
+      throw new InsufficientStockError(product.name, product.quantity, itemData.quantity);
+    }
+    lines.push({ itemData, product });
+  }
+
+  // Valor bruto da venda: base para a compra mínima das promoções
+  const grossAmount = lines.reduce(
+    (sum, { itemData, product }) => sum + product.salePrice * itemData.quantity,
+    0
+  );
+  const runningPromotions = await repositories.promotions.findRunning(date);
+
+  // Montar itens com o desconto da promoção vencedora + desconto manual
+  const priced: SaleItem[] = [];
+  let subtotal = 0;
+
+  for (const { itemData, product } of lines) {
+    const gross = product.salePrice * itemData.quantity;
+    const match = Promotion.bestFor(runningPromotions, {
+      productId: product.id!,
+      categoryId: product.categoryId,
+      unitPrice: product.salePrice,
+      quantity: itemData.quantity,
+    }, grossAmount, date);
 
-    // Calcular total
-    const totalDiscount = data.discount ?? 0;
-    const totalAmount = subtotal - totalDiscount;
+    const promotionDiscount = match?.discount ?? 0;
+    const discount = roundMoney(promotionDiscount + (itemData.discount ?? 0));
+    if (discount > gross) {
+      throw new ValidationError([{
+        field: 'items.discount',
+        message: `Desconto de ${product.name} ultrapassa o valor do item`,
+      }]);
+    }
+
+    const itemTotal = roundMoney(gross - discount);
+    subtotal += itemTotal;
+
+    priced.push(new SaleItem({
+      productId: itemData.productId,
+      productName: product.name,
+      quantity: itemData.quantity,
+      unitPrice: product.salePrice,
+      discount,
+      total: itemTotal,
+      promotionId: match?.promotion.id,
+      promotionName: match?.promotion.name,
+      promotionDiscount,
+    }));
+  }
 
-    // Definir status de pagamento
-    const paymentStatus = data.paymentMethod === PaymentMethod.FIADO
-      ? PaymentStatus.PENDING
-      : PaymentStatus.PAID;
+  return { items: priced, subtotal: roundMoney(subtotal) };
+}
 
-    // Criar a venda
-    const sale = new Sale({
-      clientId: data.clientId,
+/**
+ * Registra uma venda com os repositórios de uma transação já aberta
+ *
+ * @description
+ * Regras descritas em CreateSaleUseCase. Também usada na conversão de
+ * orçamento, que grava a venda e o orçamento na mesma transação.
+ */
+export async function registerSale(
+  repositories: TransactionalRepositories,
+  data: CreateSaleDTO,
+  context: AuditContextDTO,
+  store: ReceiptStoreInfo
+): Promise<Sale> {
+  const { sales, products, promotions, cashRegisters, clients, clientTransactions, storeCredits, stockMovements, stockLots, stockLocations, productStocks, receipts, cashFlows, auditLogs } = repositories;
+
+  const isFiado = data.payments
+    ? data.payments.some(payment => payment.paymentMethod === PaymentMethod.FIADO)
+    : data.paymentMethod === PaymentMethod.FIADO;
+
+  // Toda venda entra no caixa aberto do operador
+  const session = await cashRegisters.findOpenByUser(data.userId);
+  if (!session) {
+    throw new InvalidEntityStateError('Venda', 'registrar', 'operador não possui caixa aberto');
+  }
+
+  // Venda fiado exige cliente cadastrado
+  if (isFiado && !data.clientId) {
+    throw new InvalidEntityStateError('Venda fiado', 'registrar', 'cliente não informado');
+  }
+
+  // Validar cliente se informado
+  const client = data.clientId ? await clients.findById(data.clientId) : null;
+  if (data.clientId && !client) {
+    throw new EntityNotFoundError('Cliente', data.clientId);
+  }
+  if (isFiado && client && !client.isActive) {
+    throw new InvalidEntityStateError('Venda fiado', 'registrar', 'cliente está inativo');
+  }
+
+  // Precificar os itens (estoque, promoção vencedora e desconto manual)
+  const saleDate = new Date();
+  const { items: saleItems, subtotal } = await priceSaleItems({ products, promotions }, data.items, saleDate, true);
+
+  // Calcular total
+  const totalDiscount = data.discount ?? 0;
+  const totalAmount = roundMoney(subtotal - totalDiscount);
+
+  // Parcelas do pagamento (troco só existe na parcela em dinheiro)
+  const payments = buildPayments(data, totalAmount);
+  const creditAmount = roundMoney(payments
+    .filter(payment => payment.paymentMethod === PaymentMethod.FIADO)
+    .reduce((sum, payment) => sum + payment.amount, 0));
+
+  const storeCreditAmount = roundMoney(payments
+    .filter(payment => payment.paymentMethod === PaymentMethod.STORE_CREDIT)
+    .reduce((sum, payment) => sum + payment.amount, 0));
+
+  // Vale-troca exige cliente e só vale o crédito ainda não vencido
+  const availableCredits: StoreCreditTransaction[] = [];
+  if (storeCreditAmount > 0) {
+    if (!client) {
+      throw new InvalidEntityStateError('Venda com vale-troca', 'registrar', 'cliente não informado');
+    }
+
+    availableCredits.push(...await storeCredits.findAvailable(client.id!, saleDate));
+    const available = roundMoney(availableCredits.reduce((sum, issue) => sum + issue.remaining, 0));
+    if (storeCreditAmount > available) {
+      throw new ValidationError([{
+        field: 'payments',
+        message: `Vale-troca insuficiente: disponível R$ ${available.toFixed(2)}`,
+      }]);
+    }
+  }
+
+  // Verificar limite de crédito (gerente pode liberar a venda acima do limite)
+  const exceedsCreditLimit = creditAmount > 0 && client !== null && !client.canBuyOnCredit(creditAmount);
+  if (exceedsCreditLimit && !data.overrideCreditLimit) {
+    throw new CreditLimitExceededError(client.name, client.creditLimit, client.currentDebt + creditAmount);
+  }
+
+  // Definir status de pagamento (pendente enquanto houver parcela fiado)
+  const paymentStatus = isFiado
+    ? PaymentStatus.PENDING
+    : PaymentStatus.PAID;
+
+  // Criar a venda
+  const sale = new Sale({
+    clientId: data.clientId,
+    userId: data.userId,
+    subtotal,
+    discount: totalDiscount,
+    total: totalAmount,
+    paymentMethod: Sale.mainPaymentMethod(payments) ?? data.paymentMethod,
+    paymentStatus,
+    notes: data.notes,
+    sessionId: session.id,
+    items: saleItems,
+    payments,
+  });
+
+  const createdSale = await sales.create(sale);
+
+  // Baixar estoque do local padrão e do total (condicional) e registrar movimentações
+  const location = await resolveStockLocation(stockLocations);
+  for (const item of saleItems) {
+    const decrementedLocation = await productStocks.decrement(item.productId, location.id!, item.quantity);
+    if (!decrementedLocation) {
+      // O total pode estar em outros locais; a venda só sai do local padrão
+      const current = await productStocks.find(item.productId, location.id!);
+      throw new InsufficientStockError(`${item.productName ?? item.productId} (${location.name})`, current?.quantity ?? 0, item.quantity);
+    }
+
+    const decremented = await products.decrementStock(item.productId, item.quantity);
+    if (!decremented) {
+      // Outra venda consumiu o estoque depois da validação acima
+      const current = await products.findById(item.productId);
+      throw new InsufficientStockError(item.productName ?? item.productId, current?.quantity ?? 0, item.quantity);
+    }
+
+    // Criar movimentação de saída
+    const movement = new StockMovement({
+      productId: item.productId,
+      type: MovementType.EXIT,
+      quantity: item.quantity,
+      reason: `Venda #${createdSale.id}`,
+      unitPrice: item.unitPrice,
+      totalPrice: item.total,
+      saleId: createdSale.id,
       userId: data.userId,
-      subtotal,
-      discount: totalDiscount,
-      total: totalAmount,
-      paymentMethod: data.paymentMethod,
-      paymentStatus,
-      notes: data.notes,
-      items: saleItems,
+      locationId: location.id,
     });
+    const createdMovement = await stockMovements.create(movement);
 
-    const createdSale = await this.saleRepository.create(sale);
+    // Baixar dos lotes do local (FEFO), deixando os vencidos por último
+    const stock = await productStocks.find(item.productId, location.id!);
+    await consumeStockLots(stockLots, createdMovement, stock!.quantity + item.quantity, true);
+  }
 
-    // Baixar estoque e registrar movimentações
-    for (const item of saleItems) {
-      const product = await this.productRepository.findById(item.productId);
-      if (product) {
-        const newQuantity = product.quantity - item.quantity;
-        await this.productRepository.updateQuantity(item.productId, newQuantity);
+  // Lançar a parcela fiado no débito e no extrato do cliente
+  if (creditAmount > 0 && client) {
+    await clients.updateDebt(client.id!, client.currentDebt + creditAmount);
+    await clientTransactions.create(new ClientTransaction({
+      clientId: client.id!,
+      type: ClientTransactionType.DEBIT,
+      amount: creditAmount,
+      saleId: createdSale.id,
+      description: `Venda #${createdSale.id}`,
+    }));
+  }
 
-        // Criar movimentação de saída
-        const movement = new StockMovement({
-          productId: item.productId,
-          type: MovementType.EXIT,
-          quantity: item.quantity,
-          reason: `Venda #${createdSale.id}`,
-          unitPrice: item.unitPrice,
-          totalPrice: item.total,
-        });
-        await this.stockMovementRepository.create(movement);
-      }
+  // Baixar o vale-troca usado (os créditos que vencem primeiro)
+  if (storeCreditAmount > 0 && client) {
+    let toRedeem = storeCreditAmount;
+    for (const issue of availableCredits) {
+      if (toRedeem <= 0) break;
+      toRedeem = roundMoney(toRedeem - issue.consume(toRedeem));
+      await storeCredits.updateRemaining(issue.id!, issue.remaining);
     }
 
-    // Atualizar débito do cliente se for fiado
-    if (data.paymentMethod === PaymentMethod.FIADO && data.clientId) {
-      const client = await this.clientRepository.findById(data.clientId);
-      if (client) {
-        const newDebt = client.currentDebt + totalAmount;
-        await this.clientRepository.updateDebt(data.clientId, newDebt);
-      }
-    }
+    await storeCredits.create(new StoreCreditTransaction({
+      clientId: client.id!,
+      type: StoreCreditTransactionType.REDEEM,
+      amount: storeCreditAmount,
+      saleId: createdSale.id,
+      userId: data.userId,
+      description: `Venda #${createdSale.id}`,
+    }));
+    await clients.updateStoreCredit(client.id!, Math.max(0, roundMoney(client.storeCredit - storeCreditAmount)));
+  }
+
+  // Parte paga no ato entra no caixa; o fiado entra só quando o cliente
+  // paga e o vale-troca já foi contabilizado quando o crédito foi emitido
+  const paidUpfront = roundMoney(createdSale.getAmountPaidUpfront() - storeCreditAmount);
+  if (paidUpfront > 0) {
+    await cashFlows.create(new CashFlow({
+      type: CashFlowType.INCOME,
+      category: CashFlowCategory.SALE,
+      description: `Venda #${createdSale.id}`,
+      amount: paidUpfront,
+      date: createdSale.createdAt,
+      referenceId: createdSale.id,
+    }));
+  }
+
+  await auditLogs.create(new AuditLog({
+    userId: context.userId ?? data.userId,
+    action: AuditAction.CREATE,
+    entity: AuditEntity.SALE,
+    entityId: createdSale.id,
+    details: AuditLog.diff({}, {
+      clientId: createdSale.clientId,
+      total: createdSale.total,
+      discount: createdSale.discount,
+      promotionDiscount: roundMoney(createdSale.items.reduce((sum, item) => sum + item.promotionDiscount, 0)),
+      paymentMethod: createdSale.payments.map(payment => payment.paymentMethod).join(','),
+      amountOnCredit: creditAmount,
+      amountInStoreCredit: storeCreditAmount,
+      paymentStatus: createdSale.paymentStatus,
+      totalItems: createdSale.getTotalItems(),
+    }),
+    ipAddress: context.ipAddress,
+  }));
+
+  await issueReceipt(receipts, createdSale, store, client?.name ?? null);
 
-    return createdSale;
+  if (exceedsCreditLimit) {
+    await auditLogs.create(new AuditLog({
+      userId: context.userId ?? data.userId,
+      action: AuditAction.CREDIT_LIMIT_OVERRIDE,
+      entity: AuditEntity.SALE,
+      entityId: createdSale.id,
+      details: {
+        clientId: client.id,
+        creditLimit: client.creditLimit,
+        availableCredit: client.getAvailableCredit(),
+        saleTotal: totalAmount,
+        amountOnCredit: creditAmount,
+        debtAfterSale: client.currentDebt + creditAmount,
+      },
+      ipAddress: context.ipAddress,
+    }));
+  }
+
+  return createdSale;
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Criar Venda
+ * @description Todas as gravações (venda, baixa de estoque, movimentações,
+ *              débito do cliente, cupom e auditoria) ocorrem em uma única transação.
+ *
+ * A venda exige caixa aberto pelo operador e fica vinculada a essa sessão.
+ *
+ * Cada item recebe automaticamente o desconto da melhor promoção vigente
+ * (regras em Promotion); o desconto manual do item soma-se ao da promoção
+ * e o desconto geral da venda é aplicado por último, sobre o subtotal.
+ *
+ * O pagamento pode ser dividido em parcelas de formas diferentes; somente
+ * a parcela fiado vai para o débito do cliente e o restante entra no caixa.
+ * A parcela em vale-troca consome os créditos válidos do cliente, dos que
+ * vencem primeiro para os mais novos.
+ */
+export class CreateSaleUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private store: ReceiptStoreInfo
+  ) {}
+
+  async execute(data: CreateSaleDTO, context: AuditContextDTO = {}): Promise<Sale> {
+    return this.unitOfWork.execute(repositories => registerSale(repositories, data, context, this.store));
   }
 }
 
@@ -162,6 +554,45 @@ export class GetSaleByIdUseCase {
   }
 }
 
+/**
+ * Caso de Uso: Cupom da Venda (RF08)
+ * 
+ * @description
+ * Retorna o cupom emitido na venda. Vendas anteriores à emissão automática
+ * recebem o cupom na primeira consulta. Quando `registerPrint` é verdadeiro,
+ * a via é contabilizada: a partir da segunda, o cupom é uma reimpressão.
+ */
+export class GetSaleReceiptUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private store: ReceiptStoreInfo
+  ) {}
+
+  async execute(saleId: string, registerPrint: boolean): Promise<SaleReceiptDTO> {
+    return this.unitOfWork.execute(async ({ sales, clients, receipts }) => {
+      const sale = await sales.findById(saleId);
+      if (!sale) {
+        throw new EntityNotFoundError('Venda', saleId);
+      }
+
+      let receipt = await receipts.findBySaleId(saleId);
+      if (!receipt) {
+        const client = sale.clientId ? await clients.findById(sale.clientId) : null;
+        receipt = await issueReceipt(receipts, sale, this.store, client?.name ?? null);
+      }
+
+      if (registerPrint) {
+        receipt = await receipts.registerPrint(receipt.id!);
+      }
+
+      return {
+        receipt,
+        cancelled: sale.paymentStatus === PaymentStatus.CANCELLED,
+      };
+    });
+  }
+}
+
 /**
  * Caso de Uso: Listar Vendas com Filtros
  */
@@ -174,32 +605,282 @@ export class GetPaginatedSalesUseCase {
 }
 
 /**
- * Caso de Uso: Cancelar Venda
+ * Caso de Uso: Devolver Itens da Venda
+ * @description Devolução parcial (ou total) com estoque, reembolso e
+ *              auditoria gravados em uma única transação.
+ *
+ * Cada item vale o seu total rateado pelo desconto geral da venda (regras em
+ * Sale.calculateRefund) e não pode ser devolvido além do que foi vendido.
+ * Itens em bom estado voltam ao estoque (RETURN); avariados voltam e saem
+ * como perda (RETURN + LOSS).
+ *
+ * Reembolso:
+ * - STORE_CREDIT: até o valor já pago pelo cliente na venda, emitido como
+ *   vale-troca com validade de `storeCreditValidityDays`
+ * - CASH: idem, exceto a parte paga com vale-troca (que só volta como
+ *   vale-troca)
+ * - FIADO: até a parcela fiado ainda pendente da venda
  */
-export class CancelSaleUseCase {
+export class ReturnSaleItemsUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private storeCreditValidityDays: number
+  ) {}
+
+  async execute(data: CreateSaleReturnDTO, context: AuditContextDTO = {}): Promise<SaleReturn> {
+    return this.unitOfWork.execute(async ({ sales, saleReturns, products, stockMovements, stockLots, stockLocations, productStocks, clients, clientTransactions, storeCredits, cashRegisters, cashFlows, auditLogs }) => {
+      const sale = await sales.findById(data.saleId);
+      if (!sale) {
+        throw new EntityNotFoundError('Venda', data.saleId);
+      }
+
+      if (sale.isCancelled()) {
+        throw new InvalidEntityStateError('Venda', 'devolver itens', 'venda está cancelada');
+      }
+
+      // Itens devolvidos: cada item uma vez e nunca além do que foi vendido
+      const lines: { item: SaleItem; quantity: number; damaged: boolean }[] = [];
+      for (const itemData of data.items) {
+        const item = sale.items.find(saleItem => saleItem.id === itemData.saleItemId);
+        if (!item) {
+          throw new EntityNotFoundError('Item da venda', itemData.saleItemId);
+        }
+        if (lines.some(line => line.item === item)) {
+          throw new ValidationError([{ field: 'items', message: `Item ${item.productName ?? item.id} informado mais de uma vez` }]);
+        }
+        if (!Number.isInteger(itemData.quantity) || itemData.quantity <= 0) {
+          throw new ValidationError([{ field: 'items.quantity', message: 'Quantidade devolvida deve ser um inteiro maior que zero' }]);
+        }
+        if (itemData.quantity > item.getReturnableQuantity()) {
+          throw new ValidationError([{
+            field: 'items.quantity',
+            message: `Quantidade devolvida de ${item.productName ?? item.productId} (${itemData.quantity}) excede a disponível para devolução (${item.getReturnableQuantity()})`,
+          }]);
+        }
+        lines.push({ item, quantity: itemData.quantity, damaged: itemData.damaged ?? false });
+      }
+
+      const amounts = sale.calculateRefund(lines);
+      const amount = roundMoney(amounts.reduce((sum, value) => sum + value, 0));
+
+      // Limite do reembolso conforme a forma escolhida
+      if (data.refundMethod === RefundMethod.FIADO) {
+        const outstanding = sale.isPending() ? sale.getOutstandingCredit() : 0;
+        if (amount > outstanding) {
+          throw new ValidationError([{
+            field: 'refundMethod',
+            message: `Abatimento maior que o fiado pendente da venda (R$ ${outstanding.toFixed(2)})`,
+          }]);
+        }
+      } else if (amount > sale.getRefundableAmount()) {
+        throw new ValidationError([{
+          field: 'refundMethod',
+          message: `Reembolso maior que o valor pago na venda (R$ ${sale.getRefundableAmount().toFixed(2)})`,
+        }]);
+      } else if (data.refundMethod === RefundMethod.CASH) {
+        const cashRefundable = Math.max(0, roundMoney(sale.getRefundableAmount() - sale.getAmountInStoreCredit()));
+        if (amount > cashRefundable) {
+          throw new ValidationError([{
+            field: 'refundMethod',
+            message: `Parte paga com vale-troca só pode ser devolvida como vale-troca (em dinheiro: até R$ ${cashRefundable.toFixed(2)})`,
+          }]);
+        }
+      }
+
+      const client = sale.clientId ? await clients.findById(sale.clientId) : null;
+      if (data.refundMethod === RefundMethod.STORE_CREDIT && !client) {
+        throw new InvalidEntityStateError('Devolução', 'gerar crédito na loja', 'venda sem cliente cadastrado');
+      }
+
+      // Reembolso em dinheiro sai da gaveta do caixa aberto do operador
+      const session = data.refundMethod === RefundMethod.CASH
+        ? await cashRegisters.findOpenByUser(data.userId)
+        : null;
+      if (data.refundMethod === RefundMethod.CASH && !session) {
+        throw new InvalidEntityStateError('Devolução', 'reembolsar em dinheiro', 'operador não possui caixa aberto');
+      }
+
+      const before = { returnedAmount: sale.returnedAmount, paymentStatus: sale.paymentStatus };
+      sale.registerReturn(lines, amount, data.refundMethod === RefundMethod.FIADO ? amount : 0);
+
+      const created = await saleReturns.create(new SaleReturn({
+        saleId: sale.id!,
+        userId: data.userId,
+        refundMethod: data.refundMethod,
+        amount,
+        reason: data.reason,
+        sessionId: session?.id,
+        items: lines.map(({ item, quantity, damaged }, index) => new SaleReturnItem({
+          saleItemId: item.id!,
+          productId: item.productId,
+          productName: item.productName,
+          quantity,
+          amount: amounts[index],
+          damaged,
+        })),
+      }));
+      const updatedSale = await sales.saveReturn(sale);
+
+      // Devolver ao estoque; item avariado sai em seguida como perda
+      // (e por isso não volta para os lotes)
+      for (const returned of created.items) {
+        const location = await findSaleStockLocation({ stockMovements, stockLocations }, sale.id!, returned.productId);
+        await productStocks.increment(returned.productId, location.id!, returned.quantity);
+        await products.incrementStock(returned.productId, returned.quantity);
+        const returnMovement = await stockMovements.create(new StockMovement({
+          productId: returned.productId,
+          type: MovementType.RETURN,
+          quantity: returned.quantity,
+          reason: `Devolução da venda #${sale.id}`,
+          unitPrice: roundMoney(returned.amount / returned.quantity),
+          totalPrice: returned.amount,
+          saleId: sale.id,
+          userId: data.userId,
+          locationId: location.id,
+        }));
+
+        if (!returned.damaged) {
+          await restoreStockLots(stockLots, sale.id!, returnMovement);
+        } else {
+          await productStocks.decrement(returned.productId, location.id!, returned.quantity);
+          await products.decrementStock(returned.productId, returned.quantity);
+          await stockMovements.create(new StockMovement({
+            productId: returned.productId,
+            type: MovementType.LOSS,
+            quantity: returned.quantity,
+            reason: `Avaria na devolução da venda #${sale.id}`,
+            saleId: sale.id,
+            userId: data.userId,
+            locationId: location.id,
+          }));
+        }
+      }
+
+      // Reembolso
+      if (amount > 0 && data.refundMethod === RefundMethod.CASH) {
+        await cashRegisters.addMovement(new CashRegisterMovement({
+          sessionId: session!.id!,
+          type: CashRegisterMovementType.REFUND,
+          amount,
+          reason: `Devolução da venda #${sale.id}`,
+          userId: data.userId,
+        }));
+        await cashFlows.create(new CashFlow({
+          type: CashFlowType.EXPENSE,
+          category: CashFlowCategory.SALE_RETURN,
+          description: `Devolução da venda #${sale.id}`,
+          amount,
+          date: created.createdAt,
+          referenceId: sale.id,
+        }));
+      }
+
+      if (amount > 0 && data.refundMethod === RefundMethod.STORE_CREDIT) {
+        await issueStoreCredit({ storeCredits, clients }, client!, amount, this.storeCreditValidityDays, {
+          saleId: sale.id,
+          returnId: created.id,
+          userId: data.userId,
+          description: `Devolução da venda #${sale.id}`,
+        });
+      }
+
+      if (amount > 0 && data.refundMethod === RefundMethod.FIADO && client) {
+        const newDebt = Math.max(0, roundMoney(client.currentDebt - amount));
+        await clients.updateDebt(client.id!, newDebt);
+
+        if (client.currentDebt > newDebt) {
+          await clientTransactions.create(new ClientTransaction({
+            clientId: client.id!,
+            type: ClientTransactionType.CREDIT,
+            amount: roundMoney(client.currentDebt - newDebt),
+            saleId: sale.id,
+            description: `Devolução na venda #${sale.id}`,
+          }));
+        }
+      }
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId ?? data.userId,
+        action: AuditAction.RETURN,
+        entity: AuditEntity.SALE,
+        entityId: sale.id,
+        details: {
+          returnId: created.id,
+          refundMethod: created.refundMethod,
+          amount: created.amount,
+          totalItems: created.getTotalItems(),
+          damagedItems: created.items.filter(item => item.damaged).reduce((sum, item) => sum + item.quantity, 0),
+          ...AuditLog.diff(before, {
+            returnedAmount: updatedSale.returnedAmount,
+            paymentStatus: updatedSale.paymentStatus,
+          }),
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return created;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Devoluções de uma Venda
+ */
+export class GetSaleReturnsUseCase {
   constructor(
     private saleRepository: ISaleRepository,
-    private productRepository: IProductRepository,
-    private stockMovementRepository: IStockMovementRepository,
-    private clientRepository: IClientRepository
+    private saleReturnRepository: ISaleReturnRepository
   ) {}
 
-  async execute(saleId: string): Promise<Sale> {
+  async execute(saleId: string): Promise<SaleReturn[]> {
     const sale = await this.saleRepository.findById(saleId);
     if (!sale) {
       throw new EntityNotFoundError('Venda', saleId);
     }
 
-    if (sale.paymentStatus === PaymentStatus.CANCELLED) {
-      throw new InvalidEntityStateError('Venda', 'cancelar', 'já está cancelada');
-    }
+    return this.saleReturnRepository.findBySale(saleId);
+  }
+}
+
+/**
+ * Caso de Uso: Cancelar Venda
+ * @description Estorno de estoque, de débito e o cancelamento são atômicos.
+ *              Venda com devoluções não pode ser cancelada: os itens
+ *              restantes devem ser devolvidos.
+ *
+ * Cada parte volta na forma em que foi paga: o vale-troca como um novo
+ * vale-troca (validade de `storeCreditValidityDays`), cartão e PIX
+ * estornados na própria forma, e o dinheiro (com o fiado já recebido, que
+ * entrou em dinheiro) pela gaveta. O estorno em dinheiro que não sai do
+ * relatório do caixa da venda é lançado como reembolso no caixa aberto de
+ * quem cancela, exigido só quando há esse estorno.
+ */
+export class CancelSaleUseCase {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private storeCreditValidityDays: number
+  ) {}
+
+  async execute(saleId: string, context: AuditContextDTO = {}): Promise<Sale> {
+    return this.unitOfWork.execute(async ({ sales, products, clients, clientTransactions, storeCredits, stockMovements, stockLots, stockLocations, productStocks, cashRegisters, cashFlows, auditLogs }) => {
+      const sale = await sales.findById(saleId);
+      if (!sale) {
+        throw new EntityNotFoundError('Venda', saleId);
+      }
+
+      if (sale.paymentStatus === PaymentStatus.CANCELLED) {
+        throw new InvalidEntityStateError('Venda', 'cancelar', 'já está cancelada');
+      }
 
-    // Estornar estoque
-    for (const item of sale.items) {
-      const product = await this.productRepository.findById(item.productId);
-      if (product) {
-        const newQuantity = product.quantity + item.quantity;
-        await this.productRepository.updateQuantity(item.productId, newQuantity);
+      if (sale.items.some(item => item.returnedQuantity > 0)) {
+        throw new InvalidEntityStateError('Venda', 'cancelar', 'possui devoluções; devolva os itens restantes');
+      }
+
+      // Estornar estoque
+      for (const item of sale.items) {
+        const location = await findSaleStockLocation({ stockMovements, stockLocations }, sale.id!, item.productId);
+        await productStocks.increment(item.productId, location.id!, item.quantity);
+        await products.incrementStock(item.productId, item.quantity);
 
         // Criar movimentação de entrada (estorno)
         const movement = new StockMovement({
@@ -209,22 +890,107 @@ export class CancelSaleUseCase {
           reason: `Cancelamento da venda #${sale.id}`,
           unitPrice: item.unitPrice,
           totalPrice: item.total,
+          saleId: sale.id,
+          userId: context.userId,
+          locationId: location.id,
         });
-        await this.stockMovementRepository.create(movement);
+        const createdMovement = await stockMovements.create(movement);
+        await restoreStockLots(stockLots, sale.id!, createdMovement);
       }
-    }
 
-    // Estornar débito do cliente se for fiado
-    if (sale.clientId && sale.paymentMethod === PaymentMethod.FIADO) {
-      const client = await this.clientRepository.findById(sale.clientId);
-      if (client) {
-        const newDebt = Math.max(0, client.currentDebt - sale.total);
-        await this.clientRepository.updateDebt(sale.clientId, newDebt);
+      // Estornar do débito do cliente só a parcela fiado desta venda ainda
+      // não paga (os pagamentos já abateram o restante)
+      const creditAmount = sale.getOutstandingCredit();
+      if (sale.clientId && creditAmount > 0 && sale.paymentStatus === PaymentStatus.PENDING) {
+        const client = await clients.findById(sale.clientId);
+        if (client) {
+          const newDebt = Math.max(0, roundMoney(client.currentDebt - creditAmount));
+          await clients.updateDebt(sale.clientId, newDebt);
+
+          if (client.currentDebt > newDebt) {
+            await clientTransactions.create(new ClientTransaction({
+              clientId: sale.clientId,
+              type: ClientTransactionType.CREDIT,
+              amount: client.currentDebt - newDebt,
+              saleId: sale.id,
+              description: `Cancelamento da venda #${sale.id}`,
+            }));
+          }
+        }
       }
-    }
 
-    // Cancelar a venda
-    return this.saleRepository.cancel(saleId);
+      // Parte paga com vale-troca volta como vale-troca
+      const storeCreditAmount = sale.getAmountInStoreCredit();
+      if (sale.clientId && storeCreditAmount > 0) {
+        const client = await clients.findById(sale.clientId);
+        if (client) {
+          await issueStoreCredit({ storeCredits, clients }, client, storeCreditAmount, this.storeCreditValidityDays, {
+            saleId: sale.id,
+            userId: context.userId,
+            description: `Cancelamento da venda #${sale.id}`,
+          });
+        }
+      }
+
+      // O que já foi pago (no ato ou via pagamento do fiado) é estornado
+      // por forma de pagamento
+      const refunds = {
+        cash: roundMoney(sale.getAmountPaidWith(PaymentMethod.CASH) + sale.creditPaid),
+        card: sale.getAmountPaidWith(PaymentMethod.CARD),
+        pix: sale.getAmountPaidWith(PaymentMethod.PIX),
+      };
+      const refundAmount = roundMoney(refunds.cash + refunds.card + refunds.pix);
+      if (refundAmount > 0) {
+        // Com o caixa da venda ainda aberto, a venda cancelada sai do esperado
+        // dele e só o recebido depois (pagamentos do fiado) volta como
+        // reembolso; com o caixa já fechado, todo o dinheiro sai da gaveta.
+        // Cartão e PIX não passam pela gaveta
+        const saleSession = sale.sessionId ? await cashRegisters.findById(sale.sessionId) : null;
+        const drawerRefund = saleSession?.isOpen() ? sale.creditPaid : refunds.cash;
+
+        if (drawerRefund > 0) {
+          const session = context.userId ? await cashRegisters.findOpenByUser(context.userId) : null;
+          if (!session) {
+            throw new InvalidEntityStateError('Venda', 'cancelar', 'operador não possui caixa aberto para o estorno em dinheiro');
+          }
+          await cashRegisters.addMovement(new CashRegisterMovement({
+            sessionId: session.id!,
+            type: CashRegisterMovementType.REFUND,
+            amount: drawerRefund,
+            reason: `Cancelamento da venda #${sale.id}`,
+            userId: session.userId,
+          }));
+        }
+
+        await cashFlows.create(new CashFlow({
+          type: CashFlowType.EXPENSE,
+          category: CashFlowCategory.SALE_CANCELLATION,
+          description: `Cancelamento da venda #${sale.id}`,
+          amount: refundAmount,
+          referenceId: sale.id,
+        }));
+      }
+
+      // Cancelar a venda
+      const cancelledSale = await sales.cancel(saleId);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.CANCEL,
+        entity: AuditEntity.SALE,
+        entityId: saleId,
+        details: {
+          ...AuditLog.diff(
+            { paymentStatus: sale.paymentStatus },
+            { paymentStatus: cancelledSale.paymentStatus }
+          ),
+          refunds: { ...refunds, storeCredit: storeCreditAmount },
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return cancelledSale;
+    });
   }
 }
 
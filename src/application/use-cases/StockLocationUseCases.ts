@@ -0,0 +1,382 @@
+// ============================================================================
+// USE CASES: STOCK LOCATION (LOCAL DE ESTOQUE)
+// ============================================================================
+// Casos de uso para locais de estoque, saldos por local e transferências.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: Estoque Total x Estoque por Local
+// ===========================================
+// Product.quantity continua sendo o estoque total do produto; cada local
+// guarda a sua parte (ProductStock). Toda movimentação altera o saldo de um
+// local e o total juntos. A transferência altera dois locais e mantém o
+// total.
+//
+// Vendas baixam o local padrão; entradas e ajustes sem local informado
+// também usam o padrão.
+// ============================================================================
+
+import { StockLocation } from '../../domain/entities/StockLocation';
+import { ProductStock } from '../../domain/entities/ProductStock';
+import { StockTransfer } from '../../domain/entities/StockTransfer';
+import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { IStockLocationRepository, StockLocationFilters } from '../../domain/repositories/IStockLocationRepository';
+import { IProductStockRepository, ProductStockFilters } from '../../domain/repositories/IProductStockRepository';
+import { IStockTransferRepository } from '../../domain/repositories/IStockTransferRepository';
+import { IProductRepository } from '../../domain/repositories/IProductRepository';
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { transferStockLots } from './StockLotUseCases';
+
+// Importando DTOs da pasta centralizada
+import {
+  CreateStockLocationDTO,
+  UpdateStockLocationDTO,
+  CreateStockTransferDTO,
+  StockTransferResultDTO,
+  StockTransferFiltersDTO,
+  AuditContextDTO,
+} from '../dtos';
+
+// Importando erros de domínio específicos
+import {
+  EntityNotFoundError,
+  EntityAlreadyExistsError,
+  InvalidEntityStateError,
+  InsufficientStockError,
+  ValidationError,
+} from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export {
+  CreateStockLocationDTO,
+  UpdateStockLocationDTO,
+  CreateStockTransferDTO,
+  StockTransferResultDTO,
+  StockTransferFiltersDTO,
+} from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Local de uma movimentação: o informado ou, na falta dele, o padrão
+ *
+ * @throws EntityNotFoundError se o local informado não existir
+ * @throws InvalidEntityStateError se o local estiver inativo ou não houver padrão
+ */
+export async function resolveStockLocation(
+  stockLocations: IStockLocationRepository,
+  locationId?: string | null
+): Promise<StockLocation> {
+  if (!locationId) {
+    const defaultLocation = await stockLocations.findDefault();
+    if (!defaultLocation) {
+      throw new InvalidEntityStateError('Estoque', 'movimentar', 'nenhum local padrão configurado');
+    }
+    return defaultLocation;
+  }
+
+  const location = await stockLocations.findById(locationId);
+  if (!location) {
+    throw new EntityNotFoundError('Local de estoque', locationId);
+  }
+  if (!location.isActive) {
+    throw new InvalidEntityStateError('Local de estoque', 'movimentar', 'está inativo');
+  }
+  return location;
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Cadastrar Local de Estoque
+ * @description O primeiro local cadastrado vira o padrão
+ */
+export class CreateStockLocationUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: CreateStockLocationDTO, context: AuditContextDTO = {}): Promise<StockLocation> {
+    return this.unitOfWork.execute(async ({ stockLocations, auditLogs }) => {
+      if (await stockLocations.findByName(data.name)) {
+        throw new EntityAlreadyExistsError('Local de estoque', 'nome', data.name);
+      }
+
+      let location = await stockLocations.create(new StockLocation({
+        name: data.name,
+        description: data.description,
+      }));
+
+      if (data.isDefault || !(await stockLocations.findDefault())) {
+        location = await stockLocations.setDefault(location.id!);
+      }
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.CREATE,
+        entity: AuditEntity.STOCK_LOCATION,
+        entityId: location.id,
+        details: { name: location.name, isDefault: location.isDefault },
+        ipAddress: context.ipAddress,
+      }));
+
+      return location;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Listar Locais de Estoque
+ */
+export class GetStockLocationsUseCase {
+  constructor(private stockLocationRepository: IStockLocationRepository) {}
+
+  async execute(filters?: StockLocationFilters): Promise<StockLocation[]> {
+    return this.stockLocationRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Local de Estoque por ID
+ */
+export class GetStockLocationByIdUseCase {
+  constructor(private stockLocationRepository: IStockLocationRepository) {}
+
+  async execute(id: string): Promise<StockLocation | null> {
+    return this.stockLocationRepository.findById(id);
+  }
+}
+
+/**
+ * Caso de Uso: Atualizar Local de Estoque
+ *
+ * @description
+ * Regras:
+ * - Nome continua único
+ * - O padrão só muda marcando outro local como padrão
+ * - Local padrão ou com estoque não pode ser desativado
+ */
+export class UpdateStockLocationUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(id: string, data: UpdateStockLocationDTO, context: AuditContextDTO = {}): Promise<StockLocation> {
+    return this.unitOfWork.execute(async ({ stockLocations, productStocks, auditLogs }) => {
+      const location = await stockLocations.findById(id);
+      if (!location) {
+        throw new EntityNotFoundError('Local de estoque', id);
+      }
+
+      if (data.name && data.name !== location.name) {
+        const sameName = await stockLocations.findByName(data.name);
+        if (sameName && sameName.id !== id) {
+          throw new EntityAlreadyExistsError('Local de estoque', 'nome', data.name);
+        }
+      }
+
+      if (data.isDefault === false && location.isDefault) {
+        throw new InvalidEntityStateError('Local de estoque', 'desmarcar como padrão', 'marque outro local como padrão');
+      }
+
+      if (data.isActive === false) {
+        if (location.isDefault || data.isDefault) {
+          throw new InvalidEntityStateError('Local de estoque', 'desativar', 'é o local padrão');
+        }
+        const stocks = await productStocks.findAll({ locationId: id });
+        if (stocks.some(stock => stock.quantity > 0)) {
+          throw new InvalidEntityStateError('Local de estoque', 'desativar', 'possui estoque; transfira os produtos antes');
+        }
+      }
+
+      let updated = await stockLocations.update(id, {
+        name: data.name,
+        description: data.description,
+        isActive: data.isActive,
+      });
+      if (data.isDefault && !location.isDefault) {
+        updated = await stockLocations.setDefault(id);
+      }
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.UPDATE,
+        entity: AuditEntity.STOCK_LOCATION,
+        entityId: id,
+        details: AuditLog.diff(
+          { name: location.name, description: location.description, isActive: location.isActive, isDefault: location.isDefault },
+          { name: updated.name, description: updated.description, isActive: updated.isActive, isDefault: updated.isDefault }
+        ),
+        ipAddress: context.ipAddress,
+      }));
+
+      return updated;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Consultar Saldos por Local
+ * @description Saldos filtrados por produto e/ou local
+ */
+export class GetProductStocksUseCase {
+  constructor(private productStockRepository: IProductStockRepository) {}
+
+  async execute(filters?: ProductStockFilters): Promise<ProductStock[]> {
+    return this.productStockRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Estoque Baixo por Local (RF05)
+ * @description Saldos no mínimo do local ou abaixo dele; sem local, todos
+ *              os locais. O estoque baixo total continua em
+ *              GetLowStockProductsUseCase.
+ */
+export class GetLowStockByLocationUseCase {
+  constructor(
+    private productStockRepository: IProductStockRepository,
+    private stockLocationRepository: IStockLocationRepository
+  ) {}
+
+  async execute(locationId?: string): Promise<ProductStock[]> {
+    if (locationId && !(await this.stockLocationRepository.findById(locationId))) {
+      throw new EntityNotFoundError('Local de estoque', locationId);
+    }
+
+    return this.productStockRepository.findLowStock(locationId);
+  }
+}
+
+/**
+ * Caso de Uso: Definir Mínimo do Produto no Local
+ * @description `null` volta a usar o mínimo do cadastro do produto
+ */
+export class SetLocationMinQuantityUseCase {
+  constructor(
+    private productStockRepository: IProductStockRepository,
+    private stockLocationRepository: IStockLocationRepository,
+    private productRepository: IProductRepository
+  ) {}
+
+  async execute(locationId: string, productId: string, minQuantity: number | null): Promise<ProductStock> {
+    if (minQuantity !== null && (!Number.isInteger(minQuantity) || minQuantity < 0)) {
+      throw new ValidationError([{ field: 'minQuantity', message: 'Mínimo deve ser um número inteiro maior ou igual a zero' }]);
+    }
+
+    if (!(await this.stockLocationRepository.findById(locationId))) {
+      throw new EntityNotFoundError('Local de estoque', locationId);
+    }
+    if (!(await this.productRepository.findById(productId))) {
+      throw new EntityNotFoundError('Produto', productId);
+    }
+
+    return this.productStockRepository.setMinQuantity(productId, locationId, minQuantity);
+  }
+}
+
+/**
+ * Caso de Uso: Transferir Estoque entre Locais
+ *
+ * @description
+ * Tira do local de origem, põe no de destino e registra as duas
+ * movimentações TRANSFER na mesma transação: negativa na origem e positiva
+ * no destino. Os lotes da origem são baixados em ordem de validade e
+ * recriados no destino. O estoque total do produto não muda.
+ *
+ * @throws InsufficientStockError se a origem não tiver saldo suficiente
+ */
+export class TransferStockUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: CreateStockTransferDTO, context: AuditContextDTO = {}): Promise<StockTransferResultDTO> {
+    if (data.fromLocationId === data.toLocationId) {
+      throw new ValidationError([{ field: 'toLocationId', message: 'Locais de origem e destino devem ser diferentes' }]);
+    }
+
+    return this.unitOfWork.execute(async ({ products, stockLocations, productStocks, stockTransfers, stockMovements, stockLots, auditLogs }) => {
+      const product = await products.findById(data.productId);
+      if (!product) {
+        throw new EntityNotFoundError('Produto', data.productId);
+      }
+
+      const from = await resolveStockLocation(stockLocations, data.fromLocationId);
+      const to = await resolveStockLocation(stockLocations, data.toLocationId);
+
+      const transfer = await stockTransfers.create(new StockTransfer({
+        productId: product.id!,
+        fromLocationId: from.id!,
+        toLocationId: to.id!,
+        quantity: data.quantity,
+        reason: data.reason,
+        userId: context.userId,
+      }));
+
+      const fromQuantity = (await productStocks.find(product.id!, from.id!))?.quantity ?? 0;
+      const decremented = await productStocks.decrement(product.id!, from.id!, data.quantity);
+      if (!decremented) {
+        throw new InsufficientStockError(`${product.name} (${from.name})`, fromQuantity, data.quantity);
+      }
+      await productStocks.increment(product.id!, to.id!, data.quantity);
+
+      const suffix = data.reason ? ` - ${data.reason}` : '';
+      const movements = [
+        await stockMovements.create(new StockMovement({
+          productId: product.id!,
+          type: MovementType.TRANSFER,
+          quantity: -data.quantity,
+          reason: `Transferência para ${to.name}${suffix}`,
+          userId: context.userId,
+          locationId: from.id,
+          transferId: transfer.id,
+        })),
+        await stockMovements.create(new StockMovement({
+          productId: product.id!,
+          type: MovementType.TRANSFER,
+          quantity: data.quantity,
+          reason: `Transferência de ${from.name}${suffix}`,
+          userId: context.userId,
+          locationId: to.id,
+          transferId: transfer.id,
+        })),
+      ];
+
+      await transferStockLots(stockLots, movements[0], movements[1], fromQuantity);
+
+      await auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.STOCK_TRANSFER,
+        entity: AuditEntity.STOCK_TRANSFER,
+        entityId: transfer.id,
+        details: {
+          productId: product.id,
+          fromLocationId: from.id,
+          toLocationId: to.id,
+          quantity: data.quantity,
+          reason: data.reason ?? null,
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return { transfer, movements };
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Listar Transferências
+ */
+export class GetStockTransfersUseCase {
+  constructor(private stockTransferRepository: IStockTransferRepository) {}
+
+  async execute(filters?: StockTransferFiltersDTO): Promise<StockTransfer[]> {
+    return this.stockTransferRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Transferência por ID
+ */
+export class GetStockTransferByIdUseCase {
+  constructor(private stockTransferRepository: IStockTransferRepository) {}
+
+  async execute(id: string): Promise<StockTransfer | null> {
+    return this.stockTransferRepository.findById(id);
+  }
+}
@@ -0,0 +1,286 @@
+// ============================================================================
+// USE CASES: STOCK LOT (LOTE DE ESTOQUE)
+// ============================================================================
+// Casos de uso e funções de baixa/estorno dos lotes de estoque.
+// Camada de Aplicação - Orquestra entidades e repositórios.
+//
+// CONCEITO: FEFO (First Expired, First Out)
+// =========================================
+// Cada entrada (ENTRY) cria um lote. As saídas baixam os lotes pela validade:
+// o que vence antes sai antes. Na venda, lotes vencidos ficam por último -
+// o que sobra neles aparece no relatório de vencidos para ser dado como
+// perda. Devoluções e cancelamentos repõem os lotes que a venda baixou.
+//
+// Cada lote fica em um local, e as baixas só usam os lotes do local
+// movimentado. A transferência baixa os lotes da origem e cria no destino
+// lotes com a mesma validade, código e custo.
+//
+// Unidades sem lote (saldo do local - soma dos saldos dos lotes dele) não
+// têm validade conhecida e são baixadas depois dos lotes válidos.
+//
+// Requisitos atendidos:
+// - RF13: Controle de validade (por lote)
+// ============================================================================
+
+import { StockLot } from '../../domain/entities/StockLot';
+import { StockMovement } from '../../domain/entities/StockMovement';
+import { IStockLotRepository, StockLotBalance } from '../../domain/repositories/IStockLotRepository';
+
+// Importando DTOs da pasta centralizada
+import { StockLotFiltersDTO, StockLotReportDTO } from '../dtos';
+
+// Importando erros de domínio específicos
+import { ValidationError } from '../../domain/errors';
+
+// Re-exportando DTOs para manter compatibilidade
+export { StockLotFiltersDTO, StockLotReportDTO } from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Dados do lote criado por uma entrada de estoque
+ */
+export interface ReceiveStockLotData {
+  productId: string;
+  locationId: string;
+  quantity: number;
+  movementId?: string;
+  code?: string;
+  expirationDate?: Date | null;
+  unitCost?: number | null;
+}
+
+/**
+ * Cria o lote de uma entrada de estoque
+ */
+export async function receiveStockLot(
+  stockLots: IStockLotRepository,
+  data: ReceiveStockLotData
+): Promise<StockLot> {
+  return stockLots.create(new StockLot({
+    productId: data.productId,
+    locationId: data.locationId,
+    entryMovementId: data.movementId,
+    code: data.code,
+    quantity: data.quantity,
+    expirationDate: data.expirationDate,
+    unitCost: data.unitCost,
+  }));
+}
+
+/**
+ * Baixa dos lotes as unidades de uma movimentação de saída (FEFO)
+ *
+ * @param movement - Movimentação já gravada (EXIT, LOSS ou ADJUSTMENT)
+ * @param stockBefore - Saldo do produto no local antes da movimentação
+ * @param spareExpired - Venda: deixa lotes vencidos por último
+ *
+ * @description
+ * O que não couber nos lotes sai das unidades sem lote.
+ */
+export async function consumeStockLots(
+  stockLots: IStockLotRepository,
+  movement: StockMovement,
+  stockBefore: number,
+  spareExpired: boolean = false
+): Promise<void> {
+  await takeFromStockLots(stockLots, movement, movement.quantity, stockBefore, spareExpired);
+}
+
+/**
+ * Ajusta os lotes do local a um novo saldo (inventário)
+ *
+ * @description
+ * Se a soma dos lotes do local passar do novo saldo, a diferença é baixada
+ * dos lotes em ordem FEFO. Sobras ficam como unidades sem lote.
+ */
+export async function trimStockLots(
+  stockLots: IStockLotRepository,
+  movement: StockMovement,
+  newQuantity: number
+): Promise<void> {
+  const lots = await stockLots.findAvailable(movement.productId, movement.locationId!);
+  const lotTotal = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+  const surplus = lotTotal - newQuantity;
+
+  if (surplus > 0) {
+    await takeFromStockLots(stockLots, movement, surplus, lotTotal, false);
+  }
+}
+
+/**
+ * Leva para o local de destino os lotes de uma transferência
+ *
+ * @param outMovement - Movimentação TRANSFER da origem (quantidade negativa)
+ * @param inMovement - Movimentação TRANSFER do destino
+ * @param stockBefore - Saldo do produto na origem antes da transferência
+ *
+ * @description
+ * Baixa os lotes da origem em ordem FEFO e cria no destino um lote para
+ * cada parte, com a mesma validade, código e custo. O que sair das
+ * unidades sem lote chega sem lote.
+ */
+export async function transferStockLots(
+  stockLots: IStockLotRepository,
+  outMovement: StockMovement,
+  inMovement: StockMovement,
+  stockBefore: number
+): Promise<void> {
+  const taken = await takeFromStockLots(stockLots, outMovement, -outMovement.quantity, stockBefore, false);
+
+  for (const { lot, quantity } of taken) {
+    await stockLots.create(new StockLot({
+      productId: lot.productId,
+      locationId: inMovement.locationId,
+      originLotId: lot.id,
+      code: lot.code,
+      quantity,
+      expirationDate: lot.expirationDate,
+      unitCost: lot.unitCost,
+    }));
+  }
+}
+
+/**
+ * Repõe nos lotes as unidades devolvidas de uma venda
+ *
+ * @param movement - Movimentação de devolução já gravada (RETURN)
+ *
+ * @description
+ * Volta primeiro para os lotes de validade mais longa que a venda baixou.
+ * O que a venda tirou das unidades sem lote volta sem lote.
+ */
+export async function restoreStockLots(
+  stockLots: IStockLotRepository,
+  saleId: string,
+  movement: StockMovement
+): Promise<void> {
+  const outstanding = await stockLots.findOutstandingBySale(saleId, movement.productId);
+  let pending = movement.quantity;
+
+  for (const { lot, quantity } of outstanding.reverse()) {
+    if (pending === 0) break;
+
+    const restored = Math.min(pending, quantity, lot.getRestorableQuantity());
+    if (restored > 0) {
+      await stockLots.allocate(lot.id!, movement.id!, restored);
+      pending -= restored;
+    }
+  }
+}
+
+/**
+ * Percorre os lotes do local na ordem de baixa registrando as alocações
+ *
+ * @description
+ * `null` na fila representa as unidades sem lote.
+ * @returns Lotes baixados e a quantidade tirada de cada um
+ */
+async function takeFromStockLots(
+  stockLots: IStockLotRepository,
+  movement: StockMovement,
+  quantity: number,
+  stockBefore: number,
+  spareExpired: boolean
+): Promise<StockLotBalance[]> {
+  const lots = await stockLots.findAvailable(movement.productId, movement.locationId!);
+  const lotTotal = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+  const untracked = Math.max(0, stockBefore - lotTotal);
+
+  const now = new Date();
+  const queue: (StockLot | null)[] = spareExpired
+    ? [...lots.filter(lot => !lot.isExpired(now)), null, ...lots.filter(lot => lot.isExpired(now))]
+    : [...lots, null];
+
+  const taken: StockLotBalance[] = [];
+  let pending = quantity;
+  for (const lot of queue) {
+    if (pending === 0) break;
+
+    const quantityTaken = Math.min(pending, lot ? lot.remaining : untracked);
+    if (quantityTaken > 0 && lot) {
+      await stockLots.allocate(lot.id!, movement.id!, -quantityTaken);
+      taken.push({ lot, quantity: quantityTaken });
+    }
+    pending -= quantityTaken;
+  }
+
+  return taken;
+}
+
+/**
+ * Monta o relatório de lotes com os totais de saldo e valor
+ */
+function buildReport(lots: StockLot[], referenceDate: Date, days?: number): StockLotReportDTO {
+  const totalValue = lots.reduce((sum, lot) => sum + lot.getRemainingValue(), 0);
+
+  return {
+    referenceDate,
+    ...(days !== undefined && { days }),
+    totalQuantity: lots.reduce((sum, lot) => sum + lot.remaining, 0),
+    totalValue: Math.round(totalValue * 100) / 100,
+    lots,
+  };
+}
+
+// ==================== USE CASES ====================
+
+/**
+ * Caso de Uso: Listar Lotes
+ * @description Lotes em ordem FEFO; por padrão só os que têm saldo
+ */
+export class GetStockLotsUseCase {
+  constructor(private stockLotRepository: IStockLotRepository) {}
+
+  async execute(filters: StockLotFiltersDTO = {}): Promise<StockLot[]> {
+    return this.stockLotRepository.findAll(filters);
+  }
+}
+
+/**
+ * Caso de Uso: Buscar Lote por ID
+ */
+export class GetStockLotByIdUseCase {
+  constructor(private stockLotRepository: IStockLotRepository) {}
+
+  async execute(id: string): Promise<StockLot | null> {
+    return this.stockLotRepository.findById(id);
+  }
+}
+
+/**
+ * Caso de Uso: Lotes Vencidos (RF13)
+ * @description Lotes com saldo e validade expirada
+ */
+export class GetExpiredStockLotsUseCase {
+  constructor(private stockLotRepository: IStockLotRepository) {}
+
+  async execute(): Promise<StockLotReportDTO> {
+    const now = new Date();
+    const lots = await this.stockLotRepository.findAll({ expiresBefore: now });
+
+    return buildReport(lots, now);
+  }
+}
+
+/**
+ * Caso de Uso: Lotes a Vencer (RF13)
+ * @description Lotes com saldo que vencem nos próximos `days` dias
+ */
+export class GetExpiringStockLotsUseCase {
+  constructor(private stockLotRepository: IStockLotRepository) {}
+
+  async execute(days: number = 7): Promise<StockLotReportDTO> {
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new ValidationError([{ field: 'days', message: 'Dias deve ser um número inteiro maior que zero' }]);
+    }
+
+    const now = new Date();
+    const lots = await this.stockLotRepository.findAll({
+      expiresAfter: now,
+      expiresBefore: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+    });
+
+    return buildReport(lots, now, days);
+  }
+}
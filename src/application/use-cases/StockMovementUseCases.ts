@@ -10,75 +10,428 @@
 // - EXIT: Saída de mercadoria (venda, perda)
 // - RETURN: Devolução de cliente
 // - LOSS: Perda, avaria, vencimento
-// - ADJUSTMENT: Ajuste de inventário
+// - ADJUSTMENT: Ajuste de inventário (informa o novo saldo do local; grava a
+//   diferença com sinal e o saldo do local antes e depois)
+// - TRANSFER: Transferência entre locais (ver StockLocationUseCases)
 // 
 // Requisitos atendidos:
 // - RF07: Baixa automática no estoque
 // - RF08: Histórico de movimentações
 // ============================================================================
 
+import { Product } from '../../domain/entities/Product';
+import { ProductStock } from '../../domain/entities/ProductStock';
 import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
 import { IStockMovementRepository, StockMovementFilters } from '../../domain/repositories/IStockMovementRepository';
 import { IProductRepository } from '../../domain/repositories/IProductRepository';
+import { IProductStockRepository } from '../../domain/repositories/IProductStockRepository';
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { consumeStockLots, receiveStockLot, trimStockLots } from './StockLotUseCases';
+import { resolveStockLocation } from './StockLocationUseCases';
 
 // Importando DTOs da pasta centralizada
-import { CreateStockMovementDTO } from '../dtos';
+import {
+  CreateStockMovementDTO,
+  ReconcileStockDTO,
+  StockDriftDTO,
+  StockLocationDriftDTO,
+  StockReconciliationDTO,
+  AuditContextDTO,
+} from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
-  InsufficientStockError 
+  InsufficientStockError,
+  InvalidEntityStateError,
+  ValidationError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
-export { CreateStockMovementDTO } from '../dtos';
+export {
+  CreateStockMovementDTO,
+  ReconcileStockDTO,
+  StockDriftDTO,
+  StockLocationDriftDTO,
+  StockReconciliationDTO,
+} from '../dtos';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Saldos de um produto refeitos a partir do livro de movimentações
+ */
+interface LedgerBalance {
+  /** Saldo refeito de cada local */
+  locations: Map<string | null, number>;
+  /** Movimentações consideradas */
+  movements: number;
+}
+
+/**
+ * Refaz os saldos de cada produto aplicando as movimentações em ordem
+ *
+ * @description
+ * O livro de um produto começa no seu primeiro saldo de abertura: as
+ * movimentações anteriores (implantadas antes do livro) são ignoradas.
+ * Produto criado depois da implantação não tem saldo de abertura e é
+ * refeito desde a primeira movimentação.
+ * @param movements - Livro em ordem cronológica
+ */
+function replayLedger(movements: StockMovement[]): Map<string, LedgerBalance> {
+  const ledger = new Map<string, LedgerBalance>();
+  const opened = new Set<string>();
+
+  for (const movement of movements) {
+    let balance = ledger.get(movement.productId);
+    if (!balance || (movement.isOpeningBalance() && !opened.has(movement.productId))) {
+      balance = { locations: new Map(), movements: 0 };
+      ledger.set(movement.productId, balance);
+    }
+    if (movement.isOpeningBalance()) {
+      opened.add(movement.productId);
+    }
+
+    const location = movement.locationId ?? null;
+    balance.locations.set(location, movement.applyTo(balance.locations.get(location) ?? 0));
+    balance.movements++;
+  }
+
+  return ledger;
+}
+
+/**
+ * Estoque total refeito de um produto (soma dos locais)
+ */
+function ledgerTotal(balance?: LedgerBalance): number {
+  let total = 0;
+  for (const quantity of balance?.locations.values() ?? []) {
+    total += quantity;
+  }
+  return total;
+}
+
+/**
+ * Diferença de um produto e a soma gravada dos seus locais
+ */
+interface StockDriftCheck {
+  drift: StockDriftDTO;
+  storedTotal: number;
+}
+
+/**
+ * Diferença entre o estoque gravado de um produto e o livro
+ *
+ * @param product - Produto conferido
+ * @param balance - Saldos refeitos pelo livro (ausente se não há movimentação)
+ * @param stocks - Saldos gravados por local do produto
+ * @returns A diferença e a soma gravada dos locais, ou null se tudo bate
+ */
+function findStockDrift(
+  product: Product,
+  balance: LedgerBalance | undefined,
+  stocks: ProductStock[]
+): StockDriftCheck | null {
+  const ledgerQuantity = ledgerTotal(balance);
+
+  const locations: StockLocationDriftDTO[] = [];
+  const locationIds = new Set<string | null>([
+    ...stocks.map(stock => stock.locationId),
+    ...(balance?.locations.keys() ?? []),
+  ]);
+  for (const locationId of locationIds) {
+    const stock = stocks.find(row => row.locationId === locationId);
+    const quantity = stock?.quantity ?? 0;
+    const ledgerLocationQuantity = balance?.locations.get(locationId) ?? 0;
+    if (quantity === ledgerLocationQuantity) continue;
+
+    locations.push({
+      locationId,
+      locationName: stock?.locationName,
+      quantity,
+      ledgerQuantity: ledgerLocationQuantity,
+      drift: quantity - ledgerLocationQuantity,
+    });
+  }
+
+  if (ledgerQuantity === product.quantity && locations.length === 0) return null;
+
+  return {
+    drift: {
+      productId: product.id!,
+      productName: product.name,
+      quantity: product.quantity,
+      ledgerQuantity,
+      drift: product.quantity - ledgerQuantity,
+      movements: balance?.movements ?? 0,
+      locations,
+    },
+    storedTotal: stocks.reduce((sum, stock) => sum + stock.quantity, 0),
+  };
+}
+
+/**
+ * Recusa corrigir uma diferença que os ajustes por local não fecham
+ * @throws {InvalidEntityStateError} Se o estoque do produto não for a soma
+ *         dos locais ou se o livro tiver local com saldo negativo ou sem local
+ */
+function assertReconcilable(drift: StockDriftDTO, storedTotal: number): void {
+  if (storedTotal !== drift.quantity) {
+    throw new InvalidEntityStateError('Estoque', 'reconciliar', `o estoque de ${drift.productName} (${drift.quantity}) não é a soma dos locais (${storedTotal}); corrigir os saldos por local antes`);
+  }
+  if (drift.locations.some(location => location.locationId === null || location.ledgerQuantity < 0)) {
+    throw new InvalidEntityStateError('Estoque', 'reconciliar', `o livro de ${drift.productName} tem saldo negativo ou sem local`);
+  }
+}
+
+/**
+ * Movimentação registrada e o estoque total do produto antes e depois dela
+ */
+export interface RegisteredStockMovement {
+  movement: StockMovement;
+  previousQuantity: number;
+  newQuantity: number;
+}
+
+/**
+ * Registra uma movimentação manual com os repositórios de uma transação já aberta
+ *
+ * @description
+ * Regras descritas em CreateStockEntryUseCase. Também usada na aprovação
+ * do inventário, que grava os ajustes e o inventário na mesma transação.
+ */
+export async function registerStockMovement(
+  repositories: Pick<TransactionalRepositories, 'products' | 'stockMovements' | 'stockLots' | 'stockLocations' | 'productStocks'>,
+  data: CreateStockMovementDTO,
+  userId?: string
+): Promise<RegisteredStockMovement> {
+  const { products, stockMovements, stockLots, stockLocations, productStocks } = repositories;
+
+  const product = await products.findById(data.productId);
+  if (!product) {
+    throw new EntityNotFoundError('Produto', data.productId);
+  }
+
+  const location = await resolveStockLocation(stockLocations, data.locationId);
+  const locationQuantity = (await productStocks.find(data.productId, location.id!))?.quantity ?? 0;
+
+  // Atualizar quantidade do local e do produto baseado no tipo de movimento
+  let newQuantity = product.quantity;
+  let newLocationQuantity = locationQuantity;
+  
+  if (data.type === MovementType.ENTRY || data.type === MovementType.RETURN) {
+    newQuantity = product.quantity + data.quantity;
+    newLocationQuantity = locationQuantity + data.quantity;
+  } else if (data.type === MovementType.EXIT || data.type === MovementType.LOSS) {
+    if (locationQuantity < data.quantity) {
+      throw new InsufficientStockError(`${product.name} (${location.name})`, locationQuantity, data.quantity);
+    }
+    newQuantity = product.quantity - data.quantity;
+    newLocationQuantity = locationQuantity - data.quantity;
+  } else if (data.type === MovementType.ADJUSTMENT) {
+    // Ajuste informa o novo saldo do local; a diferença vale também para o total
+    if (data.quantity === locationQuantity) {
+      throw new ValidationError([{
+        field: 'quantity',
+        message: `Saldo de ${product.name} em ${location.name} já é ${locationQuantity}; nada a ajustar`,
+      }]);
+    }
+    newLocationQuantity = data.quantity;
+    newQuantity = product.quantity + (data.quantity - locationQuantity);
+  }
+
+  const isAdjustment = data.type === MovementType.ADJUSTMENT;
+  const movement = new StockMovement({
+    productId: data.productId,
+    type: data.type,
+    quantity: isAdjustment ? newQuantity - product.quantity : data.quantity,
+    reason: data.reason,
+    unitPrice: data.unitPrice,
+    userId,
+    locationId: location.id,
+    previousQuantity: isAdjustment ? locationQuantity : null,
+    newQuantity: isAdjustment ? newLocationQuantity : null,
+  });
+
+  await productStocks.setQuantity(data.productId, location.id!, newLocationQuantity);
+  await products.updateQuantity(data.productId, newQuantity);
+  
+  const createdMovement = await stockMovements.create(movement);
+
+  // Lotes: devolução avulsa (sem venda) entra sem lote
+  if (data.type === MovementType.ENTRY) {
+    await receiveStockLot(stockLots, {
+      productId: data.productId,
+      locationId: location.id!,
+      quantity: data.quantity,
+      movementId: createdMovement.id,
+      code: data.lotCode,
+      expirationDate: data.expirationDate,
+      unitCost: data.unitPrice ?? product.costPrice,
+    });
+  } else if (data.type === MovementType.EXIT || data.type === MovementType.LOSS) {
+    await consumeStockLots(stockLots, createdMovement, locationQuantity);
+  } else if (data.type === MovementType.ADJUSTMENT) {
+    await trimStockLots(stockLots, createdMovement, newLocationQuantity);
+  }
+
+  return { movement: createdMovement, previousQuantity: product.quantity, newQuantity };
+}
 
 // ==================== USE CASES ====================
 
 /**
  * Caso de Uso: Criar Movimentação de Estoque
- * @description Registra entrada/saída e atualiza quantidade do produto
+ * @description Registra entrada/saída, atualiza quantidade do local (padrão
+ *              se não informado), do produto e os lotes (ENTRY cria lote;
+ *              EXIT e LOSS baixam em ordem FEFO)
  */
 export class CreateStockEntryUseCase {
+  constructor(private unitOfWork: IUnitOfWork) {}
+
+  async execute(data: CreateStockMovementDTO, context: AuditContextDTO = {}): Promise<StockMovement> {
+    if (data.type === MovementType.TRANSFER) {
+      throw new ValidationError([{ field: 'type', message: 'Transferências entre locais são registradas em /stock-transfers' }]);
+    }
+
+    return this.unitOfWork.execute(async (repositories) => {
+      const { movement, previousQuantity, newQuantity } = await registerStockMovement(repositories, data, context.userId);
+
+      await repositories.auditLogs.create(new AuditLog({
+        userId: context.userId,
+        action: AuditAction.STOCK_ADJUSTMENT,
+        entity: AuditEntity.STOCK_MOVEMENT,
+        entityId: movement.id,
+        details: {
+          productId: data.productId,
+          type: data.type,
+          locationId: movement.locationId,
+          reason: data.reason ?? null,
+          ...AuditLog.diff({ quantity: previousQuantity }, { quantity: newQuantity }),
+        },
+        ipAddress: context.ipAddress,
+      }));
+
+      return movement;
+    });
+  }
+}
+
+/**
+ * Caso de Uso: Reconciliar Estoque com o Livro de Movimentações
+ *
+ * @description
+ * Refaz o estoque de cada produto a partir das movimentações, em ordem,
+ * desde o saldo de abertura (o livro começa na sua implantação), e aponta
+ * os produtos cujo estoque gravado (total ou de algum local) é diferente.
+ * O relatório é lido fora de transação, para não segurar o banco enquanto
+ * o livro inteiro é refeito.
+ *
+ * Com `fix`, cada local com diferença recebe um ajuste (ADJUSTMENT) para o
+ * saldo do livro, que move local, produto e livro juntos (com registro na
+ * auditoria). Cada produto é corrigido na sua própria transação, que relê
+ * o livro e os saldos do produto: uma venda entre o relatório e a correção
+ * não é sobrescrita. A correção é recusada, antes do primeiro ajuste, se o
+ * estoque de algum produto não for a soma dos locais ou se o saldo do livro
+ * de algum local for negativo ou sem local: nesses casos o ajuste não fecha
+ * a diferença.
+ *
+ * Usado pelo endpoint de reconciliação e pelo job `stock:reconcile`.
+ */
+export class ReconcileStockUseCase {
   constructor(
+    private productRepository: IProductRepository,
     private stockMovementRepository: IStockMovementRepository,
-    private productRepository: IProductRepository
+    private productStockRepository: IProductStockRepository,
+    private unitOfWork: IUnitOfWork
   ) {}
 
-  async execute(data: CreateStockMovementDTO): Promise<StockMovement> {
-    const product = await this.productRepository.findById(data.productId);
-    if (!product) {
-      throw new EntityNotFoundError('Produto', data.productId);
+  async execute(data: ReconcileStockDTO = {}, context: AuditContextDTO = {}): Promise<StockReconciliationDTO> {
+    let checked: Product[];
+    if (data.productId) {
+      const product = await this.productRepository.findById(data.productId);
+      if (!product) {
+        throw new EntityNotFoundError('Produto', data.productId);
+      }
+      checked = [product];
+    } else {
+      checked = await this.productRepository.findAll();
     }
 
-    const totalPrice = data.unitPrice ? data.unitPrice * data.quantity : null;
+    const ledger = replayLedger(await this.stockMovementRepository.findLedger(data.productId));
+    const stocks = await this.productStockRepository.findAll({ productId: data.productId });
 
-    const movement = new StockMovement({
-      productId: data.productId,
-      type: data.type,
-      quantity: data.quantity,
-      reason: data.reason,
-      unitPrice: data.unitPrice,
-      totalPrice,
-    });
+    const found = checked
+      .map(product => findStockDrift(product, ledger.get(product.id!), stocks.filter(stock => stock.productId === product.id)))
+      .filter((result): result is StockDriftCheck => result !== null);
 
-    // Atualizar quantidade do produto baseado no tipo de movimento
-    let newQuantity = product.quantity;
-    
-    if (data.type === MovementType.ENTRY || data.type === MovementType.RETURN) {
-      newQuantity = product.quantity + data.quantity;
-    } else if (data.type === MovementType.EXIT || data.type === MovementType.LOSS) {
-      if (product.quantity < data.quantity) {
-        throw new InsufficientStockError(product.name, product.quantity, data.quantity);
+    const fix = data.fix === true;
+    if (!fix) {
+      return {
+        checkedAt: new Date(),
+        checkedProducts: checked.length,
+        fixed: false,
+        drifts: found.map(result => result.drift),
+      };
+    }
+
+    // Tudo verificado antes do primeiro ajuste
+    for (const { drift, storedTotal } of found) {
+      assertReconcilable(drift, storedTotal);
+    }
+
+    const drifts: StockDriftDTO[] = [];
+    for (const { drift: reported } of found) {
+      const fixed = await this.unitOfWork.execute(async (repositories) => {
+        const product = await repositories.products.findById(reported.productId);
+        if (!product) return null;
+
+        const balance = replayLedger(await repositories.stockMovements.findLedger(product.id!)).get(product.id!);
+        const current = findStockDrift(product, balance, await repositories.productStocks.findAll({ productId: product.id! }));
+        if (!current) return null;
+        const { drift, storedTotal } = current;
+        assertReconcilable(drift, storedTotal);
+
+        const movementIds: string[] = [];
+        for (const location of drift.locations) {
+          const { movement } = await registerStockMovement(repositories, {
+            productId: drift.productId,
+            type: MovementType.ADJUSTMENT,
+            quantity: location.ledgerQuantity,
+            reason: 'Reconciliação com o livro de movimentações',
+            locationId: location.locationId!,
+          }, context.userId);
+          movementIds.push(movement.id!);
+        }
+
+        await repositories.auditLogs.create(new AuditLog({
+          userId: context.userId,
+          action: AuditAction.STOCK_RECONCILIATION,
+          entity: AuditEntity.PRODUCT,
+          entityId: drift.productId,
+          details: {
+            ...AuditLog.diff({ quantity: drift.quantity }, { quantity: drift.ledgerQuantity }),
+            drift: drift.drift,
+            movementIds,
+          },
+          ipAddress: context.ipAddress,
+        }));
+
+        return drift;
+      });
+
+      if (fixed) {
+        drifts.push(fixed);
       }
-      newQuantity = product.quantity - data.quantity;
-    } else if (data.type === MovementType.ADJUSTMENT) {
-      newQuantity = data.quantity; // Ajuste define a quantidade diretamente
     }
 
-    await this.productRepository.updateQuantity(data.productId, newQuantity);
-    
-    return this.stockMovementRepository.create(movement);
+    return {
+      checkedAt: new Date(),
+      checkedProducts: checked.length,
+      fixed: drifts.length > 0,
+      drifts,
+    };
   }
 }
 
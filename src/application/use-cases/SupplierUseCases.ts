@@ -15,6 +15,7 @@
 // ============================================================================
 
 import { Supplier } from '../../domain/entities/Supplier';
+import { PaymentTerms } from '../../domain/entities/PaymentTerms';
 import { ISupplierRepository } from '../../domain/repositories/ISupplierRepository';
 
 // Importando DTOs da pasta centralizada
@@ -23,12 +24,28 @@ import { CreateSupplierDTO, UpdateSupplierDTO } from '../dtos';
 // Importando erros de domínio específicos
 import { 
   EntityNotFoundError, 
-  EntityAlreadyExistsError 
+  EntityAlreadyExistsError,
+  ValidationError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
 export { CreateSupplierDTO, UpdateSupplierDTO } from '../dtos';
 
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Valida e padroniza a condição de pagamento (ex.: " 30 / 60 " → "30/60")
+ * @throws ValidationError se o formato for inválido
+ */
+function normalizePaymentTerms(terms: string): string {
+  try {
+    return PaymentTerms.parse(terms).toString();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Condição de pagamento inválida';
+    throw new ValidationError([{ field: 'paymentTerms', message }]);
+  }
+}
+
 // ==================== USE CASES ====================
 
 /**
@@ -61,6 +78,7 @@ export class CreateSupplierUseCase {
       phone: data.phone,
       address: data.address,
       cnpj: data.cnpj,
+      paymentTerms: data.paymentTerms ? normalizePaymentTerms(data.paymentTerms) : data.paymentTerms,
     });
 
     return this.supplierRepository.create(supplier);
@@ -120,7 +138,10 @@ export class UpdateSupplierUseCase {
       }
     }
 
-    return this.supplierRepository.update(id, data);
+    return this.supplierRepository.update(id, {
+      ...data,
+      paymentTerms: data.paymentTerms ? normalizePaymentTerms(data.paymentTerms) : data.paymentTerms,
+    });
   }
 }
 
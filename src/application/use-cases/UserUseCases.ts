@@ -9,7 +9,14 @@
 // - Autenticação: Verificar se o usuário É quem diz ser (login)
 // - Autorização: Verificar se o usuário PODE fazer algo (permissões)
 // 
-// NOTA: Em produção, senhas devem ser criptografadas com bcrypt!
+// Após o login, o usuário recebe um token de acesso assinado que deve
+// ser enviado em todas as requisições protegidas.
+// 
+// Logins (inclusive recusados) e alterações de usuários são registrados
+// no log de auditoria (RF22).
+// 
+// Senhas são armazenadas apenas como hash (IPasswordHasher). Senhas legadas
+// em texto puro são convertidas para hash no primeiro login bem-sucedido.
 // 
 // Requisitos atendidos:
 // - RF20: Cadastro de usuários
@@ -18,10 +25,14 @@
 // ============================================================================
 
 import { User, UserRole } from '../../domain/entities/User';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
 import { IUserRepository, UserFilters } from '../../domain/repositories/IUserRepository';
+import { IAuditLogRepository } from '../../domain/repositories/IAuditLogRepository';
+import { ITokenService } from '../../domain/services/ITokenService';
+import { IPasswordHasher } from '../../domain/services/IPasswordHasher';
 
 // Importando DTOs da pasta centralizada
-import { CreateUserDTO, UpdateUserDTO, LoginDTO, ChangePasswordDTO } from '../dtos';
+import { CreateUserDTO, UpdateUserDTO, LoginDTO, AuthResultDTO, ChangePasswordDTO, AuditContextDTO } from '../dtos';
 
 // Importando erros de domínio específicos
 import { 
@@ -29,11 +40,24 @@ import {
   EntityAlreadyExistsError,
   InvalidCredentialsError,
   UserDeactivatedError,
-  ValidationError
+  ValidationError,
+  InvalidTokenError
 } from '../../domain/errors';
 
 // Re-exportando DTOs para manter compatibilidade
-export { CreateUserDTO, UpdateUserDTO, LoginDTO, ChangePasswordDTO } from '../dtos';
+export { CreateUserDTO, UpdateUserDTO, LoginDTO, AuthResultDTO, ChangePasswordDTO } from '../dtos';
+
+/**
+ * Campos do usuário registrados na auditoria (nunca a senha)
+ */
+function auditSnapshot(user: User): Record<string, unknown> {
+  return {
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    isActive: user.isActive,
+  };
+}
 
 // ==================== USE CASES ====================
 
@@ -41,9 +65,13 @@ export { CreateUserDTO, UpdateUserDTO, LoginDTO, ChangePasswordDTO } from '../dt
  * Caso de Uso: Criar Usuário (RF20)
  */
 export class CreateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private passwordHasher: IPasswordHasher,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(data: CreateUserDTO): Promise<User> {
+  async execute(data: CreateUserDTO, context: AuditContextDTO = {}): Promise<User> {
     // Verifica duplicidade de email
     const existingUser = await this.userRepository.findByEmail(data.email);
     if (existingUser) {
@@ -62,36 +90,125 @@ export class CreateUserUseCase {
     const user = new User({
       name: data.name,
       email: data.email,
-      password: data.password,
+      password: await this.passwordHasher.hash(data.password),
       role: data.role ?? UserRole.CAIXA,
       isActive: true,
     });
 
-    return this.userRepository.create(user);
+    const created = await this.userRepository.create(user);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.CREATE,
+      entity: AuditEntity.USER,
+      entityId: created.id,
+      details: AuditLog.diff({}, auditSnapshot(created)),
+      ipAddress: context.ipAddress,
+    }));
+
+    return created;
   }
 }
 
 /**
  * Caso de Uso: Autenticar Usuário (RF22)
+ * @description Valida as credenciais e emite um token de acesso
  */
 export class AuthenticateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenService: ITokenService,
+    private passwordHasher: IPasswordHasher,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(data: LoginDTO): Promise<User> {
+  async execute(data: LoginDTO, context: AuditContextDTO = {}): Promise<AuthResultDTO> {
     // Busca usuário pelo email
     const user = await this.userRepository.findByEmail(data.email);
     if (!user) {
+      await this.recordFailure(data.email, 'USER_NOT_FOUND', null, context);
       throw new InvalidCredentialsError();
     }
 
-    // Verifica se está ativo
+    // Verifica senha
+    const passwordMatches = await this.passwordHasher.verify(data.password, user.password);
+    if (!passwordMatches) {
+      await this.recordFailure(data.email, 'INVALID_PASSWORD', user.id!, context);
+      throw new InvalidCredentialsError();
+    }
+
+    // Verifica se está ativo (só depois da senha, para não revelar a
+    // situação da conta a quem conhece apenas o email)
     if (!user.isActive) {
+      await this.recordFailure(data.email, 'USER_DEACTIVATED', user.id!, context);
       throw new UserDeactivatedError();
     }
 
-    // Verifica senha (comparação simples - em produção usar bcrypt)
-    if (user.password !== data.password) {
-      throw new InvalidCredentialsError();
+    // Migração transparente: senha legada em texto puro (ou hash com
+    // parâmetros antigos) é substituída por um novo hash
+    if (this.passwordHasher.needsRehash(user.password)) {
+      const password = await this.passwordHasher.hash(data.password);
+      await this.userRepository.updatePassword(user.id!, password);
+    }
+
+    const { token, expiresAt } = this.tokenService.sign({
+      userId: user.id!,
+      role: user.role,
+    });
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: user.id,
+      action: AuditAction.LOGIN,
+      entity: AuditEntity.USER,
+      entityId: user.id,
+      ipAddress: context.ipAddress,
+    }));
+
+    return { user, token, expiresAt };
+  }
+
+  /**
+   * Registra uma tentativa de login recusada
+   * @param reason - Motivo interno (não é exposto na resposta HTTP)
+   */
+  private async recordFailure(
+    email: string,
+    reason: string,
+    userId: string | null,
+    context: AuditContextDTO
+  ): Promise<void> {
+    await this.auditLogRepository.create(new AuditLog({
+      userId,
+      action: AuditAction.LOGIN_FAILED,
+      entity: AuditEntity.USER,
+      entityId: userId,
+      details: { email, reason },
+      ipAddress: context.ipAddress,
+    }));
+  }
+}
+
+/**
+ * Caso de Uso: Validar Token de Acesso
+ * @description Resolve o usuário dono do token em cada requisição.
+ *              Usuários desativados após o login perdem o acesso imediatamente.
+ */
+export class ValidateAccessTokenUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenService: ITokenService
+  ) {}
+
+  async execute(token: string): Promise<User> {
+    const payload = this.tokenService.verify(token);
+
+    const user = await this.userRepository.findById(payload.userId);
+    if (!user) {
+      throw new InvalidTokenError();
+    }
+
+    if (!user.isActive) {
+      throw new UserDeactivatedError();
     }
 
     return user;
@@ -124,9 +241,12 @@ export class GetPaginatedUsersUseCase {
  * Caso de Uso: Atualizar Usuário
  */
 export class UpdateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(id: string, data: UpdateUserDTO): Promise<User> {
+  async execute(id: string, data: UpdateUserDTO, context: AuditContextDTO = {}): Promise<User> {
     const user = await this.userRepository.findById(id);
     if (!user) {
       throw new EntityNotFoundError('Usuário', id);
@@ -140,25 +260,55 @@ export class UpdateUserUseCase {
       }
     }
 
-    return this.userRepository.update(id, data);
+    const updated = await this.userRepository.update(id, data);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.UPDATE,
+      entity: AuditEntity.USER,
+      entityId: id,
+      details: AuditLog.diff(auditSnapshot(user), auditSnapshot(updated)),
+      ipAddress: context.ipAddress,
+    }));
+
+    return updated;
   }
 }
 
 /**
  * Caso de Uso: Alterar Senha
+ * @description O próprio usuário informa a senha atual; quem gerencia
+ *              usuários redefine a senha de outro sem ela (registrado na
+ *              auditoria como redefinição)
  */
 export class ChangePasswordUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private passwordHasher: IPasswordHasher,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(data: ChangePasswordDTO): Promise<void> {
+  async execute(data: ChangePasswordDTO, context: AuditContextDTO = {}): Promise<void> {
     const user = await this.userRepository.findById(data.userId);
     if (!user) {
       throw new EntityNotFoundError('Usuário', data.userId);
     }
 
-    // Verifica senha atual (comparação simples - em produção usar bcrypt)
-    if (user.password !== data.currentPassword) {
-      throw new InvalidCredentialsError();
+    const isReset = context.userId !== data.userId && data.canManageUsers === true;
+
+    // Verifica senha atual (o gerenciador que redefine a de outro não a conhece)
+    if (!isReset) {
+      if (!data.currentPassword) {
+        throw new ValidationError([{
+          field: 'currentPassword',
+          message: 'Senha atual é obrigatória'
+        }]);
+      }
+
+      const passwordMatches = await this.passwordHasher.verify(data.currentPassword, user.password);
+      if (!passwordMatches) {
+        throw new InvalidCredentialsError();
+      }
     }
 
     // Valida nova senha
@@ -169,7 +319,17 @@ export class ChangePasswordUseCase {
       }]);
     }
 
-    await this.userRepository.update(data.userId, { password: data.newPassword } as Partial<User>);
+    const password = await this.passwordHasher.hash(data.newPassword);
+    await this.userRepository.updatePassword(data.userId, password);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.PASSWORD_CHANGE,
+      entity: AuditEntity.USER,
+      entityId: data.userId,
+      details: isReset ? { reset: true } : undefined,
+      ipAddress: context.ipAddress,
+    }));
   }
 }
 
@@ -177,14 +337,26 @@ export class ChangePasswordUseCase {
  * Caso de Uso: Desativar Usuário
  */
 export class DeactivateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
 
-  async execute(id: string): Promise<void> {
+  async execute(id: string, context: AuditContextDTO = {}): Promise<void> {
     const user = await this.userRepository.findById(id);
     if (!user) {
       throw new EntityNotFoundError('Usuário', id);
     }
 
     await this.userRepository.delete(id);
+
+    await this.auditLogRepository.create(new AuditLog({
+      userId: context.userId,
+      action: AuditAction.DELETE,
+      entity: AuditEntity.USER,
+      entityId: id,
+      details: AuditLog.diff({ isActive: user.isActive }, { isActive: false }),
+      ipAddress: context.ipAddress,
+    }));
   }
 }
@@ -8,15 +8,25 @@
 // Módulos de Estoque
 export * from './CategoryUseCases';
 export * from './SupplierUseCases';
+export * from './PurchaseOrderUseCases';
 export * from './ProductUseCases';
 export * from './StockMovementUseCases';
+export * from './StockLotUseCases';
+export * from './StockLocationUseCases';
+export * from './InventoryCountUseCases';
 
 // Módulos de Vendas e Clientes
 export * from './SaleUseCases';
+export * from './SaleDraftUseCases';
 export * from './ClientUseCases';
+export * from './PromotionUseCases';
+export * from './QuoteUseCases';
+export * from './CashRegisterUseCases';
 
 // Módulos Financeiros
 export * from './FinancialUseCases';
 
 // Módulos de Usuários
 export * from './UserUseCases';
+export * from './AuditLogUseCases';
+export * from './IdempotencyUseCases';
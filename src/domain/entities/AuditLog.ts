@@ -0,0 +1,237 @@
+// ============================================================================
+// ENTIDADE: AUDIT LOG (LOG DE AUDITORIA)
+// ============================================================================
+// Registro imutável de uma ação crítica realizada no sistema.
+//
+// Requisitos atendidos:
+// - RF22: Manter logs de acesso e ações críticas
+// ============================================================================
+
+/**
+ * Enum para as ações auditadas
+ */
+export enum AuditAction {
+  /** Login bem-sucedido */
+  LOGIN = 'LOGIN',
+  /** Tentativa de login recusada */
+  LOGIN_FAILED = 'LOGIN_FAILED',
+  /** Criação de registro */
+  CREATE = 'CREATE',
+  /** Alteração de registro */
+  UPDATE = 'UPDATE',
+  /** Exclusão/desativação de registro */
+  DELETE = 'DELETE',
+  /** Cancelamento (venda, conta, pedido de compra) */
+  CANCEL = 'CANCEL',
+  /** Aprovação (pedido de compra) */
+  APPROVE = 'APPROVE',
+  /** Recebimento de mercadoria (pedido de compra) */
+  RECEIVE = 'RECEIVE',
+  /** Pagamento/recebimento de conta ou de fiado */
+  PAYMENT = 'PAYMENT',
+  /** Movimentação manual de estoque */
+  STOCK_ADJUSTMENT = 'STOCK_ADJUSTMENT',
+  /** Transferência de estoque entre locais */
+  STOCK_TRANSFER = 'STOCK_TRANSFER',
+  /** Correção do estoque pelo livro de movimentações */
+  STOCK_RECONCILIATION = 'STOCK_RECONCILIATION',
+  /** Alteração de preço de custo/venda */
+  PRICE_CHANGE = 'PRICE_CHANGE',
+  /** Alteração de senha */
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+  /** Venda fiado liberada acima do limite de crédito */
+  CREDIT_LIMIT_OVERRIDE = 'CREDIT_LIMIT_OVERRIDE',
+  /** Abertura de caixa */
+  REGISTER_OPEN = 'REGISTER_OPEN',
+  /** Fechamento de caixa */
+  REGISTER_CLOSE = 'REGISTER_CLOSE',
+  /** Sangria (retirada de dinheiro do caixa) */
+  CASH_WITHDRAWAL = 'CASH_WITHDRAWAL',
+  /** Suprimento (reforço de dinheiro no caixa) */
+  CASH_DEPOSIT = 'CASH_DEPOSIT',
+  /** Devolução de itens de uma venda */
+  RETURN = 'RETURN',
+  /** Emissão manual de vale-troca */
+  STORE_CREDIT_ISSUE = 'STORE_CREDIT_ISSUE',
+  /** Vencimento de vale-troca não usado */
+  STORE_CREDIT_EXPIRE = 'STORE_CREDIT_EXPIRE',
+  /** Conversão de orçamento em venda */
+  CONVERT = 'CONVERT',
+}
+
+/**
+ * Enum para as entidades auditadas
+ */
+export enum AuditEntity {
+  USER = 'User',
+  PRODUCT = 'Product',
+  STOCK_MOVEMENT = 'StockMovement',
+  SALE = 'Sale',
+  CLIENT = 'Client',
+  FINANCIAL_ACCOUNT = 'FinancialAccount',
+  PURCHASE_ORDER = 'PurchaseOrder',
+  PROMOTION = 'Promotion',
+  CASH_REGISTER = 'CashRegisterSession',
+  QUOTE = 'Quote',
+  STOCK_LOCATION = 'StockLocation',
+  STOCK_TRANSFER = 'StockTransfer',
+  INVENTORY_COUNT = 'InventoryCount',
+}
+
+/**
+ * Diferença entre dois estados de uma entidade
+ * @description Contém apenas os campos que mudaram
+ */
+export type AuditDiff = {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+};
+
+/**
+ * Interface de propriedades do log de auditoria
+ */
+export interface AuditLogProps {
+  id?: string;
+  userId?: string | null;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string | null;
+  details?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade AuditLog - Camada de Domínio
+ * @description Representa um registro de auditoria. Não possui setters:
+ *              um log nunca é alterado depois de criado.
+ * @example
+ * const log = new AuditLog({
+ *   userId: 'uuid-gerente',
+ *   action: AuditAction.PRICE_CHANGE,
+ *   entity: AuditEntity.PRODUCT,
+ *   entityId: 'uuid-produto',
+ *   details: AuditLog.diff({ salePrice: 10 }, { salePrice: 12 })
+ * });
+ */
+export class AuditLog {
+  private _id?: string;
+  private _userId?: string | null;
+  private _action: AuditAction;
+  private _entity: AuditEntity;
+  private _entityId?: string | null;
+  private _details?: Record<string, unknown> | null;
+  private _ipAddress?: string | null;
+  private _createdAt?: Date;
+
+  constructor(props: AuditLogProps) {
+    this._id = props.id;
+    this._userId = props.userId;
+    this._action = props.action;
+    this._entity = props.entity;
+    this._entityId = props.entityId;
+    this._details = props.details;
+    this._ipAddress = props.ipAddress;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do log
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!Object.values(AuditAction).includes(this._action)) {
+      throw new Error('Ação de auditoria inválida');
+    }
+
+    if (!this._entity) {
+      throw new Error('Entidade auditada é obrigatória');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get userId(): string | null | undefined {
+    return this._userId;
+  }
+
+  get action(): AuditAction {
+    return this._action;
+  }
+
+  get entity(): AuditEntity {
+    return this._entity;
+  }
+
+  get entityId(): string | null | undefined {
+    return this._entityId;
+  }
+
+  get details(): Record<string, unknown> | null | undefined {
+    return this._details;
+  }
+
+  get ipAddress(): string | null | undefined {
+    return this._ipAddress;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Calcula a diferença entre dois estados de uma entidade
+   * @param before - Estado anterior
+   * @param after - Estado posterior
+   * @returns Objeto com os campos alterados (antes/depois)
+   */
+  static diff(before: Record<string, unknown>, after: Record<string, unknown>): AuditDiff {
+    const diff: AuditDiff = { before: {}, after: {} };
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      if (!AuditLog.isSameValue(before[key], after[key])) {
+        diff.before[key] = before[key] ?? null;
+        diff.after[key] = after[key] ?? null;
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Compara valores simples e datas
+   */
+  private static isSameValue(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+    return (a ?? null) === (b ?? null);
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      userId: this._userId,
+      action: this._action,
+      entity: this._entity,
+      entityId: this._entityId,
+      details: this._details,
+      ipAddress: this._ipAddress,
+      createdAt: this._createdAt,
+    };
+  }
+}
@@ -0,0 +1,196 @@
+// ============================================================================
+// ENTIDADE: CASH FLOW (LANÇAMENTO DO FLUXO DE CAIXA)
+// ============================================================================
+// Lançamento de entrada ou saída de dinheiro do caixa da loja.
+//
+// - INCOME:  dinheiro que entrou (venda paga, pagamento de fiado, conta recebida)
+// - EXPENSE: dinheiro que saiu (conta paga, estorno de venda cancelada)
+//
+// Os lançamentos são gerados automaticamente pelos casos de uso que
+// movimentam dinheiro e, como o extrato do fiado, são somente inclusão:
+// correções são feitas com um novo lançamento em sentido contrário.
+//
+// Requisitos atendidos:
+// - RF16: Gerar fluxo de caixa (diário, mensal e anual)
+// ============================================================================
+
+import { AccountCategory } from './FinancialAccount';
+
+/**
+ * Tipos de lançamento do fluxo de caixa
+ */
+export enum CashFlowType {
+  /** Entrada de dinheiro */
+  INCOME = 'INCOME',
+  /** Saída de dinheiro */
+  EXPENSE = 'EXPENSE',
+}
+
+/**
+ * Categorias de lançamento do fluxo de caixa
+ */
+export enum CashFlowCategory {
+  /** Venda paga no ato */
+  SALE = 'SALE',
+  /** Pagamento de fiado pelo cliente */
+  FIADO_PAYMENT = 'FIADO_PAYMENT',
+  /** Estorno de venda cancelada */
+  SALE_CANCELLATION = 'SALE_CANCELLATION',
+  /** Reembolso em dinheiro de devolução */
+  SALE_RETURN = 'SALE_RETURN',
+  /** Compra de fornecedor */
+  PURCHASE = 'PURCHASE',
+  /** Salários */
+  SALARY = 'SALARY',
+  /** Aluguel */
+  RENT = 'RENT',
+  /** Água, luz, telefone etc. */
+  UTILITIES = 'UTILITIES',
+  /** Outros */
+  OTHER = 'OTHER',
+}
+
+/**
+ * Interface de propriedades do lançamento
+ */
+export interface CashFlowProps {
+  id?: string;
+  type: CashFlowType;
+  category: CashFlowCategory;
+  description: string;
+  amount: number;
+  date?: Date;
+  referenceId?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade CashFlow - Camada de Domínio
+ * @description Representa um lançamento do fluxo de caixa. Não possui setters.
+ * @example
+ * const entry = new CashFlow({
+ *   type: CashFlowType.INCOME,
+ *   category: CashFlowCategory.SALE,
+ *   description: 'Venda #uuid-venda',
+ *   amount: 35.90,
+ *   referenceId: 'uuid-venda'
+ * });
+ */
+export class CashFlow {
+  private _id?: string;
+  private _type: CashFlowType;
+  private _category: CashFlowCategory;
+  private _description: string;
+  private _amount: number;
+  private _date: Date;
+  private _referenceId?: string | null;
+  private _createdAt?: Date;
+
+  constructor(props: CashFlowProps) {
+    this._id = props.id;
+    this._type = props.type;
+    this._category = props.category;
+    this._description = props.description;
+    this._amount = props.amount;
+    this._date = props.date ?? new Date();
+    this._referenceId = props.referenceId;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do lançamento
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!Object.values(CashFlowType).includes(this._type)) {
+      throw new Error('Tipo de lançamento inválido');
+    }
+
+    if (!this._description || this._description.trim().length === 0) {
+      throw new Error('Descrição do lançamento é obrigatória');
+    }
+
+    if (this._amount <= 0) {
+      throw new Error('Valor do lançamento deve ser maior que zero');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get type(): CashFlowType {
+    return this._type;
+  }
+
+  get category(): CashFlowCategory {
+    return this._category;
+  }
+
+  get description(): string {
+    return this._description;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  get date(): Date {
+    return this._date;
+  }
+
+  get referenceId(): string | null | undefined {
+    return this._referenceId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Efeito do lançamento no saldo do caixa
+   * @returns Valor positivo para entrada, negativo para saída
+   */
+  getBalanceImpact(): number {
+    return this._type === CashFlowType.INCOME ? this._amount : -this._amount;
+  }
+
+  /**
+   * Categoria do fluxo de caixa correspondente à categoria de uma conta
+   * @param category - Categoria da conta a pagar/receber
+   */
+  static categoryForAccount(category: AccountCategory | null | undefined): CashFlowCategory {
+    const map: Record<AccountCategory, CashFlowCategory> = {
+      [AccountCategory.SUPPLIER]: CashFlowCategory.PURCHASE,
+      [AccountCategory.RENT]: CashFlowCategory.RENT,
+      [AccountCategory.SALARY]: CashFlowCategory.SALARY,
+      [AccountCategory.UTILITIES]: CashFlowCategory.UTILITIES,
+      [AccountCategory.OTHER]: CashFlowCategory.OTHER,
+    };
+    return category ? map[category] ?? CashFlowCategory.OTHER : CashFlowCategory.OTHER;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      type: this._type,
+      category: this._category,
+      description: this._description,
+      amount: this._amount,
+      date: this._date,
+      referenceId: this._referenceId,
+      createdAt: this._createdAt,
+    };
+  }
+}
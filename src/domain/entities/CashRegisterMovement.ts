@@ -0,0 +1,152 @@
+// ============================================================================
+// ENTIDADE: CASH REGISTER MOVEMENT (SANGRIA / SUPRIMENTO / REEMBOLSO / FIADO)
+// ============================================================================
+// Entrada ou saída de dinheiro da gaveta que não é venda:
+//
+// - WITHDRAWAL (sangria):   retirada de dinheiro (ex.: excesso levado ao cofre)
+// - DEPOSIT (suprimento):   reforço de dinheiro (ex.: mais troco)
+// - REFUND (reembolso):     dinheiro devolvido ao cliente em uma devolução
+//                           ou no cancelamento de uma venda
+// - DEBT_PAYMENT (fiado):   dinheiro recebido no pagamento do fiado
+//
+// Afeta apenas o dinheiro esperado na gaveta no fechamento do caixa.
+// ============================================================================
+
+/**
+ * Tipos de movimentação de caixa
+ */
+export enum CashRegisterMovementType {
+  /** Sangria - retirada de dinheiro */
+  WITHDRAWAL = 'WITHDRAWAL',
+  /** Suprimento - reforço de dinheiro */
+  DEPOSIT = 'DEPOSIT',
+  /** Reembolso de devolução ou cancelamento - dinheiro devolvido ao cliente */
+  REFUND = 'REFUND',
+  /** Recebimento de fiado - dinheiro pago pelo cliente para abater o débito */
+  DEBT_PAYMENT = 'DEBT_PAYMENT',
+}
+
+/**
+ * Interface de propriedades da movimentação de caixa
+ */
+export interface CashRegisterMovementProps {
+  id?: string;
+  sessionId: string;
+  type: CashRegisterMovementType;
+  amount: number;
+  reason: string;
+  userId: string;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade CashRegisterMovement - Camada de Domínio
+ * @description Sangria ou suprimento registrado em uma sessão de caixa
+ * @example
+ * const sangria = new CashRegisterMovement({
+ *   sessionId: 'uuid-sessao',
+ *   type: CashRegisterMovementType.WITHDRAWAL,
+ *   amount: 200,
+ *   reason: 'Recolhimento ao cofre',
+ *   userId: 'uuid-gerente'
+ * });
+ */
+export class CashRegisterMovement {
+  private _id?: string;
+  private _sessionId: string;
+  private _type: CashRegisterMovementType;
+  private _amount: number;
+  private _reason: string;
+  private _userId: string;
+  private _createdAt?: Date;
+
+  constructor(props: CashRegisterMovementProps) {
+    this._id = props.id;
+    this._sessionId = props.sessionId;
+    this._type = props.type;
+    this._amount = props.amount;
+    this._reason = props.reason;
+    this._userId = props.userId;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da movimentação
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!Object.values(CashRegisterMovementType).includes(this._type)) {
+      throw new Error('Tipo de movimentação de caixa inválido');
+    }
+
+    if (!(this._amount > 0)) {
+      throw new Error('Valor da movimentação deve ser maior que zero');
+    }
+
+    if (!this._reason || this._reason.trim().length === 0) {
+      throw new Error('Motivo da movimentação é obrigatório');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get sessionId(): string {
+    return this._sessionId;
+  }
+
+  get type(): CashRegisterMovementType {
+    return this._type;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  get reason(): string {
+    return this._reason;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Efeito da movimentação no dinheiro da gaveta
+   * @returns Valor positivo para suprimento e recebimento de fiado,
+   *          negativo para sangria e reembolso
+   */
+  getCashImpact(): number {
+    return this._type === CashRegisterMovementType.DEPOSIT || this._type === CashRegisterMovementType.DEBT_PAYMENT
+      ? this._amount
+      : -this._amount;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      sessionId: this._sessionId,
+      type: this._type,
+      amount: this._amount,
+      reason: this._reason,
+      userId: this._userId,
+      createdAt: this._createdAt,
+    };
+  }
+}
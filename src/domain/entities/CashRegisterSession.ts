@@ -0,0 +1,399 @@
+// ============================================================================
+// ENTIDADE: CASH REGISTER SESSION (SESSÃO DE CAIXA)
+// ============================================================================
+// Período de trabalho de um operador em um caixa, da abertura ao fechamento.
+//
+// ABERTURA:   o operador informa o fundo de troco (dinheiro na gaveta)
+// DURANTE:    as vendas do operador ficam vinculadas à sessão; sangrias,
+//             suprimentos, reembolsos (devoluções e cancelamentos) e
+//             recebimentos de fiado alteram o dinheiro esperado na gaveta
+// FECHAMENTO: o operador informa o valor contado em cada forma de pagamento
+//             e o sistema compara com o esperado:
+//
+//   Esperado em dinheiro = fundo + vendas em dinheiro + suprimentos
+//                          + recebimentos de fiado - sangrias - reembolsos
+//   Esperado em cartão/PIX = vendas na forma de pagamento
+//   Diferença = contado - esperado (negativa = falta, positiva = sobra)
+//
+// Parcelas fiado não entram na gaveta: aparecem no relatório apenas como
+// informação. Vendas canceladas não entram no esperado da própria sessão;
+// cancelada depois do fechamento, o estorno sai como reembolso do caixa de
+// quem cancelou.
+// ============================================================================
+
+import { PaymentMethod } from './Sale';
+import { CashRegisterMovement, CashRegisterMovementType } from './CashRegisterMovement';
+
+/**
+ * Status da sessão de caixa
+ */
+export enum CashRegisterStatus {
+  /** Caixa aberto, recebendo vendas */
+  OPEN = 'OPEN',
+  /** Caixa fechado e conferido */
+  CLOSED = 'CLOSED',
+}
+
+/**
+ * Valor recebido em uma forma de pagamento durante a sessão
+ */
+export interface CashRegisterPayment {
+  paymentMethod: PaymentMethod;
+  amount: number;
+}
+
+/**
+ * Conferência de uma forma de pagamento
+ */
+export interface CashRegisterClosingLine {
+  paymentMethod: PaymentMethod;
+  /** Quantidade de pagamentos recebidos */
+  count: number;
+  /** Total recebido em vendas */
+  sales: number;
+  /** Valor esperado (em dinheiro inclui fundo, suprimentos, sangrias e reembolsos) */
+  expected: number;
+  /** Valor contado pelo operador (null enquanto o caixa está aberto) */
+  counted: number | null;
+  /** Contado - esperado (null enquanto o caixa está aberto) */
+  difference: number | null;
+}
+
+/**
+ * Relatório do caixa (parcial enquanto aberto, definitivo no fechamento)
+ */
+export interface CashRegisterReport {
+  sessionId: string;
+  terminal: string;
+  userId: string;
+  status: CashRegisterStatus;
+  openedAt: Date;
+  closedAt: Date | null;
+  openingFloat: number;
+  deposits: number;
+  withdrawals: number;
+  /** Dinheiro devolvido a clientes em devoluções e cancelamentos */
+  refunds: number;
+  /** Dinheiro recebido em pagamentos de fiado */
+  debtPayments: number;
+  salesCount: number;
+  cancelledSalesCount: number;
+  lines: CashRegisterClosingLine[];
+  /** Vendas fiado (não entram na gaveta) */
+  onCredit: number;
+  expectedTotal: number;
+  countedTotal: number | null;
+  difference: number | null;
+  notes?: string | null;
+}
+
+/**
+ * Interface de propriedades da sessão de caixa
+ */
+export interface CashRegisterSessionProps {
+  id?: string;
+  terminal: string;
+  userId: string;
+  openingFloat: number;
+  status?: CashRegisterStatus;
+  notes?: string | null;
+  openedAt?: Date;
+  closedAt?: Date | null;
+  closedById?: string | null;
+  closingReport?: CashRegisterReport | null;
+  difference?: number | null;
+  movements?: CashRegisterMovement[];
+}
+
+/**
+ * Arredonda um valor em reais para centavos
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Entidade CashRegisterSession - Camada de Domínio
+ * @description Representa a abertura, movimentação e fechamento de um caixa
+ * @example
+ * const session = new CashRegisterSession({
+ *   terminal: 'Caixa 01',
+ *   userId: 'uuid-operador',
+ *   openingFloat: 100
+ * });
+ */
+export class CashRegisterSession {
+  /** Formas de pagamento conferidas no fechamento (fiado não entra na gaveta) */
+  static readonly COUNTED_METHODS: PaymentMethod[] = [
+    PaymentMethod.CASH,
+    PaymentMethod.CARD,
+    PaymentMethod.PIX,
+  ];
+
+  private _id?: string;
+  private _terminal: string;
+  private _userId: string;
+  private _openingFloat: number;
+  private _status: CashRegisterStatus;
+  private _notes?: string | null;
+  private _openedAt: Date;
+  private _closedAt?: Date | null;
+  private _closedById?: string | null;
+  private _closingReport?: CashRegisterReport | null;
+  private _difference?: number | null;
+  private _movements: CashRegisterMovement[];
+
+  constructor(props: CashRegisterSessionProps) {
+    this._id = props.id;
+    this._terminal = props.terminal?.trim();
+    this._userId = props.userId;
+    this._openingFloat = props.openingFloat;
+    this._status = props.status ?? CashRegisterStatus.OPEN;
+    this._notes = props.notes;
+    this._openedAt = props.openedAt ?? new Date();
+    this._closedAt = props.closedAt;
+    this._closedById = props.closedById;
+    this._closingReport = props.closingReport;
+    this._difference = props.difference;
+    this._movements = props.movements ?? [];
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da sessão
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._terminal) {
+      throw new Error('Identificação do caixa é obrigatória');
+    }
+
+    if (!this._userId) {
+      throw new Error('Operador do caixa é obrigatório');
+    }
+
+    if (!(this._openingFloat >= 0)) {
+      throw new Error('Fundo de troco não pode ser negativo');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get terminal(): string {
+    return this._terminal;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get openingFloat(): number {
+    return this._openingFloat;
+  }
+
+  get status(): CashRegisterStatus {
+    return this._status;
+  }
+
+  get notes(): string | null | undefined {
+    return this._notes;
+  }
+
+  get openedAt(): Date {
+    return this._openedAt;
+  }
+
+  get closedAt(): Date | null | undefined {
+    return this._closedAt;
+  }
+
+  get closedById(): string | null | undefined {
+    return this._closedById;
+  }
+
+  get closingReport(): CashRegisterReport | null | undefined {
+    return this._closingReport;
+  }
+
+  get difference(): number | null | undefined {
+    return this._difference;
+  }
+
+  get movements(): CashRegisterMovement[] {
+    return [...this._movements];
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se o caixa está aberto
+   */
+  isOpen(): boolean {
+    return this._status === CashRegisterStatus.OPEN;
+  }
+
+  /**
+   * Total de suprimentos da sessão
+   */
+  getTotalDeposits(): number {
+    return roundMoney(this._movements
+      .filter(m => m.type === CashRegisterMovementType.DEPOSIT)
+      .reduce((sum, m) => sum + m.amount, 0));
+  }
+
+  /**
+   * Total de sangrias da sessão
+   */
+  getTotalWithdrawals(): number {
+    return roundMoney(this._movements
+      .filter(m => m.type === CashRegisterMovementType.WITHDRAWAL)
+      .reduce((sum, m) => sum + m.amount, 0));
+  }
+
+  /**
+   * Total reembolsado em dinheiro em devoluções e cancelamentos
+   */
+  getTotalRefunds(): number {
+    return roundMoney(this._movements
+      .filter(m => m.type === CashRegisterMovementType.REFUND)
+      .reduce((sum, m) => sum + m.amount, 0));
+  }
+
+  /**
+   * Total recebido em dinheiro em pagamentos de fiado
+   */
+  getTotalDebtPayments(): number {
+    return roundMoney(this._movements
+      .filter(m => m.type === CashRegisterMovementType.DEBT_PAYMENT)
+      .reduce((sum, m) => sum + m.amount, 0));
+  }
+
+  /**
+   * Registra uma sangria, suprimento, reembolso ou recebimento de fiado na sessão
+   * @throws Error se o caixa estiver fechado
+   */
+  addMovement(movement: CashRegisterMovement): void {
+    if (!this.isOpen()) {
+      throw new Error('Caixa já está fechado');
+    }
+    this._movements.push(movement);
+  }
+
+  /**
+   * Monta o relatório do caixa
+   * @param payments - Valores recebidos nas vendas válidas da sessão
+   * @param salesCount - Quantidade de vendas válidas
+   * @param cancelledSalesCount - Quantidade de vendas canceladas
+   * @param counted - Valores contados por forma de pagamento (no fechamento)
+   */
+  buildReport(
+    payments: CashRegisterPayment[],
+    salesCount: number,
+    cancelledSalesCount: number,
+    counted?: Partial<Record<PaymentMethod, number>>
+  ): CashRegisterReport {
+    const lines = CashRegisterSession.COUNTED_METHODS.map((paymentMethod): CashRegisterClosingLine => {
+      const received = payments.filter(p => p.paymentMethod === paymentMethod);
+      const sales = roundMoney(received.reduce((sum, p) => sum + p.amount, 0));
+      const expected = paymentMethod === PaymentMethod.CASH
+        ? roundMoney(
+          this._openingFloat + sales + this.getTotalDeposits() + this.getTotalDebtPayments()
+            - this.getTotalWithdrawals() - this.getTotalRefunds()
+        )
+        : sales;
+      const countedValue = counted ? roundMoney(counted[paymentMethod] ?? 0) : null;
+
+      return {
+        paymentMethod,
+        count: received.length,
+        sales,
+        expected,
+        counted: countedValue,
+        difference: countedValue === null ? null : roundMoney(countedValue - expected),
+      };
+    });
+
+    const expectedTotal = roundMoney(lines.reduce((sum, line) => sum + line.expected, 0));
+    const countedTotal = counted
+      ? roundMoney(lines.reduce((sum, line) => sum + (line.counted ?? 0), 0))
+      : null;
+
+    return {
+      sessionId: this._id!,
+      terminal: this._terminal,
+      userId: this._userId,
+      status: this._status,
+      openedAt: this._openedAt,
+      closedAt: this._closedAt ?? null,
+      openingFloat: this._openingFloat,
+      deposits: this.getTotalDeposits(),
+      withdrawals: this.getTotalWithdrawals(),
+      refunds: this.getTotalRefunds(),
+      debtPayments: this.getTotalDebtPayments(),
+      salesCount,
+      cancelledSalesCount,
+      lines,
+      onCredit: roundMoney(payments
+        .filter(p => p.paymentMethod === PaymentMethod.FIADO)
+        .reduce((sum, p) => sum + p.amount, 0)),
+      expectedTotal,
+      countedTotal,
+      difference: countedTotal === null ? null : roundMoney(countedTotal - expectedTotal),
+    };
+  }
+
+  /**
+   * Fecha o caixa com o relatório de conferência
+   * @param report - Relatório montado com os valores contados
+   * @param closedById - Usuário que fechou o caixa
+   * @param notes - Observações do fechamento
+   * @throws Error se o caixa já estiver fechado
+   */
+  close(report: CashRegisterReport, closedById: string, notes?: string): void {
+    if (!this.isOpen()) {
+      throw new Error('Caixa já está fechado');
+    }
+
+    this._status = CashRegisterStatus.CLOSED;
+    this._closedAt = new Date();
+    this._closedById = closedById;
+    this._difference = report.difference;
+    this._closingReport = {
+      ...report,
+      status: CashRegisterStatus.CLOSED,
+      closedAt: this._closedAt,
+      notes: notes ?? null,
+    };
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      terminal: this._terminal,
+      userId: this._userId,
+      openingFloat: this._openingFloat,
+      status: this._status,
+      notes: this._notes,
+      openedAt: this._openedAt,
+      closedAt: this._closedAt,
+      closedById: this._closedById,
+      difference: this._difference,
+      deposits: this.getTotalDeposits(),
+      withdrawals: this.getTotalWithdrawals(),
+      refunds: this.getTotalRefunds(),
+      debtPayments: this.getTotalDebtPayments(),
+      movements: this._movements.map(m => m.toJSON()),
+      closingReport: this._closingReport ?? null,
+    };
+  }
+}
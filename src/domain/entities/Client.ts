@@ -22,6 +22,7 @@ export interface ClientProps {
   address?: string | null;
   creditLimit?: number;
   currentDebt?: number;
+  storeCredit?: number;
   isActive?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -46,6 +47,7 @@ export class Client {
   private _address?: string | null;
   private _creditLimit: number;
   private _currentDebt: number;
+  private _storeCredit: number;
   private _isActive: boolean;
   private _createdAt?: Date;
   private _updatedAt?: Date;
@@ -59,6 +61,7 @@ export class Client {
     this._address = props.address;
     this._creditLimit = props.creditLimit ?? 0;
     this._currentDebt = props.currentDebt ?? 0;
+    this._storeCredit = props.storeCredit ?? 0;
     this._isActive = props.isActive ?? true;
     this._createdAt = props.createdAt;
     this._updatedAt = props.updatedAt;
@@ -92,6 +95,10 @@ export class Client {
     if (this._currentDebt < 0) {
       throw new Error('Dívida atual não pode ser negativa');
     }
+
+    if (this._storeCredit < 0) {
+      throw new Error('Crédito na loja não pode ser negativo');
+    }
   }
 
   /**
@@ -148,6 +155,13 @@ export class Client {
     return this._currentDebt;
   }
 
+  /**
+   * Crédito na loja (gerado em devoluções)
+   */
+  get storeCredit(): number {
+    return this._storeCredit;
+  }
+
   get isActive(): boolean {
     return this._isActive;
   }
@@ -305,6 +319,7 @@ export class Client {
       creditLimit: this._creditLimit,
       currentDebt: this._currentDebt,
       availableCredit: this.getAvailableCredit(),
+      storeCredit: this._storeCredit,
       isActive: this._isActive,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
@@ -0,0 +1,147 @@
+// ============================================================================
+// ENTIDADE: CLIENT TRANSACTION (TRANSAÇÃO DO CLIENTE)
+// ============================================================================
+// Lançamento no extrato do fiado de um cliente.
+//
+// - DEBIT:  compra no fiado (aumenta o débito)
+// - CREDIT: pagamento ou estorno (reduz o débito)
+//
+// O saldo devedor do cliente é a soma dos débitos menos a soma dos créditos.
+//
+// Requisitos atendidos:
+// - RF11: Registro de vendas fiadas
+// - RF12: Consulta de débitos
+// ============================================================================
+
+/**
+ * Tipos de transação do cliente
+ */
+export enum ClientTransactionType {
+  /** Pagamento/estorno (reduz o débito) */
+  CREDIT = 'CREDIT',
+  /** Compra no fiado (aumenta o débito) */
+  DEBIT = 'DEBIT',
+}
+
+/**
+ * Interface de propriedades da transação
+ */
+export interface ClientTransactionProps {
+  id?: string;
+  clientId: string;
+  type: ClientTransactionType;
+  amount: number;
+  description?: string | null;
+  saleId?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade ClientTransaction - Camada de Domínio
+ * @description Representa um lançamento de débito ou crédito no fiado.
+ *              Assim como o log de auditoria, não possui setters.
+ * @example
+ * const debit = new ClientTransaction({
+ *   clientId: 'uuid-cliente',
+ *   type: ClientTransactionType.DEBIT,
+ *   amount: 35.90,
+ *   saleId: 'uuid-venda',
+ *   description: 'Venda #uuid-venda'
+ * });
+ */
+export class ClientTransaction {
+  private _id?: string;
+  private _clientId: string;
+  private _type: ClientTransactionType;
+  private _amount: number;
+  private _description?: string | null;
+  private _saleId?: string | null;
+  private _createdAt?: Date;
+
+  constructor(props: ClientTransactionProps) {
+    this._id = props.id;
+    this._clientId = props.clientId;
+    this._type = props.type;
+    this._amount = props.amount;
+    this._description = props.description;
+    this._saleId = props.saleId;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da transação
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._clientId) {
+      throw new Error('Cliente é obrigatório para a transação');
+    }
+
+    if (!Object.values(ClientTransactionType).includes(this._type)) {
+      throw new Error('Tipo de transação inválido');
+    }
+
+    if (this._amount <= 0) {
+      throw new Error('Valor da transação deve ser maior que zero');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get clientId(): string {
+    return this._clientId;
+  }
+
+  get type(): ClientTransactionType {
+    return this._type;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  get description(): string | null | undefined {
+    return this._description;
+  }
+
+  get saleId(): string | null | undefined {
+    return this._saleId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Efeito da transação no saldo devedor
+   * @returns Valor positivo para débito, negativo para crédito
+   */
+  getBalanceImpact(): number {
+    return this._type === ClientTransactionType.DEBIT ? this._amount : -this._amount;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      clientId: this._clientId,
+      type: this._type,
+      amount: this._amount,
+      description: this._description,
+      saleId: this._saleId,
+      createdAt: this._createdAt,
+    };
+  }
+}
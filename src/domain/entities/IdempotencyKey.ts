@@ -0,0 +1,170 @@
+// ============================================================================
+// ENTIDADE: IDEMPOTENCY KEY (CHAVE DE IDEMPOTÊNCIA)
+// ============================================================================
+// Registro de uma requisição enviada com o cabeçalho Idempotency-Key.
+//
+// O front-end repete a requisição quando a rede falha. Com a mesma chave, a
+// repetição não é executada de novo: recebe a resposta original, guardada
+// aqui. A chave vale por usuário e identifica uma única requisição (método,
+// caminho e corpo); reaproveitá-la com outro corpo é rejeitado.
+//
+// Enquanto a requisição original está em processamento o registro fica sem
+// resposta (`statusCode` nulo). Sem resposta depois do prazo de reserva
+// (ex.: o servidor caiu no meio da requisição), a chave é considerada
+// abandonada e pode ser reservada de novo.
+// ============================================================================
+
+/**
+ * Interface de propriedades da chave de idempotência
+ */
+export interface IdempotencyKeyProps {
+  id?: string;
+  key: string;
+  userId: string;
+  method: string;
+  path: string;
+  requestHash: string;
+  statusCode?: number | null;
+  responseBody?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade IdempotencyKey - Camada de Domínio
+ * @description Representa uma requisição idempotente e sua resposta guardada
+ * @example
+ * const record = new IdempotencyKey({
+ *   key: '3f1c9a2e-venda-caixa-02',
+ *   userId: 'uuid-operador',
+ *   method: 'POST',
+ *   path: '/api/v1/sales',
+ *   requestHash: 'e3b0c44298fc1c149afbf4c8996fb924...'
+ * });
+ */
+export class IdempotencyKey {
+  /** Tamanho máximo aceito para a chave */
+  static readonly MAX_KEY_LENGTH = 255;
+
+  private _id?: string;
+  private _key: string;
+  private _userId: string;
+  private _method: string;
+  private _path: string;
+  private _requestHash: string;
+  private _statusCode?: number | null;
+  private _responseBody?: string | null;
+  private _createdAt?: Date;
+
+  constructor(props: IdempotencyKeyProps) {
+    this._id = props.id;
+    this._key = props.key;
+    this._userId = props.userId;
+    this._method = props.method;
+    this._path = props.path;
+    this._requestHash = props.requestHash;
+    this._statusCode = props.statusCode;
+    this._responseBody = props.responseBody;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da chave
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._key || this._key.trim().length === 0) {
+      throw new Error('Chave de idempotência é obrigatória');
+    }
+
+    if (this._key.length > IdempotencyKey.MAX_KEY_LENGTH) {
+      throw new Error(`Chave de idempotência deve ter no máximo ${IdempotencyKey.MAX_KEY_LENGTH} caracteres`);
+    }
+
+    if (!this._userId) {
+      throw new Error('ID do usuário é obrigatório');
+    }
+
+    if (!this._method || !this._path) {
+      throw new Error('Método e caminho da requisição são obrigatórios');
+    }
+
+    if (!this._requestHash) {
+      throw new Error('Hash da requisição é obrigatório');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get key(): string {
+    return this._key;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get method(): string {
+    return this._method;
+  }
+
+  get path(): string {
+    return this._path;
+  }
+
+  get requestHash(): string {
+    return this._requestHash;
+  }
+
+  get statusCode(): number | null | undefined {
+    return this._statusCode;
+  }
+
+  get responseBody(): string | null | undefined {
+    return this._responseBody;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se a resposta da requisição original já foi guardada
+   */
+  isCompleted(): boolean {
+    return this._statusCode !== null && this._statusCode !== undefined;
+  }
+
+  /**
+   * Verifica se a requisição original ficou sem resposta além do prazo
+   * de reserva
+   * @param leaseSeconds - Prazo de reserva em segundos
+   */
+  isAbandoned(leaseSeconds: number, now: Date = new Date()): boolean {
+    if (this.isCompleted() || !this._createdAt) return false;
+    return now.getTime() - this._createdAt.getTime() > leaseSeconds * 1000;
+  }
+
+  /**
+   * Verifica se a requisição é a mesma que originou a chave
+   */
+  matches(method: string, path: string, requestHash: string): boolean {
+    return this._method === method && this._path === path && this._requestHash === requestHash;
+  }
+
+  /**
+   * Corpo da resposta guardada, já convertido de JSON
+   */
+  getResponse(): unknown {
+    return this._responseBody ? JSON.parse(this._responseBody) : null;
+  }
+}
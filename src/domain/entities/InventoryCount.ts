@@ -0,0 +1,302 @@
+// ============================================================================
+// ENTIDADE: INVENTORY COUNT (INVENTÁRIO)
+// ============================================================================
+// Contagem física do estoque de um local, de todos os produtos ativos ou
+// só de uma categoria.
+//
+// Na abertura, o saldo de cada produto no local é guardado como esperado.
+// Os usuários lançam as quantidades contadas; a diferença (contado -
+// esperado) aparece em unidades e a preço de custo. A aprovação lança um
+// ajuste só para os produtos contados com diferença; os não contados
+// ficam como estão.
+//
+// OPEN -> APPROVED (ajustes lançados)
+//      -> CANCELLED
+// ============================================================================
+
+import { InventoryCountItem } from './InventoryCountItem';
+
+/**
+ * Status do inventário
+ */
+export enum InventoryCountStatus {
+  /** Em contagem */
+  OPEN = 'OPEN',
+  /** Aprovado, com os ajustes lançados */
+  APPROVED = 'APPROVED',
+  /** Cancelado sem ajustes */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Totais das diferenças dos produtos contados
+ */
+export interface InventoryVarianceSummary {
+  /** Produtos no inventário */
+  totalItems: number;
+  /** Produtos com contagem válida */
+  countedItems: number;
+  /** Produtos ainda sem contagem (não serão ajustados) */
+  uncountedItems: number;
+  /** Produtos com contagens que não batem */
+  divergentItems: number;
+  /** Produtos contados com diferença */
+  itemsWithVariance: number;
+  /** Unidades a mais (sobras) */
+  unitsOver: number;
+  /** Unidades a menos (faltas) */
+  unitsShort: number;
+  /** Saldo das diferenças em unidades */
+  netUnits: number;
+  /** Valor das sobras a preço de custo */
+  costOver: number;
+  /** Valor das faltas a preço de custo */
+  costShort: number;
+  /** Saldo das diferenças a preço de custo */
+  netCost: number;
+}
+
+/**
+ * Interface de propriedades do inventário
+ */
+export interface InventoryCountProps {
+  id?: string;
+  locationId: string;
+  locationName?: string;
+  categoryId?: string | null;
+  categoryName?: string | null;
+  status?: InventoryCountStatus;
+  notes?: string | null;
+  userId: string;
+  approvedById?: string | null;
+  approvedAt?: Date | null;
+  cancelledAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  items?: InventoryCountItem[];
+}
+
+/**
+ * Entidade InventoryCount - Camada de Domínio
+ * @description Representa um inventário com os saldos esperados e as contagens
+ * @example
+ * const count = new InventoryCount({
+ *   locationId: 'uuid-loja',
+ *   categoryId: 'uuid-bebidas',
+ *   userId: 'uuid-gerente',
+ *   items: [new InventoryCountItem({ productId: 'uuid-refri', expectedQuantity: 48, unitCost: 5.2 })]
+ * });
+ */
+export class InventoryCount {
+  private _id?: string;
+  private _locationId: string;
+  private _locationName?: string;
+  private _categoryId?: string | null;
+  private _categoryName?: string | null;
+  private _status: InventoryCountStatus;
+  private _notes?: string | null;
+  private _userId: string;
+  private _approvedById?: string | null;
+  private _approvedAt?: Date | null;
+  private _cancelledAt?: Date | null;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+  private _items: InventoryCountItem[];
+
+  constructor(props: InventoryCountProps) {
+    this._id = props.id;
+    this._locationId = props.locationId;
+    this._locationName = props.locationName;
+    this._categoryId = props.categoryId;
+    this._categoryName = props.categoryName;
+    this._status = props.status ?? InventoryCountStatus.OPEN;
+    this._notes = props.notes;
+    this._userId = props.userId;
+    this._approvedById = props.approvedById;
+    this._approvedAt = props.approvedAt;
+    this._cancelledAt = props.cancelledAt;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+    this._items = props.items ?? [];
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do inventário
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._locationId) {
+      throw new Error('Local é obrigatório para o inventário');
+    }
+
+    if (!this._userId) {
+      throw new Error('ID do usuário é obrigatório');
+    }
+
+    if (!Object.values(InventoryCountStatus).includes(this._status)) {
+      throw new Error('Status do inventário inválido');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get locationId(): string {
+    return this._locationId;
+  }
+
+  get locationName(): string | undefined {
+    return this._locationName;
+  }
+
+  get categoryId(): string | null | undefined {
+    return this._categoryId;
+  }
+
+  get categoryName(): string | null | undefined {
+    return this._categoryName;
+  }
+
+  get status(): InventoryCountStatus {
+    return this._status;
+  }
+
+  get notes(): string | null | undefined {
+    return this._notes;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get approvedById(): string | null | undefined {
+    return this._approvedById;
+  }
+
+  get approvedAt(): Date | null | undefined {
+    return this._approvedAt;
+  }
+
+  get cancelledAt(): Date | null | undefined {
+    return this._cancelledAt;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  get items(): InventoryCountItem[] {
+    return [...this._items];
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se o inventário ainda aceita contagens
+   */
+  isOpen(): boolean {
+    return this._status === InventoryCountStatus.OPEN;
+  }
+
+  /**
+   * Busca o item de um produto
+   */
+  findItem(productId: string): InventoryCountItem | undefined {
+    return this._items.find(item => item.productId === productId);
+  }
+
+  /**
+   * Verifica se o escopo deste inventário cruza com o de outro no mesmo local
+   * @description Sem categoria o inventário cobre o local inteiro
+   */
+  overlaps(categoryId?: string | null): boolean {
+    return !this._categoryId || !categoryId || this._categoryId === categoryId;
+  }
+
+  /**
+   * Itens com contagens que não batem
+   */
+  getDivergentItems(): InventoryCountItem[] {
+    return this._items.filter(item => item.isDivergent());
+  }
+
+  /**
+   * Itens contados com diferença (os que recebem ajuste na aprovação)
+   */
+  getItemsWithVariance(): InventoryCountItem[] {
+    return this._items.filter(item => (item.getVariance() ?? 0) !== 0);
+  }
+
+  /**
+   * Totais das diferenças em unidades e a preço de custo
+   */
+  getVarianceSummary(): InventoryVarianceSummary {
+    const counted = this._items.filter(item => item.getCountedQuantity() !== null);
+    const variances = counted.map(item => ({ units: item.getVariance()!, cost: item.getVarianceCost()! }));
+
+    const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+    const over = variances.filter(variance => variance.units > 0);
+    const short = variances.filter(variance => variance.units < 0);
+
+    return {
+      totalItems: this._items.length,
+      countedItems: counted.length,
+      uncountedItems: this._items.filter(item => !item.isCounted()).length,
+      divergentItems: this.getDivergentItems().length,
+      itemsWithVariance: over.length + short.length,
+      unitsOver: sum(over.map(variance => variance.units)),
+      unitsShort: sum(short.map(variance => -variance.units)),
+      netUnits: sum(variances.map(variance => variance.units)),
+      costOver: sum(over.map(variance => variance.cost)),
+      costShort: sum(short.map(variance => -variance.cost)),
+      netCost: sum(variances.map(variance => variance.cost)),
+    };
+  }
+
+  /**
+   * Descrição do status em português
+   */
+  getStatusDescription(): string {
+    const descriptions: Record<InventoryCountStatus, string> = {
+      [InventoryCountStatus.OPEN]: 'Em contagem',
+      [InventoryCountStatus.APPROVED]: 'Aprovado',
+      [InventoryCountStatus.CANCELLED]: 'Cancelado',
+    };
+    return descriptions[this._status];
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      locationId: this._locationId,
+      locationName: this._locationName,
+      categoryId: this._categoryId,
+      categoryName: this._categoryName,
+      status: this._status,
+      statusDescription: this.getStatusDescription(),
+      notes: this._notes,
+      userId: this._userId,
+      approvedById: this._approvedById,
+      approvedAt: this._approvedAt,
+      cancelledAt: this._cancelledAt,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+      summary: this.getVarianceSummary(),
+      items: this._items.map(item => item.toJSON()),
+    };
+  }
+}
@@ -0,0 +1,201 @@
+// ============================================================================
+// ENTIDADE: INVENTORY COUNT ITEM (ITEM DE INVENTÁRIO)
+// ============================================================================
+// Produto de um inventário: o saldo esperado no local quando o inventário
+// foi aberto e as contagens feitas pelos usuários.
+//
+// Várias pessoas podem contar o mesmo produto. Vale a última contagem de
+// cada uma; se elas não baterem, o item fica divergente até alguém
+// recontar. Item sem contagem não entra na aprovação.
+// ============================================================================
+
+/**
+ * Contagem de um produto feita por um usuário
+ */
+export interface InventoryCountEntry {
+  id?: string;
+  userId: string;
+  userName?: string;
+  quantity: number;
+  createdAt?: Date;
+}
+
+/**
+ * Interface de propriedades do item de inventário
+ */
+export interface InventoryCountItemProps {
+  id?: string;
+  countId?: string;
+  productId: string;
+  productName?: string;
+  expectedQuantity: number;
+  unitCost: number;
+  movementId?: string | null;
+  entries?: InventoryCountEntry[];
+}
+
+/**
+ * Entidade InventoryCountItem - Camada de Domínio
+ * @description Representa um produto do inventário com suas contagens
+ * @example
+ * const item = new InventoryCountItem({
+ *   productId: 'uuid-arroz',
+ *   expectedQuantity: 40,
+ *   unitCost: 18.5
+ * });
+ */
+export class InventoryCountItem {
+  private _id?: string;
+  private _countId?: string;
+  private _productId: string;
+  private _productName?: string;
+  private _expectedQuantity: number;
+  private _unitCost: number;
+  private _movementId?: string | null;
+  private _entries: InventoryCountEntry[];
+
+  constructor(props: InventoryCountItemProps) {
+    this._id = props.id;
+    this._countId = props.countId;
+    this._productId = props.productId;
+    this._productName = props.productName;
+    this._expectedQuantity = props.expectedQuantity;
+    this._unitCost = props.unitCost;
+    this._movementId = props.movementId;
+    this._entries = props.entries ?? [];
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do item
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId) {
+      throw new Error('Produto é obrigatório para o item de inventário');
+    }
+
+    if (!Number.isInteger(this._expectedQuantity) || this._expectedQuantity < 0) {
+      throw new Error('Saldo esperado deve ser um número inteiro maior ou igual a zero');
+    }
+
+    if (this._unitCost < 0) {
+      throw new Error('Custo do item não pode ser negativo');
+    }
+
+    if (this._entries.some(entry => !Number.isInteger(entry.quantity) || entry.quantity < 0)) {
+      throw new Error('Quantidade contada deve ser um número inteiro maior ou igual a zero');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get countId(): string | undefined {
+    return this._countId;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get expectedQuantity(): number {
+    return this._expectedQuantity;
+  }
+
+  get unitCost(): number {
+    return this._unitCost;
+  }
+
+  get movementId(): string | null | undefined {
+    return this._movementId;
+  }
+
+  get entries(): InventoryCountEntry[] {
+    return [...this._entries];
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Última contagem de cada usuário
+   */
+  getLatestEntries(): InventoryCountEntry[] {
+    const latest = new Map<string, InventoryCountEntry>();
+    for (const entry of this._entries) {
+      const previous = latest.get(entry.userId);
+      if (!previous || (entry.createdAt?.getTime() ?? 0) >= (previous.createdAt?.getTime() ?? 0)) {
+        latest.set(entry.userId, entry);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Verifica se o produto já foi contado
+   */
+  isCounted(): boolean {
+    return this._entries.length > 0;
+  }
+
+  /**
+   * Verifica se as contagens dos usuários discordam
+   */
+  isDivergent(): boolean {
+    return new Set(this.getLatestEntries().map(entry => entry.quantity)).size > 1;
+  }
+
+  /**
+   * Quantidade contada (null sem contagem ou com contagens divergentes)
+   */
+  getCountedQuantity(): number | null {
+    if (!this.isCounted() || this.isDivergent()) return null;
+    return this.getLatestEntries()[0].quantity;
+  }
+
+  /**
+   * Diferença em unidades (contado - esperado); null se não houver contagem válida
+   */
+  getVariance(): number | null {
+    const counted = this.getCountedQuantity();
+    return counted === null ? null : counted - this._expectedQuantity;
+  }
+
+  /**
+   * Diferença a preço de custo; null se não houver contagem válida
+   */
+  getVarianceCost(): number | null {
+    const variance = this.getVariance();
+    return variance === null ? null : Math.round(variance * this._unitCost * 100) / 100;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      productId: this._productId,
+      productName: this._productName,
+      expectedQuantity: this._expectedQuantity,
+      unitCost: this._unitCost,
+      countedQuantity: this.getCountedQuantity(),
+      counted: this.isCounted(),
+      divergent: this.isDivergent(),
+      variance: this.getVariance(),
+      varianceCost: this.getVarianceCost(),
+      movementId: this._movementId,
+      entries: this._entries,
+    };
+  }
+}
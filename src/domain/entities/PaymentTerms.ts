@@ -0,0 +1,133 @@
+// ============================================================================
+// OBJETO DE VALOR: PAYMENT TERMS (CONDIÇÃO DE PAGAMENTO)
+// ============================================================================
+// Representa o prazo combinado com o fornecedor, no formato usado no
+// comércio: dias após a entrega separados por "/".
+//
+//   "0"        → à vista (vence na entrega)
+//   "30"       → uma parcela em 30 dias
+//   "30/60/90" → três parcelas iguais em 30, 60 e 90 dias
+//
+// O valor é dividido em centavos; a diferença de arredondamento vai para a
+// última parcela, de modo que a soma das parcelas é sempre o valor total.
+// ============================================================================
+
+/**
+ * Parcela calculada a partir da condição de pagamento
+ */
+export interface Installment {
+  /** Número da parcela (1, 2, 3...) */
+  number: number;
+  /** Total de parcelas */
+  count: number;
+  /** Valor da parcela */
+  amount: number;
+  /** Data de vencimento */
+  dueDate: Date;
+}
+
+/**
+ * Objeto de valor PaymentTerms - Camada de Domínio
+ * @description Interpreta e aplica condições de pagamento do tipo "30/60/90"
+ * @example
+ * const terms = PaymentTerms.parse('30/60/90');
+ * terms.split(100, new Date('2026-10-01'));
+ * // [33.33 em 31/10, 33.33 em 30/11, 33.34 em 30/12]
+ */
+export class PaymentTerms {
+  /** Condição usada quando o fornecedor não tem prazo cadastrado */
+  static readonly DEFAULT = '30';
+
+  /** Número máximo de parcelas */
+  static readonly MAX_INSTALLMENTS = 12;
+
+  private constructor(private readonly _days: number[]) {}
+
+  /**
+   * Interpreta uma condição de pagamento
+   * @param terms - Dias separados por "/" (ex.: "30/60/90")
+   * @throws Error se o formato for inválido
+   */
+  static parse(terms: string): PaymentTerms {
+    const parts = terms.trim().split('/').map(part => part.trim());
+
+    if (parts.some(part => !/^\d+$/.test(part))) {
+      throw new Error(`Condição de pagamento inválida: "${terms}". Use dias separados por "/" (ex.: 30/60/90)`);
+    }
+
+    const days = parts.map(Number);
+
+    if (days.length > PaymentTerms.MAX_INSTALLMENTS) {
+      throw new Error(`Condição de pagamento deve ter no máximo ${PaymentTerms.MAX_INSTALLMENTS} parcelas`);
+    }
+
+    for (let i = 1; i < days.length; i++) {
+      if (days[i] <= days[i - 1]) {
+        throw new Error('Prazos da condição de pagamento devem ser crescentes');
+      }
+    }
+
+    return new PaymentTerms(days);
+  }
+
+  /**
+   * Verifica se o texto é uma condição de pagamento válida
+   * @param terms - Texto a validar
+   */
+  static isValid(terms: string): boolean {
+    try {
+      PaymentTerms.parse(terms);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Prazos em dias de cada parcela
+   */
+  get days(): number[] {
+    return [...this._days];
+  }
+
+  /**
+   * Quantidade de parcelas
+   */
+  get installmentCount(): number {
+    return this._days.length;
+  }
+
+  /**
+   * Divide um valor em parcelas a partir de uma data base
+   * @param amount - Valor total
+   * @param baseDate - Data a partir da qual os prazos são contados
+   * @returns Parcelas com valor e vencimento
+   */
+  split(amount: number, baseDate: Date): Installment[] {
+    const totalCents = Math.round(amount * 100);
+    const count = this._days.length;
+    const baseCents = Math.floor(totalCents / count);
+
+    return this._days.map((days, index) => {
+      const isLast = index === count - 1;
+      const cents = isLast ? totalCents - baseCents * (count - 1) : baseCents;
+
+      const dueDate = new Date(baseDate);
+      dueDate.setDate(dueDate.getDate() + days);
+
+      return {
+        number: index + 1,
+        count,
+        amount: cents / 100,
+        dueDate,
+      };
+    });
+  }
+
+  /**
+   * Representação textual (ex.: "30/60/90")
+   */
+  toString(): string {
+    return this._days.join('/');
+  }
+}
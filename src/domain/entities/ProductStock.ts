@@ -0,0 +1,153 @@
+// ============================================================================
+// ENTIDADE: PRODUCT STOCK (SALDO DO PRODUTO NO LOCAL)
+// ============================================================================
+// Quantidade de um produto em um local de estoque.
+//
+// A soma dos saldos de todos os locais é o estoque do produto
+// (Product.quantity). Cada local pode ter um mínimo próprio - a prateleira
+// precisa de reposição antes do depósito; sem mínimo próprio vale o mínimo
+// do cadastro do produto.
+// ============================================================================
+
+/**
+ * Interface de propriedades do saldo
+ */
+export interface ProductStockProps {
+  id?: string;
+  productId: string;
+  locationId: string;
+  quantity: number;
+  minQuantity?: number | null;
+  updatedAt?: Date;
+  /** Nome do produto (somente leitura) */
+  productName?: string;
+  /** Mínimo do cadastro do produto (somente leitura) */
+  productMinQuantity?: number;
+  /** Nome do local (somente leitura) */
+  locationName?: string;
+}
+
+/**
+ * Entidade ProductStock - Camada de Domínio
+ * @description Representa o saldo de um produto em um local
+ * @example
+ * const stock = new ProductStock({
+ *   productId: 'uuid-arroz',
+ *   locationId: 'uuid-prateleira',
+ *   quantity: 12,
+ *   minQuantity: 20
+ * });
+ */
+export class ProductStock {
+  private _id?: string;
+  private _productId: string;
+  private _locationId: string;
+  private _quantity: number;
+  private _minQuantity?: number | null;
+  private _updatedAt?: Date;
+  private _productName?: string;
+  private _productMinQuantity?: number;
+  private _locationName?: string;
+
+  constructor(props: ProductStockProps) {
+    this._id = props.id;
+    this._productId = props.productId;
+    this._locationId = props.locationId;
+    this._quantity = props.quantity;
+    this._minQuantity = props.minQuantity;
+    this._updatedAt = props.updatedAt;
+    this._productName = props.productName;
+    this._productMinQuantity = props.productMinQuantity;
+    this._locationName = props.locationName;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do saldo
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId || !this._locationId) {
+      throw new Error('Produto e local são obrigatórios para o saldo');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity < 0) {
+      throw new Error('Saldo do local não pode ser negativo');
+    }
+
+    if (this._minQuantity !== null && this._minQuantity !== undefined && this._minQuantity < 0) {
+      throw new Error('Quantidade mínima do local não pode ser negativa');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get locationId(): string {
+    return this._locationId;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get minQuantity(): number | null | undefined {
+    return this._minQuantity;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get locationName(): string | undefined {
+    return this._locationName;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Mínimo efetivo: o do local ou, na falta dele, o do produto
+   */
+  getEffectiveMinQuantity(): number {
+    return this._minQuantity ?? this._productMinQuantity ?? 0;
+  }
+
+  /**
+   * Verifica se o saldo do local está no mínimo ou abaixo dele
+   */
+  isLowStock(): boolean {
+    return this._quantity <= this.getEffectiveMinQuantity();
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      productId: this._productId,
+      productName: this._productName,
+      locationId: this._locationId,
+      locationName: this._locationName,
+      quantity: this._quantity,
+      minQuantity: this._minQuantity,
+      effectiveMinQuantity: this.getEffectiveMinQuantity(),
+      isLowStock: this.isLowStock(),
+      updatedAt: this._updatedAt,
+    };
+  }
+}
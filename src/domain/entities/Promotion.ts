@@ -0,0 +1,351 @@
+// ============================================================================
+// ENTIDADE: PROMOTION (PROMOÇÃO)
+// ============================================================================
+// Regra de desconto aplicada automaticamente no caixa.
+//
+// Tipos de promoção:
+// - PERCENTAGE:   `value`% de desconto sobre o item
+// - FIXED_AMOUNT: R$ `value` de desconto por unidade
+// - BUY_X_GET_Y:  a cada `buyQuantity` + `getQuantity` unidades, as
+//                 `getQuantity` últimas saem com `value`% de desconto
+//                 (100 = grátis; ex.: leve 3 pague 2 → X=2, Y=1, value=100)
+//
+// Regras de aplicação (determinísticas):
+// 1. Só valem promoções ativas dentro do período (início e fim inclusive)
+// 2. `minPurchase` é comparado com o valor bruto da venda (antes de descontos)
+// 3. Escopo: o produto precisa estar em `productIds` E sua categoria em
+//    `categoryIds`; lista nula significa "todos"
+// 4. Promoções não se acumulam no mesmo item: vence a de maior desconto;
+//    no empate, a criada primeiro (e, por fim, a de menor ID)
+// 5. O desconto é arredondado em centavos e nunca passa do valor do item
+// ============================================================================
+
+/**
+ * Tipos de promoção
+ */
+export enum PromotionType {
+  /** Percentual sobre o valor do item */
+  PERCENTAGE = 'PERCENTAGE',
+  /** Valor fixo por unidade */
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+  /** Leve X + Y, com desconto nas Y unidades */
+  BUY_X_GET_Y = 'BUY_X_GET_Y',
+}
+
+/**
+ * Item avaliado pelas promoções
+ */
+export interface PromotionTarget {
+  productId: string;
+  categoryId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * Promoção escolhida para um item e o desconto que ela gera
+ */
+export interface PromotionMatch {
+  promotion: Promotion;
+  discount: number;
+}
+
+/**
+ * Interface de propriedades da promoção
+ */
+export interface PromotionProps {
+  id?: string;
+  name: string;
+  description?: string | null;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  minPurchase?: number | null;
+  startDate: Date;
+  endDate: Date;
+  isActive?: boolean;
+  productIds?: string[] | null;
+  categoryIds?: string[] | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Entidade Promotion - Camada de Domínio
+ * @description Representa uma promoção e calcula o desconto que ela concede
+ * @example
+ * const promo = new Promotion({
+ *   name: 'Leve 3 pague 2 - Refrigerantes',
+ *   type: PromotionType.BUY_X_GET_Y,
+ *   value: 100,
+ *   buyQuantity: 2,
+ *   getQuantity: 1,
+ *   startDate: new Date('2026-10-01'),
+ *   endDate: new Date('2026-10-31'),
+ *   categoryIds: ['uuid-bebidas']
+ * });
+ */
+export class Promotion {
+  private _id?: string;
+  private _name: string;
+  private _description?: string | null;
+  private _type: PromotionType;
+  private _value: number;
+  private _buyQuantity?: number | null;
+  private _getQuantity?: number | null;
+  private _minPurchase?: number | null;
+  private _startDate: Date;
+  private _endDate: Date;
+  private _isActive: boolean;
+  private _productIds: string[] | null;
+  private _categoryIds: string[] | null;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+
+  constructor(props: PromotionProps) {
+    this._id = props.id;
+    this._name = props.name;
+    this._description = props.description;
+    this._type = props.type;
+    this._value = props.value;
+    this._buyQuantity = props.buyQuantity;
+    this._getQuantity = props.getQuantity;
+    this._minPurchase = props.minPurchase;
+    this._startDate = props.startDate;
+    this._endDate = props.endDate;
+    this._isActive = props.isActive ?? true;
+    this._productIds = props.productIds ?? null;
+    this._categoryIds = props.categoryIds ?? null;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da promoção
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._name || this._name.trim().length === 0) {
+      throw new Error('Nome da promoção é obrigatório');
+    }
+
+    if (!Object.values(PromotionType).includes(this._type)) {
+      throw new Error(`Tipo de promoção inválido. Tipos válidos: ${Object.values(PromotionType).join(', ')}`);
+    }
+
+    if (!(this._value > 0)) {
+      throw new Error('Valor da promoção deve ser maior que zero');
+    }
+
+    if (this._type !== PromotionType.FIXED_AMOUNT && this._value > 100) {
+      throw new Error('Percentual de desconto não pode ser maior que 100');
+    }
+
+    if (this._type === PromotionType.BUY_X_GET_Y) {
+      if (!Number.isInteger(this._buyQuantity) || this._buyQuantity! < 1) {
+        throw new Error('Quantidade a levar (buyQuantity) deve ser um inteiro maior que zero');
+      }
+      if (!Number.isInteger(this._getQuantity) || this._getQuantity! < 1) {
+        throw new Error('Quantidade bonificada (getQuantity) deve ser um inteiro maior que zero');
+      }
+    }
+
+    if (this._minPurchase != null && this._minPurchase < 0) {
+      throw new Error('Compra mínima não pode ser negativa');
+    }
+
+    if (isNaN(this._startDate.getTime()) || isNaN(this._endDate.getTime())) {
+      throw new Error('Período da promoção inválido');
+    }
+
+    if (this._endDate < this._startDate) {
+      throw new Error('Data de fim não pode ser anterior à data de início');
+    }
+
+    if (this._productIds?.length === 0 || this._categoryIds?.length === 0) {
+      throw new Error('Lista de produtos/categorias não pode ser vazia (use null para todos)');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | null | undefined {
+    return this._description;
+  }
+
+  get type(): PromotionType {
+    return this._type;
+  }
+
+  get value(): number {
+    return this._value;
+  }
+
+  get buyQuantity(): number | null | undefined {
+    return this._buyQuantity;
+  }
+
+  get getQuantity(): number | null | undefined {
+    return this._getQuantity;
+  }
+
+  get minPurchase(): number | null | undefined {
+    return this._minPurchase;
+  }
+
+  get startDate(): Date {
+    return this._startDate;
+  }
+
+  get endDate(): Date {
+    return this._endDate;
+  }
+
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  get productIds(): string[] | null {
+    return this._productIds;
+  }
+
+  get categoryIds(): string[] | null {
+    return this._categoryIds;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se a promoção está valendo em uma data
+   * @param date - Data de referência (padrão: agora)
+   */
+  isRunningAt(date: Date = new Date()): boolean {
+    return this._isActive && this._startDate <= date && date <= this._endDate;
+  }
+
+  /**
+   * Verifica se o produto está no escopo da promoção
+   * @param productId - ID do produto
+   * @param categoryId - ID da categoria do produto
+   */
+  appliesTo(productId: string, categoryId: string): boolean {
+    const productMatches = this._productIds === null || this._productIds.includes(productId);
+    const categoryMatches = this._categoryIds === null || this._categoryIds.includes(categoryId);
+    return productMatches && categoryMatches;
+  }
+
+  /**
+   * Verifica se o valor da compra atinge o mínimo exigido
+   * @param purchaseAmount - Valor bruto da venda
+   */
+  meetsMinPurchase(purchaseAmount: number): boolean {
+    return this._minPurchase == null || purchaseAmount >= this._minPurchase;
+  }
+
+  /**
+   * Calcula o desconto da promoção para um item
+   * @param unitPrice - Preço unitário
+   * @param quantity - Quantidade
+   * @returns Desconto em reais (arredondado em centavos, limitado ao valor do item)
+   */
+  calculateDiscount(unitPrice: number, quantity: number): number {
+    const gross = unitPrice * quantity;
+    let discount: number;
+
+    switch (this._type) {
+      case PromotionType.PERCENTAGE:
+        discount = gross * (this._value / 100);
+        break;
+      case PromotionType.FIXED_AMOUNT:
+        discount = this._value * quantity;
+        break;
+      case PromotionType.BUY_X_GET_Y: {
+        const groupSize = this._buyQuantity! + this._getQuantity!;
+        const bonusUnits = Math.floor(quantity / groupSize) * this._getQuantity!;
+        discount = bonusUnits * unitPrice * (this._value / 100);
+        break;
+      }
+    }
+
+    return Math.round(Math.min(discount, gross) * 100) / 100;
+  }
+
+  /**
+   * Escolhe a promoção que vale para um item (regras no topo do arquivo)
+   * @param promotions - Promoções candidatas
+   * @param target - Item avaliado
+   * @param purchaseAmount - Valor bruto da venda (para `minPurchase`)
+   * @param date - Data da venda
+   * @returns Promoção vencedora e seu desconto, ou null se nenhuma se aplica
+   */
+  static bestFor(
+    promotions: Promotion[],
+    target: PromotionTarget,
+    purchaseAmount: number,
+    date: Date = new Date()
+  ): PromotionMatch | null {
+    const matches = promotions
+      .filter(promotion =>
+        promotion.isRunningAt(date) &&
+        promotion.appliesTo(target.productId, target.categoryId) &&
+        promotion.meetsMinPurchase(purchaseAmount)
+      )
+      .map(promotion => ({
+        promotion,
+        discount: promotion.calculateDiscount(target.unitPrice, target.quantity),
+      }))
+      .filter(match => match.discount > 0)
+      .sort((a, b) =>
+        b.discount - a.discount ||
+        (a.promotion.createdAt?.getTime() ?? 0) - (b.promotion.createdAt?.getTime() ?? 0) ||
+        (a.promotion.id ?? '').localeCompare(b.promotion.id ?? '')
+      );
+
+    return matches[0] ?? null;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      name: this._name,
+      description: this._description,
+      type: this._type,
+      value: this._value,
+      buyQuantity: this._buyQuantity,
+      getQuantity: this._getQuantity,
+      minPurchase: this._minPurchase,
+      startDate: this._startDate,
+      endDate: this._endDate,
+      isActive: this._isActive,
+      isRunning: this.isRunningAt(),
+      productIds: this._productIds,
+      categoryIds: this._categoryIds,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+}
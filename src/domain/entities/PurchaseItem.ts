@@ -0,0 +1,178 @@
+// ============================================================================
+// ENTIDADE: PURCHASE ITEM (ITEM DO PEDIDO DE COMPRA)
+// ============================================================================
+// Representa um produto solicitado em um pedido de compra.
+//
+// RECEBIMENTO: cada entrega soma em `receivedQuantity` e `receivedAmount`.
+// O fornecedor pode entregar menos (parcial) ou mais (excedente) do que foi
+// pedido; o item só é considerado completo quando a quantidade recebida
+// alcança a solicitada.
+// ============================================================================
+
+/**
+ * Interface de propriedades do item do pedido
+ */
+export interface PurchaseItemProps {
+  id?: string;
+  purchaseOrderId?: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice: number;
+  total?: number;
+  receivedQuantity?: number;
+  receivedAmount?: number;
+}
+
+/**
+ * Entidade PurchaseItem - Camada de Domínio
+ * @description Representa um item do pedido de compra. O total é sempre
+ *              quantidade × preço unitário (custo negociado com o fornecedor).
+ * @example
+ * const item = new PurchaseItem({
+ *   productId: 'product-uuid',
+ *   productName: 'Arroz 5kg',
+ *   quantity: 20,
+ *   unitPrice: 18.50
+ * });
+ */
+export class PurchaseItem {
+  private _id?: string;
+  private _purchaseOrderId?: string;
+  private _productId: string;
+  private _productName?: string;
+  private _quantity: number;
+  private _unitPrice: number;
+  private _total: number;
+  private _receivedQuantity: number;
+  private _receivedAmount: number;
+
+  constructor(props: PurchaseItemProps) {
+    this._id = props.id;
+    this._purchaseOrderId = props.purchaseOrderId;
+    this._productId = props.productId;
+    this._productName = props.productName;
+    this._quantity = props.quantity;
+    this._unitPrice = props.unitPrice;
+    this._total = props.total ?? props.quantity * props.unitPrice;
+    this._receivedQuantity = props.receivedQuantity ?? 0;
+    this._receivedAmount = props.receivedAmount ?? 0;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do item
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId) {
+      throw new Error('ID do produto é obrigatório');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity <= 0) {
+      throw new Error('Quantidade deve ser um número inteiro maior que zero');
+    }
+
+    if (this._unitPrice < 0) {
+      throw new Error('Preço unitário não pode ser negativo');
+    }
+
+    if (this._receivedQuantity < 0) {
+      throw new Error('Quantidade recebida não pode ser negativa');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get purchaseOrderId(): string | undefined {
+    return this._purchaseOrderId;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get unitPrice(): number {
+    return this._unitPrice;
+  }
+
+  get total(): number {
+    return this._total;
+  }
+
+  get receivedQuantity(): number {
+    return this._receivedQuantity;
+  }
+
+  get receivedAmount(): number {
+    return this._receivedAmount;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Registra uma entrega do item
+   * @param quantity - Quantidade entregue (inteiro maior que zero)
+   * @param unitCost - Custo unitário efetivamente cobrado
+   * @throws Error se a quantidade ou o custo forem inválidos
+   */
+  receive(quantity: number, unitCost: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantidade recebida deve ser um número inteiro maior que zero');
+    }
+    if (unitCost < 0) {
+      throw new Error('Custo unitário não pode ser negativo');
+    }
+
+    this._receivedQuantity += quantity;
+    this._receivedAmount += quantity * unitCost;
+  }
+
+  /**
+   * Quantidade que ainda falta entregar (zero se houve excedente)
+   */
+  getPendingQuantity(): number {
+    return Math.max(0, this._quantity - this._receivedQuantity);
+  }
+
+  /**
+   * Verifica se a quantidade solicitada já foi toda recebida
+   */
+  isFullyReceived(): boolean {
+    return this._receivedQuantity >= this._quantity;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   * @returns Objeto com os dados do item
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      purchaseOrderId: this._purchaseOrderId,
+      productId: this._productId,
+      productName: this._productName,
+      quantity: this._quantity,
+      unitPrice: this._unitPrice,
+      total: this._total,
+      receivedQuantity: this._receivedQuantity,
+      receivedAmount: this._receivedAmount,
+      pendingQuantity: this.getPendingQuantity(),
+    };
+  }
+}
@@ -0,0 +1,291 @@
+// ============================================================================
+// ENTIDADE: PURCHASE ORDER (PEDIDO DE COMPRA)
+// ============================================================================
+// Representa um pedido de compra feito a um fornecedor.
+//
+// CICLO DE VIDA:
+//
+//   PENDING ──aprovar──> APPROVED ──receber──> RECEIVED
+//      │                    │  ↺ entregas parciais
+//      └──────cancelar──────┴──> CANCELLED
+//
+// - Somente pedidos pendentes podem ser aprovados
+// - Somente pedidos aprovados recebem mercadoria; o pedido continua
+//   APPROVED enquanto faltar algum item e passa a RECEIVED quando tudo chega
+// - Pedidos recebidos não podem ser cancelados
+//
+// Requisitos atendidos:
+// - RF13: Cadastro de fornecedores
+// - RF14: Registrar pedidos de compra de fornecedores
+// ============================================================================
+
+import { PurchaseItem } from './PurchaseItem';
+
+/**
+ * Enum para o status do pedido de compra
+ */
+export enum PurchaseOrderStatus {
+  /** Aguardando aprovação do gerente */
+  PENDING = 'PENDING',
+  /** Aprovado, aguardando entrega do fornecedor */
+  APPROVED = 'APPROVED',
+  /** Mercadoria recebida */
+  RECEIVED = 'RECEIVED',
+  /** Pedido cancelado */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Interface de propriedades do pedido de compra
+ */
+export interface PurchaseOrderProps {
+  id?: string;
+  supplierId: string;
+  status?: PurchaseOrderStatus;
+  totalAmount?: number;
+  expectedDate?: Date | null;
+  receivedDate?: Date | null;
+  paymentTerms?: string | null;
+  notes?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  items?: PurchaseItem[];
+}
+
+/**
+ * Entidade PurchaseOrder - Camada de Domínio
+ * @description Representa um pedido de compra com suas regras de negócio.
+ *              O valor total é calculado a partir dos itens.
+ * @example
+ * const order = new PurchaseOrder({
+ *   supplierId: 'supplier-uuid',
+ *   expectedDate: new Date('2026-11-05'),
+ *   items: [new PurchaseItem({ productId: 'p1', quantity: 10, unitPrice: 4.5 })]
+ * });
+ * order.totalAmount; // 45
+ */
+export class PurchaseOrder {
+  private _id?: string;
+  private _supplierId: string;
+  private _status: PurchaseOrderStatus;
+  private _totalAmount: number;
+  private _expectedDate?: Date | null;
+  private _receivedDate?: Date | null;
+  private _paymentTerms?: string | null;
+  private _notes?: string | null;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+  private _items: PurchaseItem[];
+
+  constructor(props: PurchaseOrderProps) {
+    this._id = props.id;
+    this._supplierId = props.supplierId;
+    this._status = props.status ?? PurchaseOrderStatus.PENDING;
+    this._items = props.items ?? [];
+    this._totalAmount = props.totalAmount ?? this.calculateTotal();
+    this._expectedDate = props.expectedDate;
+    this._receivedDate = props.receivedDate;
+    this._paymentTerms = props.paymentTerms;
+    this._notes = props.notes;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do pedido
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._supplierId) {
+      throw new Error('Fornecedor é obrigatório');
+    }
+
+    if (!Object.values(PurchaseOrderStatus).includes(this._status)) {
+      throw new Error('Status do pedido inválido');
+    }
+
+    if (this._totalAmount < 0) {
+      throw new Error('Total não pode ser negativo');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get supplierId(): string {
+    return this._supplierId;
+  }
+
+  get status(): PurchaseOrderStatus {
+    return this._status;
+  }
+
+  get totalAmount(): number {
+    return this._totalAmount;
+  }
+
+  get expectedDate(): Date | null | undefined {
+    return this._expectedDate;
+  }
+
+  get receivedDate(): Date | null | undefined {
+    return this._receivedDate;
+  }
+
+  get paymentTerms(): string | null | undefined {
+    return this._paymentTerms;
+  }
+
+  get notes(): string | null | undefined {
+    return this._notes;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  get items(): PurchaseItem[] {
+    return this._items;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Soma o total dos itens
+   */
+  private calculateTotal(): number {
+    return this._items.reduce((sum, item) => sum + item.total, 0);
+  }
+
+  /**
+   * Adiciona um item ao pedido e recalcula o total
+   * @param item - Item a ser adicionado
+   */
+  addItem(item: PurchaseItem): void {
+    this._items.push(item);
+    this._totalAmount = this.calculateTotal();
+  }
+
+  /**
+   * Verifica se o pedido aguarda aprovação
+   */
+  isPending(): boolean {
+    return this._status === PurchaseOrderStatus.PENDING;
+  }
+
+  /**
+   * Verifica se o pedido pode ser aprovado
+   */
+  canBeApproved(): boolean {
+    return this._status === PurchaseOrderStatus.PENDING;
+  }
+
+  /**
+   * Verifica se o pedido pode receber mercadoria
+   */
+  canBeReceived(): boolean {
+    return this._status === PurchaseOrderStatus.APPROVED;
+  }
+
+  /**
+   * Busca o item do pedido referente a um produto
+   * @param productId - ID do produto
+   */
+  findItem(productId: string): PurchaseItem | undefined {
+    return this._items.find(item => item.productId === productId);
+  }
+
+  /**
+   * Verifica se todos os itens já foram recebidos por completo
+   */
+  isFullyReceived(): boolean {
+    return this._items.length > 0 && this._items.every(item => item.isFullyReceived());
+  }
+
+  /**
+   * Verifica se alguma entrega já foi registrada
+   */
+  hasDeliveries(): boolean {
+    return this._items.some(item => item.receivedQuantity > 0);
+  }
+
+  /**
+   * Marca o pedido como recebido
+   * @param date - Data do recebimento (padrão: agora)
+   */
+  markAsReceived(date: Date = new Date()): void {
+    this._status = PurchaseOrderStatus.RECEIVED;
+    this._receivedDate = date;
+  }
+
+  /**
+   * Custo total da mercadoria efetivamente recebida
+   */
+  getReceivedAmount(): number {
+    return this._items.reduce((sum, item) => sum + item.receivedAmount, 0);
+  }
+
+  /**
+   * Verifica se o pedido pode ser cancelado
+   */
+  canBeCancelled(): boolean {
+    return this._status === PurchaseOrderStatus.PENDING || this._status === PurchaseOrderStatus.APPROVED;
+  }
+
+  /**
+   * Retorna a quantidade total de unidades solicitadas
+   */
+  getTotalItems(): number {
+    return this._items.reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  /**
+   * Retorna uma descrição legível do status
+   */
+  getStatusDescription(): string {
+    const descriptions: Record<PurchaseOrderStatus, string> = {
+      [PurchaseOrderStatus.PENDING]: 'Aguardando aprovação',
+      [PurchaseOrderStatus.APPROVED]: 'Aprovado',
+      [PurchaseOrderStatus.RECEIVED]: 'Recebido',
+      [PurchaseOrderStatus.CANCELLED]: 'Cancelado',
+    };
+    if (this._status === PurchaseOrderStatus.APPROVED && this.hasDeliveries()) {
+      return 'Recebido parcialmente';
+    }
+    return descriptions[this._status];
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   * @returns Objeto com os dados do pedido
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      supplierId: this._supplierId,
+      status: this._status,
+      statusDescription: this.getStatusDescription(),
+      totalAmount: this._totalAmount,
+      expectedDate: this._expectedDate,
+      receivedDate: this._receivedDate,
+      paymentTerms: this._paymentTerms,
+      notes: this._notes,
+      items: this._items.map(item => item.toJSON()),
+      totalItems: this.getTotalItems(),
+      receivedAmount: this.getReceivedAmount(),
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+}
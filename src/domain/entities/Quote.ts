@@ -0,0 +1,246 @@
+// ============================================================================
+// ENTIDADE: QUOTE (ORÇAMENTO)
+// ============================================================================
+// Proposta de preço entregue ao cliente antes da compra (ex: atacado).
+//
+// Os itens são precificados como na venda (promoções vigentes e descontos)
+// na data do orçamento, que vale até `validUntil`. O orçamento não reserva
+// nem baixa estoque. Na conversão, estoque e preços são conferidos de novo
+// e a venda sai com os preços do dia; diferenças são informadas.
+//
+// OPEN -> CONVERTED (virou venda)
+//      -> CANCELLED
+// Orçamento aberto após a validade está vencido e não pode ser convertido.
+// ============================================================================
+
+import { QuoteItem } from './QuoteItem';
+
+/**
+ * Status do orçamento
+ */
+export enum QuoteStatus {
+  /** Aguardando o cliente */
+  OPEN = 'OPEN',
+  /** Convertido em venda */
+  CONVERTED = 'CONVERTED',
+  /** Cancelado */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Interface de propriedades do orçamento
+ */
+export interface QuoteProps {
+  id?: string;
+  clientId?: string | null;
+  userId: string;
+  subtotal: number;
+  discount?: number;
+  total: number;
+  status?: QuoteStatus;
+  validUntil: Date;
+  notes?: string | null;
+  saleId?: string | null;
+  convertedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  items?: QuoteItem[];
+}
+
+/**
+ * Entidade Quote - Camada de Domínio
+ * @description Representa um orçamento com seus itens precificados
+ * @example
+ * const quote = new Quote({
+ *   clientId: 'uuid-cliente',
+ *   userId: 'uuid-vendedor',
+ *   subtotal: 500,
+ *   discount: 20,
+ *   total: 480,
+ *   validUntil: new Date('2026-11-01'),
+ *   items: [QuoteItem.fromSaleItem(pricedItem)]
+ * });
+ */
+export class Quote {
+  private _id?: string;
+  private _clientId?: string | null;
+  private _userId: string;
+  private _subtotal: number;
+  private _discount: number;
+  private _total: number;
+  private _status: QuoteStatus;
+  private _validUntil: Date;
+  private _notes?: string | null;
+  private _saleId?: string | null;
+  private _convertedAt?: Date | null;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+  private _items: QuoteItem[];
+
+  constructor(props: QuoteProps) {
+    this._id = props.id;
+    this._clientId = props.clientId;
+    this._userId = props.userId;
+    this._subtotal = props.subtotal;
+    this._discount = props.discount ?? 0;
+    this._total = props.total;
+    this._status = props.status ?? QuoteStatus.OPEN;
+    this._validUntil = props.validUntil;
+    this._notes = props.notes;
+    this._saleId = props.saleId;
+    this._convertedAt = props.convertedAt;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+    this._items = props.items ?? [];
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do orçamento
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._userId) {
+      throw new Error('ID do usuário é obrigatório');
+    }
+
+    if (this._subtotal < 0) {
+      throw new Error('Subtotal não pode ser negativo');
+    }
+
+    if (this._discount < 0) {
+      throw new Error('Desconto não pode ser negativo');
+    }
+
+    if (this._discount > this._subtotal) {
+      throw new Error('Desconto não pode ser maior que o subtotal');
+    }
+
+    if (this._total < 0) {
+      throw new Error('Total não pode ser negativo');
+    }
+
+    if (!(this._validUntil instanceof Date) || isNaN(this._validUntil.getTime())) {
+      throw new Error('Validade do orçamento é obrigatória');
+    }
+
+    if (this._status === QuoteStatus.CONVERTED && !this._saleId) {
+      throw new Error('Orçamento convertido precisa da venda gerada');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get clientId(): string | null | undefined {
+    return this._clientId;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get subtotal(): number {
+    return this._subtotal;
+  }
+
+  get discount(): number {
+    return this._discount;
+  }
+
+  get total(): number {
+    return this._total;
+  }
+
+  get status(): QuoteStatus {
+    return this._status;
+  }
+
+  get validUntil(): Date {
+    return this._validUntil;
+  }
+
+  get notes(): string | null | undefined {
+    return this._notes;
+  }
+
+  get saleId(): string | null | undefined {
+    return this._saleId;
+  }
+
+  get convertedAt(): Date | null | undefined {
+    return this._convertedAt;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  get items(): QuoteItem[] {
+    return [...this._items];
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se o orçamento está aberto
+   */
+  isOpen(): boolean {
+    return this._status === QuoteStatus.OPEN;
+  }
+
+  /**
+   * Verifica se a validade já passou na data informada
+   */
+  isExpired(at: Date = new Date()): boolean {
+    return this._validUntil.getTime() < at.getTime();
+  }
+
+  /**
+   * Verifica se o orçamento ainda pode virar venda
+   */
+  canBeConverted(at: Date = new Date()): boolean {
+    return this.isOpen() && !this.isExpired(at);
+  }
+
+  /**
+   * Total de unidades orçadas
+   */
+  getTotalItems(): number {
+    return this._items.reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      clientId: this._clientId,
+      userId: this._userId,
+      subtotal: this._subtotal,
+      discount: this._discount,
+      total: this._total,
+      status: this._status,
+      validUntil: this._validUntil,
+      expired: this.isOpen() && this.isExpired(),
+      notes: this._notes,
+      saleId: this._saleId,
+      convertedAt: this._convertedAt,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+      items: this._items.map(item => item.toJSON()),
+      totalItems: this.getTotalItems(),
+    };
+  }
+}
@@ -0,0 +1,187 @@
+// ============================================================================
+// ENTIDADE: QUOTE ITEM (ITEM DE ORÇAMENTO)
+// ============================================================================
+// Item de um orçamento, precificado como um item de venda (preço do
+// produto, promoção vigente e desconto manual) na data do orçamento.
+// ============================================================================
+
+import { SaleItem } from './SaleItem';
+
+/**
+ * Interface de propriedades do item de orçamento
+ */
+export interface QuoteItemProps {
+  id?: string;
+  quoteId?: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  total: number;
+  promotionId?: string | null;
+  promotionName?: string | null;
+  promotionDiscount?: number;
+}
+
+/**
+ * Entidade QuoteItem - Camada de Domínio
+ * @description Representa um item orçado (não reserva estoque)
+ * @example
+ * const item = QuoteItem.fromSaleItem(pricedItem);
+ */
+export class QuoteItem {
+  private _id?: string;
+  private _quoteId?: string;
+  private _productId: string;
+  private _productName?: string;
+  private _quantity: number;
+  private _unitPrice: number;
+  private _discount: number;
+  private _total: number;
+  private _promotionId?: string | null;
+  private _promotionName?: string | null;
+  private _promotionDiscount: number;
+
+  constructor(props: QuoteItemProps) {
+    this._id = props.id;
+    this._quoteId = props.quoteId;
+    this._productId = props.productId;
+    this._productName = props.productName;
+    this._quantity = props.quantity;
+    this._unitPrice = props.unitPrice;
+    this._discount = props.discount ?? 0;
+    this._total = props.total;
+    this._promotionId = props.promotionId;
+    this._promotionName = props.promotionName;
+    this._promotionDiscount = props.promotionDiscount ?? 0;
+
+    this.validate();
+  }
+
+  /**
+   * Cria o item orçado a partir de um item precificado como venda
+   */
+  static fromSaleItem(item: SaleItem): QuoteItem {
+    return new QuoteItem({
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      total: item.total,
+      promotionId: item.promotionId,
+      promotionName: item.promotionName,
+      promotionDiscount: item.promotionDiscount,
+    });
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do item
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId) {
+      throw new Error('ID do produto é obrigatório');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity <= 0) {
+      throw new Error('Quantidade deve ser um número inteiro maior que zero');
+    }
+
+    if (this._unitPrice < 0) {
+      throw new Error('Preço unitário não pode ser negativo');
+    }
+
+    if (this._discount < 0) {
+      throw new Error('Desconto não pode ser negativo');
+    }
+
+    if (this._total < 0) {
+      throw new Error('Total não pode ser negativo');
+    }
+
+    if (this._promotionDiscount < 0 || this._promotionDiscount > this._discount) {
+      throw new Error('Desconto da promoção deve estar entre zero e o desconto do item');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get quoteId(): string | undefined {
+    return this._quoteId;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get unitPrice(): number {
+    return this._unitPrice;
+  }
+
+  get discount(): number {
+    return this._discount;
+  }
+
+  get total(): number {
+    return this._total;
+  }
+
+  get promotionId(): string | null | undefined {
+    return this._promotionId;
+  }
+
+  get promotionName(): string | null | undefined {
+    return this._promotionName;
+  }
+
+  /**
+   * Parte do desconto gerada pela promoção (o restante é desconto manual)
+   */
+  get promotionDiscount(): number {
+    return this._promotionDiscount;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Desconto manual concedido no item (sem a promoção)
+   */
+  getManualDiscount(): number {
+    return Math.round((this._discount - this._promotionDiscount) * 100) / 100;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      quoteId: this._quoteId,
+      productId: this._productId,
+      productName: this._productName,
+      quantity: this._quantity,
+      unitPrice: this._unitPrice,
+      discount: this._discount,
+      total: this._total,
+      promotionId: this._promotionId,
+      promotionName: this._promotionName,
+      promotionDiscount: this._promotionDiscount,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+// ============================================================================
+// ENTIDADE: RECEIPT (CUPOM DA VENDA)
+// ============================================================================
+// Cupom emitido ao concluir uma venda.
+//
+// - O número é sequencial e sem lacunas: é gerado dentro da mesma transação
+//   da venda, então uma venda desfeita não consome número.
+// - O conteúdo é uma "fotografia" da venda no momento da emissão; mudanças
+//   posteriores em produtos ou no cadastro da loja não alteram o cupom.
+// - Toda impressão a partir da segunda é marcada como "2ª via".
+//
+// Requisitos atendidos:
+// - RF08: Emitir nota/cupom da venda
+// ============================================================================
+
+import { PaymentMethod } from './Sale';
+
+/** Quantidade de dígitos do número do cupom (ex: 000000123) */
+const RECEIPT_NUMBER_DIGITS = 9;
+
+/**
+ * Dados da loja impressos no cabeçalho do cupom
+ */
+export interface ReceiptStoreInfo {
+  name: string;
+  document?: string;
+  address?: string;
+  phone?: string;
+}
+
+/**
+ * Item impresso no cupom
+ */
+export interface ReceiptItem {
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  total: number;
+  /** Promoção que gerou (parte do) desconto do item */
+  promotionName?: string;
+}
+
+/**
+ * Parcela do pagamento impressa no cupom
+ */
+export interface ReceiptPayment {
+  paymentMethod: PaymentMethod;
+  amount: number;
+  /** Valor entregue pelo cliente (dinheiro) */
+  amountReceived?: number;
+}
+
+/**
+ * Conteúdo do cupom (fotografia da venda na emissão)
+ */
+export interface ReceiptContent {
+  store: ReceiptStoreInfo;
+  saleDate: Date | string;
+  clientName?: string | null;
+  items: ReceiptItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  /** Forma de pagamento principal */
+  paymentMethod: PaymentMethod;
+  /** Parcelas do pagamento (ausente em cupons anteriores ao pagamento dividido) */
+  payments?: ReceiptPayment[];
+  /** Valor entregue pelo cliente (soma das parcelas, com o recebido em dinheiro) */
+  amountPaid: number;
+  /** Troco devolvido ao cliente */
+  change: number;
+}
+
+/**
+ * Interface de propriedades do cupom
+ */
+export interface ReceiptProps {
+  id?: string;
+  saleId: string;
+  number: string;
+  content: ReceiptContent;
+  printCount?: number;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade Receipt - Camada de Domínio
+ * @description Representa o cupom de uma venda. O conteúdo não muda depois
+ *              da emissão; apenas o contador de vias impressas.
+ * @example
+ * const receipt = new Receipt({
+ *   saleId: 'uuid-venda',
+ *   number: Receipt.nextNumber('000000041'), // '000000042'
+ *   content: { ... }
+ * });
+ */
+export class Receipt {
+  private _id?: string;
+  private _saleId: string;
+  private _number: string;
+  private _content: ReceiptContent;
+  private _printCount: number;
+  private _createdAt?: Date;
+
+  constructor(props: ReceiptProps) {
+    this._id = props.id;
+    this._saleId = props.saleId;
+    this._number = props.number;
+    this._content = props.content;
+    this._printCount = props.printCount ?? 0;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do cupom
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._saleId) {
+      throw new Error('Venda é obrigatória para o cupom');
+    }
+
+    if (!/^\d+$/.test(this._number)) {
+      throw new Error('Número do cupom inválido');
+    }
+
+    if (this._printCount < 0) {
+      throw new Error('Quantidade de vias não pode ser negativa');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get saleId(): string {
+    return this._saleId;
+  }
+
+  get number(): string {
+    return this._number;
+  }
+
+  get content(): ReceiptContent {
+    return this._content;
+  }
+
+  /**
+   * Vias já impressas (incluindo a atual, depois de registrada)
+   */
+  get printCount(): number {
+    return this._printCount;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Calcula o próximo número da sequência
+   * @param lastNumber - Último número emitido (null se nenhum)
+   * @returns Próximo número com zeros à esquerda
+   */
+  static nextNumber(lastNumber: string | null): string {
+    const next = (lastNumber ? parseInt(lastNumber, 10) : 0) + 1;
+    return String(next).padStart(RECEIPT_NUMBER_DIGITS, '0');
+  }
+
+  /**
+   * Verifica se a via atual é uma reimpressão (2ª via em diante)
+   */
+  isReprint(): boolean {
+    return this._printCount > 1;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      saleId: this._saleId,
+      number: this._number,
+      printCount: this._printCount,
+      reprint: this.isReprint(),
+      createdAt: this._createdAt,
+      ...this._content,
+    };
+  }
+}
@@ -8,9 +8,16 @@
 // - RF07: Registrar diferentes formas de pagamento
 // - RF08: Emitir nota/cupom da venda
 // - RF09: Aplicar descontos e promoções durante a venda
+//
+// Devoluções parciais não alteram o total registrado: o valor devolvido fica
+// em `returnedAmount` e o total líquido é `total - returnedAmount`.
+//
+// Venda suspensa (DRAFT): montada no caixa com addItem/removeItem, ainda sem
+// pagamento e sem baixa de estoque. Vira venda de verdade na finalização.
 // ============================================================================
 
 import { SaleItem } from './SaleItem';
+import { SalePayment } from './SalePayment';
 
 /**
  * Enum para os métodos de pagamento aceitos
@@ -25,6 +32,8 @@ export enum PaymentMethod {
   PIX = 'PIX',
   /** Pagamento no fiado (crédito do cliente) */
   FIADO = 'FIADO',
+  /** Pagamento com vale-troca (crédito na loja do cliente) */
+  STORE_CREDIT = 'STORE_CREDIT',
 }
 
 /**
@@ -37,6 +46,8 @@ export enum PaymentStatus {
   PENDING = 'PENDING',
   /** Venda cancelada */
   CANCELLED = 'CANCELLED',
+  /** Venda em montagem/suspensa (sem pagamento e sem baixa de estoque) */
+  DRAFT = 'DRAFT',
 }
 
 /**
@@ -49,12 +60,18 @@ export interface SaleProps {
   subtotal: number;
   discount?: number;
   total: number;
-  paymentMethod: PaymentMethod;
+  /** Forma de pagamento principal (padrão: a de maior valor em `payments`) */
+  paymentMethod?: PaymentMethod;
   paymentStatus?: PaymentStatus;
   notes?: string | null;
+  sessionId?: string | null;
+  returnedAmount?: number;
+  creditRefunded?: number;
+  creditPaid?: number;
   createdAt?: Date;
   updatedAt?: Date;
   items?: SaleItem[];
+  payments?: SalePayment[];
 }
 
 /**
@@ -66,7 +83,10 @@ export interface SaleProps {
  *   subtotal: 100.00,
  *   total: 90.00,
  *   discount: 10.00,
- *   paymentMethod: PaymentMethod.PIX
+ *   payments: [
+ *     new SalePayment({ paymentMethod: PaymentMethod.CASH, amount: 50, amountReceived: 60 }),
+ *     new SalePayment({ paymentMethod: PaymentMethod.PIX, amount: 40 })
+ *   ]
  * });
  */
 export class Sale {
@@ -79,9 +99,14 @@ export class Sale {
   private _paymentMethod: PaymentMethod;
   private _paymentStatus: PaymentStatus;
   private _notes?: string | null;
+  private _sessionId?: string | null;
+  private _returnedAmount: number;
+  private _creditRefunded: number;
+  private _creditPaid: number;
   private _createdAt?: Date;
   private _updatedAt?: Date;
   private _items: SaleItem[];
+  private _payments: SalePayment[];
 
   constructor(props: SaleProps) {
     this._id = props.id;
@@ -90,9 +115,14 @@ export class Sale {
     this._subtotal = props.subtotal;
     this._discount = props.discount ?? 0;
     this._total = props.total;
-    this._paymentMethod = props.paymentMethod;
+    this._payments = props.payments ?? [];
+    this._paymentMethod = props.paymentMethod ?? Sale.mainPaymentMethod(this._payments)!;
     this._paymentStatus = props.paymentStatus ?? PaymentStatus.PAID;
     this._notes = props.notes;
+    this._sessionId = props.sessionId;
+    this._returnedAmount = props.returnedAmount ?? 0;
+    this._creditRefunded = props.creditRefunded ?? 0;
+    this._creditPaid = props.creditPaid ?? 0;
     this._createdAt = props.createdAt;
     this._updatedAt = props.updatedAt;
     this._items = props.items ?? [];
@@ -127,10 +157,44 @@ export class Sale {
       throw new Error('Desconto não pode ser maior que o subtotal');
     }
 
-    // Se for fiado, precisa ter cliente
-    if (this._paymentMethod === PaymentMethod.FIADO && !this._clientId) {
+    if (this.isDraft()) {
+      if (this._payments.length > 0) {
+        throw new Error('Venda suspensa não pode ter pagamentos');
+      }
+    } else if (!this._paymentMethod) {
+      throw new Error('Forma de pagamento é obrigatória');
+    }
+
+    // Com pagamentos detalhados, as parcelas precisam fechar o total
+    if (this._payments.length > 0) {
+      const paid = this._payments.reduce((sum, payment) => sum + payment.amount, 0);
+      if (Math.abs(paid - this._total) > 0.005) {
+        throw new Error(
+          `Soma dos pagamentos (R$ ${paid.toFixed(2)}) difere do total da venda (R$ ${this._total.toFixed(2)})`
+        );
+      }
+    }
+
+    // Se tiver parcela no fiado, precisa ter cliente
+    if (this.isCredit() && !this._clientId) {
       throw new Error('Venda no fiado requer um cliente cadastrado');
     }
+
+    if (this.getAmountInStoreCredit() > 0 && !this._clientId) {
+      throw new Error('Pagamento com vale-troca requer um cliente cadastrado');
+    }
+
+    if (this._returnedAmount < 0 || this._returnedAmount > this._total + 0.005) {
+      throw new Error('Valor devolvido deve estar entre zero e o total da venda');
+    }
+
+    if (this._creditRefunded < 0 || this._creditRefunded > this._returnedAmount + 0.005) {
+      throw new Error('Devolução abatida do fiado não pode exceder o valor devolvido');
+    }
+
+    if (this._creditPaid < 0) {
+      throw new Error('Valor pago do fiado não pode ser negativo');
+    }
   }
 
   // ==================== GETTERS ====================
@@ -159,10 +223,17 @@ export class Sale {
     return this._total;
   }
 
+  /**
+   * Forma de pagamento principal; o detalhamento fica em `payments`
+   */
   get paymentMethod(): PaymentMethod {
     return this._paymentMethod;
   }
 
+  get payments(): SalePayment[] {
+    return this._payments;
+  }
+
   get paymentStatus(): PaymentStatus {
     return this._paymentStatus;
   }
@@ -171,6 +242,34 @@ export class Sale {
     return this._notes;
   }
 
+  /**
+   * Sessão de caixa em que a venda foi registrada
+   */
+  get sessionId(): string | null | undefined {
+    return this._sessionId;
+  }
+
+  /**
+   * Valor já devolvido ao cliente em devoluções de itens
+   */
+  get returnedAmount(): number {
+    return this._returnedAmount;
+  }
+
+  /**
+   * Parte das devoluções abatida do débito fiado
+   */
+  get creditRefunded(): number {
+    return this._creditRefunded;
+  }
+
+  /**
+   * Parte do fiado já paga pelo cliente (pagamentos do fiado)
+   */
+  get creditPaid(): number {
+    return this._creditPaid;
+  }
+
   get createdAt(): Date | undefined {
     return this._createdAt;
   }
@@ -210,7 +309,7 @@ export class Sale {
    * Recalcula o total da venda
    */
   private recalculateTotal(): void {
-    this._total = this._subtotal - this._discount;
+    this._total = Math.round((this._subtotal - this._discount) * 100) / 100;
   }
 
   /**
@@ -219,7 +318,7 @@ export class Sale {
    */
   addItem(item: SaleItem): void {
     this._items.push(item);
-    this._subtotal += item.total;
+    this._subtotal = Math.round((this._subtotal + item.total) * 100) / 100;
     this.recalculateTotal();
   }
 
@@ -231,18 +330,193 @@ export class Sale {
     const index = this._items.findIndex(item => item.id === itemId);
     if (index !== -1) {
       const item = this._items[index];
-      this._subtotal -= item.total;
+      this._subtotal = Math.round((this._subtotal - item.total) * 100) / 100;
       this._items.splice(index, 1);
       this.recalculateTotal();
     }
   }
 
   /**
-   * Verifica se a venda é no fiado
-   * @returns true se a forma de pagamento for fiado
+   * Forma de pagamento de maior valor (no empate, a primeira informada)
+   * @param payments - Parcelas do pagamento
+   * @returns Forma principal ou undefined se não houver parcelas
+   */
+  static mainPaymentMethod(payments: SalePayment[]): PaymentMethod | undefined {
+    return payments.reduce<SalePayment | undefined>(
+      (main, payment) => (!main || payment.amount > main.amount ? payment : main),
+      undefined
+    )?.paymentMethod;
+  }
+
+  /**
+   * Verifica se a venda tem parcela no fiado
+   * @returns true se alguma parte do pagamento for fiado
    */
   isCredit(): boolean {
-    return this._paymentMethod === PaymentMethod.FIADO;
+    return this.getAmountOnCredit() > 0 || this._paymentMethod === PaymentMethod.FIADO;
+  }
+
+  /**
+   * Parte da venda lançada no débito do cliente
+   * @returns Soma das parcelas fiado
+   */
+  getAmountOnCredit(): number {
+    return this.getAmountPaidWith(PaymentMethod.FIADO);
+  }
+
+  /**
+   * Parte da venda paga em uma forma de pagamento
+   * @param method - Forma de pagamento
+   * @returns Soma das parcelas na forma informada
+   */
+  getAmountPaidWith(method: PaymentMethod): number {
+    if (this._payments.length === 0) {
+      return this._paymentMethod === method ? this._total : 0;
+    }
+    const paid = this._payments
+      .filter(payment => payment.paymentMethod === method)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    return Math.round(paid * 100) / 100;
+  }
+
+  /**
+   * Parte da venda paga com vale-troca
+   * @returns Soma das parcelas em crédito na loja
+   */
+  getAmountInStoreCredit(): number {
+    return this.getAmountPaidWith(PaymentMethod.STORE_CREDIT);
+  }
+
+  /**
+   * Parte da venda recebida no ato (dinheiro, cartão, PIX e vale-troca)
+   * @returns Total menos a parte no fiado
+   */
+  getAmountPaidUpfront(): number {
+    return Math.round((this._total - this.getAmountOnCredit()) * 100) / 100;
+  }
+
+  /**
+   * Parte fiado ainda devida pelo cliente (descontadas as devoluções e os
+   * pagamentos)
+   * @returns Parcela fiado menos o que foi abatido em devoluções e pago
+   */
+  getOutstandingCredit(): number {
+    return Math.max(0, Math.round((this.getAmountOnCredit() - this._creditRefunded - this._creditPaid) * 100) / 100);
+  }
+
+  /**
+   * Total líquido da venda
+   * @returns Total menos o valor devolvido
+   */
+  getNetTotal(): number {
+    return Math.round((this._total - this._returnedAmount) * 100) / 100;
+  }
+
+  /**
+   * Valor pago pelo cliente que ainda pode ser reembolsado (dinheiro ou
+   * crédito na loja): o que entrou no caixa menos o que já foi reembolsado
+   * @returns Zero para venda cancelada
+   */
+  getRefundableAmount(): number {
+    if (this.isCancelled()) return 0;
+    const paid = this.getAmountPaidUpfront() + this._creditPaid;
+    const refunded = this._returnedAmount - this._creditRefunded;
+    return Math.max(0, Math.round((paid - refunded) * 100) / 100);
+  }
+
+  /**
+   * Calcula o valor a devolver por unidades devolvidas
+   *
+   * @description
+   * Cada item vale o seu total rateado pelo desconto geral da venda. A
+   * última devolução de um item leva o que sobrou do valor dele e, quando a
+   * venda inteira é devolvida, o total devolvido fecha o total da venda
+   * (sem sobras de arredondamento).
+   * @param lines - Itens da venda e quantidades devolvidas
+   * @returns Valor de cada linha, na mesma ordem
+   */
+  calculateRefund(lines: { item: SaleItem; quantity: number }[]): number[] {
+    const factor = this._subtotal > 0 ? this._total / this._subtotal : 0;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const amounts = lines.map(({ item, quantity }) => {
+      const itemValue = item.total * factor;
+      if (quantity === item.getReturnableQuantity()) {
+        return round(itemValue - round(itemValue * item.returnedQuantity / item.quantity));
+      }
+      return round(itemValue * quantity / item.quantity);
+    });
+
+    const returnedNow = (item: SaleItem) => lines
+      .filter(line => line.item === item)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    const returnsEverything = this._items.every(item => returnedNow(item) === item.getReturnableQuantity());
+
+    if (returnsEverything && amounts.length > 0) {
+      const others = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0);
+      amounts[amounts.length - 1] = round(this._total - this._returnedAmount - others);
+    }
+
+    return amounts;
+  }
+
+  /**
+   * Registra uma devolução de itens
+   *
+   * @description
+   * Atualiza as quantidades devolvidas e o valor devolvido. Quando a
+   * devolução abate todo o fiado restante, a venda passa a paga.
+   * @param lines - Itens da venda e quantidades devolvidas
+   * @param amount - Valor total devolvido
+   * @param creditAmount - Parte do valor abatida do fiado
+   * @throws Error se a venda estiver cancelada ou a quantidade exceder a vendida
+   */
+  registerReturn(lines: { item: SaleItem; quantity: number }[], amount: number, creditAmount: number): void {
+    if (this.isCancelled()) {
+      throw new Error('Não é possível devolver itens de venda cancelada');
+    }
+
+    for (const { item, quantity } of lines) {
+      item.registerReturn(quantity);
+    }
+    this._returnedAmount = Math.round((this._returnedAmount + amount) * 100) / 100;
+    this._creditRefunded = Math.round((this._creditRefunded + creditAmount) * 100) / 100;
+
+    if (this.isPending() && creditAmount > 0 && this.getOutstandingCredit() === 0) {
+      this._paymentStatus = PaymentStatus.PAID;
+    }
+  }
+
+  /**
+   * Registra um pagamento do fiado desta venda
+   *
+   * @description
+   * Quando o pagamento quita o fiado restante, a venda passa a paga.
+   * @param amount - Valor pago (até o fiado restante)
+   * @throws Error se a venda não estiver pendente ou o valor exceder o fiado restante
+   */
+  registerCreditPayment(amount: number): void {
+    if (!this.isPending()) {
+      throw new Error('Pagamento do fiado só pode ser registrado em venda pendente');
+    }
+    if (amount <= 0 || amount > this.getOutstandingCredit() + 0.005) {
+      throw new Error('Pagamento deve ser maior que zero e até o fiado restante da venda');
+    }
+
+    this._creditPaid = Math.round((this._creditPaid + amount) * 100) / 100;
+
+    if (this.getOutstandingCredit() === 0) {
+      this._paymentStatus = PaymentStatus.PAID;
+    }
+  }
+
+  /**
+   * Troco devolvido ao cliente
+   * @returns Soma do troco das parcelas em dinheiro
+   */
+  getChange(): number {
+    const change = this._payments.reduce((sum, payment) => sum + payment.getChange(), 0);
+    return Math.round(change * 100) / 100;
   }
 
   /**
@@ -261,6 +535,14 @@ export class Sale {
     return this._paymentStatus === PaymentStatus.PENDING;
   }
 
+  /**
+   * Verifica se a venda está suspensa (ainda em montagem)
+   * @returns true se o status for DRAFT
+   */
+  isDraft(): boolean {
+    return this._paymentStatus === PaymentStatus.DRAFT;
+  }
+
   /**
    * Verifica se a venda foi cancelada
    * @returns true se o status for CANCELLED
@@ -321,7 +603,15 @@ export class Sale {
       paymentMethod: this._paymentMethod,
       paymentStatus: this._paymentStatus,
       notes: this._notes,
+      sessionId: this._sessionId ?? null,
+      returnedAmount: this._returnedAmount,
+      creditPaid: this._creditPaid,
+      netTotal: this.getNetTotal(),
       items: this._items.map(item => item.toJSON()),
+      payments: this._payments.map(payment => payment.toJSON()),
+      amountOnCredit: this.getAmountOnCredit(),
+      amountInStoreCredit: this.getAmountInStoreCredit(),
+      change: this.getChange(),
       totalItems: this.getTotalItems(),
       discountPercentage: this.getDiscountPercentage(),
       createdAt: this._createdAt,
@@ -16,6 +16,10 @@ export interface SaleItemProps {
   unitPrice: number;
   discount?: number;
   total: number;
+  promotionId?: string | null;
+  promotionName?: string | null;
+  promotionDiscount?: number;
+  returnedQuantity?: number;
 }
 
 /**
@@ -39,6 +43,10 @@ export class SaleItem {
   private _unitPrice: number;
   private _discount: number;
   private _total: number;
+  private _promotionId?: string | null;
+  private _promotionName?: string | null;
+  private _promotionDiscount: number;
+  private _returnedQuantity: number;
 
   constructor(props: SaleItemProps) {
     this._id = props.id;
@@ -49,6 +57,10 @@ export class SaleItem {
     this._unitPrice = props.unitPrice;
     this._discount = props.discount ?? 0;
     this._total = props.total;
+    this._promotionId = props.promotionId;
+    this._promotionName = props.promotionName;
+    this._promotionDiscount = props.promotionDiscount ?? 0;
+    this._returnedQuantity = props.returnedQuantity ?? 0;
 
     this.validate();
   }
@@ -79,6 +91,14 @@ export class SaleItem {
     if (this._total < 0) {
       throw new Error('Total não pode ser negativo');
     }
+
+    if (this._promotionDiscount < 0 || this._promotionDiscount > this._discount) {
+      throw new Error('Desconto da promoção deve estar entre zero e o desconto do item');
+    }
+
+    if (this._returnedQuantity < 0 || this._returnedQuantity > this._quantity) {
+      throw new Error('Quantidade devolvida deve estar entre zero e a quantidade vendida');
+    }
   }
 
   // ==================== GETTERS ====================
@@ -115,6 +135,28 @@ export class SaleItem {
     return this._total;
   }
 
+  get promotionId(): string | null | undefined {
+    return this._promotionId;
+  }
+
+  get promotionName(): string | null | undefined {
+    return this._promotionName;
+  }
+
+  /**
+   * Parte do desconto gerada pela promoção (o restante é desconto manual)
+   */
+  get promotionDiscount(): number {
+    return this._promotionDiscount;
+  }
+
+  /**
+   * Quantidade já devolvida pelo cliente
+   */
+  get returnedQuantity(): number {
+    return this._returnedQuantity;
+  }
+
   // ==================== SETTERS ====================
 
   set quantity(value: number) {
@@ -150,6 +192,31 @@ export class SaleItem {
     return this._quantity * this._unitPrice;
   }
 
+  /**
+   * Quantidade que ainda pode ser devolvida
+   * @returns Quantidade vendida menos a já devolvida
+   */
+  getReturnableQuantity(): number {
+    return this._quantity - this._returnedQuantity;
+  }
+
+  /**
+   * Registra a devolução de unidades do item
+   * @param quantity - Quantidade devolvida
+   * @throws Error se exceder a quantidade que ainda pode ser devolvida
+   */
+  registerReturn(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantidade devolvida deve ser um inteiro maior que zero');
+    }
+    if (quantity > this.getReturnableQuantity()) {
+      throw new Error(
+        `Quantidade devolvida (${quantity}) excede a disponível para devolução (${this.getReturnableQuantity()})`
+      );
+    }
+    this._returnedQuantity += quantity;
+  }
+
   /**
    * Calcula a porcentagem de desconto
    * @returns Porcentagem de desconto
@@ -174,6 +241,10 @@ export class SaleItem {
       unitPrice: this._unitPrice,
       discount: this._discount,
       total: this._total,
+      promotionId: this._promotionId ?? null,
+      promotionName: this._promotionName ?? null,
+      promotionDiscount: this._promotionDiscount,
+      returnedQuantity: this._returnedQuantity,
       grossValue: this.getGrossValue(),
     };
   }
@@ -0,0 +1,128 @@
+// ============================================================================
+// ENTIDADE: SALE PAYMENT (PAGAMENTO DA VENDA)
+// ============================================================================
+// Representa uma parcela do pagamento de uma venda. Uma venda pode ser paga
+// com várias formas de pagamento (ex: R$ 20 em dinheiro + o restante no PIX);
+// a soma das parcelas é igual ao total da venda.
+//
+// - Dinheiro: o valor recebido pode ser maior que a parcela (gera troco)
+// - Fiado: a parcela vai para o débito do cliente
+// ============================================================================
+
+import { PaymentMethod } from './Sale';
+
+/**
+ * Interface de propriedades do pagamento
+ */
+export interface SalePaymentProps {
+  id?: string;
+  saleId?: string;
+  paymentMethod: PaymentMethod;
+  amount: number;
+  amountReceived?: number | null;
+}
+
+/**
+ * Entidade SalePayment - Camada de Domínio
+ * @description Representa uma forma de pagamento usada em uma venda
+ * @example
+ * const payment = new SalePayment({
+ *   paymentMethod: PaymentMethod.CASH,
+ *   amount: 18.50,
+ *   amountReceived: 20
+ * });
+ * payment.getChange(); // 1.50
+ */
+export class SalePayment {
+  private _id?: string;
+  private _saleId?: string;
+  private _paymentMethod: PaymentMethod;
+  private _amount: number;
+  private _amountReceived?: number | null;
+
+  constructor(props: SalePaymentProps) {
+    this._id = props.id;
+    this._saleId = props.saleId;
+    this._paymentMethod = props.paymentMethod;
+    this._amount = props.amount;
+    this._amountReceived = props.amountReceived;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do pagamento
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!Object.values(PaymentMethod).includes(this._paymentMethod)) {
+      throw new Error(`Forma de pagamento inválida. Formas válidas: ${Object.values(PaymentMethod).join(', ')}`);
+    }
+
+    if (!(this._amount > 0)) {
+      throw new Error('Valor do pagamento deve ser maior que zero');
+    }
+
+    if (this._amountReceived != null) {
+      if (this._paymentMethod !== PaymentMethod.CASH) {
+        throw new Error('Valor recebido só se aplica a pagamento em dinheiro');
+      }
+      if (this._amountReceived < this._amount) {
+        throw new Error('Valor recebido em dinheiro é menor que o valor do pagamento');
+      }
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get saleId(): string | undefined {
+    return this._saleId;
+  }
+
+  get paymentMethod(): PaymentMethod {
+    return this._paymentMethod;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  /**
+   * Valor entregue pelo cliente (somente dinheiro; ausente = valor exato)
+   */
+  get amountReceived(): number | null | undefined {
+    return this._amountReceived;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Calcula o troco devolvido nesta parcela
+   * @returns Troco em reais (zero fora do dinheiro)
+   */
+  getChange(): number {
+    if (this._amountReceived == null) return 0;
+    return Math.round((this._amountReceived - this._amount) * 100) / 100;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   * @returns Objeto com os dados do pagamento
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      saleId: this._saleId,
+      paymentMethod: this._paymentMethod,
+      amount: this._amount,
+      amountReceived: this._amountReceived ?? null,
+      change: this.getChange(),
+    };
+  }
+}
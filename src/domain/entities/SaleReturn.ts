@@ -0,0 +1,184 @@
+// ============================================================================
+// ENTIDADE: SALE RETURN (DEVOLUÇÃO DE VENDA)
+// ============================================================================
+// Devolução de parte (ou de todos) os itens de uma venda. A venda continua
+// válida; apenas o valor devolvido é descontado do total líquido.
+//
+// Formas de reembolso:
+// - CASH:          dinheiro devolvido da gaveta do caixa aberto do operador
+// - STORE_CREDIT:  crédito na loja para o cliente usar em compras futuras
+// - FIADO:         abatimento no débito fiado da própria venda
+//
+// Troca = devolução com crédito na loja (ou dinheiro) + nova venda.
+// ============================================================================
+
+import { SaleReturnItem } from './SaleReturnItem';
+
+/**
+ * Enum para as formas de reembolso da devolução
+ */
+export enum RefundMethod {
+  /** Dinheiro devolvido pelo caixa */
+  CASH = 'CASH',
+  /** Crédito na loja */
+  STORE_CREDIT = 'STORE_CREDIT',
+  /** Abatimento no débito fiado da venda */
+  FIADO = 'FIADO',
+}
+
+/**
+ * Interface de propriedades da devolução
+ */
+export interface SaleReturnProps {
+  id?: string;
+  saleId: string;
+  userId: string;
+  refundMethod: RefundMethod;
+  amount: number;
+  reason?: string | null;
+  sessionId?: string | null;
+  createdAt?: Date;
+  items: SaleReturnItem[];
+}
+
+/**
+ * Entidade SaleReturn - Camada de Domínio
+ * @description Devolução de itens de uma venda com o reembolso ao cliente
+ * @example
+ * const saleReturn = new SaleReturn({
+ *   saleId: 'uuid-venda',
+ *   userId: 'uuid-operador',
+ *   refundMethod: RefundMethod.STORE_CREDIT,
+ *   amount: 8.99,
+ *   reason: 'Produto com defeito',
+ *   items: [new SaleReturnItem({ saleItemId: 'uuid-item', productId: 'uuid-produto', quantity: 1, amount: 8.99 })]
+ * });
+ */
+export class SaleReturn {
+  private _id?: string;
+  private _saleId: string;
+  private _userId: string;
+  private _refundMethod: RefundMethod;
+  private _amount: number;
+  private _reason?: string | null;
+  private _sessionId?: string | null;
+  private _createdAt?: Date;
+  private _items: SaleReturnItem[];
+
+  constructor(props: SaleReturnProps) {
+    this._id = props.id;
+    this._saleId = props.saleId;
+    this._userId = props.userId;
+    this._refundMethod = props.refundMethod;
+    this._amount = props.amount;
+    this._reason = props.reason;
+    this._sessionId = props.sessionId;
+    this._createdAt = props.createdAt;
+    this._items = props.items;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da devolução
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._saleId) {
+      throw new Error('Venda é obrigatória');
+    }
+
+    if (!this._userId) {
+      throw new Error('ID do usuário é obrigatório');
+    }
+
+    if (!Object.values(RefundMethod).includes(this._refundMethod)) {
+      throw new Error(`Forma de reembolso inválida. Formas válidas: ${Object.values(RefundMethod).join(', ')}`);
+    }
+
+    if (this._items.length === 0) {
+      throw new Error('Devolução deve ter pelo menos um item');
+    }
+
+    const itemsAmount = this._items.reduce((sum, item) => sum + item.amount, 0);
+    if (Math.abs(itemsAmount - this._amount) > 0.005) {
+      throw new Error('Valor da devolução difere da soma dos itens devolvidos');
+    }
+
+    if (this._refundMethod === RefundMethod.CASH && this._amount > 0 && !this._sessionId) {
+      throw new Error('Reembolso em dinheiro exige um caixa aberto');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get saleId(): string {
+    return this._saleId;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get refundMethod(): RefundMethod {
+    return this._refundMethod;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  get reason(): string | null | undefined {
+    return this._reason;
+  }
+
+  /**
+   * Caixa de onde saiu o dinheiro (somente reembolso em dinheiro)
+   */
+  get sessionId(): string | null | undefined {
+    return this._sessionId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get items(): SaleReturnItem[] {
+    return this._items;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Retorna o número de unidades devolvidas
+   * @returns Soma das quantidades dos itens
+   */
+  getTotalItems(): number {
+    return this._items.reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   * @returns Objeto com os dados da devolução
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      saleId: this._saleId,
+      userId: this._userId,
+      refundMethod: this._refundMethod,
+      amount: this._amount,
+      reason: this._reason ?? null,
+      sessionId: this._sessionId ?? null,
+      items: this._items.map(item => item.toJSON()),
+      totalItems: this.getTotalItems(),
+      createdAt: this._createdAt,
+    };
+  }
+}
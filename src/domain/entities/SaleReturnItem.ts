@@ -0,0 +1,138 @@
+// ============================================================================
+// ENTIDADE: SALE RETURN ITEM (ITEM DEVOLVIDO)
+// ============================================================================
+// Quantidade de um item da venda devolvida pelo cliente.
+//
+// - Em bom estado: volta ao estoque (movimentação RETURN)
+// - Avariado: volta e sai como perda (RETURN + LOSS), sem ficar disponível
+// ============================================================================
+
+/**
+ * Interface de propriedades do item devolvido
+ */
+export interface SaleReturnItemProps {
+  id?: string;
+  returnId?: string;
+  saleItemId: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  amount: number;
+  damaged?: boolean;
+}
+
+/**
+ * Entidade SaleReturnItem - Camada de Domínio
+ * @description Item de venda devolvido com o valor reembolsado
+ * @example
+ * const item = new SaleReturnItem({
+ *   saleItemId: 'uuid-item-venda',
+ *   productId: 'uuid-produto',
+ *   quantity: 1,
+ *   amount: 8.99,
+ *   damaged: true
+ * });
+ */
+export class SaleReturnItem {
+  private _id?: string;
+  private _returnId?: string;
+  private _saleItemId: string;
+  private _productId: string;
+  private _productName?: string;
+  private _quantity: number;
+  private _amount: number;
+  private _damaged: boolean;
+
+  constructor(props: SaleReturnItemProps) {
+    this._id = props.id;
+    this._returnId = props.returnId;
+    this._saleItemId = props.saleItemId;
+    this._productId = props.productId;
+    this._productName = props.productName;
+    this._quantity = props.quantity;
+    this._amount = props.amount;
+    this._damaged = props.damaged ?? false;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do item devolvido
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._saleItemId) {
+      throw new Error('Item da venda é obrigatório');
+    }
+
+    if (!this._productId) {
+      throw new Error('ID do produto é obrigatório');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity <= 0) {
+      throw new Error('Quantidade devolvida deve ser um inteiro maior que zero');
+    }
+
+    if (this._amount < 0) {
+      throw new Error('Valor devolvido não pode ser negativo');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get returnId(): string | undefined {
+    return this._returnId;
+  }
+
+  get saleItemId(): string {
+    return this._saleItemId;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  /**
+   * Item avariado (não volta a ficar disponível para venda)
+   */
+  get damaged(): boolean {
+    return this._damaged;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Converte a entidade para objeto JSON
+   * @returns Objeto com os dados do item devolvido
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      returnId: this._returnId,
+      saleItemId: this._saleItemId,
+      productId: this._productId,
+      productName: this._productName,
+      quantity: this._quantity,
+      amount: this._amount,
+      damaged: this._damaged,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+// ============================================================================
+// ENTIDADE: STOCK LOCATION (LOCAL DE ESTOQUE)
+// ============================================================================
+// Um lugar onde o mercadinho guarda mercadoria: depósito, prateleira, uma
+// segunda loja. Cada produto tem um saldo por local (ProductStock) e o
+// estoque do produto é a soma dos locais.
+//
+// Um único local é o padrão (`isDefault`): é dele que as vendas baixam e é
+// nele que entram as mercadorias quando nenhum local é informado.
+// ============================================================================
+
+/**
+ * Interface de propriedades do local de estoque
+ */
+export interface StockLocationProps {
+  id?: string;
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Entidade StockLocation - Camada de Domínio
+ * @description Representa um local de armazenamento de estoque
+ * @example
+ * const location = new StockLocation({
+ *   name: 'Depósito',
+ *   description: 'Sala dos fundos'
+ * });
+ */
+export class StockLocation {
+  private _id?: string;
+  private _name: string;
+  private _description?: string | null;
+  private _isDefault: boolean;
+  private _isActive: boolean;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+
+  constructor(props: StockLocationProps) {
+    this._id = props.id;
+    this._name = props.name;
+    this._description = props.description;
+    this._isDefault = props.isDefault ?? false;
+    this._isActive = props.isActive ?? true;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do local
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._name || this._name.trim().length < 2) {
+      throw new Error('Nome do local deve ter pelo menos 2 caracteres');
+    }
+
+    if (this._name.length > 100) {
+      throw new Error('Nome do local não pode exceder 100 caracteres');
+    }
+
+    if (this._isDefault && !this._isActive) {
+      throw new Error('O local padrão não pode ser desativado');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get description(): string | null | undefined {
+    return this._description;
+  }
+
+  get isDefault(): boolean {
+    return this._isDefault;
+  }
+
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      name: this._name,
+      description: this._description,
+      isDefault: this._isDefault,
+      isActive: this._isActive,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+}
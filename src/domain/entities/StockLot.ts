@@ -0,0 +1,239 @@
+// ============================================================================
+// ENTIDADE: STOCK LOT (LOTE DE ESTOQUE)
+// ============================================================================
+// Uma entrega de um produto, com quantidade, validade e custo próprios.
+//
+// O leite de três entregas diferentes fica na mesma prateleira, mas cada
+// entrega vence em uma data. Cada entrada de estoque (ENTRY) cria um lote;
+// vendas e perdas baixam primeiro os lotes que vencem antes (FEFO - First
+// Expired, First Out). Relatórios de vencidos e a vencer olham cada lote.
+//
+// Cada lote fica em um local de estoque, e a soma dos saldos dos lotes de
+// um local nunca passa do saldo do produto nele. A transferência entre
+// locais baixa os lotes da origem e cria no destino lotes com a mesma
+// validade, código e custo (ligados ao lote de origem). Unidades fora de
+// lote (ex: ajuste de inventário para cima) não têm validade conhecida.
+// ============================================================================
+
+/**
+ * Interface de propriedades do lote
+ */
+export interface StockLotProps {
+  id?: string;
+  productId: string;
+  entryMovementId?: string | null;
+  /** Local de estoque onde está o saldo do lote */
+  locationId?: string | null;
+  /** Lote de onde vieram as unidades transferidas de outro local */
+  originLotId?: string | null;
+  code?: string | null;
+  quantity: number;
+  remaining?: number;
+  expirationDate?: Date | null;
+  unitCost?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  /** Nome do produto (somente leitura, para relatórios) */
+  productName?: string;
+  /** Nome do local (somente leitura, para relatórios) */
+  locationName?: string;
+}
+
+/**
+ * Entidade StockLot - Camada de Domínio
+ * @description Representa um lote de estoque e seu saldo
+ * @example
+ * const lot = new StockLot({
+ *   productId: 'uuid-leite',
+ *   entryMovementId: 'uuid-entrada',
+ *   locationId: 'uuid-loja',
+ *   code: 'L2310B',
+ *   quantity: 48,
+ *   expirationDate: new Date('2026-11-05'),
+ *   unitCost: 3.89
+ * });
+ */
+export class StockLot {
+  private _id?: string;
+  private _productId: string;
+  private _entryMovementId?: string | null;
+  private _locationId?: string | null;
+  private _originLotId?: string | null;
+  private _code?: string | null;
+  private _quantity: number;
+  private _remaining: number;
+  private _expirationDate?: Date | null;
+  private _unitCost?: number | null;
+  private _createdAt?: Date;
+  private _updatedAt?: Date;
+  private _productName?: string;
+  private _locationName?: string;
+
+  constructor(props: StockLotProps) {
+    this._id = props.id;
+    this._productId = props.productId;
+    this._entryMovementId = props.entryMovementId;
+    this._locationId = props.locationId;
+    this._originLotId = props.originLotId;
+    this._code = props.code;
+    this._quantity = props.quantity;
+    this._remaining = props.remaining ?? props.quantity;
+    this._expirationDate = props.expirationDate;
+    this._unitCost = props.unitCost;
+    this._createdAt = props.createdAt;
+    this._updatedAt = props.updatedAt;
+    this._productName = props.productName;
+    this._locationName = props.locationName;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do lote
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId) {
+      throw new Error('Produto é obrigatório para o lote');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity <= 0) {
+      throw new Error('Quantidade do lote deve ser um número inteiro maior que zero');
+    }
+
+    if (!Number.isInteger(this._remaining) || this._remaining < 0 || this._remaining > this._quantity) {
+      throw new Error('Saldo do lote deve estar entre zero e a quantidade recebida');
+    }
+
+    if (this._expirationDate && isNaN(this._expirationDate.getTime())) {
+      throw new Error('Validade do lote inválida');
+    }
+
+    if (this._unitCost !== null && this._unitCost !== undefined && this._unitCost < 0) {
+      throw new Error('Custo do lote não pode ser negativo');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get entryMovementId(): string | null | undefined {
+    return this._entryMovementId;
+  }
+
+  get locationId(): string | null | undefined {
+    return this._locationId;
+  }
+
+  get originLotId(): string | null | undefined {
+    return this._originLotId;
+  }
+
+  get code(): string | null | undefined {
+    return this._code;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get remaining(): number {
+    return this._remaining;
+  }
+
+  get expirationDate(): Date | null | undefined {
+    return this._expirationDate;
+  }
+
+  get unitCost(): number | null | undefined {
+    return this._unitCost;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date | undefined {
+    return this._updatedAt;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get locationName(): string | undefined {
+    return this._locationName;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se o lote já foi todo baixado
+   */
+  isDepleted(): boolean {
+    return this._remaining === 0;
+  }
+
+  /**
+   * Verifica se o lote está vencido na data informada
+   */
+  isExpired(at: Date = new Date()): boolean {
+    return !!this._expirationDate && this._expirationDate.getTime() <= at.getTime();
+  }
+
+  /**
+   * Verifica se o lote vence nos próximos `days` dias (ainda não vencido)
+   */
+  expiresWithin(days: number, at: Date = new Date()): boolean {
+    if (!this._expirationDate || this.isExpired(at)) return false;
+    const limit = at.getTime() + days * 24 * 60 * 60 * 1000;
+    return this._expirationDate.getTime() <= limit;
+  }
+
+  /**
+   * Quantidade que ainda cabe no lote em um estorno
+   */
+  getRestorableQuantity(): number {
+    return this._quantity - this._remaining;
+  }
+
+  /**
+   * Valor do saldo a preço de custo
+   */
+  getRemainingValue(): number {
+    return Math.round((this._unitCost ?? 0) * this._remaining * 100) / 100;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      productId: this._productId,
+      productName: this._productName,
+      entryMovementId: this._entryMovementId,
+      locationId: this._locationId ?? null,
+      locationName: this._locationName,
+      originLotId: this._originLotId ?? null,
+      code: this._code,
+      quantity: this._quantity,
+      remaining: this._remaining,
+      expirationDate: this._expirationDate,
+      expired: this.isExpired(),
+      unitCost: this._unitCost,
+      remainingValue: this.getRemainingValue(),
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt,
+    };
+  }
+}
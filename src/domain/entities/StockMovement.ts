@@ -3,6 +3,20 @@
 // ============================================================================
 // Representa uma movimentação de estoque (entrada, saída, ajuste, perda, devolução).
 // Essencial para rastreabilidade e histórico de movimentações.
+//
+// LIVRO DE MOVIMENTAÇÕES
+// ======================
+// O saldo de cada local é a soma dos impactos das suas movimentações, e o
+// estoque do produto, a soma dos locais. O ajuste guarda a diferença com
+// sinal e o saldo do local antes e depois, e fixa o saldo do local no
+// "depois"; o saldo de abertura (ajuste sem saldo anterior, criado na
+// implantação do livro) fixa o saldo do local naquele momento. A transferência gera uma movimentação em cada local,
+// negativa na origem e positiva no destino: muda os saldos dos locais, mas
+// não o total.
+//
+// O livro começa no saldo de abertura: as movimentações anteriores ficam
+// como histórico. Os ajustes dessa época guardavam só o saldo informado
+// (em `quantity`, sem saldo antes e depois) e não têm impacto conhecido.
 // 
 // Requisitos atendidos:
 // - RF06: Registro de entrada de produtos
@@ -43,7 +57,7 @@ export interface StockMovementProps {
   productId: string;
   /** Tipo de movimentação */
   type: MovementType;
-  /** Quantidade movimentada (sempre positiva) */
+  /** Quantidade movimentada (positiva; no ajuste, a diferença com sinal; na transferência, negativa na origem) */
   quantity: number;
   /** Motivo ou descrição da movimentação */
   reason?: string | null;
@@ -57,6 +71,14 @@ export interface StockMovementProps {
   purchaseOrderId?: string | null;
   /** ID do usuário que realizou a movimentação */
   userId?: string | null;
+  /** ID do local de estoque movimentado */
+  locationId?: string | null;
+  /** ID da transferência entre locais (se for TRANSFER) */
+  transferId?: string | null;
+  /** Saldo do local antes do ajuste (null no saldo de abertura) */
+  previousQuantity?: number | null;
+  /** Saldo do local depois do ajuste */
+  newQuantity?: number | null;
   /** Data/hora da movimentação */
   createdAt?: Date;
   /** Objeto do produto (para relacionamentos) */
@@ -87,6 +109,15 @@ export interface StockMovementProps {
  *   unitPrice: 8.99,
  *   saleId: 'venda-uuid'
  * });
+ *
+ * // Ajuste de inventário (faltaram 3 unidades)
+ * const adjustment = new StockMovement({
+ *   productId: 'produto-uuid',
+ *   type: MovementType.ADJUSTMENT,
+ *   quantity: -3,
+ *   previousQuantity: 50,
+ *   newQuantity: 47
+ * });
  * ```
  */
 export class StockMovement {
@@ -100,6 +131,10 @@ export class StockMovement {
   private _saleId?: string | null;
   private _purchaseOrderId?: string | null;
   private _userId?: string | null;
+  private _locationId?: string | null;
+  private _transferId?: string | null;
+  private _previousQuantity?: number | null;
+  private _newQuantity?: number | null;
   private _createdAt?: Date;
   private _product?: Product;
 
@@ -119,6 +154,10 @@ export class StockMovement {
     this._saleId = props.saleId;
     this._purchaseOrderId = props.purchaseOrderId;
     this._userId = props.userId;
+    this._locationId = props.locationId;
+    this._transferId = props.transferId;
+    this._previousQuantity = props.previousQuantity;
+    this._newQuantity = props.newQuantity;
     this._createdAt = props.createdAt;
     this._product = props.product;
 
@@ -137,12 +176,52 @@ export class StockMovement {
       throw new Error('Produto é obrigatório para movimentação');
     }
 
-    if (this._quantity <= 0) {
+    if (!Object.values(MovementType).includes(this._type)) {
+      throw new Error('Tipo de movimentação inválido');
+    }
+
+    if (this._type === MovementType.ADJUSTMENT) {
+      this.validateAdjustment();
+    } else if (this._type === MovementType.TRANSFER) {
+      if (!Number.isInteger(this._quantity) || this._quantity === 0) {
+        throw new Error('Quantidade da transferência deve ser diferente de zero (negativa na origem)');
+      }
+    } else if (this._quantity <= 0) {
       throw new Error('Quantidade deve ser maior que zero');
     }
+  }
+
+  /**
+   * Valida a diferença e o estoque antes/depois do ajuste
+   * @private
+   * @throws Error se o ajuste não fechar
+   */
+  private validateAdjustment(): void {
+    // Ajuste anterior ao livro: guarda só o saldo informado
+    if (this.isLegacyAdjustment()) {
+      if (this._quantity < 0) {
+        throw new Error('Saldo informado no ajuste não pode ser negativo');
+      }
+      return;
+    }
 
-    if (!Object.values(MovementType).includes(this._type)) {
-      throw new Error('Tipo de movimentação inválido');
+    if (this._newQuantity === null || this._newQuantity === undefined || this._newQuantity < 0) {
+      throw new Error('Saldo após o ajuste é obrigatório e não pode ser negativo');
+    }
+
+    if (this.isOpeningBalance()) {
+      if (this._quantity !== 0) {
+        throw new Error('Saldo de abertura não tem diferença');
+      }
+      return;
+    }
+
+    if (this._quantity === 0) {
+      throw new Error('Ajuste sem diferença no estoque');
+    }
+
+    if (this._previousQuantity! + this._quantity !== this._newQuantity) {
+      throw new Error('Diferença do ajuste não fecha com o saldo antes e depois');
     }
   }
 
@@ -155,7 +234,7 @@ export class StockMovement {
     if (this._unitPrice === null || this._unitPrice === undefined) {
       return null;
     }
-    return this._unitPrice * this._quantity;
+    return this._unitPrice * Math.abs(this._quantity);
   }
 
   // ==================== GETTERS ====================
@@ -230,6 +309,34 @@ export class StockMovement {
     return this._userId;
   }
 
+  /**
+   * ID do local de estoque movimentado
+   */
+  get locationId(): string | null | undefined {
+    return this._locationId;
+  }
+
+  /**
+   * ID da transferência entre locais
+   */
+  get transferId(): string | null | undefined {
+    return this._transferId;
+  }
+
+  /**
+   * Saldo do local antes do ajuste
+   */
+  get previousQuantity(): number | null | undefined {
+    return this._previousQuantity;
+  }
+
+  /**
+   * Saldo do local depois do ajuste
+   */
+  get newQuantity(): number | null | undefined {
+    return this._newQuantity;
+  }
+
   /**
    * Data/hora da movimentação
    */
@@ -271,7 +378,27 @@ export class StockMovement {
   }
 
   /**
-   * Calcula o impacto no estoque (positivo ou negativo)
+   * Verifica se é um saldo de abertura do livro de movimentações
+   * @returns true se for ajuste sem saldo anterior conhecido
+   */
+  isOpeningBalance(): boolean {
+    return this._type === MovementType.ADJUSTMENT
+      && (this._previousQuantity === null || this._previousQuantity === undefined)
+      && this._newQuantity !== null && this._newQuantity !== undefined;
+  }
+
+  /**
+   * Verifica se é um ajuste anterior ao livro de movimentações
+   * @returns true se o ajuste guardar só o saldo informado (em `quantity`)
+   */
+  isLegacyAdjustment(): boolean {
+    return this._type === MovementType.ADJUSTMENT
+      && (this._previousQuantity === null || this._previousQuantity === undefined)
+      && (this._newQuantity === null || this._newQuantity === undefined);
+  }
+
+  /**
+   * Calcula o impacto no estoque total do produto (positivo ou negativo)
    * @returns Quantidade a adicionar (positivo) ou remover (negativo) do estoque
    */
   getStockImpact(): number {
@@ -279,11 +406,39 @@ export class StockMovement {
       return this._quantity;
     } else if (this.isExit()) {
       return -this._quantity;
+    } else if (this.isAdjustment()) {
+      // Diferença com sinal (zero no saldo de abertura); desconhecida nos
+      // ajustes anteriores ao livro
+      return this.isLegacyAdjustment() ? 0 : this._quantity;
     }
-    // ADJUSTMENT e TRANSFER dependem do contexto
+    // TRANSFER: a saída da origem e a entrada no destino se anulam
     return 0;
   }
 
+  /**
+   * Calcula o impacto no saldo do local da movimentação
+   * @returns Igual ao impacto no estoque total, exceto na transferência
+   *          (negativo na origem, positivo no destino)
+   */
+  getLocationImpact(): number {
+    return this._type === MovementType.TRANSFER ? this._quantity : this.getStockImpact();
+  }
+
+  /**
+   * Aplica a movimentação ao saldo do local
+   *
+   * O ajuste (e o saldo de abertura) informa o saldo do local: o resultado
+   * é o saldo gravado nele, não a soma da diferença.
+   * @param balanceBefore - Saldo do local antes da movimentação
+   * @returns Saldo do local depois da movimentação
+   */
+  applyTo(balanceBefore: number): number {
+    if (this.isAdjustment() && !this.isLegacyAdjustment()) {
+      return this._newQuantity!;
+    }
+    return balanceBefore + this.getLocationImpact();
+  }
+
   /**
    * Retorna uma descrição legível do tipo de movimentação
    * @returns Descrição em português do tipo
@@ -333,8 +488,13 @@ export class StockMovement {
       saleId: this._saleId,
       purchaseOrderId: this._purchaseOrderId,
       userId: this._userId,
+      locationId: this._locationId,
+      transferId: this._transferId,
+      previousQuantity: this._previousQuantity,
+      newQuantity: this._newQuantity,
       createdAt: this._createdAt,
       stockImpact: this.getStockImpact(),
+      locationImpact: this.getLocationImpact(),
       product: this._product?.toJSON(),
     };
   }
@@ -0,0 +1,159 @@
+// ============================================================================
+// ENTIDADE: STOCK TRANSFER (TRANSFERÊNCIA ENTRE LOCAIS)
+// ============================================================================
+// Mercadoria levada de um local de estoque para outro (ex: do depósito para
+// a prateleira). O estoque total do produto não muda; a transferência gera
+// duas movimentações TRANSFER na mesma transação: negativa na origem e
+// positiva no destino.
+// ============================================================================
+
+/**
+ * Interface de propriedades da transferência
+ */
+export interface StockTransferProps {
+  id?: string;
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  reason?: string | null;
+  userId?: string | null;
+  createdAt?: Date;
+  /** Nome do produto (somente leitura) */
+  productName?: string;
+  /** Nome do local de origem (somente leitura) */
+  fromLocationName?: string;
+  /** Nome do local de destino (somente leitura) */
+  toLocationName?: string;
+}
+
+/**
+ * Entidade StockTransfer - Camada de Domínio
+ * @description Representa uma transferência de estoque entre dois locais
+ * @example
+ * const transfer = new StockTransfer({
+ *   productId: 'uuid-arroz',
+ *   fromLocationId: 'uuid-deposito',
+ *   toLocationId: 'uuid-prateleira',
+ *   quantity: 24,
+ *   reason: 'Reposição da gôndola'
+ * });
+ */
+export class StockTransfer {
+  private _id?: string;
+  private _productId: string;
+  private _fromLocationId: string;
+  private _toLocationId: string;
+  private _quantity: number;
+  private _reason?: string | null;
+  private _userId?: string | null;
+  private _createdAt?: Date;
+  private _productName?: string;
+  private _fromLocationName?: string;
+  private _toLocationName?: string;
+
+  constructor(props: StockTransferProps) {
+    this._id = props.id;
+    this._productId = props.productId;
+    this._fromLocationId = props.fromLocationId;
+    this._toLocationId = props.toLocationId;
+    this._quantity = props.quantity;
+    this._reason = props.reason;
+    this._userId = props.userId;
+    this._createdAt = props.createdAt;
+    this._productName = props.productName;
+    this._fromLocationName = props.fromLocationName;
+    this._toLocationName = props.toLocationName;
+
+    this.validate();
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados da transferência
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._productId) {
+      throw new Error('Produto é obrigatório para a transferência');
+    }
+
+    if (!this._fromLocationId || !this._toLocationId) {
+      throw new Error('Locais de origem e destino são obrigatórios');
+    }
+
+    if (this._fromLocationId === this._toLocationId) {
+      throw new Error('Locais de origem e destino devem ser diferentes');
+    }
+
+    if (!Number.isInteger(this._quantity) || this._quantity <= 0) {
+      throw new Error('Quantidade transferida deve ser um número inteiro maior que zero');
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get productId(): string {
+    return this._productId;
+  }
+
+  get fromLocationId(): string {
+    return this._fromLocationId;
+  }
+
+  get toLocationId(): string {
+    return this._toLocationId;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get reason(): string | null | undefined {
+    return this._reason;
+  }
+
+  get userId(): string | null | undefined {
+    return this._userId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  get productName(): string | undefined {
+    return this._productName;
+  }
+
+  get fromLocationName(): string | undefined {
+    return this._fromLocationName;
+  }
+
+  get toLocationName(): string | undefined {
+    return this._toLocationName;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      productId: this._productId,
+      productName: this._productName,
+      fromLocationId: this._fromLocationId,
+      fromLocationName: this._fromLocationName,
+      toLocationId: this._toLocationId,
+      toLocationName: this._toLocationName,
+      quantity: this._quantity,
+      reason: this._reason,
+      userId: this._userId,
+      createdAt: this._createdAt,
+    };
+  }
+}
@@ -0,0 +1,229 @@
+// ============================================================================
+// ENTIDADE: STORE CREDIT TRANSACTION (LANÇAMENTO DE VALE-TROCA)
+// ============================================================================
+// Lançamento no crédito na loja (vale-troca) de um cliente.
+//
+// - ISSUE:  crédito emitido (devolução, estorno de venda ou lançamento manual
+//           do gerente), com data de validade
+// - REDEEM: crédito usado como forma de pagamento em uma venda
+// - EXPIRE: crédito vencido e não usado
+//
+// Cada emissão guarda o saldo ainda não usado (`remaining`). O uso consome
+// as emissões que vencem primeiro; no vencimento, o que sobrou de cada
+// emissão é baixado com um lançamento EXPIRE. O saldo do cliente
+// (Client.storeCredit) é a soma das emissões menos usos e vencimentos.
+// ============================================================================
+
+/**
+ * Tipos de lançamento do vale-troca
+ */
+export enum StoreCreditTransactionType {
+  /** Crédito emitido (aumenta o saldo) */
+  ISSUE = 'ISSUE',
+  /** Crédito usado em uma venda (reduz o saldo) */
+  REDEEM = 'REDEEM',
+  /** Crédito vencido (reduz o saldo) */
+  EXPIRE = 'EXPIRE',
+}
+
+/**
+ * Interface de propriedades do lançamento
+ */
+export interface StoreCreditTransactionProps {
+  id?: string;
+  clientId: string;
+  type: StoreCreditTransactionType;
+  amount: number;
+  /** Saldo ainda não usado da emissão (padrão: o valor emitido) */
+  remaining?: number;
+  /** Validade da emissão */
+  expiresAt?: Date | null;
+  description?: string | null;
+  saleId?: string | null;
+  returnId?: string | null;
+  /** Usuário que lançou (vazio para a rotina de vencimento) */
+  userId?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Entidade StoreCreditTransaction - Camada de Domínio
+ * @description Representa uma emissão, uso ou vencimento de vale-troca
+ * @example
+ * const issue = new StoreCreditTransaction({
+ *   clientId: 'uuid-cliente',
+ *   type: StoreCreditTransactionType.ISSUE,
+ *   amount: 25.90,
+ *   expiresAt: StoreCreditTransaction.expiryDate(new Date(), 90),
+ *   returnId: 'uuid-devolucao',
+ *   description: 'Devolução da venda #uuid-venda'
+ * });
+ */
+export class StoreCreditTransaction {
+  private _id?: string;
+  private _clientId: string;
+  private _type: StoreCreditTransactionType;
+  private _amount: number;
+  private _remaining: number;
+  private _expiresAt?: Date | null;
+  private _description?: string | null;
+  private _saleId?: string | null;
+  private _returnId?: string | null;
+  private _userId?: string | null;
+  private _createdAt?: Date;
+
+  constructor(props: StoreCreditTransactionProps) {
+    this._id = props.id;
+    this._clientId = props.clientId;
+    this._type = props.type;
+    this._amount = props.amount;
+    this._remaining = props.type === StoreCreditTransactionType.ISSUE
+      ? props.remaining ?? props.amount
+      : 0;
+    this._expiresAt = props.expiresAt;
+    this._description = props.description;
+    this._saleId = props.saleId;
+    this._returnId = props.returnId;
+    this._userId = props.userId;
+    this._createdAt = props.createdAt;
+
+    this.validate();
+  }
+
+  /**
+   * Calcula a validade de um crédito emitido
+   * @param from - Data da emissão
+   * @param validityDays - Dias de validade
+   */
+  static expiryDate(from: Date, validityDays: number): Date {
+    return new Date(from.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  }
+
+  // ==================== VALIDAÇÕES ====================
+
+  /**
+   * Valida os dados do lançamento
+   * @throws Error se algum dado for inválido
+   */
+  private validate(): void {
+    if (!this._clientId) {
+      throw new Error('Cliente é obrigatório para o lançamento de vale-troca');
+    }
+
+    if (!Object.values(StoreCreditTransactionType).includes(this._type)) {
+      throw new Error('Tipo de lançamento de vale-troca inválido');
+    }
+
+    if (!(this._amount > 0)) {
+      throw new Error('Valor do lançamento deve ser maior que zero');
+    }
+
+    if (this._type === StoreCreditTransactionType.ISSUE) {
+      if (!this._expiresAt) {
+        throw new Error('Crédito emitido precisa de data de validade');
+      }
+
+      if (this._remaining < 0 || this._remaining > this._amount + 0.005) {
+        throw new Error('Saldo da emissão deve estar entre zero e o valor emitido');
+      }
+    }
+  }
+
+  // ==================== GETTERS ====================
+
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  get clientId(): string {
+    return this._clientId;
+  }
+
+  get type(): StoreCreditTransactionType {
+    return this._type;
+  }
+
+  get amount(): number {
+    return this._amount;
+  }
+
+  get remaining(): number {
+    return this._remaining;
+  }
+
+  get expiresAt(): Date | null | undefined {
+    return this._expiresAt;
+  }
+
+  get description(): string | null | undefined {
+    return this._description;
+  }
+
+  get saleId(): string | null | undefined {
+    return this._saleId;
+  }
+
+  get returnId(): string | null | undefined {
+    return this._returnId;
+  }
+
+  get userId(): string | null | undefined {
+    return this._userId;
+  }
+
+  get createdAt(): Date | undefined {
+    return this._createdAt;
+  }
+
+  // ==================== MÉTODOS DE NEGÓCIO ====================
+
+  /**
+   * Verifica se a emissão está vencida na data informada
+   */
+  isExpired(at: Date = new Date()): boolean {
+    return !!this._expiresAt && this._expiresAt.getTime() <= at.getTime();
+  }
+
+  /**
+   * Consome parte do saldo da emissão
+   * @param amount - Valor desejado
+   * @returns Valor efetivamente consumido (limitado ao saldo da emissão)
+   * @throws Error se o lançamento não for uma emissão
+   */
+  consume(amount: number): number {
+    if (this._type !== StoreCreditTransactionType.ISSUE) {
+      throw new Error('Somente créditos emitidos podem ser consumidos');
+    }
+
+    const consumed = Math.min(this._remaining, amount);
+    this._remaining = Math.round((this._remaining - consumed) * 100) / 100;
+    return Math.round(consumed * 100) / 100;
+  }
+
+  /**
+   * Efeito do lançamento no saldo de vale-troca
+   * @returns Valor positivo para emissão, negativo para uso e vencimento
+   */
+  getBalanceImpact(): number {
+    return this._type === StoreCreditTransactionType.ISSUE ? this._amount : -this._amount;
+  }
+
+  /**
+   * Converte a entidade para objeto JSON
+   */
+  toJSON() {
+    return {
+      id: this._id,
+      clientId: this._clientId,
+      type: this._type,
+      amount: this._amount,
+      remaining: this._type === StoreCreditTransactionType.ISSUE ? this._remaining : undefined,
+      expiresAt: this._expiresAt,
+      description: this._description,
+      saleId: this._saleId,
+      returnId: this._returnId,
+      userId: this._userId,
+      createdAt: this._createdAt,
+    };
+  }
+}
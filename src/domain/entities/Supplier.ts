@@ -9,6 +9,8 @@
 // - RF14: Registro de pedidos de compra
 // ============================================================================
 
+import { PaymentTerms } from './PaymentTerms';
+
 /**
  * Interface de propriedades do fornecedor
  * @description Define a estrutura de dados para criar/atualizar um fornecedor
@@ -26,6 +28,8 @@ export interface SupplierProps {
   address?: string | null;
   /** CNPJ do fornecedor (14 dígitos) */
   cnpj?: string | null;
+  /** Condição de pagamento padrão em dias (ex.: "30/60/90") */
+  paymentTerms?: string | null;
   /** Data de criação do registro */
   createdAt?: Date;
   /** Data da última atualização */
@@ -54,6 +58,7 @@ export class Supplier {
   private _phone?: string | null;
   private _address?: string | null;
   private _cnpj?: string | null;
+  private _paymentTerms?: string | null;
   private _createdAt?: Date;
   private _updatedAt?: Date;
 
@@ -69,6 +74,7 @@ export class Supplier {
     this._phone = props.phone;
     this._address = props.address;
     this._cnpj = props.cnpj;
+    this._paymentTerms = props.paymentTerms;
     this._createdAt = props.createdAt;
     this._updatedAt = props.updatedAt;
 
@@ -94,6 +100,10 @@ export class Supplier {
     if (this._cnpj && !this.isValidCNPJ(this._cnpj)) {
       throw new Error('CNPJ do fornecedor é inválido');
     }
+
+    if (this._paymentTerms) {
+      PaymentTerms.parse(this._paymentTerms);
+    }
   }
 
   /**
@@ -163,6 +173,13 @@ export class Supplier {
     return this._cnpj;
   }
 
+  /**
+   * Condição de pagamento padrão (ex.: "30/60/90")
+   */
+  get paymentTerms(): string | null | undefined {
+    return this._paymentTerms;
+  }
+
   /**
    * Data de criação do registro
    */
@@ -276,6 +293,7 @@ export class Supplier {
       address: this._address,
       cnpj: this._cnpj,
       cnpjFormatted: this.getFormattedCNPJ(),
+      paymentTerms: this._paymentTerms,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
     };
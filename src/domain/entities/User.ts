@@ -43,7 +43,7 @@ export interface UserProps {
  * const user = new User({
  *   name: 'João Silva',
  *   email: 'joao@mercantil.com',
- *   password: 'hashedPassword',
+ *   password: 'scrypt$32768$8$1$...',
  *   role: UserRole.CAIXA
  * });
  */
@@ -207,6 +207,15 @@ export class User {
     return this._isActive;
   }
 
+  /**
+   * Verifica se o usuário pode gerenciar estoque e cadastros
+   * (ajustes de estoque, produtos, categorias, fornecedores, clientes)
+   * @returns true se o usuário tiver permissão
+   */
+  canManageInventory(): boolean {
+    return this._role === UserRole.ADMIN || this._role === UserRole.GERENTE;
+  }
+
   /**
    * Desativa o usuário
    */
@@ -238,14 +247,14 @@ export class User {
   }
 
   /**
-   * Converte a entidade para objeto completo (incluindo senha)
+   * Converte a entidade para objeto completo
    * @returns Objeto com todos os dados do usuário
-   * @warning Usar apenas internamente, nunca expor para API
+   * @description O hash da senha nunca é serializado; ele só é acessível
+   *              pelo getter `password`, usado pela autenticação.
    */
   toFullJSON() {
     return {
       ...this.toJSON(),
-      password: this._password,
     };
   }
 }
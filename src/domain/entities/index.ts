@@ -48,22 +48,71 @@ export { Category, CategoryProps } from './Category';
 /** Fornecedor de produtos */
 export { Supplier, SupplierProps } from './Supplier';
 
+/** Pedido de compra a fornecedor (RF14) */
+export { PurchaseOrder, PurchaseOrderProps, PurchaseOrderStatus } from './PurchaseOrder';
+
+/** Item do pedido de compra */
+export { PurchaseItem, PurchaseItemProps } from './PurchaseItem';
+
 /** Produto do estoque */
 export { Product, ProductProps } from './Product';
 
 /** Movimentação de estoque */
 export { StockMovement, StockMovementProps, MovementType } from './StockMovement';
 
+/** Lote de estoque (validade e custo por entrega) */
+export { StockLot, StockLotProps } from './StockLot';
+
+/** Local de estoque (depósito, prateleira, filial) */
+export { StockLocation, StockLocationProps } from './StockLocation';
+
+/** Saldo do produto em um local de estoque */
+export { ProductStock, ProductStockProps } from './ProductStock';
+
+/** Transferência de estoque entre locais */
+export { StockTransfer, StockTransferProps } from './StockTransfer';
+
+/** Inventário (contagem física) de um local */
+export {
+  InventoryCount,
+  InventoryCountProps,
+  InventoryCountStatus,
+  InventoryVarianceSummary
+} from './InventoryCount';
+
+/** Produto de um inventário e suas contagens */
+export { InventoryCountItem, InventoryCountItemProps, InventoryCountEntry } from './InventoryCountItem';
+
 // ==================== USUÁRIOS E AUTENTICAÇÃO ====================
 
 /** Usuário do sistema */
 export { User, UserProps, UserRole } from './User';
 
+/** Log de auditoria (RF22) */
+export { AuditLog, AuditLogProps, AuditAction, AuditEntity, AuditDiff } from './AuditLog';
+
+/** Chave de idempotência (resposta guardada de requisição repetível) */
+export { IdempotencyKey, IdempotencyKeyProps } from './IdempotencyKey';
+
 // ==================== CLIENTES ====================
 
 /** Cliente do supermercado */
 export { Client, ClientProps } from './Client';
 
+/** Transação do fiado (débito/crédito) */
+export {
+  ClientTransaction,
+  ClientTransactionProps,
+  ClientTransactionType
+} from './ClientTransaction';
+
+/** Lançamento do vale-troca (crédito na loja) */
+export {
+  StoreCreditTransaction,
+  StoreCreditTransactionProps,
+  StoreCreditTransactionType
+} from './StoreCreditTransaction';
+
 // ==================== VENDAS ====================
 
 /** Venda realizada */
@@ -72,6 +121,57 @@ export { Sale, SaleProps, PaymentMethod, PaymentStatus } from './Sale';
 /** Item de venda */
 export { SaleItem, SaleItemProps } from './SaleItem';
 
+/** Pagamento da venda (uma parcela por forma de pagamento) */
+export { SalePayment, SalePaymentProps } from './SalePayment';
+
+/** Devolução de itens de uma venda */
+export { SaleReturn, SaleReturnProps, RefundMethod } from './SaleReturn';
+
+/** Item devolvido */
+export { SaleReturnItem, SaleReturnItemProps } from './SaleReturnItem';
+
+/** Orçamento (proposta de preço que pode virar venda) */
+export { Quote, QuoteProps, QuoteStatus } from './Quote';
+
+/** Item de orçamento */
+export { QuoteItem, QuoteItemProps } from './QuoteItem';
+
+/** Sessão de caixa (abertura, sangrias/suprimentos e fechamento) */
+export {
+  CashRegisterSession,
+  CashRegisterSessionProps,
+  CashRegisterStatus,
+  CashRegisterPayment,
+  CashRegisterClosingLine,
+  CashRegisterReport
+} from './CashRegisterSession';
+
+/** Sangria ou suprimento de caixa */
+export {
+  CashRegisterMovement,
+  CashRegisterMovementProps,
+  CashRegisterMovementType
+} from './CashRegisterMovement';
+
+/** Promoção aplicada automaticamente no caixa */
+export {
+  Promotion,
+  PromotionProps,
+  PromotionType,
+  PromotionTarget,
+  PromotionMatch
+} from './Promotion';
+
+/** Cupom da venda (RF08) */
+export {
+  Receipt,
+  ReceiptProps,
+  ReceiptContent,
+  ReceiptItem,
+  ReceiptPayment,
+  ReceiptStoreInfo
+} from './Receipt';
+
 // ==================== FINANCEIRO ====================
 
 /** Conta financeira (a pagar/receber) */
@@ -82,3 +182,14 @@ export {
   AccountStatus, 
   AccountCategory 
 } from './FinancialAccount';
+
+/** Lançamento do fluxo de caixa (RF16) */
+export {
+  CashFlow,
+  CashFlowProps,
+  CashFlowType,
+  CashFlowCategory
+} from './CashFlow';
+
+/** Condição de pagamento (ex.: 30/60/90 dias) */
+export { PaymentTerms, Installment } from './PaymentTerms';
@@ -230,3 +230,92 @@ export class UserDeactivatedError extends DomainError {
     );
   }
 }
+
+/**
+ * Erro lançado quando a requisição não apresenta um token de acesso
+ * 
+ * @description
+ * Toda rota protegida exige o cabeçalho `Authorization: Bearer <token>`.
+ * Na camada de apresentação é convertido em HTTP 401 (Unauthorized).
+ */
+export class AuthenticationRequiredError extends DomainError {
+  constructor() {
+    super(
+      'Autenticação necessária. Informe o token de acesso.',
+      'AUTHENTICATION_REQUIRED'
+    );
+  }
+}
+
+/**
+ * Erro lançado quando o token de acesso é inválido
+ * 
+ * @description
+ * Cobre assinatura incorreta, formato malformado ou token que
+ * aponta para um usuário inexistente.
+ */
+export class InvalidTokenError extends DomainError {
+  constructor() {
+    super('Token de acesso inválido', 'INVALID_TOKEN');
+  }
+}
+
+/**
+ * Erro lançado quando o token de acesso já expirou
+ * 
+ * @description
+ * O cliente deve fazer login novamente para obter um novo token.
+ */
+export class ExpiredTokenError extends DomainError {
+  constructor() {
+    super(
+      'Token de acesso expirado. Faça login novamente.',
+      'EXPIRED_TOKEN'
+    );
+  }
+}
+
+/**
+ * Erro lançado quando uma chave de idempotência é reaproveitada em outra requisição
+ * 
+ * @description
+ * A chave identifica uma única requisição (método, caminho e corpo).
+ * Enviá-la com um corpo diferente indica erro do cliente: a operação
+ * não é executada. Na camada de apresentação vira HTTP 422.
+ */
+export class IdempotencyKeyReusedError extends DomainError {
+  /**
+   * Chave reaproveitada
+   */
+  public readonly key: string;
+
+  constructor(key: string) {
+    super(
+      `A chave de idempotência ${key} já foi usada em uma requisição diferente`,
+      'IDEMPOTENCY_KEY_REUSED'
+    );
+    this.key = key;
+  }
+}
+
+/**
+ * Erro lançado quando a requisição original da chave ainda está em processamento
+ * 
+ * @description
+ * O cliente deve aguardar e repetir a requisição para receber a resposta
+ * original. Na camada de apresentação vira HTTP 409 (Conflict).
+ */
+export class IdempotencyKeyInProgressError extends DomainError {
+  /**
+   * Chave em processamento
+   */
+  public readonly key: string;
+
+  constructor(key: string) {
+    super(
+      `A requisição com a chave de idempotência ${key} ainda está em processamento`,
+      'IDEMPOTENCY_KEY_IN_PROGRESS'
+    );
+    this.key = key;
+  }
+}
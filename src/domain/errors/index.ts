@@ -41,4 +41,9 @@ export {
   UnauthorizedOperationError,
   InvalidCredentialsError,
   UserDeactivatedError,
+  AuthenticationRequiredError,
+  InvalidTokenError,
+  ExpiredTokenError,
+  IdempotencyKeyReusedError,
+  IdempotencyKeyInProgressError,
 } from './BusinessErrors';
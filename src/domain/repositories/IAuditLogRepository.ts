@@ -0,0 +1,59 @@
+// ============================================================================
+// INTERFACE: IAUDITLOGREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência dos logs de auditoria.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Logs são somente inclusão: não existem métodos de alteração ou exclusão.
+//
+// Requisitos atendidos:
+// - RF22: Manter logs de acesso e ações críticas
+// ============================================================================
+
+import { AuditLog, AuditAction, AuditEntity } from '../entities/AuditLog';
+
+/**
+ * Filtros para busca de logs de auditoria
+ */
+export interface AuditLogFilters {
+  /** Filtrar por usuário que realizou a ação */
+  userId?: string;
+  /** Filtrar por entidade afetada */
+  entity?: AuditEntity;
+  /** Filtrar por ID da entidade afetada */
+  entityId?: string;
+  /** Filtrar por ação */
+  action?: AuditAction;
+  /** Data inicial */
+  startDate?: Date;
+  /** Data final */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de AuditLog - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de logs de auditoria deve fornecer.
+ */
+export interface IAuditLogRepository {
+  /**
+   * Registra um novo log de auditoria
+   * @param log - Entidade AuditLog a ser persistida
+   * @returns Promise com o log criado (incluindo ID gerado)
+   */
+  create(log: AuditLog): Promise<AuditLog>;
+
+  /**
+   * Busca um log pelo ID
+   * @param id - Identificador único do log
+   * @returns Promise com o log encontrado ou null
+   */
+  findById(id: string): Promise<AuditLog | null>;
+
+  /**
+   * Lista logs com filtros opcionais (mais recentes primeiro)
+   * @param filters - Filtros para a busca
+   * @returns Promise com array de logs
+   */
+  findAll(filters?: AuditLogFilters): Promise<AuditLog[]>;
+}
@@ -0,0 +1,43 @@
+// ============================================================================
+// INTERFACE: ICASHFLOWREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência do fluxo de caixa.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Lançamentos são somente inclusão: correções são feitas com um novo
+// lançamento em sentido contrário (ex: estorno de venda cancelada).
+//
+// Requisitos atendidos:
+// - RF16: Gerar fluxo de caixa (diário, mensal e anual)
+// ============================================================================
+
+import { CashFlow } from '../entities/CashFlow';
+
+/**
+ * Interface do repositório de CashFlow - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              do fluxo de caixa deve fornecer.
+ */
+export interface ICashFlowRepository {
+  /**
+   * Registra um novo lançamento
+   * @param entry - Entidade CashFlow a ser persistida
+   * @returns Promise com o lançamento criado (incluindo ID gerado)
+   */
+  create(entry: CashFlow): Promise<CashFlow>;
+
+  /**
+   * Lista os lançamentos de um período (mais antigos primeiro)
+   * @param startDate - Data inicial (inclusive)
+   * @param endDate - Data final (inclusive)
+   * @returns Promise com array de lançamentos
+   */
+  findByPeriod(startDate: Date, endDate: Date): Promise<CashFlow[]>;
+
+  /**
+   * Calcula o saldo do caixa (entradas - saídas)
+   * @param before - Considera apenas lançamentos anteriores a esta data
+   * @returns Promise com o saldo
+   */
+  getBalance(before: Date): Promise<number>;
+}
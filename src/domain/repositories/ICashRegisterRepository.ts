@@ -0,0 +1,80 @@
+// ============================================================================
+// INTERFACE: ICASHREGISTERREPOSITORY
+// ============================================================================
+// Define o contrato para persistência das sessões de caixa e de suas
+// sangrias/suprimentos.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { CashRegisterSession, CashRegisterStatus } from '../entities/CashRegisterSession';
+import { CashRegisterMovement } from '../entities/CashRegisterMovement';
+
+/**
+ * Filtros para busca de sessões de caixa
+ */
+export interface CashRegisterFilters {
+  /** Filtrar por operador */
+  userId?: string;
+  /** Filtrar por caixa */
+  terminal?: string;
+  /** Filtrar por status */
+  status?: CashRegisterStatus;
+  /** Abertura a partir de */
+  startDate?: Date;
+  /** Abertura até */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de sessões de caixa - Camada de Domínio
+ */
+export interface ICashRegisterRepository {
+  /**
+   * Abre (grava) uma nova sessão de caixa
+   * @param session - Sessão a ser persistida
+   * @returns Promise com a sessão criada (incluindo ID gerado)
+   */
+  create(session: CashRegisterSession): Promise<CashRegisterSession>;
+
+  /**
+   * Busca uma sessão pelo ID, com sangrias e suprimentos
+   * @param id - Identificador da sessão
+   * @returns Promise com a sessão encontrada ou null
+   */
+  findById(id: string): Promise<CashRegisterSession | null>;
+
+  /**
+   * Busca a sessão aberta de um operador
+   * @param userId - ID do operador
+   * @returns Promise com a sessão aberta ou null
+   */
+  findOpenByUser(userId: string): Promise<CashRegisterSession | null>;
+
+  /**
+   * Busca a sessão aberta em um caixa
+   * @param terminal - Identificação do caixa
+   * @returns Promise com a sessão aberta ou null
+   */
+  findOpenByTerminal(terminal: string): Promise<CashRegisterSession | null>;
+
+  /**
+   * Lista sessões com filtros (mais recentes primeiro)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de sessões
+   */
+  findAll(filters?: CashRegisterFilters): Promise<CashRegisterSession[]>;
+
+  /**
+   * Registra uma sangria ou suprimento
+   * @param movement - Movimentação a ser persistida
+   * @returns Promise com a movimentação criada
+   */
+  addMovement(movement: CashRegisterMovement): Promise<CashRegisterMovement>;
+
+  /**
+   * Grava o fechamento da sessão (status, data, responsável e relatório)
+   * @param session - Sessão já fechada
+   * @returns Promise com a sessão atualizada
+   */
+  saveClosing(session: CashRegisterSession): Promise<CashRegisterSession>;
+}
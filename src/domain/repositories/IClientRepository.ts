@@ -87,6 +87,14 @@ export interface IClientRepository {
    */
   updateDebt(id: string, amount: number): Promise<void>;
 
+  /**
+   * Atualiza o crédito na loja do cliente
+   * @param id - ID do cliente
+   * @param amount - Novo saldo de crédito
+   * @returns Promise void
+   */
+  updateStoreCredit(id: string, amount: number): Promise<void>;
+
   /**
    * Remove um cliente (soft delete)
    * @param id - ID do cliente a remover
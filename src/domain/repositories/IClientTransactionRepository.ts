@@ -0,0 +1,55 @@
+// ============================================================================
+// INTERFACE: ICLIENTTRANSACTIONREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência das transações do fiado.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Transações são somente inclusão: correções são feitas com um novo
+// lançamento (ex: CREDIT de estorno ao cancelar uma venda).
+//
+// Requisitos atendidos:
+// - RF11: Registro de vendas fiadas
+// - RF12: Consulta de débitos
+// ============================================================================
+
+import { ClientTransaction } from '../entities/ClientTransaction';
+
+/**
+ * Filtros para busca de transações de um cliente
+ */
+export interface ClientTransactionFilters {
+  /** Data inicial */
+  startDate?: Date;
+  /** Data final */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de ClientTransaction - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de transações do fiado deve fornecer.
+ */
+export interface IClientTransactionRepository {
+  /**
+   * Registra uma nova transação
+   * @param transaction - Entidade ClientTransaction a ser persistida
+   * @returns Promise com a transação criada (incluindo ID gerado)
+   */
+  create(transaction: ClientTransaction): Promise<ClientTransaction>;
+
+  /**
+   * Lista as transações de um cliente (mais antigas primeiro)
+   * @param clientId - ID do cliente
+   * @param filters - Período opcional
+   * @returns Promise com array de transações
+   */
+  findByClient(clientId: string, filters?: ClientTransactionFilters): Promise<ClientTransaction[]>;
+
+  /**
+   * Calcula o saldo devedor do cliente (débitos - créditos)
+   * @param clientId - ID do cliente
+   * @param before - Considera apenas transações anteriores a esta data
+   * @returns Promise com o saldo
+   */
+  getBalance(clientId: string, before?: Date): Promise<number>;
+}
@@ -31,6 +31,8 @@ export interface FinancialAccountFilters {
   startDate?: Date;
   /** Data de vencimento final */
   endDate?: Date;
+  /** Filtrar pela referência (ex.: ID do pedido de compra) */
+  referenceId?: string;
 }
 
 /**
@@ -0,0 +1,50 @@
+// ============================================================================
+// INTERFACE: IIDEMPOTENCYKEYREPOSITORY
+// ============================================================================
+// Define o contrato para persistência das chaves de idempotência.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { IdempotencyKey } from '../entities/IdempotencyKey';
+
+/**
+ * Interface do repositório de chaves de idempotência - Camada de Domínio
+ */
+export interface IIdempotencyKeyRepository {
+  /**
+   * Reserva a chave para uma requisição que vai começar
+   * @param record - Chave ainda sem resposta
+   * @returns Promise com a chave criada, ou null se o usuário já usou a chave
+   */
+  reserve(record: IdempotencyKey): Promise<IdempotencyKey | null>;
+
+  /**
+   * Busca a chave enviada por um usuário
+   * @param userId - ID do usuário
+   * @param key - Valor do cabeçalho Idempotency-Key
+   * @returns Promise com a chave encontrada ou null
+   */
+  findByKey(userId: string, key: string): Promise<IdempotencyKey | null>;
+
+  /**
+   * Guarda a resposta da requisição original
+   * @param id - ID do registro da chave
+   * @param statusCode - Status HTTP da resposta
+   * @param responseBody - Corpo da resposta em JSON
+   * @returns Promise com a chave atualizada
+   */
+  complete(id: string, statusCode: number, responseBody: string): Promise<IdempotencyKey>;
+
+  /**
+   * Libera a chave (a requisição pode ser executada de novo)
+   * @param id - ID do registro da chave
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Remove as chaves criadas antes da data informada
+   * @param createdBefore - Limite da janela de retenção
+   * @returns Promise com a quantidade de chaves removidas
+   */
+  deleteOlderThan(createdBefore: Date): Promise<number>;
+}
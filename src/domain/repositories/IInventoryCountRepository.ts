@@ -0,0 +1,76 @@
+// ============================================================================
+// INTERFACE: IINVENTORYCOUNTREPOSITORY
+// ============================================================================
+// Define o contrato para persistência dos inventários e suas contagens.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { InventoryCount, InventoryCountStatus } from '../entities/InventoryCount';
+
+/**
+ * Filtros para busca de inventários
+ */
+export interface InventoryCountFilters {
+  /** Filtrar por local */
+  locationId?: string;
+  /** Filtrar por categoria */
+  categoryId?: string;
+  /** Filtrar por status */
+  status?: InventoryCountStatus;
+}
+
+/**
+ * Interface do repositório de inventários - Camada de Domínio
+ */
+export interface IInventoryCountRepository {
+  /**
+   * Registra um inventário com os saldos esperados dos itens
+   * @param count - Inventário a ser persistido
+   * @returns Promise com o inventário criado (incluindo ID gerado)
+   */
+  create(count: InventoryCount): Promise<InventoryCount>;
+
+  /**
+   * Busca um inventário pelo ID (itens e contagens)
+   * @param id - Identificador do inventário
+   * @returns Promise com o inventário encontrado ou null
+   */
+  findById(id: string): Promise<InventoryCount | null>;
+
+  /**
+   * Lista inventários com filtros opcionais (mais recentes primeiro)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de inventários
+   */
+  findAll(filters?: InventoryCountFilters): Promise<InventoryCount[]>;
+
+  /**
+   * Registra a contagem de um item feita por um usuário
+   * @param itemId - ID do item do inventário
+   * @param userId - Quem contou
+   * @param quantity - Quantidade contada
+   */
+  addEntry(itemId: string, userId: string, quantity: number): Promise<void>;
+
+  /**
+   * Liga o item ao ajuste lançado na aprovação
+   * @param itemId - ID do item do inventário
+   * @param movementId - ID da movimentação de ajuste
+   */
+  setItemMovement(itemId: string, movementId: string): Promise<void>;
+
+  /**
+   * Marca o inventário como aprovado
+   * @param id - ID do inventário
+   * @param approvedById - Usuário que aprovou
+   * @returns Promise com o inventário atualizado
+   */
+  approve(id: string, approvedById?: string): Promise<InventoryCount>;
+
+  /**
+   * Cancela um inventário
+   * @param id - ID do inventário
+   * @returns Promise com o inventário atualizado
+   */
+  cancel(id: string): Promise<InventoryCount>;
+}
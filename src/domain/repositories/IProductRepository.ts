@@ -114,6 +114,25 @@ export interface IProductRepository {
    */
   updateQuantity(id: string, quantity: number): Promise<Product>;
 
+  /**
+   * Baixa o estoque de forma condicional (atômica)
+   * @description A baixa só acontece se houver quantidade suficiente no
+   *              momento da gravação, evitando estoque negativo quando duas
+   *              vendas concorrentes disputam o mesmo produto.
+   * @param id - ID do produto
+   * @param quantity - Quantidade a baixar
+   * @returns Promise com true se a baixa foi realizada, false se o estoque era insuficiente
+   */
+  decrementStock(id: string, quantity: number): Promise<boolean>;
+
+  /**
+   * Devolve quantidade ao estoque de forma atômica
+   * @param id - ID do produto
+   * @param quantity - Quantidade a devolver
+   * @returns Promise void
+   */
+  incrementStock(id: string, quantity: number): Promise<void>;
+
   /**
    * Remove um produto (exclusão física)
    * @param id - ID do produto a remover
@@ -0,0 +1,82 @@
+// ============================================================================
+// INTERFACE: IPRODUCTSTOCKREPOSITORY
+// ============================================================================
+// Define o contrato para persistência dos saldos de produtos por local.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Estes métodos alteram somente o saldo do local; quem os chama também
+// atualiza o estoque total do produto (Product.quantity).
+// ============================================================================
+
+import { ProductStock } from '../entities/ProductStock';
+
+/**
+ * Filtros para busca de saldos
+ */
+export interface ProductStockFilters {
+  /** Filtrar por produto */
+  productId?: string;
+  /** Filtrar por local */
+  locationId?: string;
+}
+
+/**
+ * Interface do repositório de saldos por local - Camada de Domínio
+ */
+export interface IProductStockRepository {
+  /**
+   * Busca o saldo de um produto em um local
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @returns Promise com o saldo ou null se o produto nunca esteve no local
+   */
+  find(productId: string, locationId: string): Promise<ProductStock | null>;
+
+  /**
+   * Lista saldos com filtros (por local e nome do produto)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de saldos
+   */
+  findAll(filters?: ProductStockFilters): Promise<ProductStock[]>;
+
+  /**
+   * Saldos de produtos ativos no mínimo do local ou abaixo dele
+   * @param locationId - ID do local (omitido = todos os locais)
+   * @returns Promise com array de saldos
+   */
+  findLowStock(locationId?: string): Promise<ProductStock[]>;
+
+  /**
+   * Soma ao saldo do local (cria o saldo se ainda não existir)
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @param quantity - Quantidade a somar
+   */
+  increment(productId: string, locationId: string, quantity: number): Promise<void>;
+
+  /**
+   * Baixa do saldo do local somente se houver quantidade suficiente
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @param quantity - Quantidade a baixar
+   * @returns Promise com true se baixou, false se o saldo era insuficiente
+   */
+  decrement(productId: string, locationId: string, quantity: number): Promise<boolean>;
+
+  /**
+   * Define o saldo do local (cria o saldo se ainda não existir)
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @param quantity - Novo saldo
+   */
+  setQuantity(productId: string, locationId: string, quantity: number): Promise<void>;
+
+  /**
+   * Define o mínimo do produto no local (null = mínimo do produto)
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @param minQuantity - Novo mínimo
+   * @returns Promise com o saldo atualizado
+   */
+  setMinQuantity(productId: string, locationId: string, minQuantity: number | null): Promise<ProductStock>;
+}
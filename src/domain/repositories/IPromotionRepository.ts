@@ -0,0 +1,77 @@
+// ============================================================================
+// INTERFACE: IPROMOTIONREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência de promoções.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { Promotion, PromotionType } from '../entities/Promotion';
+
+/**
+ * Filtros para busca de promoções
+ */
+export interface PromotionFilters {
+  /** Filtrar por tipo */
+  type?: PromotionType;
+  /** Filtrar por promoção ativa/inativa */
+  isActive?: boolean;
+  /** Somente promoções valendo nesta data (ativas e dentro do período) */
+  runningAt?: Date;
+}
+
+/**
+ * Interface do repositório de Promotion - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de promoções deve fornecer.
+ */
+export interface IPromotionRepository {
+  /**
+   * Cria uma nova promoção
+   * @param promotion - Entidade Promotion a ser persistida
+   * @returns Promise com a promoção criada (incluindo ID gerado)
+   */
+  create(promotion: Promotion): Promise<Promotion>;
+
+  /**
+   * Busca uma promoção pelo ID
+   * @param id - Identificador único da promoção
+   * @returns Promise com a promoção encontrada ou null
+   */
+  findById(id: string): Promise<Promotion | null>;
+
+  /**
+   * Lista promoções com filtros opcionais
+   * @param filters - Filtros de busca
+   * @returns Promise com array de promoções (mais recentes primeiro)
+   */
+  findAll(filters?: PromotionFilters): Promise<Promotion[]>;
+
+  /**
+   * Lista as promoções valendo em uma data (usada no cálculo da venda)
+   * @param date - Data de referência
+   * @returns Promise com array de promoções (mais antigas primeiro)
+   */
+  findRunning(date: Date): Promise<Promotion[]>;
+
+  /**
+   * Atualiza uma promoção existente
+   * @param id - ID da promoção a atualizar
+   * @param promotion - Promoção com os dados já validados
+   * @returns Promise com a promoção atualizada
+   */
+  update(id: string, promotion: Promotion): Promise<Promotion>;
+
+  /**
+   * Remove uma promoção
+   * @param id - ID da promoção a remover
+   * @returns Promise void
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Conta os itens de venda em que a promoção foi aplicada
+   * @param id - ID da promoção
+   * @returns Promise com a quantidade de itens
+   */
+  countUsage(id: string): Promise<number>;
+}
@@ -0,0 +1,69 @@
+// ============================================================================
+// INTERFACE: IPURCHASEORDERREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência de pedidos de compra.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Requisitos atendidos:
+// - RF14: Registrar pedidos de compra de fornecedores
+// ============================================================================
+
+import { PurchaseOrder, PurchaseOrderStatus } from '../entities/PurchaseOrder';
+
+/**
+ * Filtros para busca de pedidos de compra
+ */
+export interface PurchaseOrderFilters {
+  /** Filtrar por fornecedor */
+  supplierId?: string;
+  /** Filtrar por status */
+  status?: PurchaseOrderStatus;
+  /** Data inicial (criação) */
+  startDate?: Date;
+  /** Data final (criação) */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de PurchaseOrder - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de pedidos de compra deve fornecer.
+ */
+export interface IPurchaseOrderRepository {
+  /**
+   * Cria um novo pedido de compra
+   * @param order - Entidade PurchaseOrder a ser persistida (com itens)
+   * @returns Promise com o pedido criado (incluindo ID gerado)
+   */
+  create(order: PurchaseOrder): Promise<PurchaseOrder>;
+
+  /**
+   * Busca um pedido pelo ID
+   * @param id - Identificador único do pedido
+   * @returns Promise com o pedido encontrado ou null (inclui itens)
+   */
+  findById(id: string): Promise<PurchaseOrder | null>;
+
+  /**
+   * Lista pedidos com filtros opcionais (mais recentes primeiro)
+   * @param filters - Filtros para a busca
+   * @returns Promise com array de pedidos
+   */
+  findAll(filters?: PurchaseOrderFilters): Promise<PurchaseOrder[]>;
+
+  /**
+   * Atualiza o status de um pedido
+   * @param id - ID do pedido
+   * @param status - Novo status
+   * @returns Promise com o pedido atualizado
+   */
+  updateStatus(id: string, status: PurchaseOrderStatus): Promise<PurchaseOrder>;
+
+  /**
+   * Grava o recebimento do pedido: quantidades/valores recebidos de cada
+   * item, status e data de recebimento
+   * @param order - Pedido com as entregas já registradas na entidade
+   * @returns Promise com o pedido atualizado
+   */
+  saveReceiving(order: PurchaseOrder): Promise<PurchaseOrder>;
+}
@@ -0,0 +1,58 @@
+// ============================================================================
+// INTERFACE: IQUOTEREPOSITORY
+// ============================================================================
+// Define o contrato para persistência dos orçamentos.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { Quote, QuoteStatus } from '../entities/Quote';
+
+/**
+ * Filtros para busca de orçamentos
+ */
+export interface QuoteFilters {
+  clientId?: string;
+  userId?: string;
+  status?: QuoteStatus;
+}
+
+/**
+ * Interface do repositório de orçamentos - Camada de Domínio
+ */
+export interface IQuoteRepository {
+  /**
+   * Registra um orçamento com seus itens
+   * @param quote - Orçamento a ser persistido
+   * @returns Promise com o orçamento criado (incluindo ID gerado)
+   */
+  create(quote: Quote): Promise<Quote>;
+
+  /**
+   * Busca um orçamento pelo ID
+   * @param id - Identificador do orçamento
+   * @returns Promise com o orçamento encontrado ou null
+   */
+  findById(id: string): Promise<Quote | null>;
+
+  /**
+   * Lista orçamentos com filtros opcionais (mais recentes primeiro)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de orçamentos
+   */
+  findAll(filters?: QuoteFilters): Promise<Quote[]>;
+
+  /**
+   * Marca o orçamento como convertido na venda informada
+   * @param id - ID do orçamento
+   * @param saleId - ID da venda gerada
+   * @returns Promise com o orçamento atualizado
+   */
+  markConverted(id: string, saleId: string): Promise<Quote>;
+
+  /**
+   * Cancela um orçamento
+   * @param id - ID do orçamento
+   * @returns Promise com o orçamento atualizado
+   */
+  cancel(id: string): Promise<Quote>;
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// INTERFACE: IRECEIPTREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência dos cupons de venda.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Requisitos atendidos:
+// - RF08: Emitir nota/cupom da venda
+// ============================================================================
+
+import { Receipt } from '../entities/Receipt';
+
+/**
+ * Interface do repositório de Receipt - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de cupons deve fornecer.
+ */
+export interface IReceiptRepository {
+  /**
+   * Registra um novo cupom
+   * @param receipt - Entidade Receipt a ser persistida
+   * @returns Promise com o cupom criado (incluindo ID gerado)
+   */
+  create(receipt: Receipt): Promise<Receipt>;
+
+  /**
+   * Busca o cupom de uma venda
+   * @param saleId - ID da venda
+   * @returns Promise com o cupom encontrado ou null
+   */
+  findBySaleId(saleId: string): Promise<Receipt | null>;
+
+  /**
+   * Busca o último número de cupom emitido
+   * @returns Promise com o número ou null se nenhum cupom foi emitido
+   */
+  findLastNumber(): Promise<string | null>;
+
+  /**
+   * Registra a impressão de uma via do cupom
+   * @param id - ID do cupom
+   * @returns Promise com o cupom atualizado (printCount incrementado)
+   */
+  registerPrint(id: string): Promise<Receipt>;
+}
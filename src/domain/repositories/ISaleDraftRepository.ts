@@ -0,0 +1,66 @@
+// ============================================================================
+// INTERFACE: ISALEDRAFTREPOSITORY
+// ============================================================================
+// Define o contrato para persistência das vendas suspensas (status DRAFT).
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// As vendas suspensas ficam separadas das vendas registradas: não entram
+// em relatórios, no caixa nem no estoque.
+// ============================================================================
+
+import { Sale } from '../entities/Sale';
+
+/**
+ * Filtros para busca de vendas suspensas
+ */
+export interface SaleDraftFilters {
+  userId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Interface do repositório de vendas suspensas - Camada de Domínio
+ */
+export interface ISaleDraftRepository {
+  /**
+   * Grava uma nova venda suspensa com seus itens
+   * @param draft - Venda com status DRAFT
+   * @returns Promise com a venda suspensa criada (incluindo IDs gerados)
+   */
+  create(draft: Sale): Promise<Sale>;
+
+  /**
+   * Busca uma venda suspensa pelo ID
+   * @param id - Identificador da venda suspensa
+   * @returns Promise com a venda suspensa ou null
+   */
+  findById(id: string): Promise<Sale | null>;
+
+  /**
+   * Lista vendas suspensas (as alteradas há mais tempo primeiro)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de vendas suspensas
+   */
+  findAll(filters?: SaleDraftFilters): Promise<Sale[]>;
+
+  /**
+   * Grava os itens e totais atuais da venda suspensa
+   * @description Itens sem ID são criados; itens que saíram são excluídos
+   * @param draft - Venda suspensa alterada
+   * @returns Promise com a venda suspensa atualizada
+   */
+  save(draft: Sale): Promise<Sale>;
+
+  /**
+   * Exclui uma venda suspensa (finalizada ou descartada)
+   * @param id - ID da venda suspensa
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Exclui as vendas suspensas sem alteração desde a data
+   * @param updatedBefore - Última alteração anterior a esta data
+   * @returns Promise com a quantidade excluída
+   */
+  deleteStale(updatedBefore: Date): Promise<number>;
+}
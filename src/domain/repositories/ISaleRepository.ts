@@ -22,10 +22,12 @@ export interface SaleFilters {
   clientId?: string;
   /** Filtrar por usuário (vendedor) */
   userId?: string;
-  /** Filtrar por método de pagamento */
+  /** Filtrar por método de pagamento (vendas com alguma parcela nesse método) */
   paymentMethod?: PaymentMethod;
   /** Filtrar por status de pagamento */
   paymentStatus?: PaymentStatus;
+  /** Filtrar por sessão de caixa */
+  sessionId?: string;
   /** Data inicial do período */
   startDate?: Date;
   /** Data final do período */
@@ -42,13 +44,15 @@ export interface SaleFilters {
 export interface SalesSummary {
   /** Quantidade total de vendas */
   totalSales: number;
-  /** Valor total das vendas */
+  /** Valor total das vendas (líquido das devoluções) */
   totalAmount: number;
+  /** Valor devolvido em devoluções de itens */
+  totalReturned: number;
   /** Valor médio por venda */
   averageTicket: number;
   /** Total de descontos concedidos */
   totalDiscount: number;
-  /** Vendas por método de pagamento */
+  /** Parcelas de pagamento por método (quantidade de parcelas e valor) */
   byPaymentMethod: Record<string, { count: number; amount: number }>;
 }
 
@@ -123,6 +127,21 @@ export interface ISaleRepository {
    */
   updatePaymentStatus(id: string, status: PaymentStatus): Promise<Sale>;
 
+  /**
+   * Grava uma devolução na venda (quantidades devolvidas dos itens, valor
+   * devolvido, parte abatida do fiado e status de pagamento)
+   * @param sale - Venda com a devolução já registrada
+   * @returns Promise com a venda atualizada
+   */
+  saveReturn(sale: Sale): Promise<Sale>;
+
+  /**
+   * Grava um pagamento do fiado na venda (valor pago e status de pagamento)
+   * @param sale - Venda com o pagamento já registrado
+   * @returns Promise com a venda atualizada
+   */
+  saveCreditPayment(sale: Sale): Promise<Sale>;
+
   /**
    * Cancela uma venda
    * @param id - ID da venda
@@ -0,0 +1,34 @@
+// ============================================================================
+// INTERFACE: ISALERETURNREPOSITORY
+// ============================================================================
+// Define o contrato para persistência das devoluções de vendas.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { SaleReturn } from '../entities/SaleReturn';
+
+/**
+ * Interface do repositório de devoluções - Camada de Domínio
+ */
+export interface ISaleReturnRepository {
+  /**
+   * Registra uma devolução com seus itens
+   * @param saleReturn - Devolução a ser persistida
+   * @returns Promise com a devolução criada (incluindo ID gerado)
+   */
+  create(saleReturn: SaleReturn): Promise<SaleReturn>;
+
+  /**
+   * Busca uma devolução pelo ID
+   * @param id - Identificador da devolução
+   * @returns Promise com a devolução encontrada ou null
+   */
+  findById(id: string): Promise<SaleReturn | null>;
+
+  /**
+   * Lista as devoluções de uma venda (mais antigas primeiro)
+   * @param saleId - ID da venda
+   * @returns Promise com array de devoluções
+   */
+  findBySale(saleId: string): Promise<SaleReturn[]>;
+}
@@ -0,0 +1,79 @@
+// ============================================================================
+// INTERFACE: ISTOCKLOCATIONREPOSITORY
+// ============================================================================
+// Define o contrato para persistência dos locais de estoque.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { StockLocation } from '../entities/StockLocation';
+
+/**
+ * Filtros para busca de locais
+ */
+export interface StockLocationFilters {
+  /** Filtrar por situação (ativo/inativo) */
+  isActive?: boolean;
+}
+
+/**
+ * Dados alteráveis de um local
+ */
+export interface StockLocationUpdateData {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Interface do repositório de locais de estoque - Camada de Domínio
+ */
+export interface IStockLocationRepository {
+  /**
+   * Cadastra um local
+   * @param location - Local a ser persistido
+   * @returns Promise com o local criado (incluindo ID gerado)
+   */
+  create(location: StockLocation): Promise<StockLocation>;
+
+  /**
+   * Busca um local pelo ID
+   * @param id - Identificador do local
+   * @returns Promise com o local encontrado ou null
+   */
+  findById(id: string): Promise<StockLocation | null>;
+
+  /**
+   * Busca um local pelo nome
+   * @param name - Nome do local
+   * @returns Promise com o local encontrado ou null
+   */
+  findByName(name: string): Promise<StockLocation | null>;
+
+  /**
+   * Lista locais (padrão primeiro, depois por nome)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de locais
+   */
+  findAll(filters?: StockLocationFilters): Promise<StockLocation[]>;
+
+  /**
+   * Busca o local padrão (baixado pelas vendas)
+   * @returns Promise com o local padrão ou null se não houver
+   */
+  findDefault(): Promise<StockLocation | null>;
+
+  /**
+   * Atualiza um local
+   * @param id - Identificador do local
+   * @param data - Dados a alterar
+   * @returns Promise com o local atualizado
+   */
+  update(id: string, data: StockLocationUpdateData): Promise<StockLocation>;
+
+  /**
+   * Torna o local o padrão, desmarcando o anterior
+   * @param id - Identificador do local
+   * @returns Promise com o local atualizado
+   */
+  setDefault(id: string): Promise<StockLocation>;
+}
@@ -0,0 +1,85 @@
+// ============================================================================
+// INTERFACE: ISTOCKLOTREPOSITORY
+// ============================================================================
+// Define o contrato para persistência dos lotes de estoque e de suas baixas.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { StockLot } from '../entities/StockLot';
+
+/**
+ * Filtros para busca de lotes
+ */
+export interface StockLotFilters {
+  /** Filtrar por produto */
+  productId?: string;
+  /** Filtrar por local */
+  locationId?: string;
+  /** Incluir lotes sem saldo (padrão: somente lotes com saldo) */
+  includeDepleted?: boolean;
+  /** Somente lotes com validade até a data (inclusive) */
+  expiresBefore?: Date;
+  /** Somente lotes com validade depois da data */
+  expiresAfter?: Date;
+}
+
+/**
+ * Quantidade de um lote associada a uma origem (ex: unidades vendidas)
+ */
+export interface StockLotBalance {
+  lot: StockLot;
+  quantity: number;
+}
+
+/**
+ * Interface do repositório de lotes - Camada de Domínio
+ */
+export interface IStockLotRepository {
+  /**
+   * Registra um lote
+   * @param lot - Lote a ser persistido
+   * @returns Promise com o lote criado (incluindo ID gerado)
+   */
+  create(lot: StockLot): Promise<StockLot>;
+
+  /**
+   * Busca um lote pelo ID
+   * @param id - Identificador do lote
+   * @returns Promise com o lote encontrado ou null
+   */
+  findById(id: string): Promise<StockLot | null>;
+
+  /**
+   * Lista lotes com filtros, na ordem FEFO (validade mais próxima primeiro;
+   * lotes sem validade por último)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de lotes
+   */
+  findAll(filters?: StockLotFilters): Promise<StockLot[]>;
+
+  /**
+   * Lotes com saldo de um produto em um local, na ordem FEFO
+   * @param productId - ID do produto
+   * @param locationId - ID do local
+   * @returns Promise com array de lotes
+   */
+  findAvailable(productId: string, locationId: string): Promise<StockLot[]>;
+
+  /**
+   * Baixa (quantidade negativa) ou estorna (positiva) o saldo de um lote,
+   * registrando a movimentação responsável
+   * @param lotId - ID do lote
+   * @param movementId - ID da movimentação de estoque
+   * @param quantity - Variação do saldo
+   * @returns Promise com o lote atualizado
+   */
+  allocate(lotId: string, movementId: string, quantity: number): Promise<StockLot>;
+
+  /**
+   * Unidades de um produto vendidas de cada lote e ainda não estornadas
+   * @param saleId - ID da venda
+   * @param productId - ID do produto
+   * @returns Promise com os lotes e as quantidades em aberto
+   */
+  findOutstandingBySale(saleId: string, productId: string): Promise<StockLotBalance[]>;
+}
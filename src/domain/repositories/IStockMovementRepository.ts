@@ -21,6 +21,16 @@ export interface StockMovementFilters {
   productId?: string;
   /** Filtrar por tipo de movimentação */
   type?: MovementType;
+  /** Filtrar por venda de origem */
+  saleId?: string;
+  /** Filtrar por pedido de compra de origem */
+  purchaseOrderId?: string;
+  /** Filtrar por usuário que registrou */
+  userId?: string;
+  /** Filtrar por local de estoque */
+  locationId?: string;
+  /** Filtrar por transferência entre locais */
+  transferId?: string;
   /** Data inicial do período */
   startDate?: Date;
   /** Data final do período */
@@ -76,6 +86,14 @@ export interface IStockMovementRepository {
    */
   findByDateRange(startDate: Date, endDate: Date): Promise<StockMovement[]>;
 
+  /**
+   * Livro de movimentações: todas as movimentações em ordem cronológica
+   * (mais antigas primeiro), sem o produto carregado
+   * @param productId - Restringir a um produto
+   * @returns Promise com array de movimentações
+   */
+  findLedger(productId?: string): Promise<StockMovement[]>;
+
   /**
    * Remove uma movimentação
    * @param id - ID da movimentação a remover
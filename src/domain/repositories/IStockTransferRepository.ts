@@ -0,0 +1,48 @@
+// ============================================================================
+// INTERFACE: ISTOCKTRANSFERREPOSITORY
+// ============================================================================
+// Define o contrato para persistência das transferências entre locais.
+// Segue o princípio de Inversão de Dependência (SOLID).
+// ============================================================================
+
+import { StockTransfer } from '../entities/StockTransfer';
+
+/**
+ * Filtros para busca de transferências
+ */
+export interface StockTransferFilters {
+  /** Filtrar por produto */
+  productId?: string;
+  /** Filtrar por local (origem ou destino) */
+  locationId?: string;
+  /** Data inicial do período */
+  startDate?: Date;
+  /** Data final do período */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de transferências - Camada de Domínio
+ */
+export interface IStockTransferRepository {
+  /**
+   * Registra uma transferência
+   * @param transfer - Transferência a ser persistida
+   * @returns Promise com a transferência criada (incluindo ID gerado)
+   */
+  create(transfer: StockTransfer): Promise<StockTransfer>;
+
+  /**
+   * Busca uma transferência pelo ID
+   * @param id - Identificador da transferência
+   * @returns Promise com a transferência encontrada ou null
+   */
+  findById(id: string): Promise<StockTransfer | null>;
+
+  /**
+   * Lista transferências com filtros (mais recentes primeiro)
+   * @param filters - Filtros de busca
+   * @returns Promise com array de transferências
+   */
+  findAll(filters?: StockTransferFilters): Promise<StockTransfer[]>;
+}
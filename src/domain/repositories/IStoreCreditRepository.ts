@@ -0,0 +1,75 @@
+// ============================================================================
+// INTERFACE: ISTORECREDITREPOSITORY
+// ============================================================================
+// Define o contrato para operações de persistência do vale-troca.
+// Segue o princípio de Inversão de Dependência (SOLID).
+//
+// Lançamentos são somente inclusão; apenas o saldo não usado das emissões
+// (`remaining`) é atualizado conforme o crédito é usado ou vence.
+// ============================================================================
+
+import { StoreCreditTransaction } from '../entities/StoreCreditTransaction';
+
+/**
+ * Filtros para busca de lançamentos de vale-troca de um cliente
+ */
+export interface StoreCreditFilters {
+  /** Data inicial */
+  startDate?: Date;
+  /** Data final */
+  endDate?: Date;
+}
+
+/**
+ * Interface do repositório de StoreCreditTransaction - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de repositório
+ *              de vale-troca deve fornecer.
+ */
+export interface IStoreCreditRepository {
+  /**
+   * Registra um novo lançamento
+   * @param transaction - Entidade StoreCreditTransaction a ser persistida
+   * @returns Promise com o lançamento criado (incluindo ID gerado)
+   */
+  create(transaction: StoreCreditTransaction): Promise<StoreCreditTransaction>;
+
+  /**
+   * Lista os lançamentos de um cliente (mais antigos primeiro)
+   * @param clientId - ID do cliente
+   * @param filters - Período opcional
+   * @returns Promise com array de lançamentos
+   */
+  findByClient(clientId: string, filters?: StoreCreditFilters): Promise<StoreCreditTransaction[]>;
+
+  /**
+   * Emissões do cliente com saldo e ainda válidas na data informada
+   * (as que vencem primeiro antes)
+   * @param clientId - ID do cliente
+   * @param at - Data de referência
+   * @returns Promise com array de emissões
+   */
+  findAvailable(clientId: string, at: Date): Promise<StoreCreditTransaction[]>;
+
+  /**
+   * Emissões com saldo e vencidas na data informada
+   * @param at - Data de referência
+   * @returns Promise com array de emissões (agrupáveis por cliente)
+   */
+  findExpired(at: Date): Promise<StoreCreditTransaction[]>;
+
+  /**
+   * Atualiza o saldo não usado de uma emissão
+   * @param id - ID da emissão
+   * @param remaining - Novo saldo
+   * @returns Promise com a emissão atualizada
+   */
+  updateRemaining(id: string, remaining: number): Promise<StoreCreditTransaction>;
+
+  /**
+   * Calcula o saldo de vale-troca do cliente (emissões - usos - vencimentos)
+   * @param clientId - ID do cliente
+   * @param before - Considera apenas lançamentos anteriores a esta data
+   * @returns Promise com o saldo
+   */
+  getBalance(clientId: string, before?: Date): Promise<number>;
+}
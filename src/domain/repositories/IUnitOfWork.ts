@@ -0,0 +1,90 @@
+// ============================================================================
+// INTERFACE: IUNITOFWORK (UNIDADE DE TRABALHO)
+// ============================================================================
+// Define o contrato para executar várias operações de repositório como uma
+// única transação: ou todas são gravadas, ou nenhuma é.
+// 
+// CONCEITO: Unit of Work
+// ======================
+// Uma venda grava a venda, baixa o estoque de cada item, registra as
+// movimentações e atualiza o débito do cliente. Se qualquer passo falhar
+// (erro, queda do servidor, estoque insuficiente), todos os anteriores
+// são desfeitos.
+// 
+// Os repositórios entregues ao callback compartilham a mesma transação.
+// Usar os repositórios "normais" dentro do callback quebraria a atomicidade.
+// 
+// @example
+// ```typescript
+// await unitOfWork.execute(async ({ sales, products }) => {
+//   const sale = await sales.create(novaVenda);
+//   await products.decrementStock(produtoId, 2);
+//   return sale;
+// });
+// ```
+// ============================================================================
+
+import { IProductRepository } from './IProductRepository';
+import { IStockMovementRepository } from './IStockMovementRepository';
+import { IStockLotRepository } from './IStockLotRepository';
+import { IStockLocationRepository } from './IStockLocationRepository';
+import { IProductStockRepository } from './IProductStockRepository';
+import { IStockTransferRepository } from './IStockTransferRepository';
+import { IInventoryCountRepository } from './IInventoryCountRepository';
+import { IClientRepository } from './IClientRepository';
+import { IClientTransactionRepository } from './IClientTransactionRepository';
+import { IStoreCreditRepository } from './IStoreCreditRepository';
+import { ISaleRepository } from './ISaleRepository';
+import { ISaleDraftRepository } from './ISaleDraftRepository';
+import { ISaleReturnRepository } from './ISaleReturnRepository';
+import { IReceiptRepository } from './IReceiptRepository';
+import { IPromotionRepository } from './IPromotionRepository';
+import { IQuoteRepository } from './IQuoteRepository';
+import { ICashRegisterRepository } from './ICashRegisterRepository';
+import { IPurchaseOrderRepository } from './IPurchaseOrderRepository';
+import { ISupplierRepository } from './ISupplierRepository';
+import { IFinancialAccountRepository } from './IFinancialAccountRepository';
+import { ICashFlowRepository } from './ICashFlowRepository';
+import { IAuditLogRepository } from './IAuditLogRepository';
+
+/**
+ * Repositórios disponíveis dentro de uma transação
+ */
+export interface TransactionalRepositories {
+  products: IProductRepository;
+  stockMovements: IStockMovementRepository;
+  stockLots: IStockLotRepository;
+  stockLocations: IStockLocationRepository;
+  productStocks: IProductStockRepository;
+  stockTransfers: IStockTransferRepository;
+  inventoryCounts: IInventoryCountRepository;
+  clients: IClientRepository;
+  clientTransactions: IClientTransactionRepository;
+  storeCredits: IStoreCreditRepository;
+  sales: ISaleRepository;
+  saleDrafts: ISaleDraftRepository;
+  saleReturns: ISaleReturnRepository;
+  receipts: IReceiptRepository;
+  promotions: IPromotionRepository;
+  quotes: IQuoteRepository;
+  cashRegisters: ICashRegisterRepository;
+  purchaseOrders: IPurchaseOrderRepository;
+  suppliers: ISupplierRepository;
+  financialAccounts: IFinancialAccountRepository;
+  cashFlows: ICashFlowRepository;
+  auditLogs: IAuditLogRepository;
+}
+
+/**
+ * Interface da unidade de trabalho - Camada de Domínio
+ * @description Executa um bloco de operações de forma atômica.
+ */
+export interface IUnitOfWork {
+  /**
+   * Executa o callback dentro de uma transação
+   * @param work - Operações a executar com os repositórios transacionais
+   * @returns Promise com o valor retornado pelo callback
+   * @throws Repassa o erro lançado pelo callback, após desfazer a transação
+   */
+  execute<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T>;
+}
@@ -66,6 +66,14 @@ export interface IUserRepository {
    */
   update(id: string, user: Partial<User>): Promise<User>;
 
+  /**
+   * Grava um novo hash de senha
+   * @param id - ID do usuário
+   * @param passwordHash - Hash já calculado (nunca a senha em texto puro)
+   * @returns Promise void
+   */
+  updatePassword(id: string, passwordHash: string): Promise<void>;
+
   /**
    * Remove um usuário (soft delete)
    * @param id - ID do usuário a remover
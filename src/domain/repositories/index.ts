@@ -14,6 +14,9 @@ export { ICategoryRepository } from './ICategoryRepository';
 /** Repositório de fornecedores */
 export { ISupplierRepository } from './ISupplierRepository';
 
+/** Repositório de pedidos de compra */
+export { IPurchaseOrderRepository, PurchaseOrderFilters } from './IPurchaseOrderRepository';
+
 /** Repositório de produtos */
 export { IProductRepository, ProductFilters } from './IProductRepository';
 
@@ -23,21 +26,72 @@ export {
   StockMovementFilters
 } from './IStockMovementRepository';
 
+/** Repositório de lotes de estoque (FEFO) */
+export { IStockLotRepository, StockLotFilters, StockLotBalance } from './IStockLotRepository';
+
+/** Repositório de locais de estoque */
+export { IStockLocationRepository, StockLocationFilters, StockLocationUpdateData } from './IStockLocationRepository';
+
+/** Repositório de saldos por local */
+export { IProductStockRepository, ProductStockFilters } from './IProductStockRepository';
+
+/** Repositório de transferências entre locais */
+export { IStockTransferRepository, StockTransferFilters } from './IStockTransferRepository';
+
+/** Repositório de inventários (contagem física) */
+export { IInventoryCountRepository, InventoryCountFilters } from './IInventoryCountRepository';
+
 // ==================== USUÁRIOS E AUTENTICAÇÃO ====================
 
 /** Repositório de usuários */
 export { IUserRepository } from './IUserRepository';
 
+/** Repositório de logs de auditoria */
+export { IAuditLogRepository, AuditLogFilters } from './IAuditLogRepository';
+
+/** Repositório de chaves de idempotência */
+export { IIdempotencyKeyRepository } from './IIdempotencyKeyRepository';
+
 // ==================== CLIENTES ====================
 
 /** Repositório de clientes */
 export { IClientRepository, ClientFilters } from './IClientRepository';
 
+/** Repositório de transações do fiado */
+export {
+  IClientTransactionRepository,
+  ClientTransactionFilters
+} from './IClientTransactionRepository';
+
+/** Repositório de lançamentos do vale-troca */
+export {
+  IStoreCreditRepository,
+  StoreCreditFilters
+} from './IStoreCreditRepository';
+
 // ==================== VENDAS ====================
 
 /** Repositório de vendas */
 export { ISaleRepository, SaleFilters, SalesSummary } from './ISaleRepository';
 
+/** Repositório de vendas suspensas (em montagem no caixa) */
+export { ISaleDraftRepository, SaleDraftFilters } from './ISaleDraftRepository';
+
+/** Repositório de devoluções de vendas */
+export { ISaleReturnRepository } from './ISaleReturnRepository';
+
+/** Repositório de cupons de venda */
+export { IReceiptRepository } from './IReceiptRepository';
+
+/** Repositório de sessões de caixa (abertura/fechamento) */
+export { ICashRegisterRepository, CashRegisterFilters } from './ICashRegisterRepository';
+
+/** Repositório de promoções */
+export { IPromotionRepository, PromotionFilters } from './IPromotionRepository';
+
+/** Repositório de orçamentos */
+export { IQuoteRepository, QuoteFilters } from './IQuoteRepository';
+
 // ==================== FINANCEIRO ====================
 
 /** Repositório de contas financeiras */
@@ -46,3 +100,11 @@ export {
   FinancialAccountFilters,
   FinancialSummary 
 } from './IFinancialAccountRepository';
+
+/** Repositório do fluxo de caixa (RF16) */
+export { ICashFlowRepository } from './ICashFlowRepository';
+
+// ==================== TRANSAÇÕES ====================
+
+/** Unidade de trabalho (transação entre repositórios) */
+export { IUnitOfWork, TransactionalRepositories } from './IUnitOfWork';
@@ -0,0 +1,40 @@
+// ============================================================================
+// INTERFACE: IPASSWORDHASHER
+// ============================================================================
+// Define o contrato para geração e verificação de hashes de senha.
+// Segue o princípio de Inversão de Dependência (SOLID): os casos de uso
+// não conhecem o algoritmo usado (scrypt, argon2, bcrypt, etc.).
+// 
+// Requisitos atendidos:
+// - RF20: Permitir autenticação de usuários
+// ============================================================================
+
+/**
+ * Interface do serviço de hash de senhas - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de hash
+ *              de senhas deve fornecer.
+ */
+export interface IPasswordHasher {
+  /**
+   * Gera o hash (com salt aleatório) de uma senha
+   * @param plainPassword - Senha em texto puro
+   * @returns Hash no formato próprio da implementação
+   */
+  hash(plainPassword: string): Promise<string>;
+
+  /**
+   * Verifica se a senha corresponde ao valor armazenado
+   * @param plainPassword - Senha informada pelo usuário
+   * @param storedPassword - Valor salvo no banco (hash ou texto puro legado)
+   * @returns true se a senha estiver correta
+   */
+  verify(plainPassword: string, storedPassword: string): Promise<boolean>;
+
+  /**
+   * Indica se o valor armazenado deve ser recalculado
+   * @description Verdadeiro para senhas legadas em texto puro ou hashes
+   *              gerados com parâmetros diferentes dos atuais.
+   * @param storedPassword - Valor salvo no banco
+   */
+  needsRehash(storedPassword: string): boolean;
+}
@@ -0,0 +1,55 @@
+// ============================================================================
+// INTERFACE: ITOKENSERVICE
+// ============================================================================
+// Define o contrato para emissão e validação de tokens de acesso.
+// Segue o princípio de Inversão de Dependência (SOLID): o domínio não
+// conhece a biblioteca usada para assinar os tokens (JWT, PASETO, etc.).
+// 
+// Requisitos atendidos:
+// - RF20: Permitir autenticação de usuários
+// ============================================================================
+
+import { UserRole } from '../entities/User';
+
+/**
+ * Dados carregados dentro do token de acesso
+ */
+export interface AccessTokenPayload {
+  /** ID do usuário autenticado */
+  userId: string;
+  /** Cargo do usuário no momento da emissão */
+  role: UserRole;
+}
+
+/**
+ * Token emitido após o login
+ */
+export interface IssuedAccessToken {
+  /** Token assinado (enviado no cabeçalho Authorization) */
+  token: string;
+  /** Data/hora de expiração do token */
+  expiresAt: Date;
+}
+
+/**
+ * Interface do serviço de tokens - Camada de Domínio
+ * @description Define os métodos que qualquer implementação de tokens
+ *              de acesso deve fornecer.
+ */
+export interface ITokenService {
+  /**
+   * Emite um token de acesso assinado
+   * @param payload - Dados do usuário a serem embutidos no token
+   * @returns Token assinado e sua data de expiração
+   */
+  sign(payload: AccessTokenPayload): IssuedAccessToken;
+
+  /**
+   * Valida a assinatura e a expiração de um token
+   * @param token - Token recebido na requisição
+   * @returns Dados contidos no token
+   * @throws InvalidTokenError se o token for inválido
+   * @throws ExpiredTokenError se o token estiver expirado
+   */
+  verify(token: string): AccessTokenPayload;
+}
@@ -0,0 +1,13 @@
+// ============================================================================
+// ARQUIVO DE EXPORTAÇÃO: INTERFACES DE SERVIÇOS DO DOMÍNIO
+// ============================================================================
+// Serviços que o domínio precisa, mas cuja implementação depende de
+// tecnologia (criptografia, tokens, etc.). As implementações concretas
+// ficam na camada de infraestrutura.
+// ============================================================================
+
+/** Serviço de tokens de acesso */
+export { ITokenService, AccessTokenPayload, IssuedAccessToken } from './ITokenService';
+
+/** Serviço de hash de senhas */
+export { IPasswordHasher } from './IPasswordHasher';
@@ -0,0 +1,75 @@
+// ============================================================================
+// UNIDADE DE TRABALHO PRISMA
+// ============================================================================
+// Implementação de IUnitOfWork usando transações interativas do Prisma.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// 
+// Cada chamada a `execute` abre uma transação e instancia os repositórios
+// sobre o cliente transacional. Se o callback lançar um erro, o Prisma
+// executa ROLLBACK e o erro é repassado a quem chamou.
+// ============================================================================
+
+import { PrismaClient } from '@prisma/client';
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { PrismaProductRepository } from '../repositories/PrismaProductRepository';
+import { PrismaStockMovementRepository } from '../repositories/PrismaStockMovementRepository';
+import { PrismaStockLotRepository } from '../repositories/PrismaStockLotRepository';
+import { PrismaStockLocationRepository } from '../repositories/PrismaStockLocationRepository';
+import { PrismaProductStockRepository } from '../repositories/PrismaProductStockRepository';
+import { PrismaStockTransferRepository } from '../repositories/PrismaStockTransferRepository';
+import { PrismaInventoryCountRepository } from '../repositories/PrismaInventoryCountRepository';
+import { PrismaClientRepository } from '../repositories/PrismaClientRepository';
+import { PrismaClientTransactionRepository } from '../repositories/PrismaClientTransactionRepository';
+import { PrismaStoreCreditRepository } from '../repositories/PrismaStoreCreditRepository';
+import { PrismaSaleRepository } from '../repositories/PrismaSaleRepository';
+import { PrismaSaleDraftRepository } from '../repositories/PrismaSaleDraftRepository';
+import { PrismaSaleReturnRepository } from '../repositories/PrismaSaleReturnRepository';
+import { PrismaReceiptRepository } from '../repositories/PrismaReceiptRepository';
+import { PrismaPromotionRepository } from '../repositories/PrismaPromotionRepository';
+import { PrismaQuoteRepository } from '../repositories/PrismaQuoteRepository';
+import { PrismaCashRegisterRepository } from '../repositories/PrismaCashRegisterRepository';
+import { PrismaPurchaseOrderRepository } from '../repositories/PrismaPurchaseOrderRepository';
+import { PrismaSupplierRepository } from '../repositories/PrismaSupplierRepository';
+import { PrismaFinancialAccountRepository } from '../repositories/PrismaFinancialAccountRepository';
+import { PrismaCashFlowRepository } from '../repositories/PrismaCashFlowRepository';
+import { PrismaAuditLogRepository } from '../repositories/PrismaAuditLogRepository';
+
+/**
+ * Unidade de trabalho baseada em `prisma.$transaction`
+ * @implements {IUnitOfWork}
+ */
+export class PrismaUnitOfWork implements IUnitOfWork {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Executa o callback dentro de uma transação
+   */
+  async execute<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      return work({
+        products: new PrismaProductRepository(tx),
+        stockMovements: new PrismaStockMovementRepository(tx),
+        stockLots: new PrismaStockLotRepository(tx),
+        stockLocations: new PrismaStockLocationRepository(tx),
+        productStocks: new PrismaProductStockRepository(tx),
+        stockTransfers: new PrismaStockTransferRepository(tx),
+        inventoryCounts: new PrismaInventoryCountRepository(tx),
+        clients: new PrismaClientRepository(tx),
+        clientTransactions: new PrismaClientTransactionRepository(tx),
+        storeCredits: new PrismaStoreCreditRepository(tx),
+        sales: new PrismaSaleRepository(tx),
+        saleDrafts: new PrismaSaleDraftRepository(tx),
+        saleReturns: new PrismaSaleReturnRepository(tx),
+        receipts: new PrismaReceiptRepository(tx),
+        promotions: new PrismaPromotionRepository(tx),
+        quotes: new PrismaQuoteRepository(tx),
+        cashRegisters: new PrismaCashRegisterRepository(tx),
+        purchaseOrders: new PrismaPurchaseOrderRepository(tx),
+        suppliers: new PrismaSupplierRepository(tx),
+        financialAccounts: new PrismaFinancialAccountRepository(tx),
+        cashFlows: new PrismaCashFlowRepository(tx),
+        auditLogs: new PrismaAuditLogRepository(tx),
+      });
+    });
+  }
+}
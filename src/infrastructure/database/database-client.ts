@@ -0,0 +1,8 @@
+// Tipo do cliente de banco aceito pelos repositórios - Camada de Infraestrutura
+//
+// Os repositórios Prisma funcionam tanto com o cliente global (PrismaClient)
+// quanto com o cliente de uma transação interativa (Prisma.TransactionClient),
+// o que permite ao PrismaUnitOfWork reutilizá-los dentro de `$transaction`.
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export type DatabaseClient = PrismaClient | Prisma.TransactionClient;
@@ -0,0 +1,120 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: AUDIT LOG (LOGS DE AUDITORIA)
+// ============================================================================
+// Implementação do repositório de logs de auditoria usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// Os detalhes (diferenças antes/depois) são gravados como JSON na coluna
+// `details` e convertidos de volta para objeto na leitura.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+import { IAuditLogRepository, AuditLogFilters } from '../../domain/repositories/IAuditLogRepository';
+
+/**
+ * Repositório Prisma para a entidade AuditLog
+ * @implements {IAuditLogRepository}
+ */
+export class PrismaAuditLogRepository implements IAuditLogRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra um novo log
+   */
+  async create(log: AuditLog): Promise<AuditLog> {
+    const created = await this.prisma.auditLog.create({
+      data: {
+        userId: log.userId,
+        action: log.action,
+        entity: log.entity,
+        entityId: log.entityId,
+        details: log.details ? JSON.stringify(log.details) : null,
+        ipAddress: log.ipAddress,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um log pelo ID
+   */
+  async findById(id: string): Promise<AuditLog | null> {
+    const log = await this.prisma.auditLog.findUnique({
+      where: { id },
+    });
+
+    return log ? this.mapToEntity(log) : null;
+  }
+
+  /**
+   * Lista logs com filtros (mais recentes primeiro)
+   */
+  async findAll(filters?: AuditLogFilters): Promise<AuditLog[]> {
+    const logs = await this.prisma.auditLog.findMany({
+      where: this.buildWhereClause(filters),
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return logs.map(l => this.mapToEntity(l));
+  }
+
+  /**
+   * Constrói a cláusula where a partir dos filtros
+   */
+  private buildWhereClause(filters?: AuditLogFilters): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+
+    if (!filters) return where;
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+    if (filters.entity) {
+      where.entity = filters.entity;
+    }
+    if (filters.entityId) {
+      where.entityId = filters.entityId;
+    }
+    if (filters.action) {
+      where.action = filters.action;
+    }
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) {
+        (where.createdAt as Record<string, unknown>).gte = filters.startDate;
+      }
+      if (filters.endDate) {
+        (where.createdAt as Record<string, unknown>).lte = filters.endDate;
+      }
+    }
+
+    return where;
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    userId: string | null;
+    action: string;
+    entity: string;
+    entityId: string | null;
+    details: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+  }): AuditLog {
+    return new AuditLog({
+      id: data.id,
+      userId: data.userId,
+      action: data.action as AuditAction,
+      entity: data.entity as AuditEntity,
+      entityId: data.entityId,
+      details: data.details ? JSON.parse(data.details) : null,
+      ipAddress: data.ipAddress,
+      createdAt: data.createdAt,
+    });
+  }
+}
@@ -0,0 +1,89 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: CASH FLOW (FLUXO DE CAIXA)
+// ============================================================================
+// Implementação do repositório do fluxo de caixa usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { CashFlow, CashFlowType, CashFlowCategory } from '../../domain/entities/CashFlow';
+import { ICashFlowRepository } from '../../domain/repositories/ICashFlowRepository';
+
+/**
+ * Repositório Prisma para a entidade CashFlow
+ * @implements {ICashFlowRepository}
+ */
+export class PrismaCashFlowRepository implements ICashFlowRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra um novo lançamento
+   */
+  async create(entry: CashFlow): Promise<CashFlow> {
+    const created = await this.prisma.cashFlow.create({
+      data: {
+        type: entry.type,
+        category: entry.category,
+        description: entry.description,
+        amount: entry.amount,
+        date: entry.date,
+        referenceId: entry.referenceId,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Lista os lançamentos do período (mais antigos primeiro)
+   */
+  async findByPeriod(startDate: Date, endDate: Date): Promise<CashFlow[]> {
+    const entries = await this.prisma.cashFlow.findMany({
+      where: { date: { gte: startDate, lte: endDate } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return entries.map(e => this.mapToEntity(e));
+  }
+
+  /**
+   * Calcula o saldo (entradas - saídas) anterior à data
+   */
+  async getBalance(before: Date): Promise<number> {
+    const totals = await this.prisma.cashFlow.groupBy({
+      by: ['type'],
+      where: { date: { lt: before } },
+      _sum: { amount: true },
+    });
+
+    return totals.reduce((balance, total) => {
+      const amount = total._sum.amount ?? 0;
+      return total.type === CashFlowType.INCOME ? balance + amount : balance - amount;
+    }, 0);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    type: string;
+    category: string;
+    description: string;
+    amount: number;
+    date: Date;
+    referenceId: string | null;
+    createdAt: Date;
+  }): CashFlow {
+    return new CashFlow({
+      id: data.id,
+      type: data.type as CashFlowType,
+      category: data.category as CashFlowCategory,
+      description: data.description,
+      amount: data.amount,
+      date: data.date,
+      referenceId: data.referenceId,
+      createdAt: data.createdAt,
+    });
+  }
+}
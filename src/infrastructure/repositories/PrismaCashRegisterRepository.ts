@@ -0,0 +1,242 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: CASH REGISTER (SESSÃO DE CAIXA)
+// ============================================================================
+// Implementação do repositório de sessões de caixa usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// O relatório de fechamento é gravado como JSON; as datas são restauradas
+// na leitura.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import {
+  CashRegisterSession,
+  CashRegisterStatus,
+  CashRegisterReport,
+} from '../../domain/entities/CashRegisterSession';
+import { CashRegisterMovement, CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+import { ICashRegisterRepository, CashRegisterFilters } from '../../domain/repositories/ICashRegisterRepository';
+
+/**
+ * Relacionamentos carregados com a sessão
+ */
+const SESSION_INCLUDE = {
+  movements: { orderBy: { createdAt: 'asc' } },
+} as const;
+
+/**
+ * Registro de movimentação retornado pelo Prisma
+ */
+type MovementRecord = {
+  id: string;
+  sessionId: string;
+  type: string;
+  amount: number;
+  reason: string;
+  userId: string;
+  createdAt: Date;
+};
+
+/**
+ * Repositório Prisma para as sessões de caixa
+ * @implements {ICashRegisterRepository}
+ */
+export class PrismaCashRegisterRepository implements ICashRegisterRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Abre uma nova sessão
+   */
+  async create(session: CashRegisterSession): Promise<CashRegisterSession> {
+    const created = await this.prisma.cashRegisterSession.create({
+      data: {
+        terminal: session.terminal,
+        userId: session.userId,
+        openingFloat: session.openingFloat,
+        status: session.status,
+        notes: session.notes,
+        openedAt: session.openedAt,
+      },
+      include: SESSION_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca uma sessão pelo ID
+   */
+  async findById(id: string): Promise<CashRegisterSession | null> {
+    const session = await this.prisma.cashRegisterSession.findUnique({
+      where: { id },
+      include: SESSION_INCLUDE,
+    });
+
+    return session ? this.mapToEntity(session) : null;
+  }
+
+  /**
+   * Busca a sessão aberta do operador
+   */
+  async findOpenByUser(userId: string): Promise<CashRegisterSession | null> {
+    const session = await this.prisma.cashRegisterSession.findFirst({
+      where: { userId, status: CashRegisterStatus.OPEN },
+      include: SESSION_INCLUDE,
+    });
+
+    return session ? this.mapToEntity(session) : null;
+  }
+
+  /**
+   * Busca a sessão aberta no caixa
+   */
+  async findOpenByTerminal(terminal: string): Promise<CashRegisterSession | null> {
+    const session = await this.prisma.cashRegisterSession.findFirst({
+      where: { terminal, status: CashRegisterStatus.OPEN },
+      include: SESSION_INCLUDE,
+    });
+
+    return session ? this.mapToEntity(session) : null;
+  }
+
+  /**
+   * Lista sessões com filtros
+   */
+  async findAll(filters?: CashRegisterFilters): Promise<CashRegisterSession[]> {
+    const sessions = await this.prisma.cashRegisterSession.findMany({
+      where: this.buildWhereClause(filters),
+      include: SESSION_INCLUDE,
+      orderBy: { openedAt: 'desc' },
+    });
+
+    return sessions.map(s => this.mapToEntity(s));
+  }
+
+  /**
+   * Registra uma sangria ou suprimento
+   */
+  async addMovement(movement: CashRegisterMovement): Promise<CashRegisterMovement> {
+    const created = await this.prisma.cashRegisterMovement.create({
+      data: {
+        sessionId: movement.sessionId,
+        type: movement.type,
+        amount: movement.amount,
+        reason: movement.reason,
+        userId: movement.userId,
+      },
+    });
+
+    return this.mapMovement(created);
+  }
+
+  /**
+   * Grava o fechamento da sessão
+   */
+  async saveClosing(session: CashRegisterSession): Promise<CashRegisterSession> {
+    const updated = await this.prisma.cashRegisterSession.update({
+      where: { id: session.id },
+      data: {
+        status: session.status,
+        closedAt: session.closedAt,
+        closedById: session.closedById,
+        closingReport: session.closingReport ? JSON.stringify(session.closingReport) : null,
+        difference: session.difference,
+      },
+      include: SESSION_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Constrói cláusula WHERE a partir dos filtros
+   */
+  private buildWhereClause(filters?: CashRegisterFilters): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+
+    if (!filters) return where;
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+    if (filters.terminal) {
+      where.terminal = filters.terminal;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.startDate || filters.endDate) {
+      where.openedAt = {};
+      if (filters.startDate) {
+        (where.openedAt as Record<string, unknown>).gte = filters.startDate;
+      }
+      if (filters.endDate) {
+        (where.openedAt as Record<string, unknown>).lte = filters.endDate;
+      }
+    }
+
+    return where;
+  }
+
+  /**
+   * Restaura o relatório de fechamento gravado em JSON
+   */
+  private parseReport(json: string | null): CashRegisterReport | null {
+    if (!json) return null;
+
+    const report = JSON.parse(json) as CashRegisterReport;
+    return {
+      ...report,
+      openedAt: new Date(report.openedAt),
+      closedAt: report.closedAt ? new Date(report.closedAt) : null,
+    };
+  }
+
+  /**
+   * Mapeia registro de movimentação para entidade de domínio
+   */
+  private mapMovement(data: MovementRecord): CashRegisterMovement {
+    return new CashRegisterMovement({
+      id: data.id,
+      sessionId: data.sessionId,
+      type: data.type as CashRegisterMovementType,
+      amount: data.amount,
+      reason: data.reason,
+      userId: data.userId,
+      createdAt: data.createdAt,
+    });
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    terminal: string;
+    userId: string;
+    openingFloat: number;
+    status: string;
+    notes: string | null;
+    openedAt: Date;
+    closedAt: Date | null;
+    closedById: string | null;
+    closingReport: string | null;
+    difference: number | null;
+    movements: MovementRecord[];
+  }): CashRegisterSession {
+    return new CashRegisterSession({
+      id: data.id,
+      terminal: data.terminal,
+      userId: data.userId,
+      openingFloat: data.openingFloat,
+      status: data.status as CashRegisterStatus,
+      notes: data.notes,
+      openedAt: data.openedAt,
+      closedAt: data.closedAt,
+      closedById: data.closedById,
+      closingReport: this.parseReport(data.closingReport),
+      difference: data.difference,
+      movements: data.movements.map(m => this.mapMovement(m)),
+    });
+  }
+}
@@ -1,10 +1,10 @@
 // Repositório de Category com Prisma - Camada de Infraestrutura
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { Category } from '../../domain/entities/Category';
 import { ICategoryRepository } from '../../domain/repositories/ICategoryRepository';
 
 export class PrismaCategoryRepository implements ICategoryRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   async create(category: Category): Promise<Category> {
     const created = await this.prisma.category.create({
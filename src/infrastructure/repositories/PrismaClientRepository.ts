@@ -5,7 +5,7 @@
 // Camada de Infraestrutura - Implementa a interface definida no domínio.
 // ============================================================================
 
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { Client } from '../../domain/entities/Client';
 import { IClientRepository, ClientFilters } from '../../domain/repositories/IClientRepository';
 
@@ -14,7 +14,7 @@ import { IClientRepository, ClientFilters } from '../../domain/repositories/ICli
  * @implements {IClientRepository}
  */
 export class PrismaClientRepository implements IClientRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   /**
    * Cria um novo cliente no banco de dados
@@ -144,6 +144,16 @@ export class PrismaClientRepository implements IClientRepository {
     });
   }
 
+  /**
+   * Atualiza o crédito na loja do cliente
+   */
+  async updateStoreCredit(id: string, amount: number): Promise<void> {
+    await this.prisma.client.update({
+      where: { id },
+      data: { storeCredit: amount },
+    });
+  }
+
   /**
    * Remove um cliente (soft delete - apenas desativa)
    */
@@ -212,6 +222,7 @@ export class PrismaClientRepository implements IClientRepository {
     address: string | null;
     creditLimit: number;
     currentDebt: number;
+    storeCredit: number;
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -225,6 +236,7 @@ export class PrismaClientRepository implements IClientRepository {
       address: data.address || undefined,
       creditLimit: data.creditLimit,
       currentDebt: data.currentDebt,
+      storeCredit: data.storeCredit,
       isActive: data.isActive,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
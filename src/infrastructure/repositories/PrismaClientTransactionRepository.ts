@@ -0,0 +1,101 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: CLIENT TRANSACTION (TRANSAÇÕES DO FIADO)
+// ============================================================================
+// Implementação do repositório de transações do cliente usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { ClientTransaction, ClientTransactionType } from '../../domain/entities/ClientTransaction';
+import {
+  IClientTransactionRepository,
+  ClientTransactionFilters,
+} from '../../domain/repositories/IClientTransactionRepository';
+
+/**
+ * Repositório Prisma para a entidade ClientTransaction
+ * @implements {IClientTransactionRepository}
+ */
+export class PrismaClientTransactionRepository implements IClientTransactionRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra uma nova transação
+   */
+  async create(transaction: ClientTransaction): Promise<ClientTransaction> {
+    const created = await this.prisma.clientTransaction.create({
+      data: {
+        clientId: transaction.clientId,
+        type: transaction.type,
+        amount: transaction.amount,
+        description: transaction.description,
+        saleId: transaction.saleId,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Lista as transações de um cliente no período (mais antigas primeiro)
+   */
+  async findByClient(clientId: string, filters?: ClientTransactionFilters): Promise<ClientTransaction[]> {
+    const where: Record<string, unknown> = { clientId };
+
+    if (filters?.startDate || filters?.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate }),
+      };
+    }
+
+    const transactions = await this.prisma.clientTransaction.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return transactions.map(t => this.mapToEntity(t));
+  }
+
+  /**
+   * Calcula o saldo devedor (débitos - créditos)
+   */
+  async getBalance(clientId: string, before?: Date): Promise<number> {
+    const totals = await this.prisma.clientTransaction.groupBy({
+      by: ['type'],
+      where: {
+        clientId,
+        ...(before && { createdAt: { lt: before } }),
+      },
+      _sum: { amount: true },
+    });
+
+    return totals.reduce((balance, total) => {
+      const amount = total._sum.amount ?? 0;
+      return total.type === ClientTransactionType.DEBIT ? balance + amount : balance - amount;
+    }, 0);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    clientId: string;
+    type: string;
+    amount: number;
+    description: string | null;
+    saleId: string | null;
+    createdAt: Date;
+  }): ClientTransaction {
+    return new ClientTransaction({
+      id: data.id,
+      clientId: data.clientId,
+      type: data.type as ClientTransactionType,
+      amount: data.amount,
+      description: data.description,
+      saleId: data.saleId,
+      createdAt: data.createdAt,
+    });
+  }
+}
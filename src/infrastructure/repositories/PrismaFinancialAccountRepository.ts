@@ -5,7 +5,7 @@
 // Camada de Infraestrutura - Implementa a interface definida no domínio.
 // ============================================================================
 
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { FinancialAccount, AccountType, AccountStatus, AccountCategory } from '../../domain/entities/FinancialAccount';
 import { IFinancialAccountRepository, FinancialAccountFilters, FinancialSummary } from '../../domain/repositories/IFinancialAccountRepository';
 
@@ -14,7 +14,7 @@ import { IFinancialAccountRepository, FinancialAccountFilters, FinancialSummary
  * @implements {IFinancialAccountRepository}
  */
 export class PrismaFinancialAccountRepository implements IFinancialAccountRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   /**
    * Cria uma nova conta financeira
@@ -282,6 +282,9 @@ export class PrismaFinancialAccountRepository implements IFinancialAccountReposi
     if (filters.category) {
       where.category = filters.category;
     }
+    if (filters.referenceId) {
+      where.referenceId = filters.referenceId;
+    }
     if (filters.startDate || filters.endDate) {
       where.dueDate = {};
       if (filters.startDate) {
@@ -0,0 +1,124 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: IDEMPOTENCY KEY (CHAVE DE IDEMPOTÊNCIA)
+// ============================================================================
+// Implementação do repositório de chaves de idempotência usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// A unicidade de (userId, key) é garantida pelo banco: duas requisições
+// simultâneas com a mesma chave não conseguem reservá-la ao mesmo tempo.
+// ============================================================================
+
+import { Prisma } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
+import { IdempotencyKey } from '../../domain/entities/IdempotencyKey';
+import { IIdempotencyKeyRepository } from '../../domain/repositories/IIdempotencyKeyRepository';
+
+/**
+ * Código de erro do Prisma para violação de restrição única
+ */
+const UNIQUE_CONSTRAINT_VIOLATION = 'P2002';
+
+/**
+ * Repositório Prisma para a entidade IdempotencyKey
+ * @implements {IIdempotencyKeyRepository}
+ */
+export class PrismaIdempotencyKeyRepository implements IIdempotencyKeyRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Reserva a chave (null se já existir para o usuário)
+   */
+  async reserve(record: IdempotencyKey): Promise<IdempotencyKey | null> {
+    try {
+      const created = await this.prisma.idempotencyKey.create({
+        data: {
+          key: record.key,
+          userId: record.userId,
+          method: record.method,
+          path: record.path,
+          requestHash: record.requestHash,
+        },
+      });
+
+      return this.mapToEntity(created);
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === UNIQUE_CONSTRAINT_VIOLATION
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Busca a chave enviada por um usuário
+   */
+  async findByKey(userId: string, key: string): Promise<IdempotencyKey | null> {
+    const record = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    return record ? this.mapToEntity(record) : null;
+  }
+
+  /**
+   * Guarda a resposta da requisição original
+   */
+  async complete(id: string, statusCode: number, responseBody: string): Promise<IdempotencyKey> {
+    const updated = await this.prisma.idempotencyKey.update({
+      where: { id },
+      data: { statusCode, responseBody },
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Libera a chave
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { id },
+    });
+  }
+
+  /**
+   * Remove as chaves fora da janela de retenção
+   */
+  async deleteOlderThan(createdBefore: Date): Promise<number> {
+    const result = await this.prisma.idempotencyKey.deleteMany({
+      where: { createdAt: { lt: createdBefore } },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    key: string;
+    userId: string;
+    method: string;
+    path: string;
+    requestHash: string;
+    statusCode: number | null;
+    responseBody: string | null;
+    createdAt: Date;
+  }): IdempotencyKey {
+    return new IdempotencyKey({
+      id: data.id,
+      key: data.key,
+      userId: data.userId,
+      method: data.method,
+      path: data.path,
+      requestHash: data.requestHash,
+      statusCode: data.statusCode,
+      responseBody: data.responseBody,
+      createdAt: data.createdAt,
+    });
+  }
+}
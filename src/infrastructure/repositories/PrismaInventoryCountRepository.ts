@@ -0,0 +1,213 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: INVENTORY COUNT (INVENTÁRIO)
+// ============================================================================
+// Implementação do repositório de inventários usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { InventoryCount, InventoryCountStatus } from '../../domain/entities/InventoryCount';
+import { InventoryCountItem } from '../../domain/entities/InventoryCountItem';
+import {
+  IInventoryCountRepository,
+  InventoryCountFilters,
+} from '../../domain/repositories/IInventoryCountRepository';
+
+/**
+ * Relacionamentos carregados com o inventário (local, categoria, itens e contagens)
+ */
+const COUNT_INCLUDE = {
+  location: { select: { name: true } },
+  category: { select: { name: true } },
+  items: {
+    include: {
+      product: { select: { name: true } },
+      entries: {
+        include: { user: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { product: { name: 'asc' } },
+  },
+} as const;
+
+/**
+ * Repositório Prisma para a entidade InventoryCount
+ * @implements {IInventoryCountRepository}
+ */
+export class PrismaInventoryCountRepository implements IInventoryCountRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra o inventário com seus itens
+   */
+  async create(count: InventoryCount): Promise<InventoryCount> {
+    const created = await this.prisma.inventoryCount.create({
+      data: {
+        locationId: count.locationId,
+        categoryId: count.categoryId,
+        status: count.status,
+        notes: count.notes,
+        userId: count.userId,
+        items: {
+          create: count.items.map(item => ({
+            productId: item.productId,
+            expectedQuantity: item.expectedQuantity,
+            unitCost: item.unitCost,
+          })),
+        },
+      },
+      include: COUNT_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um inventário pelo ID
+   */
+  async findById(id: string): Promise<InventoryCount | null> {
+    const count = await this.prisma.inventoryCount.findUnique({
+      where: { id },
+      include: COUNT_INCLUDE,
+    });
+
+    return count ? this.mapToEntity(count) : null;
+  }
+
+  /**
+   * Lista inventários com filtros
+   */
+  async findAll(filters?: InventoryCountFilters): Promise<InventoryCount[]> {
+    const counts = await this.prisma.inventoryCount.findMany({
+      where: {
+        ...(filters?.locationId && { locationId: filters.locationId }),
+        ...(filters?.categoryId && { categoryId: filters.categoryId }),
+        ...(filters?.status && { status: filters.status }),
+      },
+      include: COUNT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return counts.map(c => this.mapToEntity(c));
+  }
+
+  /**
+   * Registra uma contagem
+   */
+  async addEntry(itemId: string, userId: string, quantity: number): Promise<void> {
+    await this.prisma.inventoryCountEntry.create({
+      data: { itemId, userId, quantity },
+    });
+  }
+
+  /**
+   * Liga o item ao ajuste lançado
+   */
+  async setItemMovement(itemId: string, movementId: string): Promise<void> {
+    await this.prisma.inventoryCountItem.update({
+      where: { id: itemId },
+      data: { movementId },
+    });
+  }
+
+  /**
+   * Marca o inventário como aprovado
+   */
+  async approve(id: string, approvedById?: string): Promise<InventoryCount> {
+    const updated = await this.prisma.inventoryCount.update({
+      where: { id },
+      data: {
+        status: InventoryCountStatus.APPROVED,
+        approvedById,
+        approvedAt: new Date(),
+      },
+      include: COUNT_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Cancela o inventário
+   */
+  async cancel(id: string): Promise<InventoryCount> {
+    const updated = await this.prisma.inventoryCount.update({
+      where: { id },
+      data: {
+        status: InventoryCountStatus.CANCELLED,
+        cancelledAt: new Date(),
+      },
+      include: COUNT_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    locationId: string;
+    categoryId: string | null;
+    status: string;
+    notes: string | null;
+    userId: string;
+    approvedById: string | null;
+    approvedAt: Date | null;
+    cancelledAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+    location?: { name: string };
+    category?: { name: string } | null;
+    items: Array<{
+      id: string;
+      countId: string;
+      productId: string;
+      expectedQuantity: number;
+      unitCost: number;
+      movementId: string | null;
+      product?: { name: string };
+      entries: Array<{
+        id: string;
+        userId: string;
+        quantity: number;
+        createdAt: Date;
+        user?: { name: string };
+      }>;
+    }>;
+  }): InventoryCount {
+    return new InventoryCount({
+      id: data.id,
+      locationId: data.locationId,
+      locationName: data.location?.name,
+      categoryId: data.categoryId,
+      categoryName: data.category?.name ?? null,
+      status: data.status as InventoryCountStatus,
+      notes: data.notes,
+      userId: data.userId,
+      approvedById: data.approvedById,
+      approvedAt: data.approvedAt,
+      cancelledAt: data.cancelledAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      items: data.items.map(item => new InventoryCountItem({
+        id: item.id,
+        countId: item.countId,
+        productId: item.productId,
+        productName: item.product?.name,
+        expectedQuantity: item.expectedQuantity,
+        unitCost: item.unitCost,
+        movementId: item.movementId,
+        entries: item.entries.map(entry => ({
+          id: entry.id,
+          userId: entry.userId,
+          userName: entry.user?.name,
+          quantity: entry.quantity,
+          createdAt: entry.createdAt,
+        })),
+      })),
+    });
+  }
+}
@@ -1,12 +1,13 @@
 // Repositório de Product - Camada de Infraestrutura
-import { PrismaClient, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { Product } from '../../domain/entities/Product';
 import { Category } from '../../domain/entities/Category';
 import { Supplier } from '../../domain/entities/Supplier';
 import { IProductRepository, ProductFilters } from '../../domain/repositories/IProductRepository';
 
 export class PrismaProductRepository implements IProductRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   private mapToProduct(data: any): Product {
     return new Product({
@@ -124,9 +125,14 @@ export class PrismaProductRepository implements IProductRepository {
   }
 
   async findLowStock(): Promise<Product[]> {
-    const products = await this.prisma.$queryRaw<any[]>`
-      SELECT * FROM Product WHERE quantity <= minQuantity
-    `;
+    // Estoque total (soma dos locais) comparado ao mínimo do próprio produto
+    const products = await this.prisma.product.findMany({
+      where: {
+        isActive: true,
+        quantity: { lte: this.prisma.product.fields.minQuantity },
+      },
+      include: { category: true, supplier: true }
+    });
 
     return products.map(product => this.mapToProduct(product));
   }
@@ -193,6 +199,23 @@ export class PrismaProductRepository implements IProductRepository {
     return this.mapToProduct(updated);
   }
 
+  async decrementStock(id: string, quantity: number): Promise<boolean> {
+    // UPDATE ... WHERE quantity >= ? : a verificação e a baixa são uma única instrução
+    const result = await this.prisma.product.updateMany({
+      where: { id, quantity: { gte: quantity } },
+      data: { quantity: { decrement: quantity } },
+    });
+
+    return result.count > 0;
+  }
+
+  async incrementStock(id: string, quantity: number): Promise<void> {
+    await this.prisma.product.update({
+      where: { id },
+      data: { quantity: { increment: quantity } },
+    });
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.product.delete({ where: { id } });
   }
@@ -0,0 +1,159 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: PRODUCT STOCK (SALDO DO PRODUTO NO LOCAL)
+// ============================================================================
+// Implementação do repositório de saldos por local usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { ProductStock } from '../../domain/entities/ProductStock';
+import {
+  IProductStockRepository,
+  ProductStockFilters,
+} from '../../domain/repositories/IProductStockRepository';
+
+/**
+ * Relacionamentos carregados com o saldo (nomes e mínimo do produto)
+ */
+const STOCK_INCLUDE = {
+  product: { select: { name: true, minQuantity: true } },
+  location: { select: { name: true } },
+} as const;
+
+/**
+ * Ordem de listagem: local, depois produto
+ */
+const STOCK_ORDER = [
+  { location: { name: 'asc' } },
+  { product: { name: 'asc' } },
+] as const;
+
+/**
+ * Repositório Prisma para a entidade ProductStock
+ * @implements {IProductStockRepository}
+ */
+export class PrismaProductStockRepository implements IProductStockRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Busca o saldo de um produto em um local
+   */
+  async find(productId: string, locationId: string): Promise<ProductStock | null> {
+    const stock = await this.prisma.productStock.findUnique({
+      where: { productId_locationId: { productId, locationId } },
+      include: STOCK_INCLUDE,
+    });
+
+    return stock ? this.mapToEntity(stock) : null;
+  }
+
+  /**
+   * Lista saldos com filtros
+   */
+  async findAll(filters?: ProductStockFilters): Promise<ProductStock[]> {
+    const stocks = await this.prisma.productStock.findMany({
+      where: {
+        ...(filters?.productId && { productId: filters.productId }),
+        ...(filters?.locationId && { locationId: filters.locationId }),
+      },
+      include: STOCK_INCLUDE,
+      orderBy: [...STOCK_ORDER],
+    });
+
+    return stocks.map(s => this.mapToEntity(s));
+  }
+
+  /**
+   * Saldos de produtos ativos no mínimo do local ou abaixo dele
+   *
+   * O mínimo efetivo depende do produto quando o local não tem mínimo
+   * próprio, então a comparação é feita na entidade.
+   */
+  async findLowStock(locationId?: string): Promise<ProductStock[]> {
+    const stocks = await this.prisma.productStock.findMany({
+      where: {
+        ...(locationId && { locationId }),
+        product: { isActive: true },
+      },
+      include: STOCK_INCLUDE,
+      orderBy: [...STOCK_ORDER],
+    });
+
+    return stocks.map(s => this.mapToEntity(s)).filter(stock => stock.isLowStock());
+  }
+
+  /**
+   * Soma ao saldo do local
+   */
+  async increment(productId: string, locationId: string, quantity: number): Promise<void> {
+    await this.prisma.productStock.upsert({
+      where: { productId_locationId: { productId, locationId } },
+      create: { productId, locationId, quantity },
+      update: { quantity: { increment: quantity } },
+    });
+  }
+
+  /**
+   * Baixa do saldo do local somente se houver quantidade suficiente
+   */
+  async decrement(productId: string, locationId: string, quantity: number): Promise<boolean> {
+    // UPDATE ... WHERE quantity >= ? : a verificação e a baixa são uma única instrução
+    const result = await this.prisma.productStock.updateMany({
+      where: { productId, locationId, quantity: { gte: quantity } },
+      data: { quantity: { decrement: quantity } },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Define o saldo do local
+   */
+  async setQuantity(productId: string, locationId: string, quantity: number): Promise<void> {
+    await this.prisma.productStock.upsert({
+      where: { productId_locationId: { productId, locationId } },
+      create: { productId, locationId, quantity },
+      update: { quantity },
+    });
+  }
+
+  /**
+   * Define o mínimo do produto no local
+   */
+  async setMinQuantity(productId: string, locationId: string, minQuantity: number | null): Promise<ProductStock> {
+    const stock = await this.prisma.productStock.upsert({
+      where: { productId_locationId: { productId, locationId } },
+      create: { productId, locationId, quantity: 0, minQuantity },
+      update: { minQuantity },
+      include: STOCK_INCLUDE,
+    });
+
+    return this.mapToEntity(stock);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    productId: string;
+    locationId: string;
+    quantity: number;
+    minQuantity: number | null;
+    updatedAt: Date;
+    product?: { name: string; minQuantity: number };
+    location?: { name: string };
+  }): ProductStock {
+    return new ProductStock({
+      id: data.id,
+      productId: data.productId,
+      locationId: data.locationId,
+      quantity: data.quantity,
+      minQuantity: data.minQuantity,
+      updatedAt: data.updatedAt,
+      productName: data.product?.name,
+      productMinQuantity: data.product?.minQuantity,
+      locationName: data.location?.name,
+    });
+  }
+}
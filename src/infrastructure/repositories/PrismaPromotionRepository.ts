@@ -0,0 +1,181 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: PROMOTION (PROMOÇÃO)
+// ============================================================================
+// Implementação do repositório de promoções usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// Os escopos `productIds` e `categoryIds` são gravados como JSON (texto);
+// null significa "todos os produtos/categorias".
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { Promotion, PromotionType } from '../../domain/entities/Promotion';
+import { IPromotionRepository, PromotionFilters } from '../../domain/repositories/IPromotionRepository';
+
+/**
+ * Repositório Prisma para a entidade Promotion
+ * @implements {IPromotionRepository}
+ */
+export class PrismaPromotionRepository implements IPromotionRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Cria uma nova promoção
+   */
+  async create(promotion: Promotion): Promise<Promotion> {
+    const created = await this.prisma.promotion.create({
+      data: this.toData(promotion),
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca uma promoção pelo ID
+   */
+  async findById(id: string): Promise<Promotion | null> {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { id },
+    });
+
+    return promotion ? this.mapToEntity(promotion) : null;
+  }
+
+  /**
+   * Lista promoções com filtros
+   */
+  async findAll(filters?: PromotionFilters): Promise<Promotion[]> {
+    const promotions = await this.prisma.promotion.findMany({
+      where: this.buildWhereClause(filters),
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return promotions.map(p => this.mapToEntity(p));
+  }
+
+  /**
+   * Lista as promoções valendo na data
+   */
+  async findRunning(date: Date): Promise<Promotion[]> {
+    const promotions = await this.prisma.promotion.findMany({
+      where: this.buildWhereClause({ runningAt: date }),
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return promotions.map(p => this.mapToEntity(p));
+  }
+
+  /**
+   * Atualiza uma promoção
+   */
+  async update(id: string, promotion: Promotion): Promise<Promotion> {
+    const updated = await this.prisma.promotion.update({
+      where: { id },
+      data: this.toData(promotion),
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Remove uma promoção
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.promotion.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Conta os itens de venda que usaram a promoção
+   */
+  async countUsage(id: string): Promise<number> {
+    return this.prisma.saleItem.count({
+      where: { promotionId: id },
+    });
+  }
+
+  /**
+   * Constrói cláusula WHERE a partir dos filtros
+   */
+  private buildWhereClause(filters?: PromotionFilters): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+
+    if (!filters) return where;
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    if (filters.runningAt) {
+      where.isActive = true;
+      where.startDate = { lte: filters.runningAt };
+      where.endDate = { gte: filters.runningAt };
+    }
+
+    return where;
+  }
+
+  /**
+   * Converte a entidade para os campos gravados
+   */
+  private toData(promotion: Promotion) {
+    return {
+      name: promotion.name,
+      description: promotion.description ?? null,
+      type: promotion.type,
+      value: promotion.value,
+      buyQuantity: promotion.buyQuantity ?? null,
+      getQuantity: promotion.getQuantity ?? null,
+      minPurchase: promotion.minPurchase ?? null,
+      startDate: promotion.startDate,
+      endDate: promotion.endDate,
+      isActive: promotion.isActive,
+      productIds: promotion.productIds ? JSON.stringify(promotion.productIds) : null,
+      categoryIds: promotion.categoryIds ? JSON.stringify(promotion.categoryIds) : null,
+    };
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    name: string;
+    description: string | null;
+    type: string;
+    value: number;
+    buyQuantity: number | null;
+    getQuantity: number | null;
+    minPurchase: number | null;
+    startDate: Date;
+    endDate: Date;
+    isActive: boolean;
+    productIds: string | null;
+    categoryIds: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Promotion {
+    return new Promotion({
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      type: data.type as PromotionType,
+      value: data.value,
+      buyQuantity: data.buyQuantity,
+      getQuantity: data.getQuantity,
+      minPurchase: data.minPurchase,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      isActive: data.isActive,
+      productIds: data.productIds ? JSON.parse(data.productIds) as string[] : null,
+      categoryIds: data.categoryIds ? JSON.parse(data.categoryIds) as string[] : null,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    });
+  }
+}
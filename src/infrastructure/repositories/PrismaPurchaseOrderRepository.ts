@@ -0,0 +1,198 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: PURCHASE ORDER (PEDIDO DE COMPRA)
+// ============================================================================
+// Implementação do repositório de pedidos de compra usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { PurchaseOrder, PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+import { PurchaseItem } from '../../domain/entities/PurchaseItem';
+import {
+  IPurchaseOrderRepository,
+  PurchaseOrderFilters,
+} from '../../domain/repositories/IPurchaseOrderRepository';
+
+/**
+ * Relacionamentos carregados com o pedido (itens com o nome do produto)
+ */
+const PURCHASE_ORDER_INCLUDE = {
+  items: { include: { product: { select: { name: true } } } },
+} as const;
+
+/**
+ * Repositório Prisma para a entidade PurchaseOrder
+ * @implements {IPurchaseOrderRepository}
+ */
+export class PrismaPurchaseOrderRepository implements IPurchaseOrderRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Cria um novo pedido com seus itens
+   */
+  async create(order: PurchaseOrder): Promise<PurchaseOrder> {
+    const created = await this.prisma.purchaseOrder.create({
+      data: {
+        supplierId: order.supplierId,
+        status: order.status,
+        totalAmount: order.totalAmount,
+        expectedDate: order.expectedDate,
+        paymentTerms: order.paymentTerms,
+        notes: order.notes,
+        items: {
+          create: order.items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            total: item.total,
+          })),
+        },
+      },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um pedido pelo ID
+   */
+  async findById(id: string): Promise<PurchaseOrder | null> {
+    const order = await this.prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    return order ? this.mapToEntity(order) : null;
+  }
+
+  /**
+   * Lista pedidos com filtros (mais recentes primeiro)
+   */
+  async findAll(filters?: PurchaseOrderFilters): Promise<PurchaseOrder[]> {
+    const orders = await this.prisma.purchaseOrder.findMany({
+      where: this.buildWhereClause(filters),
+      include: PURCHASE_ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return orders.map(o => this.mapToEntity(o));
+  }
+
+  /**
+   * Atualiza o status do pedido
+   */
+  async updateStatus(id: string, status: PurchaseOrderStatus): Promise<PurchaseOrder> {
+    const updated = await this.prisma.purchaseOrder.update({
+      where: { id },
+      data: { status },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Grava as quantidades recebidas dos itens e o status do pedido
+   */
+  async saveReceiving(order: PurchaseOrder): Promise<PurchaseOrder> {
+    for (const item of order.items) {
+      await this.prisma.purchaseItem.update({
+        where: { id: item.id },
+        data: {
+          receivedQuantity: item.receivedQuantity,
+          receivedAmount: item.receivedAmount,
+        },
+      });
+    }
+
+    const updated = await this.prisma.purchaseOrder.update({
+      where: { id: order.id },
+      data: {
+        status: order.status,
+        receivedDate: order.receivedDate,
+      },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Constrói a cláusula where a partir dos filtros
+   */
+  private buildWhereClause(filters?: PurchaseOrderFilters): Record<string, unknown> {
+    const where: Record<string, unknown> = {};
+
+    if (!filters) return where;
+
+    if (filters.supplierId) {
+      where.supplierId = filters.supplierId;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) {
+        (where.createdAt as Record<string, unknown>).gte = filters.startDate;
+      }
+      if (filters.endDate) {
+        (where.createdAt as Record<string, unknown>).lte = filters.endDate;
+      }
+    }
+
+    return where;
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    supplierId: string;
+    status: string;
+    totalAmount: number;
+    expectedDate: Date | null;
+    receivedDate: Date | null;
+    paymentTerms: string | null;
+    notes: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    items: Array<{
+      id: string;
+      purchaseOrderId: string;
+      productId: string;
+      quantity: number;
+      unitPrice: number;
+      total: number;
+      receivedQuantity: number;
+      receivedAmount: number;
+      product?: { name: string } | null;
+    }>;
+  }): PurchaseOrder {
+    return new PurchaseOrder({
+      id: data.id,
+      supplierId: data.supplierId,
+      status: data.status as PurchaseOrderStatus,
+      totalAmount: data.totalAmount,
+      expectedDate: data.expectedDate,
+      receivedDate: data.receivedDate,
+      paymentTerms: data.paymentTerms,
+      notes: data.notes,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      items: data.items.map(item => new PurchaseItem({
+        id: item.id,
+        purchaseOrderId: item.purchaseOrderId,
+        productId: item.productId,
+        productName: item.product?.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: item.total,
+        receivedQuantity: item.receivedQuantity,
+        receivedAmount: item.receivedAmount,
+      })),
+    });
+  }
+}
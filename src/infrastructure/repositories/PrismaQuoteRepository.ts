@@ -0,0 +1,183 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: QUOTE (ORÇAMENTO)
+// ============================================================================
+// Implementação do repositório de orçamentos usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { Quote, QuoteStatus } from '../../domain/entities/Quote';
+import { QuoteItem } from '../../domain/entities/QuoteItem';
+import { IQuoteRepository, QuoteFilters } from '../../domain/repositories/IQuoteRepository';
+
+/**
+ * Relacionamentos carregados com o orçamento (itens com produto e promoção)
+ */
+const QUOTE_INCLUDE = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+      promotion: { select: { name: true } },
+    },
+  },
+} as const;
+
+/**
+ * Repositório Prisma para a entidade Quote
+ * @implements {IQuoteRepository}
+ */
+export class PrismaQuoteRepository implements IQuoteRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra o orçamento com seus itens
+   */
+  async create(quote: Quote): Promise<Quote> {
+    const created = await this.prisma.quote.create({
+      data: {
+        clientId: quote.clientId,
+        userId: quote.userId,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        total: quote.total,
+        status: quote.status,
+        validUntil: quote.validUntil,
+        notes: quote.notes,
+        items: {
+          create: quote.items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discount,
+            total: item.total,
+            promotionId: item.promotionId,
+            promotionDiscount: item.promotionDiscount,
+          })),
+        },
+      },
+      include: QUOTE_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um orçamento pelo ID
+   */
+  async findById(id: string): Promise<Quote | null> {
+    const quote = await this.prisma.quote.findUnique({
+      where: { id },
+      include: QUOTE_INCLUDE,
+    });
+
+    return quote ? this.mapToEntity(quote) : null;
+  }
+
+  /**
+   * Lista orçamentos com filtros
+   */
+  async findAll(filters?: QuoteFilters): Promise<Quote[]> {
+    const quotes = await this.prisma.quote.findMany({
+      where: {
+        ...(filters?.clientId && { clientId: filters.clientId }),
+        ...(filters?.userId && { userId: filters.userId }),
+        ...(filters?.status && { status: filters.status }),
+      },
+      include: QUOTE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return quotes.map(q => this.mapToEntity(q));
+  }
+
+  /**
+   * Marca o orçamento como convertido
+   */
+  async markConverted(id: string, saleId: string): Promise<Quote> {
+    const updated = await this.prisma.quote.update({
+      where: { id },
+      data: {
+        status: QuoteStatus.CONVERTED,
+        saleId,
+        convertedAt: new Date(),
+      },
+      include: QUOTE_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Cancela o orçamento
+   */
+  async cancel(id: string): Promise<Quote> {
+    const updated = await this.prisma.quote.update({
+      where: { id },
+      data: { status: QuoteStatus.CANCELLED },
+      include: QUOTE_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    clientId: string | null;
+    userId: string;
+    subtotal: number;
+    discount: number;
+    total: number;
+    status: string;
+    validUntil: Date;
+    notes: string | null;
+    saleId: string | null;
+    convertedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+    items: Array<{
+      id: string;
+      quoteId: string;
+      productId: string;
+      quantity: number;
+      unitPrice: number;
+      discount: number;
+      total: number;
+      promotionId: string | null;
+      promotionDiscount: number;
+      product?: { name: string } | null;
+      promotion?: { name: string } | null;
+    }>;
+  }): Quote {
+    return new Quote({
+      id: data.id,
+      clientId: data.clientId,
+      userId: data.userId,
+      subtotal: data.subtotal,
+      discount: data.discount,
+      total: data.total,
+      status: data.status as QuoteStatus,
+      validUntil: data.validUntil,
+      notes: data.notes,
+      saleId: data.saleId,
+      convertedAt: data.convertedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      items: data.items.map(item => new QuoteItem({
+        id: item.id,
+        quoteId: item.quoteId,
+        productId: item.productId,
+        productName: item.product?.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        total: item.total,
+        promotionId: item.promotionId,
+        promotionName: item.promotion?.name,
+        promotionDiscount: item.promotionDiscount,
+      })),
+    });
+  }
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: RECEIPT (CUPOM DA VENDA)
+// ============================================================================
+// Implementação do repositório de cupons usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// O conteúdo do cupom é gravado como JSON na coluna `content`. O número
+// tem largura fixa (zeros à esquerda), então a ordenação textual coincide
+// com a numérica.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { Receipt, ReceiptContent } from '../../domain/entities/Receipt';
+import { IReceiptRepository } from '../../domain/repositories/IReceiptRepository';
+
+/**
+ * Repositório Prisma para a entidade Receipt
+ * @implements {IReceiptRepository}
+ */
+export class PrismaReceiptRepository implements IReceiptRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra um novo cupom
+   */
+  async create(receipt: Receipt): Promise<Receipt> {
+    const created = await this.prisma.receipt.create({
+      data: {
+        saleId: receipt.saleId,
+        number: receipt.number,
+        content: JSON.stringify(receipt.content),
+        printCount: receipt.printCount,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca o cupom de uma venda
+   */
+  async findBySaleId(saleId: string): Promise<Receipt | null> {
+    const receipt = await this.prisma.receipt.findUnique({
+      where: { saleId },
+    });
+
+    return receipt ? this.mapToEntity(receipt) : null;
+  }
+
+  /**
+   * Busca o último número emitido
+   */
+  async findLastNumber(): Promise<string | null> {
+    const last = await this.prisma.receipt.findFirst({
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    return last?.number ?? null;
+  }
+
+  /**
+   * Registra a impressão de uma via
+   */
+  async registerPrint(id: string): Promise<Receipt> {
+    const updated = await this.prisma.receipt.update({
+      where: { id },
+      data: { printCount: { increment: 1 } },
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    saleId: string;
+    number: string;
+    content: string;
+    printCount: number;
+    createdAt: Date;
+  }): Receipt {
+    return new Receipt({
+      id: data.id,
+      saleId: data.saleId,
+      number: data.number,
+      content: JSON.parse(data.content) as ReceiptContent,
+      printCount: data.printCount,
+      createdAt: data.createdAt,
+    });
+  }
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: SALE DRAFT (VENDA SUSPENSA)
+// ============================================================================
+// Implementação do repositório de vendas suspensas usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// As vendas suspensas são gravadas em VendasSuspensas e voltam como Sale
+// com status DRAFT.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { Sale, PaymentStatus } from '../../domain/entities/Sale';
+import { SaleItem } from '../../domain/entities/SaleItem';
+import { ISaleDraftRepository, SaleDraftFilters } from '../../domain/repositories/ISaleDraftRepository';
+
+/**
+ * Relacionamentos carregados com a venda suspensa (itens com produto e promoção)
+ */
+const DRAFT_INCLUDE = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+      promotion: { select: { name: true } },
+    },
+  },
+} as const;
+
+/**
+ * Repositório Prisma para as vendas suspensas
+ * @implements {ISaleDraftRepository}
+ */
+export class PrismaSaleDraftRepository implements ISaleDraftRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Grava a venda suspensa com seus itens
+   */
+  async create(draft: Sale): Promise<Sale> {
+    const created = await this.prisma.saleDraft.create({
+      data: {
+        clientId: draft.clientId,
+        userId: draft.userId,
+        sessionId: draft.sessionId,
+        subtotal: draft.subtotal,
+        discount: draft.discount,
+        total: draft.total,
+        notes: draft.notes,
+        items: {
+          create: draft.items.map(item => this.toItemData(item)),
+        },
+      },
+      include: DRAFT_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca uma venda suspensa pelo ID
+   */
+  async findById(id: string): Promise<Sale | null> {
+    const draft = await this.prisma.saleDraft.findUnique({
+      where: { id },
+      include: DRAFT_INCLUDE,
+    });
+
+    return draft ? this.mapToEntity(draft) : null;
+  }
+
+  /**
+   * Lista vendas suspensas com filtros
+   */
+  async findAll(filters?: SaleDraftFilters): Promise<Sale[]> {
+    const drafts = await this.prisma.saleDraft.findMany({
+      where: {
+        ...(filters?.userId && { userId: filters.userId }),
+        ...(filters?.sessionId && { sessionId: filters.sessionId }),
+      },
+      include: DRAFT_INCLUDE,
+      orderBy: { updatedAt: 'asc' },
+    });
+
+    return drafts.map(d => this.mapToEntity(d));
+  }
+
+  /**
+   * Sincroniza itens e totais da venda suspensa
+   */
+  async save(draft: Sale): Promise<Sale> {
+    const keptIds = draft.items.filter(item => item.id).map(item => item.id!);
+
+    await this.prisma.saleDraftItem.deleteMany({
+      where: { draftId: draft.id, id: { notIn: keptIds } },
+    });
+
+    const updated = await this.prisma.saleDraft.update({
+      where: { id: draft.id },
+      data: {
+        clientId: draft.clientId,
+        subtotal: draft.subtotal,
+        discount: draft.discount,
+        total: draft.total,
+        notes: draft.notes,
+        items: {
+          create: draft.items.filter(item => !item.id).map(item => this.toItemData(item)),
+        },
+      },
+      include: DRAFT_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Exclui uma venda suspensa (os itens saem em cascata)
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.saleDraft.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Exclui as vendas suspensas paradas desde a data
+   */
+  async deleteStale(updatedBefore: Date): Promise<number> {
+    const result = await this.prisma.saleDraft.deleteMany({
+      where: { updatedAt: { lt: updatedBefore } },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Dados de gravação de um item
+   */
+  private toItemData(item: SaleItem) {
+    return {
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      total: item.total,
+      promotionId: item.promotionId,
+      promotionDiscount: item.promotionDiscount,
+    };
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    clientId: string | null;
+    userId: string;
+    sessionId: string | null;
+    subtotal: number;
+    discount: number;
+    total: number;
+    notes: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    items: Array<{
+      id: string;
+      draftId: string;
+      productId: string;
+      quantity: number;
+      unitPrice: number;
+      discount: number;
+      total: number;
+      promotionId: string | null;
+      promotionDiscount: number;
+      product?: { name: string } | null;
+      promotion?: { name: string } | null;
+    }>;
+  }): Sale {
+    return new Sale({
+      id: data.id,
+      clientId: data.clientId || undefined,
+      userId: data.userId,
+      sessionId: data.sessionId,
+      subtotal: data.subtotal,
+      discount: data.discount,
+      total: data.total,
+      paymentStatus: PaymentStatus.DRAFT,
+      notes: data.notes || undefined,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      items: data.items.map(item => new SaleItem({
+        id: item.id,
+        saleId: item.draftId,
+        productId: item.productId,
+        productName: item.product?.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        total: item.total,
+        promotionId: item.promotionId,
+        promotionName: item.promotion?.name,
+        promotionDiscount: item.promotionDiscount,
+      })),
+    });
+  }
+}
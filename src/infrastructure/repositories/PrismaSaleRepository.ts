@@ -5,17 +5,32 @@
 // Camada de Infraestrutura - Implementa a interface definida no domínio.
 // ============================================================================
 
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { Sale, PaymentMethod, PaymentStatus } from '../../domain/entities/Sale';
 import { SaleItem } from '../../domain/entities/SaleItem';
+import { SalePayment } from '../../domain/entities/SalePayment';
 import { ISaleRepository, SaleFilters, SalesSummary } from '../../domain/repositories/ISaleRepository';
 
+/**
+ * Relacionamentos carregados com a venda (itens com o nome do produto e
+ * parcelas do pagamento)
+ */
+const SALE_INCLUDE = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+      promotion: { select: { name: true } },
+    },
+  },
+  payments: true,
+} as const;
+
 /**
  * Repositório Prisma para a entidade Sale
  * @implements {ISaleRepository}
  */
 export class PrismaSaleRepository implements ISaleRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   /**
    * Cria uma nova venda com seus itens
@@ -31,6 +46,7 @@ export class PrismaSaleRepository implements ISaleRepository {
         paymentMethod: sale.paymentMethod,
         paymentStatus: sale.paymentStatus,
         notes: sale.notes,
+        sessionId: sale.sessionId,
         items: {
           create: sale.items.map(item => ({
             productId: item.productId,
@@ -38,12 +54,19 @@ export class PrismaSaleRepository implements ISaleRepository {
             unitPrice: item.unitPrice,
             discount: item.discount,
             total: item.total,
+            promotionId: item.promotionId,
+            promotionDiscount: item.promotionDiscount,
+          })),
+        },
+        payments: {
+          create: sale.payments.map(payment => ({
+            paymentMethod: payment.paymentMethod,
+            amount: payment.amount,
+            amountReceived: payment.amountReceived,
           })),
         },
       },
-      include: {
-        items: true,
-      },
+      include: SALE_INCLUDE,
     });
 
     return this.mapToEntity(created);
@@ -55,7 +78,7 @@ export class PrismaSaleRepository implements ISaleRepository {
   async findById(id: string): Promise<Sale | null> {
     const sale = await this.prisma.sale.findUnique({
       where: { id },
-      include: { items: true },
+      include: SALE_INCLUDE,
     });
 
     return sale ? this.mapToEntity(sale) : null;
@@ -69,7 +92,7 @@ export class PrismaSaleRepository implements ISaleRepository {
 
     const sales = await this.prisma.sale.findMany({
       where,
-      include: { items: true },
+      include: SALE_INCLUDE,
       orderBy: { createdAt: 'desc' },
     });
 
@@ -82,7 +105,7 @@ export class PrismaSaleRepository implements ISaleRepository {
   async findByClient(clientId: string): Promise<Sale[]> {
     const sales = await this.prisma.sale.findMany({
       where: { clientId },
-      include: { items: true },
+      include: SALE_INCLUDE,
       orderBy: { createdAt: 'desc' },
     });
 
@@ -98,7 +121,7 @@ export class PrismaSaleRepository implements ISaleRepository {
         clientId,
         paymentStatus: 'PENDING',
       },
-      include: { items: true },
+      include: SALE_INCLUDE,
       orderBy: { createdAt: 'desc' },
     });
 
@@ -116,7 +139,7 @@ export class PrismaSaleRepository implements ISaleRepository {
           lte: endDate,
         },
       },
-      include: { items: true },
+      include: SALE_INCLUDE,
       orderBy: { createdAt: 'desc' },
     });
 
@@ -146,7 +169,7 @@ export class PrismaSaleRepository implements ISaleRepository {
         paymentStatus: data.paymentStatus,
         notes: data.notes,
       },
-      include: { items: true },
+      include: SALE_INCLUDE,
     });
 
     return this.mapToEntity(updated);
@@ -159,6 +182,46 @@ export class PrismaSaleRepository implements ISaleRepository {
     return this.update(id, { paymentStatus: status });
   }
 
+  /**
+   * Grava a devolução: itens devolvidos, valores e status de pagamento
+   */
+  async saveReturn(sale: Sale): Promise<Sale> {
+    for (const item of sale.items) {
+      await this.prisma.saleItem.update({
+        where: { id: item.id },
+        data: { returnedQuantity: item.returnedQuantity },
+      });
+    }
+
+    const updated = await this.prisma.sale.update({
+      where: { id: sale.id },
+      data: {
+        returnedAmount: sale.returnedAmount,
+        creditRefunded: sale.creditRefunded,
+        paymentStatus: sale.paymentStatus,
+      },
+      include: SALE_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Grava o pagamento do fiado: valor pago e status de pagamento
+   */
+  async saveCreditPayment(sale: Sale): Promise<Sale> {
+    const updated = await this.prisma.sale.update({
+      where: { id: sale.id },
+      data: {
+        creditPaid: sale.creditPaid,
+        paymentStatus: sale.paymentStatus,
+      },
+      include: SALE_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
   /**
    * Cancela uma venda
    */
@@ -195,25 +258,28 @@ export class PrismaSaleRepository implements ISaleRepository {
         },
         paymentStatus: { not: 'CANCELLED' },
       },
+      include: { payments: true },
     });
 
     const totalSales = sales.length;
-    const totalAmount = sales.reduce((sum, sale) => sum + sale.total, 0);
+    const totalReturned = sales.reduce((sum, sale) => sum + sale.returnedAmount, 0);
+    const totalAmount = sales.reduce((sum, sale) => sum + sale.total, 0) - totalReturned;
     const totalDiscount = sales.reduce((sum, sale) => sum + sale.discount, 0);
 
-    // Agrupa por forma de pagamento
+    // Agrupa pelas parcelas do pagamento (venda dividida conta em cada forma)
     const byPaymentMethod: Record<string, { count: number; amount: number }> = {};
-    sales.forEach(sale => {
-      if (!byPaymentMethod[sale.paymentMethod]) {
-        byPaymentMethod[sale.paymentMethod] = { count: 0, amount: 0 };
+    sales.flatMap(sale => sale.payments).forEach(payment => {
+      if (!byPaymentMethod[payment.paymentMethod]) {
+        byPaymentMethod[payment.paymentMethod] = { count: 0, amount: 0 };
       }
-      byPaymentMethod[sale.paymentMethod].count++;
-      byPaymentMethod[sale.paymentMethod].amount += sale.total;
+      byPaymentMethod[payment.paymentMethod].count++;
+      byPaymentMethod[payment.paymentMethod].amount += payment.amount;
     });
 
     return {
       totalSales,
       totalAmount,
+      totalReturned,
       totalDiscount,
       averageTicket: totalSales > 0 ? totalAmount / totalSales : 0,
       byPaymentMethod,
@@ -235,11 +301,14 @@ export class PrismaSaleRepository implements ISaleRepository {
       where.userId = filters.userId;
     }
     if (filters.paymentMethod) {
-      where.paymentMethod = filters.paymentMethod;
+      where.payments = { some: { paymentMethod: filters.paymentMethod } };
     }
     if (filters.paymentStatus) {
       where.paymentStatus = filters.paymentStatus;
     }
+    if (filters.sessionId) {
+      where.sessionId = filters.sessionId;
+    }
     if (filters.startDate || filters.endDate) {
       where.createdAt = {};
       if (filters.startDate) {
@@ -266,6 +335,10 @@ export class PrismaSaleRepository implements ISaleRepository {
     paymentMethod: string;
     paymentStatus: string;
     notes: string | null;
+    sessionId: string | null;
+    returnedAmount: number;
+    creditRefunded: number;
+    creditPaid: number;
     createdAt: Date;
     updatedAt: Date;
     items: Array<{
@@ -276,16 +349,41 @@ export class PrismaSaleRepository implements ISaleRepository {
       unitPrice: number;
       discount: number;
       total: number;
+      promotionId: string | null;
+      promotionDiscount: number;
+      returnedQuantity: number;
+      product?: { name: string } | null;
+      promotion?: { name: string } | null;
+    }>;
+    payments: Array<{
+      id: string;
+      saleId: string;
+      paymentMethod: string;
+      amount: number;
+      amountReceived: number | null;
     }>;
   }): Sale {
     const items = data.items.map(item => new SaleItem({
       id: item.id,
       saleId: item.saleId,
       productId: item.productId,
+      productName: item.product?.name,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       discount: item.discount,
       total: item.total,
+      promotionId: item.promotionId,
+      promotionName: item.promotion?.name,
+      promotionDiscount: item.promotionDiscount,
+      returnedQuantity: item.returnedQuantity,
+    }));
+
+    const payments = data.payments.map(payment => new SalePayment({
+      id: payment.id,
+      saleId: payment.saleId,
+      paymentMethod: payment.paymentMethod as PaymentMethod,
+      amount: payment.amount,
+      amountReceived: payment.amountReceived,
     }));
 
     return new Sale({
@@ -295,10 +393,15 @@ export class PrismaSaleRepository implements ISaleRepository {
       subtotal: data.subtotal,
       total: data.total,
       items,
+      payments,
       discount: data.discount,
       paymentMethod: data.paymentMethod as PaymentMethod,
       paymentStatus: data.paymentStatus as PaymentStatus,
       notes: data.notes || undefined,
+      sessionId: data.sessionId,
+      returnedAmount: data.returnedAmount,
+      creditRefunded: data.creditRefunded,
+      creditPaid: data.creditPaid,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     });
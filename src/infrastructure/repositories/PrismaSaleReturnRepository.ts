@@ -0,0 +1,128 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: SALE RETURN (DEVOLUÇÃO DE VENDA)
+// ============================================================================
+// Implementação do repositório de devoluções usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { SaleReturn, RefundMethod } from '../../domain/entities/SaleReturn';
+import { SaleReturnItem } from '../../domain/entities/SaleReturnItem';
+import { ISaleReturnRepository } from '../../domain/repositories/ISaleReturnRepository';
+
+/**
+ * Relacionamentos carregados com a devolução (itens com o nome do produto)
+ */
+const RETURN_INCLUDE = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+    },
+  },
+} as const;
+
+/**
+ * Repositório Prisma para as devoluções de vendas
+ * @implements {ISaleReturnRepository}
+ */
+export class PrismaSaleReturnRepository implements ISaleReturnRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra a devolução com seus itens
+   */
+  async create(saleReturn: SaleReturn): Promise<SaleReturn> {
+    const created = await this.prisma.saleReturn.create({
+      data: {
+        saleId: saleReturn.saleId,
+        userId: saleReturn.userId,
+        refundMethod: saleReturn.refundMethod,
+        amount: saleReturn.amount,
+        reason: saleReturn.reason,
+        sessionId: saleReturn.sessionId,
+        items: {
+          create: saleReturn.items.map(item => ({
+            saleItemId: item.saleItemId,
+            productId: item.productId,
+            quantity: item.quantity,
+            amount: item.amount,
+            damaged: item.damaged,
+          })),
+        },
+      },
+      include: RETURN_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca uma devolução pelo ID
+   */
+  async findById(id: string): Promise<SaleReturn | null> {
+    const saleReturn = await this.prisma.saleReturn.findUnique({
+      where: { id },
+      include: RETURN_INCLUDE,
+    });
+
+    return saleReturn ? this.mapToEntity(saleReturn) : null;
+  }
+
+  /**
+   * Lista as devoluções de uma venda
+   */
+  async findBySale(saleId: string): Promise<SaleReturn[]> {
+    const saleReturns = await this.prisma.saleReturn.findMany({
+      where: { saleId },
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return saleReturns.map(r => this.mapToEntity(r));
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    saleId: string;
+    userId: string;
+    refundMethod: string;
+    amount: number;
+    reason: string | null;
+    sessionId: string | null;
+    createdAt: Date;
+    items: Array<{
+      id: string;
+      returnId: string;
+      saleItemId: string;
+      productId: string;
+      quantity: number;
+      amount: number;
+      damaged: boolean;
+      product?: { name: string } | null;
+    }>;
+  }): SaleReturn {
+    return new SaleReturn({
+      id: data.id,
+      saleId: data.saleId,
+      userId: data.userId,
+      refundMethod: data.refundMethod as RefundMethod,
+      amount: data.amount,
+      reason: data.reason,
+      sessionId: data.sessionId,
+      createdAt: data.createdAt,
+      items: data.items.map(item => new SaleReturnItem({
+        id: item.id,
+        returnId: item.returnId,
+        saleItemId: item.saleItemId,
+        productId: item.productId,
+        productName: item.product?.name,
+        quantity: item.quantity,
+        amount: item.amount,
+        damaged: item.damaged,
+      })),
+    });
+  }
+}
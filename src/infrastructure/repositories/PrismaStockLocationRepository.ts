@@ -0,0 +1,128 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: STOCK LOCATION (LOCAL DE ESTOQUE)
+// ============================================================================
+// Implementação do repositório de locais de estoque usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { StockLocation } from '../../domain/entities/StockLocation';
+import {
+  IStockLocationRepository,
+  StockLocationFilters,
+  StockLocationUpdateData,
+} from '../../domain/repositories/IStockLocationRepository';
+
+/**
+ * Repositório Prisma para a entidade StockLocation
+ * @implements {IStockLocationRepository}
+ */
+export class PrismaStockLocationRepository implements IStockLocationRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Cadastra um local
+   */
+  async create(location: StockLocation): Promise<StockLocation> {
+    const created = await this.prisma.stockLocation.create({
+      data: {
+        name: location.name,
+        description: location.description,
+        isDefault: location.isDefault,
+        isActive: location.isActive,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um local pelo ID
+   */
+  async findById(id: string): Promise<StockLocation | null> {
+    const location = await this.prisma.stockLocation.findUnique({ where: { id } });
+    return location ? this.mapToEntity(location) : null;
+  }
+
+  /**
+   * Busca um local pelo nome
+   */
+  async findByName(name: string): Promise<StockLocation | null> {
+    const location = await this.prisma.stockLocation.findUnique({ where: { name } });
+    return location ? this.mapToEntity(location) : null;
+  }
+
+  /**
+   * Lista locais (padrão primeiro, depois por nome)
+   */
+  async findAll(filters?: StockLocationFilters): Promise<StockLocation[]> {
+    const locations = await this.prisma.stockLocation.findMany({
+      where: {
+        ...(filters?.isActive !== undefined && { isActive: filters.isActive }),
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return locations.map(l => this.mapToEntity(l));
+  }
+
+  /**
+   * Busca o local padrão
+   */
+  async findDefault(): Promise<StockLocation | null> {
+    const location = await this.prisma.stockLocation.findFirst({ where: { isDefault: true } });
+    return location ? this.mapToEntity(location) : null;
+  }
+
+  /**
+   * Atualiza um local
+   */
+  async update(id: string, data: StockLocationUpdateData): Promise<StockLocation> {
+    const updated = await this.prisma.stockLocation.update({
+      where: { id },
+      data,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Torna o local o padrão, desmarcando o anterior
+   */
+  async setDefault(id: string): Promise<StockLocation> {
+    await this.prisma.stockLocation.updateMany({
+      where: { isDefault: true, id: { not: id } },
+      data: { isDefault: false },
+    });
+
+    const updated = await this.prisma.stockLocation.update({
+      where: { id },
+      data: { isDefault: true, isActive: true },
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    name: string;
+    description: string | null;
+    isDefault: boolean;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): StockLocation {
+    return new StockLocation({
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      isDefault: data.isDefault,
+      isActive: data.isActive,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,187 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: STOCK LOT (LOTE DE ESTOQUE)
+// ============================================================================
+// Implementação do repositório de lotes de estoque usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+//
+// Cada baixa ou estorno de lote grava uma linha em AlocacoesLote ligada à
+// movimentação de estoque, o que permite devolver ao lote certo as unidades
+// de uma venda devolvida ou cancelada.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { StockLot } from '../../domain/entities/StockLot';
+import {
+  IStockLotRepository,
+  StockLotFilters,
+  StockLotBalance,
+} from '../../domain/repositories/IStockLotRepository';
+
+/**
+ * Relacionamentos carregados com o lote (nomes do produto e do local)
+ */
+const LOT_INCLUDE = {
+  product: { select: { name: true } },
+  location: { select: { name: true } },
+} as const;
+
+/**
+ * Ordem FEFO: validade mais próxima primeiro, lotes sem validade por último
+ */
+const FEFO_ORDER = [
+  { expirationDate: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+] as const;
+
+/**
+ * Repositório Prisma para a entidade StockLot
+ * @implements {IStockLotRepository}
+ */
+export class PrismaStockLotRepository implements IStockLotRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra um lote
+   */
+  async create(lot: StockLot): Promise<StockLot> {
+    const created = await this.prisma.stockLot.create({
+      data: {
+        productId: lot.productId,
+        entryMovementId: lot.entryMovementId,
+        locationId: lot.locationId,
+        originLotId: lot.originLotId,
+        code: lot.code,
+        quantity: lot.quantity,
+        remaining: lot.remaining,
+        expirationDate: lot.expirationDate,
+        unitCost: lot.unitCost,
+      },
+      include: LOT_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca um lote pelo ID
+   */
+  async findById(id: string): Promise<StockLot | null> {
+    const lot = await this.prisma.stockLot.findUnique({
+      where: { id },
+      include: LOT_INCLUDE,
+    });
+
+    return lot ? this.mapToEntity(lot) : null;
+  }
+
+  /**
+   * Lista lotes com filtros (ordem FEFO)
+   */
+  async findAll(filters?: StockLotFilters): Promise<StockLot[]> {
+    const lots = await this.prisma.stockLot.findMany({
+      where: {
+        ...(filters?.productId && { productId: filters.productId }),
+        ...(filters?.locationId && { locationId: filters.locationId }),
+        ...(!filters?.includeDepleted && { remaining: { gt: 0 } }),
+        ...((filters?.expiresBefore || filters?.expiresAfter) && {
+          expirationDate: {
+            ...(filters.expiresBefore && { lte: filters.expiresBefore }),
+            ...(filters.expiresAfter && { gt: filters.expiresAfter }),
+          },
+        }),
+      },
+      include: LOT_INCLUDE,
+      orderBy: [...FEFO_ORDER],
+    });
+
+    return lots.map(l => this.mapToEntity(l));
+  }
+
+  /**
+   * Lotes com saldo de um produto em um local (ordem FEFO)
+   */
+  async findAvailable(productId: string, locationId: string): Promise<StockLot[]> {
+    return this.findAll({ productId, locationId });
+  }
+
+  /**
+   * Altera o saldo do lote e registra a alocação
+   */
+  async allocate(lotId: string, movementId: string, quantity: number): Promise<StockLot> {
+    await this.prisma.stockLotAllocation.create({
+      data: { lotId, movementId, quantity },
+    });
+
+    const updated = await this.prisma.stockLot.update({
+      where: { id: lotId },
+      data: { remaining: { increment: quantity } },
+      include: LOT_INCLUDE,
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Unidades da venda ainda fora de cada lote (baixas - estornos)
+   */
+  async findOutstandingBySale(saleId: string, productId: string): Promise<StockLotBalance[]> {
+    const groups = await this.prisma.stockLotAllocation.groupBy({
+      by: ['lotId'],
+      where: { movement: { saleId, productId } },
+      _sum: { quantity: true },
+    });
+
+    const outstanding = groups
+      .map(group => ({ lotId: group.lotId, quantity: -(group._sum.quantity ?? 0) }))
+      .filter(group => group.quantity > 0);
+    if (outstanding.length === 0) return [];
+
+    const lots = await this.prisma.stockLot.findMany({
+      where: { id: { in: outstanding.map(group => group.lotId) } },
+      include: LOT_INCLUDE,
+      orderBy: [...FEFO_ORDER],
+    });
+
+    return lots.map(lot => ({
+      lot: this.mapToEntity(lot),
+      quantity: outstanding.find(group => group.lotId === lot.id)!.quantity,
+    }));
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    productId: string;
+    entryMovementId: string | null;
+    locationId: string | null;
+    originLotId: string | null;
+    code: string | null;
+    quantity: number;
+    remaining: number;
+    expirationDate: Date | null;
+    unitCost: number | null;
+    createdAt: Date;
+    updatedAt: Date;
+    product?: { name: string };
+    location?: { name: string } | null;
+  }): StockLot {
+    return new StockLot({
+      id: data.id,
+      productId: data.productId,
+      entryMovementId: data.entryMovementId,
+      locationId: data.locationId,
+      originLotId: data.originLotId,
+      code: data.code,
+      quantity: data.quantity,
+      remaining: data.remaining,
+      expirationDate: data.expirationDate,
+      unitCost: data.unitCost,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      productName: data.product?.name,
+      locationName: data.location?.name,
+    });
+  }
+}
@@ -1,11 +1,11 @@
 // Repositório de StockMovement com Prisma - Camada de Infraestrutura
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { StockMovement, MovementType } from '../../domain/entities/StockMovement';
 import { Product } from '../../domain/entities/Product';
 import { IStockMovementRepository, StockMovementFilters } from '../../domain/repositories/IStockMovementRepository';
 
 export class PrismaStockMovementRepository implements IStockMovementRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   private mapToStockMovement(data: any): StockMovement {
     return new StockMovement({
@@ -16,6 +16,13 @@ export class PrismaStockMovementRepository implements IStockMovementRepository {
       reason: data.reason,
       unitPrice: data.unitPrice,
       totalPrice: data.totalPrice,
+      saleId: data.saleId,
+      purchaseOrderId: data.purchaseOrderId,
+      userId: data.userId,
+      locationId: data.locationId,
+      transferId: data.transferId,
+      previousQuantity: data.previousQuantity,
+      newQuantity: data.newQuantity,
       createdAt: data.createdAt,
       product: data.product
         ? new Product({
@@ -48,6 +55,13 @@ export class PrismaStockMovementRepository implements IStockMovementRepository {
         reason: movement.reason,
         unitPrice: movement.unitPrice,
         totalPrice: movement.totalPrice,
+        saleId: movement.saleId,
+        purchaseOrderId: movement.purchaseOrderId,
+        userId: movement.userId,
+        locationId: movement.locationId,
+        transferId: movement.transferId,
+        previousQuantity: movement.previousQuantity,
+        newQuantity: movement.newQuantity,
       },
       include: {
         product: true,
@@ -80,6 +94,21 @@ export class PrismaStockMovementRepository implements IStockMovementRepository {
       if (filters.type) {
         where.type = filters.type;
       }
+      if (filters.saleId) {
+        where.saleId = filters.saleId;
+      }
+      if (filters.purchaseOrderId) {
+        where.purchaseOrderId = filters.purchaseOrderId;
+      }
+      if (filters.userId) {
+        where.userId = filters.userId;
+      }
+      if (filters.locationId) {
+        where.locationId = filters.locationId;
+      }
+      if (filters.transferId) {
+        where.transferId = filters.transferId;
+      }
       if (filters.startDate || filters.endDate) {
         where.createdAt = {};
         if (filters.startDate) {
@@ -143,6 +172,15 @@ export class PrismaStockMovementRepository implements IStockMovementRepository {
     return movements.map((movement) => this.mapToStockMovement(movement));
   }
 
+  async findLedger(productId?: string): Promise<StockMovement[]> {
+    const movements = await this.prisma.stockMovement.findMany({
+      where: productId ? { productId } : undefined,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return movements.map((movement) => this.mapToStockMovement(movement));
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.stockMovement.delete({
       where: { id },
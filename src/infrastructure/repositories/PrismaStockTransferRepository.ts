@@ -0,0 +1,116 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: STOCK TRANSFER (TRANSFERÊNCIA ENTRE LOCAIS)
+// ============================================================================
+// Implementação do repositório de transferências usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import { StockTransfer } from '../../domain/entities/StockTransfer';
+import {
+  IStockTransferRepository,
+  StockTransferFilters,
+} from '../../domain/repositories/IStockTransferRepository';
+
+/**
+ * Relacionamentos carregados com a transferência (nomes)
+ */
+const TRANSFER_INCLUDE = {
+  product: { select: { name: true } },
+  fromLocation: { select: { name: true } },
+  toLocation: { select: { name: true } },
+} as const;
+
+/**
+ * Repositório Prisma para a entidade StockTransfer
+ * @implements {IStockTransferRepository}
+ */
+export class PrismaStockTransferRepository implements IStockTransferRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra uma transferência
+   */
+  async create(transfer: StockTransfer): Promise<StockTransfer> {
+    const created = await this.prisma.stockTransfer.create({
+      data: {
+        productId: transfer.productId,
+        fromLocationId: transfer.fromLocationId,
+        toLocationId: transfer.toLocationId,
+        quantity: transfer.quantity,
+        reason: transfer.reason,
+        userId: transfer.userId,
+      },
+      include: TRANSFER_INCLUDE,
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Busca uma transferência pelo ID
+   */
+  async findById(id: string): Promise<StockTransfer | null> {
+    const transfer = await this.prisma.stockTransfer.findUnique({
+      where: { id },
+      include: TRANSFER_INCLUDE,
+    });
+
+    return transfer ? this.mapToEntity(transfer) : null;
+  }
+
+  /**
+   * Lista transferências com filtros (mais recentes primeiro)
+   */
+  async findAll(filters?: StockTransferFilters): Promise<StockTransfer[]> {
+    const transfers = await this.prisma.stockTransfer.findMany({
+      where: {
+        ...(filters?.productId && { productId: filters.productId }),
+        ...(filters?.locationId && {
+          OR: [{ fromLocationId: filters.locationId }, { toLocationId: filters.locationId }],
+        }),
+        ...((filters?.startDate || filters?.endDate) && {
+          createdAt: {
+            ...(filters.startDate && { gte: filters.startDate }),
+            ...(filters.endDate && { lte: filters.endDate }),
+          },
+        }),
+      },
+      include: TRANSFER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return transfers.map(t => this.mapToEntity(t));
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    productId: string;
+    fromLocationId: string;
+    toLocationId: string;
+    quantity: number;
+    reason: string | null;
+    userId: string | null;
+    createdAt: Date;
+    product?: { name: string };
+    fromLocation?: { name: string };
+    toLocation?: { name: string };
+  }): StockTransfer {
+    return new StockTransfer({
+      id: data.id,
+      productId: data.productId,
+      fromLocationId: data.fromLocationId,
+      toLocationId: data.toLocationId,
+      quantity: data.quantity,
+      reason: data.reason,
+      userId: data.userId,
+      createdAt: data.createdAt,
+      productName: data.product?.name,
+      fromLocationName: data.fromLocation?.name,
+      toLocationName: data.toLocation?.name,
+    });
+  }
+}
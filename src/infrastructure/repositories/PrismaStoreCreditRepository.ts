@@ -0,0 +1,161 @@
+// ============================================================================
+// REPOSITÓRIO PRISMA: STORE CREDIT (VALE-TROCA)
+// ============================================================================
+// Implementação do repositório de lançamentos do vale-troca usando Prisma ORM.
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import { DatabaseClient } from '../database/database-client';
+import {
+  StoreCreditTransaction,
+  StoreCreditTransactionType,
+} from '../../domain/entities/StoreCreditTransaction';
+import {
+  IStoreCreditRepository,
+  StoreCreditFilters,
+} from '../../domain/repositories/IStoreCreditRepository';
+
+/**
+ * Repositório Prisma para a entidade StoreCreditTransaction
+ * @implements {IStoreCreditRepository}
+ */
+export class PrismaStoreCreditRepository implements IStoreCreditRepository {
+  constructor(private prisma: DatabaseClient) {}
+
+  /**
+   * Registra um novo lançamento
+   */
+  async create(transaction: StoreCreditTransaction): Promise<StoreCreditTransaction> {
+    const created = await this.prisma.storeCreditTransaction.create({
+      data: {
+        clientId: transaction.clientId,
+        type: transaction.type,
+        amount: transaction.amount,
+        remaining: transaction.remaining,
+        expiresAt: transaction.expiresAt,
+        description: transaction.description,
+        saleId: transaction.saleId,
+        returnId: transaction.returnId,
+        userId: transaction.userId,
+      },
+    });
+
+    return this.mapToEntity(created);
+  }
+
+  /**
+   * Lista os lançamentos de um cliente no período (mais antigos primeiro)
+   */
+  async findByClient(clientId: string, filters?: StoreCreditFilters): Promise<StoreCreditTransaction[]> {
+    const where: Record<string, unknown> = { clientId };
+
+    if (filters?.startDate || filters?.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate }),
+      };
+    }
+
+    const transactions = await this.prisma.storeCreditTransaction.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return transactions.map(t => this.mapToEntity(t));
+  }
+
+  /**
+   * Emissões com saldo e válidas na data (as que vencem primeiro antes)
+   */
+  async findAvailable(clientId: string, at: Date): Promise<StoreCreditTransaction[]> {
+    const issues = await this.prisma.storeCreditTransaction.findMany({
+      where: {
+        clientId,
+        type: StoreCreditTransactionType.ISSUE,
+        remaining: { gt: 0 },
+        expiresAt: { gt: at },
+      },
+      orderBy: [{ expiresAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return issues.map(t => this.mapToEntity(t));
+  }
+
+  /**
+   * Emissões com saldo já vencidas na data
+   */
+  async findExpired(at: Date): Promise<StoreCreditTransaction[]> {
+    const issues = await this.prisma.storeCreditTransaction.findMany({
+      where: {
+        type: StoreCreditTransactionType.ISSUE,
+        remaining: { gt: 0 },
+        expiresAt: { lte: at },
+      },
+      orderBy: [{ clientId: 'asc' }, { expiresAt: 'asc' }],
+    });
+
+    return issues.map(t => this.mapToEntity(t));
+  }
+
+  /**
+   * Atualiza o saldo não usado de uma emissão
+   */
+  async updateRemaining(id: string, remaining: number): Promise<StoreCreditTransaction> {
+    const updated = await this.prisma.storeCreditTransaction.update({
+      where: { id },
+      data: { remaining },
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  /**
+   * Calcula o saldo de vale-troca (emissões - usos - vencimentos)
+   */
+  async getBalance(clientId: string, before?: Date): Promise<number> {
+    const totals = await this.prisma.storeCreditTransaction.groupBy({
+      by: ['type'],
+      where: {
+        clientId,
+        ...(before && { createdAt: { lt: before } }),
+      },
+      _sum: { amount: true },
+    });
+
+    return totals.reduce((balance, total) => {
+      const amount = total._sum.amount ?? 0;
+      return total.type === StoreCreditTransactionType.ISSUE ? balance + amount : balance - amount;
+    }, 0);
+  }
+
+  /**
+   * Mapeia registro do Prisma para entidade de domínio
+   */
+  private mapToEntity(data: {
+    id: string;
+    clientId: string;
+    type: string;
+    amount: number;
+    remaining: number;
+    expiresAt: Date | null;
+    description: string | null;
+    saleId: string | null;
+    returnId: string | null;
+    userId: string | null;
+    createdAt: Date;
+  }): StoreCreditTransaction {
+    return new StoreCreditTransaction({
+      id: data.id,
+      clientId: data.clientId,
+      type: data.type as StoreCreditTransactionType,
+      amount: data.amount,
+      remaining: data.remaining,
+      expiresAt: data.expiresAt,
+      description: data.description,
+      saleId: data.saleId,
+      returnId: data.returnId,
+      userId: data.userId,
+      createdAt: data.createdAt,
+    });
+  }
+}
@@ -1,10 +1,10 @@
 // Repositório de Supplier com Prisma - Camada de Infraestrutura
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { Supplier } from '../../domain/entities/Supplier';
 import { ISupplierRepository } from '../../domain/repositories/ISupplierRepository';
 
 export class PrismaSupplierRepository implements ISupplierRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   async create(supplier: Supplier): Promise<Supplier> {
     const created = await this.prisma.supplier.create({
@@ -14,6 +14,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
         phone: supplier.phone,
         address: supplier.address,
         cnpj: supplier.cnpj,
+        paymentTerms: supplier.paymentTerms,
       },
     });
 
@@ -24,6 +25,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
       phone: created.phone,
       address: created.address,
       cnpj: created.cnpj,
+      paymentTerms: created.paymentTerms,
       createdAt: created.createdAt,
       updatedAt: created.updatedAt,
     });
@@ -43,6 +45,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
       phone: supplier.phone,
       address: supplier.address,
       cnpj: supplier.cnpj,
+      paymentTerms: supplier.paymentTerms,
       createdAt: supplier.createdAt,
       updatedAt: supplier.updatedAt,
     });
@@ -62,6 +65,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
       phone: supplier.phone,
       address: supplier.address,
       cnpj: supplier.cnpj,
+      paymentTerms: supplier.paymentTerms,
       createdAt: supplier.createdAt,
       updatedAt: supplier.updatedAt,
     });
@@ -81,6 +85,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
       phone: supplier.phone,
       address: supplier.address,
       cnpj: supplier.cnpj,
+      paymentTerms: supplier.paymentTerms,
       createdAt: supplier.createdAt,
       updatedAt: supplier.updatedAt,
     });
@@ -100,6 +105,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
           phone: supplier.phone,
           address: supplier.address,
           cnpj: supplier.cnpj,
+          paymentTerms: supplier.paymentTerms,
           createdAt: supplier.createdAt,
           updatedAt: supplier.updatedAt,
         })
@@ -115,6 +121,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
         phone: data.phone,
         address: data.address,
         cnpj: data.cnpj,
+        paymentTerms: data.paymentTerms,
       },
     });
 
@@ -125,6 +132,7 @@ export class PrismaSupplierRepository implements ISupplierRepository {
       phone: updated.phone,
       address: updated.address,
       cnpj: updated.cnpj,
+      paymentTerms: updated.paymentTerms,
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt,
     });
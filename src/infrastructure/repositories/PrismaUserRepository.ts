@@ -5,7 +5,7 @@
 // Camada de Infraestrutura - Implementa a interface definida no domínio.
 // ============================================================================
 
-import { PrismaClient } from '@prisma/client';
+import { DatabaseClient } from '../database/database-client';
 import { User, UserRole } from '../../domain/entities/User';
 import { IUserRepository, UserFilters } from '../../domain/repositories/IUserRepository';
 
@@ -14,7 +14,7 @@ import { IUserRepository, UserFilters } from '../../domain/repositories/IUserRep
  * @implements {IUserRepository}
  */
 export class PrismaUserRepository implements IUserRepository {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: DatabaseClient) {}
 
   /**
    * Cria um novo usuário no banco de dados
@@ -100,6 +100,16 @@ export class PrismaUserRepository implements IUserRepository {
     return this.mapToEntity(updated);
   }
 
+  /**
+   * Grava um novo hash de senha
+   */
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { password: passwordHash },
+    });
+  }
+
   /**
    * Remove um usuário (soft delete - apenas desativa)
    */
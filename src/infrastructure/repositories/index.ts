@@ -7,15 +7,32 @@
 // Módulos de Estoque
 export { PrismaCategoryRepository } from './PrismaCategoryRepository';
 export { PrismaSupplierRepository } from './PrismaSupplierRepository';
+export { PrismaPurchaseOrderRepository } from './PrismaPurchaseOrderRepository';
 export { PrismaProductRepository } from './PrismaProductRepository';
 export { PrismaStockMovementRepository } from './PrismaStockMovementRepository';
+export { PrismaStockLotRepository } from './PrismaStockLotRepository';
+export { PrismaStockLocationRepository } from './PrismaStockLocationRepository';
+export { PrismaProductStockRepository } from './PrismaProductStockRepository';
+export { PrismaStockTransferRepository } from './PrismaStockTransferRepository';
+export { PrismaInventoryCountRepository } from './PrismaInventoryCountRepository';
 
 // Módulos de Usuários
 export { PrismaUserRepository } from './PrismaUserRepository';
+export { PrismaAuditLogRepository } from './PrismaAuditLogRepository';
+export { PrismaIdempotencyKeyRepository } from './PrismaIdempotencyKeyRepository';
 
 // Módulos de Clientes e Vendas
 export { PrismaClientRepository } from './PrismaClientRepository';
+export { PrismaClientTransactionRepository } from './PrismaClientTransactionRepository';
+export { PrismaStoreCreditRepository } from './PrismaStoreCreditRepository';
 export { PrismaSaleRepository } from './PrismaSaleRepository';
+export { PrismaSaleDraftRepository } from './PrismaSaleDraftRepository';
+export { PrismaSaleReturnRepository } from './PrismaSaleReturnRepository';
+export { PrismaReceiptRepository } from './PrismaReceiptRepository';
+export { PrismaPromotionRepository } from './PrismaPromotionRepository';
+export { PrismaQuoteRepository } from './PrismaQuoteRepository';
+export { PrismaCashRegisterRepository } from './PrismaCashRegisterRepository';
 
 // Módulos Financeiros
 export { PrismaFinancialAccountRepository } from './PrismaFinancialAccountRepository';
+export { PrismaCashFlowRepository } from './PrismaCashFlowRepository';
@@ -0,0 +1,67 @@
+// ============================================================================
+// SERVIÇO: JWT TOKEN SERVICE
+// ============================================================================
+// Implementação do serviço de tokens de acesso usando JSON Web Tokens (HS256).
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// ============================================================================
+
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { UserRole } from '../../domain/entities/User';
+import { ITokenService, AccessTokenPayload, IssuedAccessToken } from '../../domain/services/ITokenService';
+import { InvalidTokenError, ExpiredTokenError } from '../../domain/errors';
+
+/**
+ * Serviço de tokens baseado em JWT
+ * @implements {ITokenService}
+ */
+export class JwtTokenService implements ITokenService {
+  /**
+   * @param secret - Chave usada para assinar os tokens (JWT_SECRET)
+   * @param expiresIn - Validade do token, ex: '1d', '8h' (JWT_EXPIRES_IN)
+   */
+  constructor(
+    private secret: string,
+    private expiresIn: string = '1d'
+  ) {}
+
+  /**
+   * Emite um token assinado para o usuário
+   */
+  sign(payload: AccessTokenPayload): IssuedAccessToken {
+    const token = jwt.sign({ role: payload.role }, this.secret, {
+      subject: payload.userId,
+      expiresIn: this.expiresIn as SignOptions['expiresIn'],
+      algorithm: 'HS256',
+    });
+
+    const decoded = jwt.decode(token) as jwt.JwtPayload;
+
+    return {
+      token,
+      expiresAt: new Date((decoded.exp ?? 0) * 1000),
+    };
+  }
+
+  /**
+   * Valida o token e retorna os dados do usuário
+   */
+  verify(token: string): AccessTokenPayload {
+    try {
+      const decoded = jwt.verify(token, this.secret, { algorithms: ['HS256'] });
+
+      if (typeof decoded === 'string' || !decoded.sub) {
+        throw new InvalidTokenError();
+      }
+
+      return {
+        userId: decoded.sub,
+        role: decoded.role as UserRole,
+      };
+    } catch (error: unknown) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new ExpiredTokenError();
+      }
+      throw new InvalidTokenError();
+    }
+  }
+}
@@ -0,0 +1,138 @@
+// ============================================================================
+// SERVIÇO: SCRYPT PASSWORD HASHER
+// ============================================================================
+// Implementação do hash de senhas usando scrypt (módulo crypto do Node).
+// Camada de Infraestrutura - Implementa a interface definida no domínio.
+// 
+// scrypt é um algoritmo "memory-hard": cada tentativa consome memória e CPU,
+// o que torna ataques de força bruta com GPU/ASIC muito mais caros.
+// 
+// FORMATO ARMAZENADO:
+//   scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+// 
+// Os parâmetros ficam junto do hash para que possam ser aumentados no
+// futuro sem invalidar as senhas já existentes (needsRehash).
+// ============================================================================
+
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto';
+import { IPasswordHasher } from '../../domain/services/IPasswordHasher';
+
+/** Prefixo que identifica valores gerados por este serviço */
+const PREFIX = 'scrypt';
+
+/** Tamanho do salt e do hash gerado (bytes) */
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Parâmetros de custo do scrypt
+ * @property N - Custo de CPU/memória (potência de 2)
+ * @property r - Tamanho do bloco
+ * @property p - Paralelização
+ */
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/** Parâmetros recomendados (OWASP): N=2^15, r=8, p=1 (~32 MB por hash) */
+const DEFAULT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+
+/**
+ * Serviço de hash de senhas baseado em scrypt
+ * @implements {IPasswordHasher}
+ */
+export class ScryptPasswordHasher implements IPasswordHasher {
+  constructor(private params: ScryptParams = DEFAULT_PARAMS) {}
+
+  /**
+   * Gera o hash de uma senha com salt aleatório
+   */
+  async hash(plainPassword: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await this.derive(plainPassword, salt, this.params);
+    const { N, r, p } = this.params;
+
+    return [PREFIX, N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+  }
+
+  /**
+   * Verifica a senha contra o valor armazenado
+   * @description Valores fora do formato scrypt são tratados como senhas
+   *              legadas em texto puro (comparação em tempo constante).
+   */
+  async verify(plainPassword: string, storedPassword: string): Promise<boolean> {
+    const parsed = this.parse(storedPassword);
+
+    if (!parsed) {
+      return this.safeEqual(Buffer.from(plainPassword), Buffer.from(storedPassword));
+    }
+
+    const key = await this.derive(plainPassword, parsed.salt, parsed.params);
+    return this.safeEqual(key, parsed.key);
+  }
+
+  /**
+   * Senhas legadas ou com parâmetros desatualizados precisam de novo hash
+   */
+  needsRehash(storedPassword: string): boolean {
+    const parsed = this.parse(storedPassword);
+    if (!parsed) return true;
+
+    const { N, r, p } = parsed.params;
+    return N !== this.params.N || r !== this.params.r || p !== this.params.p;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Executa o scrypt de forma assíncrona (não bloqueia o event loop)
+   */
+  private derive(password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+    const options: ScryptOptions = {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      // Margem acima do mínimo exigido (128 * N * r bytes)
+      maxmem: 256 * params.N * params.r,
+    };
+
+    return new Promise((resolve, reject) => {
+      scrypt(password, salt, KEY_LENGTH, options, (error, key) => {
+        if (error) reject(error);
+        else resolve(key);
+      });
+    });
+  }
+
+  /**
+   * Interpreta o valor armazenado; retorna null se não estiver no formato scrypt
+   */
+  private parse(stored: string): { params: ScryptParams; salt: Buffer; key: Buffer } | null {
+    const parts = stored.split('$');
+    if (parts.length !== 6 || parts[0] !== PREFIX) {
+      return null;
+    }
+
+    const [, N, r, p, salt, key] = parts;
+    const params = { N: Number(N), r: Number(r), p: Number(p) };
+    if (!Number.isInteger(params.N) || !Number.isInteger(params.r) || !Number.isInteger(params.p)) {
+      return null;
+    }
+
+    return {
+      params,
+      salt: Buffer.from(salt, 'base64'),
+      key: Buffer.from(key, 'base64'),
+    };
+  }
+
+  /**
+   * Compara dois buffers em tempo constante
+   */
+  private safeEqual(a: Buffer, b: Buffer): boolean {
+    if (a.length !== b.length) return false;
+    return timingSafeEqual(a, b);
+  }
+}
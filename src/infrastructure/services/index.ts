@@ -0,0 +1,9 @@
+// ============================================================================
+// SERVIÇOS DE INFRAESTRUTURA - EXPORTS
+// ============================================================================
+// Arquivo barrel para exportação das implementações de serviços do domínio.
+// ============================================================================
+
+// Autenticação
+export { JwtTokenService } from './JwtTokenService';
+export { ScryptPasswordHasher } from './ScryptPasswordHasher';
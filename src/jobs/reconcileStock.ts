@@ -0,0 +1,51 @@
+/**
+ * Job de reconciliação do estoque com o livro de movimentações
+ *
+ * Uso (após o build): npm run stock:reconcile [-- --fix] [-- --product=<id>]
+ * Sem --fix só relata; sai com código 1 se houver produto com diferença
+ * não corrigida (para alertas do agendador, ex.: cron diário).
+ */
+
+import { prisma } from '../infrastructure/database/prisma-client';
+import { PrismaUnitOfWork } from '../infrastructure/database/PrismaUnitOfWork';
+import { PrismaProductRepository } from '../infrastructure/repositories/PrismaProductRepository';
+import { PrismaStockMovementRepository } from '../infrastructure/repositories/PrismaStockMovementRepository';
+import { PrismaProductStockRepository } from '../infrastructure/repositories/PrismaProductStockRepository';
+import { ReconcileStockUseCase } from '../application/use-cases/StockMovementUseCases';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const fix = args.includes('--fix');
+  const productId = args.find(arg => arg.startsWith('--product='))?.split('=')[1];
+
+  const reconcileStock = new ReconcileStockUseCase(
+    new PrismaProductRepository(prisma),
+    new PrismaStockMovementRepository(prisma),
+    new PrismaProductStockRepository(prisma),
+    new PrismaUnitOfWork(prisma)
+  );
+  const result = await reconcileStock.execute({ productId, fix });
+
+  console.log(`📦 ${result.checkedProducts} produto(s) verificado(s), ${result.drifts.length} com diferença`);
+  for (const drift of result.drifts) {
+    const sign = drift.drift > 0 ? '+' : '';
+    console.log(`  - ${drift.productName} (${drift.productId}): estoque ${drift.quantity}, livro ${drift.ledgerQuantity} (${sign}${drift.drift})`);
+    for (const location of drift.locations) {
+      const locationSign = location.drift > 0 ? '+' : '';
+      console.log(`      ${location.locationName ?? location.locationId ?? 'sem local'}: saldo ${location.quantity}, livro ${location.ledgerQuantity} (${locationSign}${location.drift})`);
+    }
+  }
+  if (result.fixed) {
+    console.log('✅ Estoque corrigido pelo livro de movimentações');
+  }
+
+  return result.drifts.length > 0 && !result.fixed ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error('❌ Falha na reconciliação:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,84 @@
+// ============================================================================
+// CONTROLLER: AUDIT LOG (LOG DE AUDITORIA)
+// ============================================================================
+// Controller para consulta dos logs de auditoria (RF22).
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  GetAuditLogsUseCase,
+  GetAuditLogByIdUseCase,
+} from '../../application/use-cases/AuditLogUseCases';
+import { AuditLog, AuditAction, AuditEntity } from '../../domain/entities/AuditLog';
+
+/**
+ * Controller de Logs de Auditoria
+ * @description Gerencia requisições HTTP de consulta à trilha de auditoria
+ */
+export class AuditLogController {
+  constructor(
+    private getAuditLogsUseCase: GetAuditLogsUseCase,
+    private getAuditLogByIdUseCase: GetAuditLogByIdUseCase
+  ) {}
+
+  /**
+   * Lista logs de auditoria com filtros
+   * GET /audit-logs
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId, entity, entityId, action, startDate, endDate } = req.query;
+
+      if (action && !Object.values(AuditAction).includes(action as AuditAction)) {
+        return res.status(400).json({
+          error: `Ação inválida. Ações válidas: ${Object.values(AuditAction).join(', ')}`,
+        });
+      }
+
+      if (entity && !Object.values(AuditEntity).includes(entity as AuditEntity)) {
+        return res.status(400).json({
+          error: `Entidade inválida. Entidades válidas: ${Object.values(AuditEntity).join(', ')}`,
+        });
+      }
+
+      const logs = await this.getAuditLogsUseCase.execute({
+        userId: userId as string,
+        entity: entity ? (entity as AuditEntity) : undefined,
+        entityId: entityId as string,
+        action: action ? (action as AuditAction) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+
+      return res.json({
+        count: logs.length,
+        logs: logs.map((log: AuditLog) => log.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um log pelo ID
+   * GET /audit-logs/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const log = await this.getAuditLogByIdUseCase.execute(id);
+
+      if (!log) {
+        return res.status(404).json({ error: 'Log de auditoria não encontrado' });
+      }
+
+      return res.json(log.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
@@ -0,0 +1,243 @@
+// ============================================================================
+// CONTROLLER: CASH REGISTER (CAIXA)
+// ============================================================================
+// Controller para abertura, sangria/suprimento e fechamento de caixa.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  OpenCashRegisterUseCase,
+  GetCurrentCashRegisterUseCase,
+  GetCashRegisterByIdUseCase,
+  GetCashRegistersUseCase,
+  RegisterCashMovementUseCase,
+  CloseCashRegisterUseCase,
+  CashRegisterDetailsDTO,
+} from '../../application/use-cases/CashRegisterUseCases';
+import { CashRegisterSession, CashRegisterStatus } from '../../domain/entities/CashRegisterSession';
+import { CashRegisterMovementType } from '../../domain/entities/CashRegisterMovement';
+import { EntityNotFoundError, UnauthorizedOperationError } from '../../domain/errors';
+import { getAuditContext, getAuthenticatedUser } from '../middlewares/authMiddleware';
+import { Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Converte sessão + relatório para a resposta JSON
+ */
+function detailsToJSON(details: CashRegisterDetailsDTO) {
+  return {
+    ...details.session.toJSON(),
+    report: details.report,
+  };
+}
+
+/**
+ * Controller de Caixa
+ * @description Gerencia requisições HTTP relacionadas às sessões de caixa
+ */
+export class CashRegisterController {
+  constructor(
+    private openCashRegisterUseCase: OpenCashRegisterUseCase,
+    private getCurrentCashRegisterUseCase: GetCurrentCashRegisterUseCase,
+    private getCashRegisterByIdUseCase: GetCashRegisterByIdUseCase,
+    private getCashRegistersUseCase: GetCashRegistersUseCase,
+    private registerCashMovementUseCase: RegisterCashMovementUseCase,
+    private closeCashRegisterUseCase: CloseCashRegisterUseCase
+  ) {}
+
+  /**
+   * Abre o caixa do usuário autenticado
+   * POST /cash-registers/open
+   */
+  async open(req: Request, res: Response): Promise<Response> {
+    try {
+      const { terminal, openingFloat, notes } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (openingFloat === undefined) {
+        return res.status(400).json({ error: 'Fundo de troco é obrigatório' });
+      }
+
+      const session = await this.openCashRegisterUseCase.execute({
+        userId: user.id!,
+        terminal,
+        openingFloat,
+        notes,
+      }, getAuditContext(req));
+
+      return res.status(201).json(session.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Retorna o caixa aberto do usuário autenticado com o relatório parcial
+   * GET /cash-registers/current
+   */
+  async findCurrent(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      const details = await this.getCurrentCashRegisterUseCase.execute(user.id!);
+
+      if (!details) {
+        return res.status(404).json({ error: 'Nenhum caixa aberto para este usuário' });
+      }
+
+      return res.json(detailsToJSON(details));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista sessões de caixa
+   * GET /cash-registers
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId, terminal, status, startDate, endDate } = req.query;
+
+      if (status && !Object.values(CashRegisterStatus).includes(status as CashRegisterStatus)) {
+        return res.status(400).json({
+          error: `Status inválido. Valores válidos: ${Object.values(CashRegisterStatus).join(', ')}`,
+        });
+      }
+
+      const sessions = await this.getCashRegistersUseCase.execute({
+        userId: userId as string | undefined,
+        terminal: terminal as string | undefined,
+        status: status ? (status as CashRegisterStatus) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+
+      return res.json({
+        count: sessions.length,
+        sessions: sessions.map((session: CashRegisterSession) => session.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca uma sessão de caixa com o relatório
+   * GET /cash-registers/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const details = await this.getCashRegisterByIdUseCase.execute(id);
+
+      if (!details) {
+        return res.status(404).json({ error: 'Caixa não encontrado' });
+      }
+
+      return res.json(detailsToJSON(details));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Registra uma sangria (retirada de dinheiro da gaveta)
+   * POST /cash-registers/:id/withdrawals
+   */
+  async withdraw(req: Request, res: Response): Promise<Response> {
+    return this.registerMovement(req, res, CashRegisterMovementType.WITHDRAWAL);
+  }
+
+  /**
+   * Registra um suprimento (reforço de troco na gaveta)
+   * POST /cash-registers/:id/deposits
+   */
+  async deposit(req: Request, res: Response): Promise<Response> {
+    return this.registerMovement(req, res, CashRegisterMovementType.DEPOSIT);
+  }
+
+  /**
+   * Fecha o caixa com os valores contados por forma de pagamento
+   * POST /cash-registers/:id/close
+   */
+  async close(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { counted, notes } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (!counted || typeof counted !== 'object' || Array.isArray(counted)) {
+        return res.status(400).json({
+          error: 'Valores contados por forma de pagamento são obrigatórios',
+        });
+      }
+
+      const details = await this.closeCashRegisterUseCase.execute({
+        sessionId: id,
+        counted,
+        notes,
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+      }, getAuditContext(req));
+
+      return res.json({
+        message: 'Caixa fechado com sucesso',
+        ...detailsToJSON(details),
+      });
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Sangria e suprimento compartilham validação e tratamento de erro
+   */
+  private async registerMovement(
+    req: Request,
+    res: Response,
+    type: CashRegisterMovementType
+  ): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { amount, reason } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (amount === undefined || !reason) {
+        return res.status(400).json({ error: 'Valor e motivo são obrigatórios' });
+      }
+
+      const movement = await this.registerCashMovementUseCase.execute({
+        sessionId: id,
+        type,
+        amount,
+        reason,
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+      }, getAuditContext(req));
+
+      return res.status(201).json(movement.toJSON());
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Caixa inexistente -> 404; caixa de outro operador -> 403
+   */
+  private handleError(error: unknown, req: Request, res: Response): Response {
+    if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof UnauthorizedOperationError) {
+      return res.status(403).json({ error: error.message });
+    }
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    return res.status(400).json({ error: message });
+  }
+}
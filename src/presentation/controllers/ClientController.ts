@@ -14,8 +14,14 @@ import {
   DeleteClientUseCase,
   GetClientsWithDebtsUseCase,
   GetTotalDebtsUseCase,
+  RegisterClientPaymentUseCase,
+  GetClientStatementUseCase,
+  IssueStoreCreditUseCase,
+  ExpireStoreCreditsUseCase,
 } from '../../application/use-cases/ClientUseCases';
 import { Client } from '../../domain/entities/Client';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuditContext, getAuthenticatedUser } from '../middlewares/authMiddleware';
 
 /**
  * Controller de Clientes
@@ -29,7 +35,11 @@ export class ClientController {
     private updateClientUseCase: UpdateClientUseCase,
     private deleteClientUseCase: DeleteClientUseCase,
     private getClientsWithDebtsUseCase: GetClientsWithDebtsUseCase,
-    private getTotalDebtsUseCase: GetTotalDebtsUseCase
+    private getTotalDebtsUseCase: GetTotalDebtsUseCase,
+    private registerClientPaymentUseCase: RegisterClientPaymentUseCase,
+    private getClientStatementUseCase: GetClientStatementUseCase,
+    private issueStoreCreditUseCase: IssueStoreCreditUseCase,
+    private expireStoreCreditsUseCase: ExpireStoreCreditsUseCase
   ) {}
 
   /**
@@ -168,4 +178,114 @@ export class ClientController {
       return res.status(400).json({ error: message });
     }
   }
+
+  /**
+   * Registra pagamento (parcial ou total) do fiado
+   * POST /clients/:id/payments
+   */
+  async registerPayment(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { amount, description } = req.body;
+
+      if (amount === undefined || amount === null) {
+        return res.status(400).json({ error: 'Valor do pagamento é obrigatório' });
+      }
+
+      const result = await this.registerClientPaymentUseCase.execute(id, {
+        userId: getAuthenticatedUser(req).id!,
+        amount: Number(amount),
+        description,
+      }, getAuditContext(req));
+
+      return res.status(201).json({
+        transaction: result.transaction.toJSON(),
+        remainingDebt: result.remainingDebt,
+        paidSaleIds: result.paidSaleIds,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Extrato do fiado com saldo acumulado
+   * GET /clients/:id/statement
+   *
+   * Datas sem horário (YYYY-MM-DD) em `endDate` incluem o dia inteiro.
+   */
+  async getStatement(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const start = startDate ? new Date(startDate as string) : undefined;
+      const end = endDate ? new Date(endDate as string) : undefined;
+
+      if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+        return res.status(400).json({ error: 'Data inválida' });
+      }
+      if (end && /^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) {
+        end.setUTCHours(23, 59, 59, 999);
+      }
+
+      const statement = await this.getClientStatementUseCase.execute(id, start, end);
+
+      return res.json(statement);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Emite vale-troca manualmente para o cliente
+   * POST /clients/:id/store-credits
+   */
+  async issueStoreCredit(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { amount, reason, validityDays } = req.body;
+
+      if (amount === undefined || amount === null) {
+        return res.status(400).json({ error: 'Valor do crédito é obrigatório' });
+      }
+
+      const transaction = await this.issueStoreCreditUseCase.execute(id, {
+        amount: Number(amount),
+        reason,
+        validityDays: validityDays !== undefined ? Number(validityDays) : undefined,
+        userId: getAuthenticatedUser(req).id!,
+      }, getAuditContext(req));
+
+      return res.status(201).json(transaction.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Baixa os vale-trocas vencidos de todos os clientes
+   * POST /clients/store-credits/expire
+   */
+  async expireStoreCredits(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await this.expireStoreCreditsUseCase.execute(getAuditContext(req));
+
+      return res.json({
+        expiredAt: result.expiredAt,
+        clientIds: result.clientIds,
+        totalAmount: result.totalAmount,
+        transactions: result.transactions.map(transaction => transaction.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
 }
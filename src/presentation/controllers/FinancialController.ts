@@ -15,8 +15,11 @@ import {
   CancelAccountUseCase,
   GetOverdueAccountsUseCase,
   GetFinancialSummaryUseCase,
+  GetCashFlowReportUseCase,
+  CashFlowGrouping,
 } from '../../application/use-cases/FinancialUseCases';
 import { FinancialAccount, AccountType, AccountStatus, AccountCategory } from '../../domain/entities/FinancialAccount';
+import { getAuditContext } from '../middlewares/authMiddleware';
 
 /**
  * Controller Financeiro
@@ -31,7 +34,8 @@ export class FinancialController {
     private registerPaymentUseCase: RegisterAccountPaymentUseCase,
     private cancelAccountUseCase: CancelAccountUseCase,
     private getOverdueAccountsUseCase: GetOverdueAccountsUseCase,
-    private getFinancialSummaryUseCase: GetFinancialSummaryUseCase
+    private getFinancialSummaryUseCase: GetFinancialSummaryUseCase,
+    private getCashFlowReportUseCase: GetCashFlowReportUseCase
   ) {}
 
   /**
@@ -96,7 +100,7 @@ export class FinancialController {
    */
   async findAllAccounts(req: Request, res: Response): Promise<Response> {
     try {
-      const { type, status, category, startDate, endDate } = req.query;
+      const { type, status, category, startDate, endDate, referenceId } = req.query;
 
       const accounts = await this.getPaginatedAccountsUseCase.execute({
         type: type ? (type as AccountType) : undefined,
@@ -104,6 +108,7 @@ export class FinancialController {
         category: category ? (category as AccountCategory) : undefined,
         startDate: startDate ? new Date(startDate as string) : undefined,
         endDate: endDate ? new Date(endDate as string) : undefined,
+        referenceId: referenceId as string | undefined,
       });
 
       return res.json({
@@ -146,7 +151,7 @@ export class FinancialController {
       const account = await this.registerPaymentUseCase.execute({
         accountId: id,
         paidAt: paidDate ? new Date(paidDate) : new Date()
-      });
+      }, getAuditContext(req));
 
       return res.json({
         message: 'Pagamento registrado com sucesso',
@@ -166,7 +171,7 @@ export class FinancialController {
     try {
       const { id } = req.params;
 
-      const account = await this.cancelAccountUseCase.execute(id);
+      const account = await this.cancelAccountUseCase.execute(id, getAuditContext(req));
 
       return res.json({
         message: 'Conta cancelada com sucesso',
@@ -203,4 +208,50 @@ export class FinancialController {
       return res.status(400).json({ error: message });
     }
   }
+
+  /**
+   * Relatório de fluxo de caixa
+   * GET /financial/cash-flow
+   *
+   * Datas sem horário (YYYY-MM-DD) em `endDate` incluem o dia inteiro.
+   */
+  async getCashFlow(req: Request, res: Response): Promise<Response> {
+    try {
+      const { startDate, endDate, groupBy } = req.query;
+
+      if (!startDate || !endDate) {
+        return res.status(400).json({
+          error: 'Data inicial e final são obrigatórias',
+        });
+      }
+
+      const groupings: CashFlowGrouping[] = ['daily', 'monthly', 'yearly'];
+      if (groupBy && !groupings.includes(groupBy as CashFlowGrouping)) {
+        return res.status(400).json({
+          error: `Agrupamento inválido. Valores válidos: ${groupings.join(', ')}`,
+        });
+      }
+
+      const start = new Date(startDate as string);
+      const end = new Date(endDate as string);
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        return res.status(400).json({ error: 'Data inválida' });
+      }
+      if (/^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) {
+        end.setUTCHours(23, 59, 59, 999);
+      }
+
+      const report = await this.getCashFlowReportUseCase.execute(
+        start,
+        end,
+        (groupBy as CashFlowGrouping | undefined) ?? 'daily'
+      );
+
+      return res.json(report);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
 }
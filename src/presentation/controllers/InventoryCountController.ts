@@ -0,0 +1,169 @@
+// ============================================================================
+// CONTROLLER: INVENTORY COUNT (INVENTÁRIO)
+// ============================================================================
+// Controller para abertura, contagem e aprovação de inventários.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreateInventoryCountUseCase,
+  GetInventoryCountsUseCase,
+  GetInventoryCountByIdUseCase,
+  RecordInventoryCountsUseCase,
+  ApproveInventoryCountUseCase,
+  CancelInventoryCountUseCase,
+} from '../../application/use-cases/InventoryCountUseCases';
+import { InventoryCount, InventoryCountStatus } from '../../domain/entities/InventoryCount';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuditContext, getAuthenticatedUser } from '../middlewares/authMiddleware';
+
+/**
+ * Controller de Inventários
+ * @description Gerencia requisições HTTP relacionadas aos inventários
+ */
+export class InventoryCountController {
+  constructor(
+    private createInventoryCountUseCase: CreateInventoryCountUseCase,
+    private getInventoryCountsUseCase: GetInventoryCountsUseCase,
+    private getInventoryCountByIdUseCase: GetInventoryCountByIdUseCase,
+    private recordInventoryCountsUseCase: RecordInventoryCountsUseCase,
+    private approveInventoryCountUseCase: ApproveInventoryCountUseCase,
+    private cancelInventoryCountUseCase: CancelInventoryCountUseCase
+  ) {}
+
+  /**
+   * Abre um inventário
+   * POST /inventory-counts
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { locationId, categoryId, notes } = req.body;
+
+      const count = await this.createInventoryCountUseCase.execute({
+        userId: getAuthenticatedUser(req).id!,
+        locationId,
+        categoryId,
+        notes,
+      }, getAuditContext(req));
+
+      return res.status(201).json(count.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista inventários
+   * GET /inventory-counts?locationId=&categoryId=&status=
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { locationId, categoryId, status } = req.query;
+
+      const counts = await this.getInventoryCountsUseCase.execute({
+        locationId: locationId as string,
+        categoryId: categoryId as string,
+        status: status as InventoryCountStatus,
+      });
+
+      return res.json(counts.map((count: InventoryCount) => count.toJSON()));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um inventário pelo ID
+   * GET /inventory-counts/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const count = await this.getInventoryCountByIdUseCase.execute(id);
+
+      if (!count) {
+        return res.status(404).json({ error: 'Inventário não encontrado' });
+      }
+
+      return res.json(count.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lança as quantidades contadas pelo usuário autenticado
+   * POST /inventory-counts/:id/counts
+   */
+  async recordCounts(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { items } = req.body;
+
+      if (!Array.isArray(items)) {
+        return res.status(400).json({ error: 'Itens contados são obrigatórios' });
+      }
+
+      const count = await this.recordInventoryCountsUseCase.execute(id, {
+        userId: getAuthenticatedUser(req).id!,
+        items,
+      });
+
+      return res.json(count.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Aprova o inventário e lança os ajustes
+   * POST /inventory-counts/:id/approve
+   */
+  async approve(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const result = await this.approveInventoryCountUseCase.execute(id, getAuditContext(req));
+
+      return res.json({
+        count: result.count.toJSON(),
+        movements: result.movements.map(movement => movement.toJSON()),
+      });
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Cancela o inventário sem lançar ajustes
+   * POST /inventory-counts/:id/cancel
+   */
+  async cancel(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const count = await this.cancelInventoryCountUseCase.execute(id, getAuditContext(req));
+
+      return res.json(count.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
@@ -12,6 +12,7 @@ import {
   UpdateProductUseCase,
   DeleteProductUseCase,
 } from '../../application/use-cases/ProductUseCases';
+import { getAuditContext } from '../middlewares/authMiddleware';
 
 export class ProductController {
   constructor(
@@ -63,7 +64,7 @@ export class ProductController {
         supplierId,
         isActive,
         expirationDate: expirationDate ? new Date(expirationDate) : undefined,
-      });
+      }, getAuditContext(req));
 
       return res.status(201).json(product.toJSON());
     } catch (error: any) {
@@ -195,7 +196,7 @@ export class ProductController {
         supplierId,
         isActive,
         expirationDate: expirationDate ? new Date(expirationDate) : undefined,
-      });
+      }, getAuditContext(req));
 
       return res.json(product.toJSON());
     } catch (error: any) {
@@ -0,0 +1,211 @@
+// ============================================================================
+// CONTROLLER: PROMOTION (PROMOÇÃO)
+// ============================================================================
+// Controller para o cadastro de promoções aplicadas no caixa.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreatePromotionUseCase,
+  GetPromotionByIdUseCase,
+  GetPromotionsUseCase,
+  UpdatePromotionUseCase,
+  DeletePromotionUseCase,
+} from '../../application/use-cases/PromotionUseCases';
+import { Promotion, PromotionType } from '../../domain/entities/Promotion';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuditContext } from '../middlewares/authMiddleware';
+
+/**
+ * Converte a data de fim recebida; datas sem horário (YYYY-MM-DD)
+ * valem até o fim do dia
+ */
+function parseEndDate(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Controller de Promoções
+ * @description Gerencia requisições HTTP relacionadas a promoções
+ */
+export class PromotionController {
+  constructor(
+    private createPromotionUseCase: CreatePromotionUseCase,
+    private getPromotionByIdUseCase: GetPromotionByIdUseCase,
+    private getPromotionsUseCase: GetPromotionsUseCase,
+    private updatePromotionUseCase: UpdatePromotionUseCase,
+    private deletePromotionUseCase: DeletePromotionUseCase
+  ) {}
+
+  /**
+   * Cria uma nova promoção
+   * POST /promotions
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const {
+        name,
+        description,
+        type,
+        value,
+        buyQuantity,
+        getQuantity,
+        minPurchase,
+        startDate,
+        endDate,
+        isActive,
+        productIds,
+        categoryIds,
+      } = req.body;
+
+      if (!name || !type || value === undefined || !startDate || !endDate) {
+        return res.status(400).json({
+          error: 'Nome, tipo, valor, data de início e data de fim são obrigatórios',
+        });
+      }
+
+      const promotion = await this.createPromotionUseCase.execute({
+        name,
+        description,
+        type,
+        value,
+        buyQuantity,
+        getQuantity,
+        minPurchase,
+        startDate: new Date(startDate),
+        endDate: parseEndDate(endDate),
+        isActive,
+        productIds,
+        categoryIds,
+      }, getAuditContext(req));
+
+      return res.status(201).json(promotion.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista promoções
+   * GET /promotions
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { type, isActive, running } = req.query;
+
+      if (type && !Object.values(PromotionType).includes(type as PromotionType)) {
+        return res.status(400).json({
+          error: `Tipo inválido. Tipos válidos: ${Object.values(PromotionType).join(', ')}`,
+        });
+      }
+
+      const promotions = await this.getPromotionsUseCase.execute({
+        type: type ? (type as PromotionType) : undefined,
+        isActive: isActive !== undefined ? isActive === 'true' : undefined,
+        running: running === 'true',
+      });
+
+      return res.json({
+        count: promotions.length,
+        promotions: promotions.map((promotion: Promotion) => promotion.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca uma promoção pelo ID
+   * GET /promotions/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const promotion = await this.getPromotionByIdUseCase.execute(id);
+
+      if (!promotion) {
+        return res.status(404).json({ error: 'Promoção não encontrada' });
+      }
+
+      return res.json(promotion.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Atualiza uma promoção
+   * PUT /promotions/:id
+   */
+  async update(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const {
+        name,
+        description,
+        type,
+        value,
+        buyQuantity,
+        getQuantity,
+        minPurchase,
+        startDate,
+        endDate,
+        isActive,
+        productIds,
+        categoryIds,
+      } = req.body;
+
+      const promotion = await this.updatePromotionUseCase.execute(id, {
+        name,
+        description,
+        type,
+        value,
+        buyQuantity,
+        getQuantity,
+        minPurchase,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? parseEndDate(endDate) : undefined,
+        isActive,
+        productIds,
+        categoryIds,
+      }, getAuditContext(req));
+
+      return res.json(promotion.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Exclui uma promoção que ainda não foi aplicada em vendas
+   * DELETE /promotions/:id
+   */
+  async delete(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      await this.deletePromotionUseCase.execute(id, getAuditContext(req));
+
+      return res.status(204).send();
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// ============================================================================
+// CONTROLLER: PURCHASE ORDER (PEDIDO DE COMPRA)
+// ============================================================================
+// Controller para gerenciamento de pedidos de compra (RF14).
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreatePurchaseOrderUseCase,
+  GetPurchaseOrderByIdUseCase,
+  GetPurchaseOrdersUseCase,
+  ApprovePurchaseOrderUseCase,
+  CancelPurchaseOrderUseCase,
+  ReceivePurchaseOrderUseCase,
+  ReceivedItemDTO,
+} from '../../application/use-cases/PurchaseOrderUseCases';
+import { PurchaseOrder, PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+import { getAuditContext } from '../middlewares/authMiddleware';
+
+/**
+ * Controller de Pedidos de Compra
+ * @description Gerencia requisições HTTP relacionadas a pedidos de compra
+ */
+export class PurchaseOrderController {
+  constructor(
+    private createPurchaseOrderUseCase: CreatePurchaseOrderUseCase,
+    private getPurchaseOrderByIdUseCase: GetPurchaseOrderByIdUseCase,
+    private getPurchaseOrdersUseCase: GetPurchaseOrdersUseCase,
+    private approvePurchaseOrderUseCase: ApprovePurchaseOrderUseCase,
+    private cancelPurchaseOrderUseCase: CancelPurchaseOrderUseCase,
+    private receivePurchaseOrderUseCase: ReceivePurchaseOrderUseCase
+  ) {}
+
+  /**
+   * Cria um novo pedido de compra
+   * POST /purchase-orders
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { supplierId, items, expectedDate, paymentTerms, notes } = req.body;
+
+      if (!supplierId) {
+        return res.status(400).json({ error: 'Fornecedor é obrigatório' });
+      }
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: 'Itens do pedido são obrigatórios' });
+      }
+
+      const order = await this.createPurchaseOrderUseCase.execute({
+        supplierId,
+        items,
+        expectedDate: expectedDate ? new Date(expectedDate) : undefined,
+        paymentTerms,
+        notes,
+      }, getAuditContext(req));
+
+      return res.status(201).json(order.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista pedidos de compra
+   * GET /purchase-orders
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { supplierId, status, startDate, endDate } = req.query;
+
+      if (status && !Object.values(PurchaseOrderStatus).includes(status as PurchaseOrderStatus)) {
+        return res.status(400).json({
+          error: `Status inválido. Status válidos: ${Object.values(PurchaseOrderStatus).join(', ')}`,
+        });
+      }
+
+      const orders = await this.getPurchaseOrdersUseCase.execute({
+        supplierId: supplierId as string,
+        status: status ? (status as PurchaseOrderStatus) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+
+      return res.json({
+        count: orders.length,
+        totalAmount: orders.reduce((sum, order) => sum + order.totalAmount, 0),
+        orders: orders.map((order: PurchaseOrder) => order.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um pedido pelo ID, com as contas a pagar e a situação de pagamento
+   * GET /purchase-orders/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const details = await this.getPurchaseOrderByIdUseCase.execute(id);
+
+      if (!details) {
+        return res.status(404).json({ error: 'Pedido de compra não encontrado' });
+      }
+
+      return res.json({
+        ...details.order.toJSON(),
+        payment: details.payment,
+        payables: details.payables.map(account => account.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Aprova um pedido pendente
+   * POST /purchase-orders/:id/approve
+   */
+  async approve(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const order = await this.approvePurchaseOrderUseCase.execute(id, getAuditContext(req));
+
+      return res.json({
+        message: 'Pedido de compra aprovado com sucesso',
+        order: order.toJSON(),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Registra a entrega (parcial ou total) de um pedido aprovado
+   * POST /purchase-orders/:id/receive
+   */
+  async receive(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { items, notes, locationId } = req.body;
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: 'Itens entregues são obrigatórios' });
+      }
+
+      const received = items.map((item: Omit<ReceivedItemDTO, 'expirationDate'> & { expirationDate?: string }) => ({
+        ...item,
+        expirationDate: item.expirationDate ? new Date(item.expirationDate) : undefined,
+      }));
+
+      const result = await this.receivePurchaseOrderUseCase.execute(id, { items: received, notes, locationId }, getAuditContext(req));
+
+      return res.json({
+        message: result.order.status === PurchaseOrderStatus.RECEIVED
+          ? 'Pedido de compra recebido por completo'
+          : 'Entrega parcial registrada',
+        order: result.order.toJSON(),
+        movements: result.movements.map(movement => movement.toJSON()),
+        payables: result.payables.map(account => account.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Cancela um pedido pendente ou aprovado
+   * POST /purchase-orders/:id/cancel
+   */
+  async cancel(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const order = await this.cancelPurchaseOrderUseCase.execute(id, getAuditContext(req));
+
+      return res.json({
+        message: 'Pedido de compra cancelado com sucesso',
+        order: order.toJSON(),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
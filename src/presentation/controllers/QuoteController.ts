@@ -0,0 +1,192 @@
+// ============================================================================
+// CONTROLLER: QUOTE (ORÇAMENTO)
+// ============================================================================
+// Controller para orçamentos e sua conversão em venda.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreateQuoteUseCase,
+  GetQuoteByIdUseCase,
+  GetQuotesUseCase,
+  CancelQuoteUseCase,
+  ConvertQuoteToSaleUseCase,
+} from '../../application/use-cases/QuoteUseCases';
+import { Quote, QuoteStatus } from '../../domain/entities/Quote';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuthenticatedUser, getAuditContext } from '../middlewares/authMiddleware';
+
+/**
+ * Controller de Orçamentos
+ * @description Gerencia requisições HTTP relacionadas a orçamentos
+ */
+export class QuoteController {
+  constructor(
+    private createQuoteUseCase: CreateQuoteUseCase,
+    private getQuoteByIdUseCase: GetQuoteByIdUseCase,
+    private getQuotesUseCase: GetQuotesUseCase,
+    private cancelQuoteUseCase: CancelQuoteUseCase,
+    private convertQuoteToSaleUseCase: ConvertQuoteToSaleUseCase
+  ) {}
+
+  /**
+   * Cria um orçamento
+   * POST /quotes
+   *
+   * O emissor é sempre o usuário autenticado. O estoque não é conferido
+   * nem reservado.
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { clientId, items, discount, notes, validityDays } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({
+          error: 'Itens do orçamento são obrigatórios',
+        });
+      }
+
+      const quote = await this.createQuoteUseCase.execute({
+        clientId,
+        userId: user.id!,
+        items,
+        discount,
+        notes,
+        validityDays,
+      }, getAuditContext(req));
+
+      return res.status(201).json(quote.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista orçamentos
+   * GET /quotes
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { clientId, userId, status } = req.query;
+
+      if (status && !Object.values(QuoteStatus).includes(status as QuoteStatus)) {
+        return res.status(400).json({
+          error: `Status inválido. Status válidos: ${Object.values(QuoteStatus).join(', ')}`,
+        });
+      }
+
+      const quotes = await this.getQuotesUseCase.execute({
+        clientId: clientId as string,
+        userId: userId as string,
+        status: status ? (status as QuoteStatus) : undefined,
+      });
+
+      return res.json({
+        count: quotes.length,
+        quotes: quotes.map((quote: Quote) => quote.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um orçamento pelo ID
+   * GET /quotes/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const quote = await this.getQuoteByIdUseCase.execute(id);
+
+      if (!quote) {
+        return res.status(404).json({ error: 'Orçamento não encontrado' });
+      }
+
+      return res.json(quote.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Converte o orçamento em venda
+   * POST /quotes/:id/convert
+   *
+   * O operador da venda é o usuário autenticado (precisa de caixa aberto).
+   * Itens, descontos e cliente vêm do orçamento; o corpo traz o pagamento,
+   * como em POST /sales.
+   */
+  async convert(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { paymentMethod, payments, amountPaid, overrideCreditLimit } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (payments !== undefined && (!Array.isArray(payments) || payments.length === 0)) {
+        return res.status(400).json({
+          error: 'Pagamentos devem ser uma lista com ao menos uma forma de pagamento',
+        });
+      }
+
+      if (!paymentMethod && !payments) {
+        return res.status(400).json({
+          error: 'Forma de pagamento é obrigatória',
+        });
+      }
+
+      const result = await this.convertQuoteToSaleUseCase.execute(id, {
+        userId: user.id!,
+        paymentMethod,
+        payments,
+        amountPaid,
+        overrideCreditLimit: overrideCreditLimit === true,
+      }, getAuditContext(req));
+
+      return res.status(201).json({
+        message: result.priceChanges.length > 0
+          ? 'Orçamento convertido em venda com preços atualizados'
+          : 'Orçamento convertido em venda',
+        sale: result.sale.toJSON(),
+        quote: result.quote.toJSON(),
+        quotedTotal: result.quotedTotal,
+        priceChanges: result.priceChanges,
+      });
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Cancela um orçamento aberto
+   * POST /quotes/:id/cancel
+   */
+  async cancel(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const quote = await this.cancelQuoteUseCase.execute(id, getAuditContext(req));
+
+      return res.json({
+        message: 'Orçamento cancelado com sucesso',
+        quote: quote.toJSON(),
+      });
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
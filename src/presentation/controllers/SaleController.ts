@@ -14,8 +14,21 @@ import {
   GetTodaySalesUseCase,
   GetSalesSummaryUseCase,
   GetSalesByDateRangeUseCase,
+  GetSaleReceiptUseCase,
+  ReturnSaleItemsUseCase,
+  GetSaleReturnsUseCase,
 } from '../../application/use-cases/SaleUseCases';
 import { Sale, PaymentMethod, PaymentStatus } from '../../domain/entities/Sale';
+import { RefundMethod } from '../../domain/entities/SaleReturn';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuthenticatedUser, getAuditContext } from '../middlewares/authMiddleware';
+import {
+  renderReceiptJson,
+  renderReceiptText,
+  renderReceiptHtml,
+  RECEIPT_WIDTHS,
+  ReceiptWidth,
+} from '../formatters';
 
 /**
  * Controller de Vendas
@@ -29,30 +42,43 @@ export class SaleController {
     private cancelSaleUseCase: CancelSaleUseCase,
     private getTodaySalesUseCase: GetTodaySalesUseCase,
     private getSalesSummaryUseCase: GetSalesSummaryUseCase,
-    private getSalesByDateRangeUseCase: GetSalesByDateRangeUseCase
+    private getSalesByDateRangeUseCase: GetSalesByDateRangeUseCase,
+    private getSaleReceiptUseCase: GetSaleReceiptUseCase,
+    private returnSaleItemsUseCase: ReturnSaleItemsUseCase,
+    private getSaleReturnsUseCase: GetSaleReturnsUseCase
   ) {}
 
   /**
    * Cria uma nova venda
    * POST /sales
+   * 
+   * O operador da venda é sempre o usuário autenticado (token),
+   * nunca um `userId` enviado no corpo da requisição.
+   *
+   * `overrideCreditLimit` (venda fiado acima do limite) só é aceito
+   * para GERENTE ou ADMIN.
+   *
+   * O pagamento é `paymentMethod` (forma única) ou `payments` (parcelas
+   * que somam o total da venda).
    */
   async create(req: Request, res: Response): Promise<Response> {
     try {
-      const { clientId, userId, items, discount, paymentMethod, notes } = req.body;
+      const { clientId, items, discount, paymentMethod, payments, notes, overrideCreditLimit, amountPaid } = req.body;
+      const user = getAuthenticatedUser(req);
 
-      if (!userId) {
+      if (!items || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({
-          error: 'ID do usuário é obrigatório',
+          error: 'Itens da venda são obrigatórios',
         });
       }
 
-      if (!items || !Array.isArray(items) || items.length === 0) {
+      if (payments !== undefined && (!Array.isArray(payments) || payments.length === 0)) {
         return res.status(400).json({
-          error: 'Itens da venda são obrigatórios',
+          error: 'Pagamentos devem ser uma lista com ao menos uma forma de pagamento',
         });
       }
 
-      if (!paymentMethod) {
+      if (!paymentMethod && !payments) {
         return res.status(400).json({
           error: 'Forma de pagamento é obrigatória',
         });
@@ -60,12 +86,15 @@ export class SaleController {
 
       const sale = await this.createSaleUseCase.execute({
         clientId,
-        userId,
+        userId: user.id!,
         items,
         discount,
         paymentMethod,
+        payments,
         notes,
-      });
+        overrideCreditLimit: overrideCreditLimit === true,
+        amountPaid,
+      }, getAuditContext(req));
 
       return res.status(201).json(sale.toJSON());
     } catch (error: unknown) {
@@ -203,7 +232,7 @@ export class SaleController {
     try {
       const { id } = req.params;
 
-      const sale = await this.cancelSaleUseCase.execute(id);
+      const sale = await this.cancelSaleUseCase.execute(id, getAuditContext(req));
 
       return res.json({
         message: 'Venda cancelada com sucesso',
@@ -214,4 +243,102 @@ export class SaleController {
       return res.status(400).json({ error: message });
     }
   }
+
+  /**
+   * Registra a devolução de itens de uma venda
+   * POST /sales/:id/returns
+   *
+   * Quem registra a devolução é sempre o usuário autenticado; o reembolso
+   * em dinheiro sai do caixa aberto por ele.
+   */
+  async createReturn(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { items, refundMethod, reason } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({
+          error: 'Itens devolvidos são obrigatórios',
+        });
+      }
+
+      if (!Object.values(RefundMethod).includes(refundMethod)) {
+        return res.status(400).json({
+          error: `Forma de reembolso inválida. Formas válidas: ${Object.values(RefundMethod).join(', ')}`,
+        });
+      }
+
+      const saleReturn = await this.returnSaleItemsUseCase.execute({
+        saleId: id,
+        userId: user.id!,
+        items,
+        refundMethod,
+        reason,
+      }, getAuditContext(req));
+
+      return res.status(201).json(saleReturn.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista as devoluções de uma venda
+   * GET /sales/:id/returns
+   */
+  async findReturns(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const saleReturns = await this.getSaleReturnsUseCase.execute(id);
+
+      return res.json(saleReturns.map(saleReturn => saleReturn.toJSON()));
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Cupom da venda
+   * GET /sales/:id/receipt?format=json|text|html&width=40|48
+   *
+   * Texto e HTML são formatos de impressão: cada chamada conta uma via
+   * e, a partir da segunda, o cupom sai marcado como "2ª via".
+   */
+  async getReceipt(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format as string | undefined) ?? 'json';
+      const width = Number(req.query.width ?? 40) as ReceiptWidth;
+
+      if (!['json', 'text', 'html'].includes(format)) {
+        return res.status(400).json({ error: 'Formato inválido. Use json, text ou html' });
+      }
+      if (!RECEIPT_WIDTHS.includes(width)) {
+        return res.status(400).json({ error: `Largura inválida. Use ${RECEIPT_WIDTHS.join(' ou ')} colunas` });
+      }
+
+      const receipt = await this.getSaleReceiptUseCase.execute(id, format !== 'json');
+
+      if (format === 'text') {
+        return res.type('text/plain; charset=utf-8').send(renderReceiptText(receipt, width));
+      }
+      if (format === 'html') {
+        return res.type('html').send(renderReceiptHtml(receipt));
+      }
+      return res.json(renderReceiptJson(receipt));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
 }
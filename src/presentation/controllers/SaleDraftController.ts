@@ -0,0 +1,249 @@
+// ============================================================================
+// CONTROLLER: SALE DRAFT (VENDA SUSPENSA)
+// ============================================================================
+// Controller para vendas suspensas no caixa.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreateSaleDraftUseCase,
+  GetSaleDraftsUseCase,
+  GetSaleDraftByIdUseCase,
+  AddSaleDraftItemUseCase,
+  RemoveSaleDraftItemUseCase,
+  DiscardSaleDraftUseCase,
+  FinalizeSaleDraftUseCase,
+  SaleDraftDTO,
+} from '../../application/use-cases/SaleDraftUseCases';
+import { EntityNotFoundError, UnauthorizedOperationError } from '../../domain/errors';
+import { getAuthenticatedUser, getAuditContext } from '../middlewares/authMiddleware';
+import { Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Converte venda suspensa + expiração para a resposta JSON
+ */
+function draftToJSON(result: SaleDraftDTO) {
+  return {
+    ...result.draft.toJSON(),
+    expiresAt: result.expiresAt,
+  };
+}
+
+/**
+ * Controller de Vendas Suspensas
+ * @description Gerencia requisições HTTP relacionadas a vendas suspensas
+ */
+export class SaleDraftController {
+  constructor(
+    private createSaleDraftUseCase: CreateSaleDraftUseCase,
+    private getSaleDraftsUseCase: GetSaleDraftsUseCase,
+    private getSaleDraftByIdUseCase: GetSaleDraftByIdUseCase,
+    private addSaleDraftItemUseCase: AddSaleDraftItemUseCase,
+    private removeSaleDraftItemUseCase: RemoveSaleDraftItemUseCase,
+    private discardSaleDraftUseCase: DiscardSaleDraftUseCase,
+    private finalizeSaleDraftUseCase: FinalizeSaleDraftUseCase
+  ) {}
+
+  /**
+   * Suspende uma venda (com ou sem itens)
+   * POST /sale-drafts
+   *
+   * O operador é sempre o usuário autenticado; a venda fica no caixa
+   * aberto por ele.
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { clientId, items, discount, notes } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (items !== undefined && !Array.isArray(items)) {
+        return res.status(400).json({
+          error: 'Itens devem ser uma lista',
+        });
+      }
+
+      const result = await this.createSaleDraftUseCase.execute({
+        userId: user.id!,
+        clientId,
+        items,
+        discount,
+        notes,
+      });
+
+      return res.status(201).json(draftToJSON(result));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista vendas suspensas
+   * GET /sale-drafts
+   *
+   * Sem filtros, lista as vendas suspensas do próprio operador.
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId, sessionId } = req.query;
+      const user = getAuthenticatedUser(req);
+
+      const drafts = await this.getSaleDraftsUseCase.execute({
+        userId: userId ? (userId as string) : (sessionId ? undefined : user.id),
+        sessionId: sessionId as string,
+      });
+
+      return res.json({
+        count: drafts.length,
+        drafts: drafts.map(draftToJSON),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Retoma uma venda suspensa
+   * GET /sale-drafts/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const result = await this.getSaleDraftByIdUseCase.execute(id);
+
+      if (!result) {
+        return res.status(404).json({ error: 'Venda suspensa não encontrada' });
+      }
+
+      return res.json(draftToJSON(result));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Adiciona um item à venda suspensa
+   * POST /sale-drafts/:id/items
+   */
+  async addItem(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { productId, quantity, discount } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (!productId || quantity === undefined) {
+        return res.status(400).json({
+          error: 'Produto e quantidade são obrigatórios',
+        });
+      }
+
+      const result = await this.addSaleDraftItemUseCase.execute(id, { productId, quantity, discount }, {
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+      });
+
+      return res.status(201).json(draftToJSON(result));
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Remove um item da venda suspensa
+   * DELETE /sale-drafts/:id/items/:itemId
+   */
+  async removeItem(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id, itemId } = req.params;
+      const user = getAuthenticatedUser(req);
+
+      const result = await this.removeSaleDraftItemUseCase.execute(id, itemId, {
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+      });
+
+      return res.json(draftToJSON(result));
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Finaliza a venda suspensa (vira venda, com baixa de estoque)
+   * POST /sale-drafts/:id/finalize
+   *
+   * O pagamento segue as regras de POST /sales.
+   */
+  async finalize(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { clientId, paymentMethod, payments, amountPaid, overrideCreditLimit } = req.body;
+      const user = getAuthenticatedUser(req);
+
+      if (payments !== undefined && (!Array.isArray(payments) || payments.length === 0)) {
+        return res.status(400).json({
+          error: 'Pagamentos devem ser uma lista com ao menos uma forma de pagamento',
+        });
+      }
+
+      if (!paymentMethod && !payments) {
+        return res.status(400).json({
+          error: 'Forma de pagamento é obrigatória',
+        });
+      }
+
+      const sale = await this.finalizeSaleDraftUseCase.execute(id, {
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+        clientId,
+        paymentMethod,
+        payments,
+        amountPaid,
+        overrideCreditLimit: overrideCreditLimit === true,
+      }, getAuditContext(req));
+
+      return res.status(201).json(sale.toJSON());
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Descarta uma venda suspensa
+   * DELETE /sale-drafts/:id
+   */
+  async discard(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const user = getAuthenticatedUser(req);
+
+      await this.discardSaleDraftUseCase.execute(id, {
+        userId: user.id!,
+        canSupervise: Permissions.SUPERVISE_CASH_REGISTERS.isGrantedTo(user),
+      });
+
+      return res.status(204).send();
+    } catch (error: unknown) {
+      return this.handleError(error, req, res);
+    }
+  }
+
+  /**
+   * Venda suspensa (ou item) inexistente -> 404; de outro operador -> 403
+   */
+  private handleError(error: unknown, req: Request, res: Response): Response {
+    if (error instanceof EntityNotFoundError
+      && (error.entityId === req.params.id || error.entityId === req.params.itemId)) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof UnauthorizedOperationError) {
+      return res.status(403).json({ error: error.message });
+    }
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    return res.status(400).json({ error: message });
+  }
+}
@@ -0,0 +1,202 @@
+// ============================================================================
+// CONTROLLER: STOCK LOCATION (LOCAL DE ESTOQUE)
+// ============================================================================
+// Controller para locais de estoque, saldos por local e estoque baixo
+// por local.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  CreateStockLocationUseCase,
+  GetStockLocationsUseCase,
+  GetStockLocationByIdUseCase,
+  UpdateStockLocationUseCase,
+  GetProductStocksUseCase,
+  GetLowStockByLocationUseCase,
+  SetLocationMinQuantityUseCase,
+} from '../../application/use-cases/StockLocationUseCases';
+import { StockLocation } from '../../domain/entities/StockLocation';
+import { ProductStock } from '../../domain/entities/ProductStock';
+import { EntityNotFoundError } from '../../domain/errors';
+import { getAuditContext } from '../middlewares/authMiddleware';
+
+/**
+ * Controller de Locais de Estoque
+ * @description Gerencia requisições HTTP relacionadas aos locais e seus saldos
+ */
+export class StockLocationController {
+  constructor(
+    private createStockLocationUseCase: CreateStockLocationUseCase,
+    private getStockLocationsUseCase: GetStockLocationsUseCase,
+    private getStockLocationByIdUseCase: GetStockLocationByIdUseCase,
+    private updateStockLocationUseCase: UpdateStockLocationUseCase,
+    private getProductStocksUseCase: GetProductStocksUseCase,
+    private getLowStockByLocationUseCase: GetLowStockByLocationUseCase,
+    private setLocationMinQuantityUseCase: SetLocationMinQuantityUseCase
+  ) {}
+
+  /**
+   * Cadastra um local de estoque
+   * POST /stock-locations
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { name, description, isDefault } = req.body;
+
+      if (!name) {
+        return res.status(400).json({ error: 'Nome é obrigatório' });
+      }
+
+      const location = await this.createStockLocationUseCase.execute({
+        name,
+        description,
+        isDefault,
+      }, getAuditContext(req));
+
+      return res.status(201).json(location.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista os locais (padrão primeiro)
+   * GET /stock-locations?isActive=true
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { isActive } = req.query;
+
+      const locations = await this.getStockLocationsUseCase.execute({
+        isActive: isActive !== undefined ? isActive === 'true' : undefined,
+      });
+
+      return res.json(locations.map((location: StockLocation) => location.toJSON()));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um local pelo ID
+   * GET /stock-locations/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const location = await this.getStockLocationByIdUseCase.execute(id);
+
+      if (!location) {
+        return res.status(404).json({ error: 'Local de estoque não encontrado' });
+      }
+
+      return res.json(location.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Atualiza um local (nome, descrição, situação ou padrão)
+   * PUT /stock-locations/:id
+   */
+  async update(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { name, description, isActive, isDefault } = req.body;
+
+      const location = await this.updateStockLocationUseCase.execute(id, {
+        name,
+        description,
+        isActive,
+        isDefault,
+      }, getAuditContext(req));
+
+      return res.json(location.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError && error.entityId === req.params.id) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Saldos por local
+   * GET /stock-locations/stock?productId=&locationId=
+   */
+  async findStock(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId, locationId } = req.query;
+
+      const stocks = await this.getProductStocksUseCase.execute({
+        productId: productId as string,
+        locationId: locationId as string,
+      });
+
+      return res.json({
+        count: stocks.length,
+        stocks: stocks.map((stock: ProductStock) => stock.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Saldos no mínimo do local ou abaixo dele (RF05)
+   * GET /stock-locations/low-stock?locationId=
+   */
+  async findLowStock(req: Request, res: Response): Promise<Response> {
+    try {
+      const { locationId } = req.query;
+
+      const stocks = await this.getLowStockByLocationUseCase.execute(locationId as string | undefined);
+
+      return res.json({
+        count: stocks.length,
+        stocks: stocks.map((stock: ProductStock) => stock.toJSON()),
+      });
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Define o mínimo de um produto no local
+   * PUT /stock-locations/:id/products/:productId
+   *
+   * `minQuantity: null` volta a usar o mínimo do cadastro do produto.
+   */
+  async setMinQuantity(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id, productId } = req.params;
+      const { minQuantity } = req.body;
+
+      if (minQuantity === undefined) {
+        return res.status(400).json({ error: 'Mínimo é obrigatório (use null para o mínimo do produto)' });
+      }
+
+      const stock = await this.setLocationMinQuantityUseCase.execute(id, productId, minQuantity);
+
+      return res.json(stock.toJSON());
+    } catch (error: unknown) {
+      if (error instanceof EntityNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// ============================================================================
+// CONTROLLER: STOCK LOT (LOTE DE ESTOQUE)
+// ============================================================================
+// Controller para consulta dos lotes de estoque e relatórios de validade.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  GetStockLotsUseCase,
+  GetStockLotByIdUseCase,
+  GetExpiredStockLotsUseCase,
+  GetExpiringStockLotsUseCase,
+  StockLotReportDTO,
+} from '../../application/use-cases/StockLotUseCases';
+import { StockLot } from '../../domain/entities/StockLot';
+
+/**
+ * Controller de Lotes de Estoque
+ * @description Gerencia requisições HTTP de consulta aos lotes
+ */
+export class StockLotController {
+  constructor(
+    private getStockLotsUseCase: GetStockLotsUseCase,
+    private getStockLotByIdUseCase: GetStockLotByIdUseCase,
+    private getExpiredStockLotsUseCase: GetExpiredStockLotsUseCase,
+    private getExpiringStockLotsUseCase: GetExpiringStockLotsUseCase
+  ) {}
+
+  /**
+   * Lista lotes em ordem FEFO
+   * GET /stock-lots
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId, locationId, includeDepleted } = req.query;
+
+      const lots = await this.getStockLotsUseCase.execute({
+        productId: productId as string,
+        locationId: locationId as string,
+        includeDepleted: includeDepleted === 'true',
+      });
+
+      return res.json({
+        count: lots.length,
+        lots: lots.map((lot: StockLot) => lot.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Relatório de lotes vencidos com saldo
+   * GET /stock-lots/expired
+   */
+  async findExpired(_req: Request, res: Response): Promise<Response> {
+    try {
+      const report = await this.getExpiredStockLotsUseCase.execute();
+      return res.json(this.toReportJSON(report));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Relatório de lotes a vencer
+   * GET /stock-lots/expiring?days=7
+   */
+  async findExpiring(req: Request, res: Response): Promise<Response> {
+    try {
+      const { days } = req.query;
+
+      const report = await this.getExpiringStockLotsUseCase.execute(days ? Number(days) : undefined);
+      return res.json(this.toReportJSON(report));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca um lote pelo ID
+   * GET /stock-lots/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const lot = await this.getStockLotByIdUseCase.execute(id);
+
+      if (!lot) {
+        return res.status(404).json({ error: 'Lote não encontrado' });
+      }
+
+      return res.json(lot.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Serializa o relatório de validade
+   */
+  private toReportJSON(report: StockLotReportDTO) {
+    return {
+      ...report,
+      count: report.lots.length,
+      lots: report.lots.map((lot: StockLot) => lot.toJSON()),
+    };
+  }
+}
@@ -9,7 +9,9 @@ import {
   GetStockMovementsByTypeUseCase,
   GetStockMovementsByDateRangeUseCase,
   GetStockReportUseCase,
+  ReconcileStockUseCase,
 } from '../../application/use-cases/StockMovementUseCases';
+import { getAuditContext } from '../middlewares/authMiddleware';
 
 export class StockMovementController {
   constructor(
@@ -19,14 +21,15 @@ export class StockMovementController {
     private getStockMovementsByProductUseCase: GetStockMovementsByProductUseCase,
     private getStockMovementsByTypeUseCase: GetStockMovementsByTypeUseCase,
     private getStockMovementsByDateRangeUseCase: GetStockMovementsByDateRangeUseCase,
-    private getStockReportUseCase: GetStockReportUseCase
+    private getStockReportUseCase: GetStockReportUseCase,
+    private reconcileStockUseCase: ReconcileStockUseCase
   ) {}
 
   async create(req: Request, res: Response): Promise<Response> {
     try {
-      const { productId, type, quantity, reason, unitPrice } = req.body;
+      const { productId, type, quantity, reason, unitPrice, expirationDate, lotCode, locationId } = req.body;
 
-      if (!productId || !type || !quantity) {
+      if (!productId || !type || quantity === undefined || quantity === null) {
         return res.status(400).json({
           error: 'Produto, tipo e quantidade são obrigatórios',
         });
@@ -45,7 +48,10 @@ export class StockMovementController {
         quantity,
         reason,
         unitPrice,
-      });
+        expirationDate: expirationDate ? new Date(expirationDate) : undefined,
+        lotCode,
+        locationId,
+      }, getAuditContext(req));
 
       return res.status(201).json(movement.toJSON());
     } catch (error: any) {
@@ -71,11 +77,16 @@ export class StockMovementController {
 
   async findAll(req: Request, res: Response): Promise<Response> {
     try {
-      const { productId, type, startDate, endDate } = req.query;
+      const { productId, type, saleId, purchaseOrderId, userId, locationId, transferId, startDate, endDate } = req.query;
 
       const movements = await this.getAllStockMovementsUseCase.execute({
         productId: productId as string,
         type: type as MovementType,
+        saleId: saleId as string,
+        purchaseOrderId: purchaseOrderId as string,
+        userId: userId as string,
+        locationId: locationId as string,
+        transferId: transferId as string,
         startDate: startDate ? new Date(startDate as string) : undefined,
         endDate: endDate ? new Date(endDate as string) : undefined,
       });
@@ -154,4 +165,32 @@ export class StockMovementController {
       return res.status(400).json({ error: error.message });
     }
   }
+
+  // GET /stock-movements/reconciliation - só relatório
+  async checkReconciliation(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId } = req.query;
+
+      const result = await this.reconcileStockUseCase.execute({
+        productId: productId as string | undefined,
+      });
+
+      return res.json(result);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+
+  // POST /stock-movements/reconciliation - corrige o estoque pelo livro
+  async reconcile(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId } = req.body;
+
+      const result = await this.reconcileStockUseCase.execute({ productId, fix: true }, getAuditContext(req));
+
+      return res.json(result);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
 }
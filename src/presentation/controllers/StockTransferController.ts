@@ -0,0 +1,102 @@
+// ============================================================================
+// CONTROLLER: STOCK TRANSFER (TRANSFERÊNCIA ENTRE LOCAIS)
+// ============================================================================
+// Controller para transferências de estoque entre locais.
+// Camada de Apresentação - Recebe requisições HTTP e retorna respostas.
+// ============================================================================
+
+import { Request, Response } from 'express';
+import {
+  TransferStockUseCase,
+  GetStockTransfersUseCase,
+  GetStockTransferByIdUseCase,
+} from '../../application/use-cases/StockLocationUseCases';
+import { StockTransfer } from '../../domain/entities/StockTransfer';
+import { getAuditContext } from '../middlewares/authMiddleware';
+
+/**
+ * Controller de Transferências de Estoque
+ * @description Gerencia requisições HTTP relacionadas às transferências
+ */
+export class StockTransferController {
+  constructor(
+    private transferStockUseCase: TransferStockUseCase,
+    private getStockTransfersUseCase: GetStockTransfersUseCase,
+    private getStockTransferByIdUseCase: GetStockTransferByIdUseCase
+  ) {}
+
+  /**
+   * Transfere estoque de um local para outro
+   * POST /stock-transfers
+   */
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId, fromLocationId, toLocationId, quantity, reason } = req.body;
+
+      if (!productId || !fromLocationId || !toLocationId || !quantity) {
+        return res.status(400).json({
+          error: 'Produto, local de origem, local de destino e quantidade são obrigatórios',
+        });
+      }
+
+      const result = await this.transferStockUseCase.execute({
+        productId,
+        fromLocationId,
+        toLocationId,
+        quantity,
+        reason,
+      }, getAuditContext(req));
+
+      return res.status(201).json({
+        transfer: result.transfer.toJSON(),
+        movements: result.movements.map(movement => movement.toJSON()),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Lista transferências
+   * GET /stock-transfers?productId=&locationId=&startDate=&endDate=
+   */
+  async findAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const { productId, locationId, startDate, endDate } = req.query;
+
+      const transfers = await this.getStockTransfersUseCase.execute({
+        productId: productId as string,
+        locationId: locationId as string,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+
+      return res.json(transfers.map((transfer: StockTransfer) => transfer.toJSON()));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * Busca uma transferência pelo ID
+   * GET /stock-transfers/:id
+   */
+  async findById(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const transfer = await this.getStockTransferByIdUseCase.execute(id);
+
+      if (!transfer) {
+        return res.status(404).json({ error: 'Transferência não encontrada' });
+      }
+
+      return res.json(transfer.toJSON());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(400).json({ error: message });
+    }
+  }
+}
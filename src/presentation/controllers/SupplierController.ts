@@ -19,7 +19,7 @@ export class SupplierController {
 
   async create(req: Request, res: Response): Promise<Response> {
     try {
-      const { name, email, phone, address, cnpj } = req.body;
+      const { name, email, phone, address, cnpj, paymentTerms } = req.body;
 
       if (!name) {
         return res.status(400).json({ error: 'Nome é obrigatório' });
@@ -31,6 +31,7 @@ export class SupplierController {
         phone,
         address,
         cnpj,
+        paymentTerms,
       });
 
       return res.status(201).json(supplier.toJSON());
@@ -68,7 +69,7 @@ export class SupplierController {
   async update(req: Request, res: Response): Promise<Response> {
     try {
       const { id } = req.params;
-      const { name, email, phone, address, cnpj } = req.body;
+      const { name, email, phone, address, cnpj, paymentTerms } = req.body;
 
       const supplier = await this.updateSupplierUseCase.execute(id, {
         name,
@@ -76,6 +77,7 @@ export class SupplierController {
         phone,
         address,
         cnpj,
+        paymentTerms,
       });
 
       return res.json(supplier.toJSON());
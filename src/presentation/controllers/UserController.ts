@@ -16,6 +16,7 @@ import {
   ChangePasswordUseCase,
 } from '../../application/use-cases/UserUseCases';
 import { User, UserRole } from '../../domain/entities/User';
+import { getAuthenticatedUser, getAuditContext } from '../middlewares/authMiddleware';
 
 /**
  * Controller de Usuários
@@ -51,7 +52,7 @@ export class UserController {
         email,
         password,
         role,
-      });
+      }, getAuditContext(req));
 
       // Remove senha do retorno
       const userResponse = {
@@ -84,10 +85,10 @@ export class UserController {
         });
       }
 
-      const user = await this.authenticateUserUseCase.execute({
+      const { user, token, expiresAt } = await this.authenticateUserUseCase.execute({
         email,
         password,
-      });
+      }, getAuditContext(req));
 
       return res.json({
         user: {
@@ -96,6 +97,9 @@ export class UserController {
           email: user.email,
           role: user.role,
         },
+        token,
+        tokenType: 'Bearer',
+        expiresAt,
         message: 'Login realizado com sucesso',
       });
     } catch (error: unknown) {
@@ -104,6 +108,29 @@ export class UserController {
     }
   }
 
+  /**
+   * Retorna o usuário autenticado
+   * GET /users/me
+   */
+  async me(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      return res.json({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      return res.status(401).json({ error: message });
+    }
+  }
+
   /**
    * Busca um usuário pelo ID
    * GET /users/:id
@@ -176,7 +203,7 @@ export class UserController {
         name,
         email,
         role: role as UserRole,
-      });
+      }, getAuditContext(req));
 
       return res.json({
         id: user.id,
@@ -201,9 +228,9 @@ export class UserController {
       const { id } = req.params;
       const { currentPassword, newPassword } = req.body;
 
-      if (!currentPassword || !newPassword) {
+      if (!newPassword) {
         return res.status(400).json({
-          error: 'Senha atual e nova senha são obrigatórias',
+          error: 'Nova senha é obrigatória',
         });
       }
 
@@ -211,7 +238,8 @@ export class UserController {
         userId: id,
         currentPassword,
         newPassword,
-      });
+        canManageUsers: getAuthenticatedUser(req).canManageUsers(),
+      }, getAuditContext(req));
 
       return res.json({ message: 'Senha alterada com sucesso' });
     } catch (error: unknown) {
@@ -228,7 +256,7 @@ export class UserController {
     try {
       const { id } = req.params;
 
-      await this.deactivateUserUseCase.execute(id);
+      await this.deactivateUserUseCase.execute(id, getAuditContext(req));
 
       return res.status(204).send();
     } catch (error: unknown) {
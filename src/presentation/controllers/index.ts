@@ -7,15 +7,25 @@
 // Módulos de Estoque
 export { CategoryController } from './CategoryController';
 export { SupplierController } from './SupplierController';
+export { PurchaseOrderController } from './PurchaseOrderController';
 export { ProductController } from './ProductController';
 export { StockMovementController } from './StockMovementController';
+export { StockLotController } from './StockLotController';
+export { StockLocationController } from './StockLocationController';
+export { StockTransferController } from './StockTransferController';
+export { InventoryCountController } from './InventoryCountController';
 
 // Módulos de Usuários
 export { UserController } from './UserController';
+export { AuditLogController } from './AuditLogController';
 
 // Módulos de Clientes e Vendas
 export { ClientController } from './ClientController';
 export { SaleController } from './SaleController';
+export { SaleDraftController } from './SaleDraftController';
+export { PromotionController } from './PromotionController';
+export { QuoteController } from './QuoteController';
+export { CashRegisterController } from './CashRegisterController';
 
 // Módulos Financeiros
 export { FinancialController } from './FinancialController';
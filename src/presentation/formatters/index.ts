@@ -0,0 +1,16 @@
+// ============================================================================
+// ÍNDICE DE FORMATADORES
+// ============================================================================
+//
+// Esta pasta contém os formatadores de saída que não são JSON "puro",
+// como o cupom da venda em texto (impressora térmica) e HTML.
+//
+// ============================================================================
+
+export {
+  renderReceiptJson,
+  renderReceiptText,
+  renderReceiptHtml,
+  RECEIPT_WIDTHS,
+} from './receiptFormatter';
+export type { ReceiptWidth } from './receiptFormatter';
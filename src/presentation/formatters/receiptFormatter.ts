@@ -0,0 +1,234 @@
+// ============================================================================
+// FORMATADOR: CUPOM DA VENDA
+// ============================================================================
+// Converte o cupom (RF08) para os formatos servidos por GET /sales/:id/receipt:
+//
+// - Texto puro para impressoras térmicas de 40 ou 48 colunas
+// - HTML para exibição/impressão no navegador
+// - JSON para integrações
+//
+// Reimpressões recebem a marca "2ª via" e vendas canceladas depois da
+// emissão recebem a marca "VENDA CANCELADA".
+// ============================================================================
+
+import { SaleReceiptDTO } from '../../application/dtos';
+import { PaymentMethod } from '../../domain/entities/Sale';
+import { ReceiptContent } from '../../domain/entities/Receipt';
+
+/**
+ * Larguras (em colunas) suportadas pelas impressoras térmicas
+ */
+export const RECEIPT_WIDTHS = [40, 48] as const;
+
+export type ReceiptWidth = typeof RECEIPT_WIDTHS[number];
+
+/**
+ * Descrição impressa para cada forma de pagamento
+ */
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.CASH]: 'Dinheiro',
+  [PaymentMethod.CARD]: 'Cartão',
+  [PaymentMethod.PIX]: 'PIX',
+  [PaymentMethod.FIADO]: 'Fiado',
+  [PaymentMethod.STORE_CREDIT]: 'Vale-troca',
+};
+
+const REPRINT_LABEL = '2ª via';
+const CANCELLED_LABEL = 'VENDA CANCELADA';
+const FOOTER = 'Obrigado pela preferência!';
+
+// ==================== AUXILIARES ====================
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleString('pt-BR');
+}
+
+/**
+ * Linhas (rótulo, valor) do pagamento. Pagamento único mantém o layout
+ * "Forma de pagamento"; pagamento dividido lista cada parcela.
+ */
+function paymentRows(content: ReceiptContent): [string, string][] {
+  const payments = content.payments?.length
+    ? content.payments
+    : [{ paymentMethod: content.paymentMethod, amount: content.total, amountReceived: content.amountPaid }];
+  const cashPayments = payments.filter(payment => payment.paymentMethod === PaymentMethod.CASH);
+
+  const rows: [string, string][] = payments.length === 1
+    ? [['Forma de pagamento', PAYMENT_METHOD_LABELS[payments[0].paymentMethod]]]
+    : [
+        ['Formas de pagamento', ''],
+        ...payments.map((payment): [string, string] =>
+          [`  ${PAYMENT_METHOD_LABELS[payment.paymentMethod]}`, formatMoney(payment.amount)]),
+      ];
+
+  if (cashPayments.length > 0) {
+    const received = cashPayments.reduce((sum, payment) => sum + (payment.amountReceived ?? payment.amount), 0);
+    rows.push(['Valor recebido', formatMoney(received)]);
+    rows.push(['Troco', formatMoney(content.change)]);
+  }
+
+  return rows;
+}
+
+function storeHeaderLines(content: ReceiptContent): string[] {
+  const { store } = content;
+  return [
+    store.name,
+    store.document ? `CNPJ: ${store.document}` : '',
+    store.address ?? '',
+    store.phone ? `Tel: ${store.phone}` : '',
+  ].filter(Boolean);
+}
+
+function center(text: string, width: number): string {
+  const clipped = text.slice(0, width);
+  return ' '.repeat(Math.floor((width - clipped.length) / 2)) + clipped;
+}
+
+/**
+ * Texto à esquerda e valor à direita, cortando o texto se faltar espaço
+ */
+function justify(left: string, right: string, width: number): string {
+  const room = Math.max(0, width - right.length - 1);
+  const clipped = left.slice(0, room);
+  return clipped + ' '.repeat(width - clipped.length - right.length) + right;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ==================== FORMATOS ====================
+
+/**
+ * Cupom como objeto JSON
+ */
+export function renderReceiptJson(data: SaleReceiptDTO) {
+  return {
+    ...data.receipt.toJSON(),
+    paymentMethodDescription: PAYMENT_METHOD_LABELS[data.receipt.content.paymentMethod],
+    cancelled: data.cancelled,
+  };
+}
+
+/**
+ * Cupom em texto puro para impressora térmica
+ * @param data - Cupom e status da venda
+ * @param width - Largura do papel em colunas (40 ou 48)
+ */
+export function renderReceiptText(data: SaleReceiptDTO, width: ReceiptWidth = 40): string {
+  const { receipt, cancelled } = data;
+  const content = receipt.content;
+  const separator = '-'.repeat(width);
+  const lines: string[] = [];
+
+  lines.push(...storeHeaderLines(content).map(line => center(line, width)));
+  lines.push(separator);
+  lines.push(justify(`CUPOM Nº ${receipt.number}`, receipt.isReprint() ? REPRINT_LABEL.toUpperCase() : '', width));
+  lines.push(formatDate(content.saleDate));
+  if (content.clientName) {
+    lines.push(`Cliente: ${content.clientName}`.slice(0, width));
+  }
+  if (cancelled) {
+    lines.push(center(`*** ${CANCELLED_LABEL} ***`, width));
+  }
+  lines.push(separator);
+
+  content.items.forEach((item, index) => {
+    lines.push(`${String(index + 1).padStart(3, '0')} ${item.productName}`.slice(0, width));
+    lines.push(justify(
+      `    ${item.quantity} x ${formatMoney(item.unitPrice)}`,
+      formatMoney(item.quantity * item.unitPrice),
+      width
+    ));
+    if (item.promotionName) {
+      lines.push(`    Promoção: ${item.promotionName}`.slice(0, width));
+    }
+    if (item.discount > 0) {
+      lines.push(justify('    Desconto', `-${formatMoney(item.discount)}`, width));
+    }
+  });
+
+  lines.push(separator);
+  lines.push(justify('Subtotal', formatMoney(content.subtotal), width));
+  if (content.discount > 0) {
+    lines.push(justify('Desconto', `-${formatMoney(content.discount)}`, width));
+  }
+  lines.push(justify('TOTAL R$', formatMoney(content.total), width));
+  lines.push(...paymentRows(content).map(([label, value]) => justify(label, value, width)));
+  lines.push(separator);
+  lines.push(center(FOOTER, width));
+
+  return lines.map(line => line.trimEnd()).join('\n') + '\n';
+}
+
+/**
+ * Cupom em HTML (página completa, pronta para impressão)
+ */
+export function renderReceiptHtml(data: SaleReceiptDTO): string {
+  const { receipt, cancelled } = data;
+  const content = receipt.content;
+  const row = (label: string, value: string) =>
+    `<tr><td>${escapeHtml(label)}</td><td class="value">${escapeHtml(value)}</td></tr>`;
+
+  const items = content.items.map((item, index) => `
+      <tr>
+        <td>${String(index + 1).padStart(3, '0')} ${escapeHtml(item.productName)}<br>
+          <small>${item.quantity} x ${formatMoney(item.unitPrice)}${
+            item.discount > 0 ? ` (desconto -${formatMoney(item.discount)})` : ''
+          }${item.promotionName ? `<br>Promoção: ${escapeHtml(item.promotionName)}` : ''}</small></td>
+        <td class="value">${formatMoney(item.total)}</td>
+      </tr>`).join('');
+
+  const totals = [
+    row('Subtotal', formatMoney(content.subtotal)),
+    content.discount > 0 ? row('Desconto', `-${formatMoney(content.discount)}`) : '',
+    `<tr class="total"><td>TOTAL R$</td><td class="value">${formatMoney(content.total)}</td></tr>`,
+    ...paymentRows(content).map(([label, value]) => row(label, value)),
+  ].filter(Boolean).join('\n      ');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <title>Cupom ${receipt.number}</title>
+  <style>
+    body { font-family: monospace; max-width: 380px; margin: 0 auto; }
+    header, footer { text-align: center; }
+    table { width: 100%; border-collapse: collapse; }
+    td { vertical-align: top; padding: 2px 0; }
+    .value { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; border-top: 1px dashed #000; }
+    .mark { text-align: center; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <header>
+    ${storeHeaderLines(content).map(line => `<div>${escapeHtml(line)}</div>`).join('\n    ')}
+  </header>
+  <hr>
+  <div>Cupom Nº ${receipt.number}${receipt.isReprint() ? ` &mdash; <strong>${REPRINT_LABEL}</strong>` : ''}</div>
+  <div>${escapeHtml(formatDate(content.saleDate))}</div>
+  ${content.clientName ? `<div>Cliente: ${escapeHtml(content.clientName)}</div>` : ''}
+  ${cancelled ? `<p class="mark">*** ${CANCELLED_LABEL} ***</p>` : ''}
+  <hr>
+  <table>${items}
+  </table>
+  <hr>
+  <table>
+      ${totals}
+  </table>
+  <hr>
+  <footer>${escapeHtml(FOOTER)}</footer>
+</body>
+</html>
+`;
+}
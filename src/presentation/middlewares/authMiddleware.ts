@@ -0,0 +1,119 @@
+// ============================================================================
+// MIDDLEWARE DE AUTENTICAÇÃO
+// ============================================================================
+// 
+// Protege as rotas da API exigindo um token de acesso válido.
+// 
+// FLUXO:
+// 1. Cliente faz login em POST /users/login e recebe um token
+// 2. Nas próximas requisições envia: Authorization: Bearer <token>
+// 3. Este middleware valida o token e carrega o usuário
+// 4. O usuário fica disponível em `req.user` para os controllers
+// 
+// Token ausente, inválido ou expirado -> HTTP 401 (via errorHandler)
+// Usuário desativado -> HTTP 403 (via errorHandler)
+// 
+// ============================================================================
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../../domain/entities/User';
+import { ValidateAccessTokenUseCase } from '../../application/use-cases/UserUseCases';
+import { AuthenticationRequiredError } from '../../domain/errors';
+import { AuditContextDTO } from '../../application/dtos';
+
+// ============================================================================
+// TIPAGEM: req.user
+// ============================================================================
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Usuário autenticado (preenchido pelo middleware de autenticação) */
+      user?: User;
+    }
+  }
+}
+
+// ============================================================================
+// MIDDLEWARE PRINCIPAL
+// ============================================================================
+
+/**
+ * Cria o middleware de autenticação
+ * 
+ * @param validateAccessTokenUseCase - Caso de uso que resolve o usuário do token
+ * @returns Middleware do Express
+ * 
+ * @example
+ * ```typescript
+ * const authenticate = createAuthMiddleware(validateAccessTokenUseCase);
+ * app.use('/api/v1', authenticate);
+ * ```
+ */
+export function createAuthMiddleware(
+  validateAccessTokenUseCase: ValidateAccessTokenUseCase
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const token = extractBearerToken(req);
+      if (!token) {
+        throw new AuthenticationRequiredError();
+      }
+
+      req.user = await validateAccessTokenUseCase.execute(token);
+      next();
+    } catch (error: unknown) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Retorna o usuário autenticado da requisição
+ * 
+ * @description
+ * Usado pelos controllers para obter quem está realizando a operação,
+ * em vez de confiar em um `userId` enviado no corpo da requisição.
+ * 
+ * @throws AuthenticationRequiredError se a rota não passou pelo middleware
+ */
+export function getAuthenticatedUser(req: Request): User {
+  if (!req.user) {
+    throw new AuthenticationRequiredError();
+  }
+  return req.user;
+}
+
+/**
+ * Monta o contexto de auditoria da requisição (usuário e IP de origem)
+ * 
+ * @description
+ * Repassado aos casos de uso que gravam o log de auditoria (RF22).
+ * Em rotas públicas (login) o usuário ainda não existe.
+ */
+export function getAuditContext(req: Request): AuditContextDTO {
+  return {
+    userId: req.user?.id,
+    ipAddress: req.ip,
+  };
+}
+
+// ============================================================================
+// FUNÇÕES AUXILIARES
+// ============================================================================
+
+/**
+ * Extrai o token do cabeçalho Authorization (esquema Bearer)
+ */
+function extractBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token.trim();
+}
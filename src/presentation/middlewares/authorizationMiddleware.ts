@@ -0,0 +1,162 @@
+// ============================================================================
+// MIDDLEWARE DE AUTORIZAÇÃO
+// ============================================================================
+//
+// Controle de acesso por cargo (RF21), declarado rota a rota.
+//
+// Autenticação (authMiddleware) responde "quem é você".
+// Autorização (este arquivo) responde "o que você pode fazer".
+//
+// MATRIZ DE PERMISSÕES:
+// - CAIXA:   vendas e consultas
+// - GERENTE: + relatórios, financeiro, ajustes de estoque e cadastros
+// - ADMIN:   + gerenciamento de usuários e logs de auditoria
+//
+// As regras ficam na entidade User (canMakeSales, canManageUsers, ...);
+// aqui apenas associamos cada rota a uma permissão.
+//
+// Permissão negada -> UnauthorizedOperationError -> HTTP 403 (via errorHandler)
+//
+// ============================================================================
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../../domain/entities/User';
+import { UnauthorizedOperationError } from '../../domain/errors';
+import { getAuthenticatedUser } from './authMiddleware';
+
+// ============================================================================
+// PERMISSÕES
+// ============================================================================
+
+/**
+ * Permissão exigida por uma rota
+ *
+ * @property operation - Descrição usada na mensagem de erro
+ *                       ("Você não tem permissão para <operation>")
+ * @property isGrantedTo - Regra que decide se o usuário possui a permissão
+ */
+export interface Permission {
+  operation: string;
+  isGrantedTo: (user: User, req: Request) => boolean;
+}
+
+/**
+ * Permissões disponíveis para as rotas da API
+ */
+export const Permissions = {
+  /** Consultas em geral (qualquer usuário autenticado) */
+  LOOKUP: {
+    operation: 'consultar dados',
+    isGrantedTo: () => true,
+  },
+
+  /** Registrar vendas no PDV */
+  MAKE_SALES: {
+    operation: 'realizar vendas',
+    isGrantedTo: (user) => user.canMakeSales(),
+  },
+
+  /** Sangria, suprimento e fechamento do caixa de outro operador */
+  SUPERVISE_CASH_REGISTERS: {
+    operation: 'operar o caixa de outro usuário',
+    isGrantedTo: (user) => user.isAdmin() || user.isManager(),
+  },
+
+  /** Cancelar vendas já registradas */
+  CANCEL_SALES: {
+    operation: 'cancelar vendas',
+    isGrantedTo: (user) => user.isAdmin() || user.isManager(),
+  },
+
+  /** Liberar venda fiado acima do limite de crédito (só quando o corpo pede `overrideCreditLimit`) */
+  OVERRIDE_CREDIT_LIMIT: {
+    operation: 'liberar venda acima do limite de crédito',
+    isGrantedTo: (user, req) => req.body?.overrideCreditLimit !== true || user.isAdmin() || user.isManager(),
+  },
+
+  /** Emitir vale-troca manualmente e baixar créditos vencidos */
+  MANAGE_STORE_CREDIT: {
+    operation: 'gerenciar vale-troca',
+    isGrantedTo: (user) => user.isAdmin() || user.isManager(),
+  },
+
+  /** Solicitar pedidos de compra a fornecedores */
+  REQUEST_PURCHASES: {
+    operation: 'solicitar pedidos de compra',
+    isGrantedTo: (user) => user.canMakeSales(),
+  },
+
+  /** Aprovar pedidos de compra */
+  APPROVE_PURCHASES: {
+    operation: 'aprovar pedidos de compra',
+    isGrantedTo: (user) => user.isAdmin() || user.isManager(),
+  },
+
+  /** Relatórios de vendas/estoque e módulo financeiro */
+  VIEW_REPORTS: {
+    operation: 'acessar relatórios',
+    isGrantedTo: (user) => user.canAccessFinancialReports(),
+  },
+
+  /** Lançar contagens de inventário */
+  COUNT_INVENTORY: {
+    operation: 'lançar contagens de inventário',
+    isGrantedTo: (user) => user.canMakeSales(),
+  },
+
+  /** Ajustes de estoque e manutenção de cadastros */
+  MANAGE_INVENTORY: {
+    operation: 'gerenciar estoque e cadastros',
+    isGrantedTo: (user) => user.canManageInventory(),
+  },
+
+  /** Gerenciamento de usuários */
+  MANAGE_USERS: {
+    operation: 'gerenciar usuários',
+    isGrantedTo: (user) => user.canManageUsers(),
+  },
+
+  /** Consulta da trilha de auditoria */
+  VIEW_AUDIT_LOGS: {
+    operation: 'consultar logs de auditoria',
+    isGrantedTo: (user) => user.isAdmin(),
+  },
+
+  /** Alterar a própria senha (ou de qualquer usuário, se administrador) */
+  CHANGE_PASSWORD: {
+    operation: 'alterar a senha de outro usuário',
+    isGrantedTo: (user, req) => user.id === req.params.id || user.canManageUsers(),
+  },
+} satisfies Record<string, Permission>;
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Cria um middleware que exige a permissão informada
+ *
+ * @description
+ * Deve ser usado em rotas protegidas pelo middleware de autenticação.
+ *
+ * @param permission - Permissão exigida pela rota
+ * @returns Middleware do Express
+ *
+ * @example
+ * ```typescript
+ * router.post('/', authorize(Permissions.MAKE_SALES), (req, res) => controller.create(req, res));
+ * ```
+ */
+export function authorize(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      const user = getAuthenticatedUser(req);
+      if (!permission.isGrantedTo(user, req)) {
+        throw new UnauthorizedOperationError(permission.operation);
+      }
+      next();
+    } catch (error: unknown) {
+      next(error);
+    }
+  };
+}
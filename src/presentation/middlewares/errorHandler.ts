@@ -57,6 +57,11 @@ import {
   UnauthorizedOperationError,
   InvalidCredentialsError,
   UserDeactivatedError,
+  AuthenticationRequiredError,
+  InvalidTokenError,
+  ExpiredTokenError,
+  IdempotencyKeyReusedError,
+  IdempotencyKeyInProgressError,
 } from '../../domain/errors';
 
 // ============================================================================
@@ -244,6 +249,22 @@ export function errorHandler(
       return res.status(401).json(response);
     }
 
+    // Token ausente, inválido ou expirado -> 401 Unauthorized
+    if (
+      error instanceof AuthenticationRequiredError ||
+      error instanceof InvalidTokenError ||
+      error instanceof ExpiredTokenError
+    ) {
+      const response: ErrorResponse = {
+        error: 'Unauthorized',
+        message: error.message,
+        code: error.code,
+        timestamp,
+      };
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json(response);
+    }
+
     // Usuário desativado -> 403 Forbidden
     if (error instanceof UserDeactivatedError) {
       const response: ErrorResponse = {
@@ -255,6 +276,28 @@ export function errorHandler(
       return res.status(403).json(response);
     }
 
+    // Chave de idempotência com outra requisição -> 422 Unprocessable Entity
+    if (error instanceof IdempotencyKeyReusedError) {
+      const response: ErrorResponse = {
+        error: 'IdempotencyKeyReused',
+        message: error.message,
+        code: error.code,
+        timestamp,
+      };
+      return res.status(422).json(response);
+    }
+
+    // Requisição original ainda em processamento -> 409 Conflict
+    if (error instanceof IdempotencyKeyInProgressError) {
+      const response: ErrorResponse = {
+        error: 'Conflict',
+        message: error.message,
+        code: error.code,
+        timestamp,
+      };
+      return res.status(409).json(response);
+    }
+
     // Outros erros de domínio genéricos -> 400 Bad Request
     const response: ErrorResponse = {
       error: 'DomainError',
@@ -0,0 +1,149 @@
+// ============================================================================
+// MIDDLEWARE DE IDEMPOTÊNCIA
+// ============================================================================
+//
+// Evita que a repetição de uma requisição (timeout, rede instável) execute
+// a operação duas vezes, por exemplo registrando a mesma venda em dobro.
+//
+// FLUXO:
+// 1. Cliente envia o cabeçalho Idempotency-Key com um valor único por operação
+// 2. Primeira vez: a chave é reservada e a requisição segue para o controller;
+//    a resposta de sucesso fica guardada junto com a chave
+// 3. Repetição com o mesmo corpo: devolve a resposta guardada (mesmo status)
+//    com o cabeçalho Idempotent-Replayed: true, sem chamar o controller
+//
+// Sem o cabeçalho a requisição segue normalmente (não idempotente).
+// Chave reaproveitada com outro corpo -> HTTP 422 (via errorHandler)
+// Requisição original ainda em processamento -> HTTP 409 (via errorHandler)
+// Resposta de erro, resposta sem JSON ou conexão encerrada liberam a chave;
+// se o processo cair antes disso, a reserva expira após o prazo configurado
+//
+// O corpo é comparado pelo hash do JSON recebido: a repetição deve enviar
+// exatamente o mesmo conteúdo.
+//
+// Deve ser registrado depois da autenticação (a chave vale por usuário).
+//
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  BeginIdempotentRequestUseCase,
+  CompleteIdempotentRequestUseCase,
+  ReleaseIdempotentRequestUseCase,
+} from '../../application/use-cases/IdempotencyUseCases';
+import { getAuthenticatedUser } from './authMiddleware';
+
+/** Cabeçalho com a chave enviada pelo cliente */
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Cabeçalho que marca a resposta devolvida de uma requisição anterior */
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// ============================================================================
+// MIDDLEWARE PRINCIPAL
+// ============================================================================
+
+/**
+ * Cria o middleware de idempotência
+ *
+ * @param beginUseCase - Reserva a chave ou devolve a resposta guardada
+ * @param completeUseCase - Guarda a resposta da requisição original
+ * @param releaseUseCase - Libera a chave quando não há resposta
+ * @returns Middleware do Express
+ *
+ * @example
+ * ```typescript
+ * const idempotent = createIdempotencyMiddleware(begin, complete, release);
+ * router.post('/', authorize(Permissions.SELL), idempotent, handler);
+ * ```
+ */
+export function createIdempotencyMiddleware(
+  beginUseCase: BeginIdempotentRequestUseCase,
+  completeUseCase: CompleteIdempotentRequestUseCase,
+  releaseUseCase: ReleaseIdempotentRequestUseCase
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    try {
+      const record = await beginUseCase.execute({
+        userId: getAuthenticatedUser(req).id!,
+        key,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`,
+        requestHash: hashBody(req.body),
+      });
+
+      if (record.isCompleted()) {
+        res.setHeader(REPLAYED_HEADER, 'true');
+        res.status(record.statusCode!).json(record.getResponse());
+        return;
+      }
+
+      captureResponse(res, record.id!, completeUseCase, releaseUseCase);
+      next();
+    } catch (error: unknown) {
+      next(error);
+    }
+  };
+}
+
+// ============================================================================
+// FUNÇÕES AUXILIARES
+// ============================================================================
+
+/**
+ * Hash SHA-256 do corpo JSON da requisição
+ */
+function hashBody(body: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(body ?? {}))
+    .digest('hex');
+}
+
+/**
+ * Intercepta `res.json` para guardar a resposta antes de enviá-la
+ *
+ * @description
+ * A resposta só é enviada depois de guardada, para que uma repetição
+ * feita logo após o recebimento já encontre a chave concluída. Se a
+ * conexão terminar sem resposta JSON, a chave é liberada.
+ */
+function captureResponse(
+  res: Response,
+  recordId: string,
+  completeUseCase: CompleteIdempotentRequestUseCase,
+  releaseUseCase: ReleaseIdempotentRequestUseCase
+): void {
+  const sendJson = res.json.bind(res);
+  let settled = false;
+
+  res.json = (body?: unknown): Response => {
+    if (settled) {
+      return sendJson(body);
+    }
+    settled = true;
+
+    completeUseCase.execute(recordId, res.statusCode, body)
+      .catch((error: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error(`[IDEMPOTENCY] ${new Date().toISOString()}:`, error);
+        return releaseUseCase.execute(recordId).catch(() => undefined);
+      })
+      .finally(() => sendJson(body));
+
+    return res;
+  };
+
+  res.on('close', () => {
+    if (!settled) {
+      settled = true;
+      releaseUseCase.execute(recordId).catch(() => undefined);
+    }
+  });
+}
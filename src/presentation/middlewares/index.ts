@@ -20,3 +20,7 @@
 // ============================================================================
 
 export { errorHandler, notFoundHandler } from './errorHandler';
+export { createAuthMiddleware, getAuthenticatedUser, getAuditContext } from './authMiddleware';
+export { authorize, Permissions } from './authorizationMiddleware';
+export { createIdempotencyMiddleware } from './idempotencyMiddleware';
+export type { Permission } from './authorizationMiddleware';
@@ -0,0 +1,53 @@
+// ============================================================================
+// ROTAS DE AUDITORIA - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Consulta da trilha de auditoria (RF22). Somente leitura: os logs são
+// gravados pelos próprios casos de uso auditados.
+//
+// Permissões: restrito a ADMIN.
+//
+// Endpoints disponíveis:
+// - GET    /audit-logs       - Listar logs (com filtros)
+// - GET    /audit-logs/:id   - Buscar log por ID
+// ============================================================================
+
+import { Router } from 'express';
+import { AuditLogController } from '../controllers/AuditLogController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de auditoria.
+ * 
+ * @param {AuditLogController} controller - Instância do controller de auditoria
+ * @returns {Router} Router do Express configurado
+ * 
+ * @example
+ * const auditLogController = new AuditLogController(...);
+ * app.use('/api/v1/audit-logs', createAuditLogRoutes(auditLogController));
+ */
+export const createAuditLogRoutes = (controller: AuditLogController): Router => {
+  const router = Router();
+
+  /**
+   * @route GET /audit-logs
+   * @description Lista logs de auditoria (mais recentes primeiro)
+   * @query userId - Filtrar por usuário
+   * @query entity - Filtrar por entidade (User, Product, StockMovement, Sale, FinancialAccount)
+   * @query entityId - Filtrar por ID da entidade
+   * @query action - Filtrar por ação (LOGIN, LOGIN_FAILED, CREATE, UPDATE, ...)
+   * @query startDate - Data inicial
+   * @query endDate - Data final
+   * @returns { count: number, logs: AuditLog[] }
+   */
+  router.get('/', authorize(Permissions.VIEW_AUDIT_LOGS), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /audit-logs/:id
+   * @description Busca um log específico pelo ID
+   * @param id - ID do log
+   * @returns AuditLog
+   */
+  router.get('/:id', authorize(Permissions.VIEW_AUDIT_LOGS), (req, res) => controller.findById(req, res));
+
+  return router;
+};
@@ -0,0 +1,36 @@
+// ============================================================================
+// ROTAS DE AUTENTICAÇÃO - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Rotas públicas, registradas ANTES do middleware de autenticação.
+// Todas as demais rotas da API exigem o token emitido aqui.
+//
+// Endpoints disponíveis:
+// - POST   /users/login     - Autenticar usuário e obter token
+// ============================================================================
+
+import { Router } from 'express';
+import { UserController } from '../controllers/UserController';
+
+/**
+ * Cria e configura as rotas públicas de autenticação.
+ * 
+ * @param {UserController} controller - Instância do controller de usuários
+ * @returns {Router} Router do Express configurado
+ * 
+ * @example
+ * app.use('/api/v1/users', createAuthRoutes(userController));
+ * app.use('/api/v1', authenticate);
+ */
+export const createAuthRoutes = (controller: UserController): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /users/login
+   * @description Autentica um usuário no sistema
+   * @body { email: string, password: string }
+   * @returns { user: User, token: string, tokenType: 'Bearer', expiresAt: string }
+   */
+  router.post('/login', (req, res) => controller.login(req, res));
+
+  return router;
+};
@@ -0,0 +1,108 @@
+// ============================================================================
+// ROTAS DE CAIXA - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Define as rotas de abertura, movimentação e fechamento de caixa. Vendas
+// (POST /sales) exigem que o operador tenha um caixa aberto.
+//
+// Permissões: qualquer usuário que vende opera o próprio caixa; GERENTE ou
+// ADMIN também podem registrar sangria/suprimento e fechar o caixa de
+// outro operador. Consultas de sessões exigem acesso a relatórios.
+//
+// Endpoints disponíveis:
+// - POST /cash-registers/open             - Abrir caixa (fundo de troco)
+// - GET  /cash-registers/current          - Caixa aberto do usuário
+// - GET  /cash-registers                  - Listar sessões de caixa
+// - GET  /cash-registers/:id              - Buscar sessão com relatório
+// - POST /cash-registers/:id/withdrawals  - Registrar sangria
+// - POST /cash-registers/:id/deposits     - Registrar suprimento
+// - POST /cash-registers/:id/close        - Fechar caixa (conferência)
+// ============================================================================
+
+import { Router } from 'express';
+import { CashRegisterController } from '../controllers/CashRegisterController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de caixa.
+ *
+ * @param {CashRegisterController} controller - Instância do controller de caixa
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const cashRegisterController = new CashRegisterController(...);
+ * app.use('/api/v1/cash-registers', createCashRegisterRoutes(cashRegisterController));
+ */
+export const createCashRegisterRoutes = (controller: CashRegisterController): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /cash-registers/open
+   * @description Abre um caixa para o usuário autenticado
+   * @body {
+   *   openingFloat: number,  // fundo de troco
+   *   terminal?: string,     // padrão: "Caixa 01"
+   *   notes?: string
+   * }
+   * @returns CashRegisterSession
+   */
+  router.post('/open', authorize(Permissions.MAKE_SALES), (req, res) => controller.open(req, res));
+
+  /**
+   * @route GET /cash-registers/current
+   * @description Caixa aberto do usuário autenticado com o relatório parcial
+   * @returns CashRegisterSession + report
+   */
+  router.get('/current', authorize(Permissions.MAKE_SALES), (req, res) => controller.findCurrent(req, res));
+
+  /**
+   * @route GET /cash-registers
+   * @description Lista sessões de caixa (mais recentes primeiro)
+   * @query userId - Operador
+   * @query terminal - Identificação do caixa
+   * @query status - OPEN ou CLOSED
+   * @query startDate - Abertas a partir de
+   * @query endDate - Abertas até
+   * @returns { count: number, sessions: CashRegisterSession[] }
+   */
+  router.get('/', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /cash-registers/:id
+   * @description Busca uma sessão com o relatório (definitivo se fechada)
+   * @param id - ID da sessão
+   * @returns CashRegisterSession + report
+   */
+  router.get('/:id', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route POST /cash-registers/:id/withdrawals
+   * @description Registra uma sangria (limitada ao dinheiro na gaveta)
+   * @param id - ID da sessão
+   * @body { amount: number, reason: string }
+   * @returns CashRegisterMovement
+   */
+  router.post('/:id/withdrawals', authorize(Permissions.MAKE_SALES), (req, res) => controller.withdraw(req, res));
+
+  /**
+   * @route POST /cash-registers/:id/deposits
+   * @description Registra um suprimento (reforço de troco)
+   * @param id - ID da sessão
+   * @body { amount: number, reason: string }
+   * @returns CashRegisterMovement
+   */
+  router.post('/:id/deposits', authorize(Permissions.MAKE_SALES), (req, res) => controller.deposit(req, res));
+
+  /**
+   * @route POST /cash-registers/:id/close
+   * @description Fecha o caixa comparando valores esperados e contados
+   * @param id - ID da sessão
+   * @body {
+   *   counted: { CASH?: number, CARD?: number, PIX?: number },
+   *   notes?: string
+   * }
+   * @returns CashRegisterSession + report (diferença por forma de pagamento)
+   */
+  router.post('/:id/close', authorize(Permissions.MAKE_SALES), (req, res) => controller.close(req, res));
+
+  return router;
+};
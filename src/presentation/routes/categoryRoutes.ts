@@ -1,15 +1,17 @@
 // Rotas de Category - Camada de Apresentação
+// Consulta: qualquer usuário | Cadastro/alteração/exclusão: GERENTE ou ADMIN
 import { Router } from 'express';
 import { CategoryController } from '../controllers/CategoryController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
 export const createCategoryRoutes = (controller: CategoryController): Router => {
   const router = Router();
 
-  router.post('/', (req, res) => controller.create(req, res));
-  router.get('/', (req, res) => controller.findAll(req, res));
-  router.get('/:id', (req, res) => controller.findById(req, res));
-  router.put('/:id', (req, res) => controller.update(req, res));
-  router.delete('/:id', (req, res) => controller.delete(req, res));
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.create(req, res));
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+  router.put('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.update(req, res));
+  router.delete('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.delete(req, res));
 
   return router;
 };
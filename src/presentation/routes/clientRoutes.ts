@@ -4,17 +4,25 @@
 // Define todas as rotas relacionadas ao gerenciamento de clientes.
 // Implementa endpoints para CRUD e consulta de devedores.
 //
+// Permissões: consulta para qualquer usuário; cadastro, alteração, exclusão,
+// relatório de devedores e vale-troca manual para GERENTE ou ADMIN.
+//
 // Endpoints disponíveis:
 // - POST   /clients           - Criar novo cliente
 // - GET    /clients           - Listar clientes (paginado)
 // - GET    /clients/debtors   - Listar clientes devedores
 // - GET    /clients/:id       - Buscar cliente por ID
 // - PUT    /clients/:id       - Atualizar cliente
+// - POST   /clients/:id/payments  - Registrar pagamento do fiado
+// - GET    /clients/:id/statement - Extrato do fiado e do vale-troca
+// - POST   /clients/:id/store-credits   - Emitir vale-troca
+// - POST   /clients/store-credits/expire - Baixar vale-trocas vencidos
 // - DELETE /clients/:id       - Excluir cliente
 // ============================================================================
 
 import { Router } from 'express';
 import { ClientController } from '../controllers/ClientController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
 /**
  * Cria e configura as rotas do módulo de clientes.
@@ -39,7 +47,15 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @description Lista clientes com débito em aberto (fiado)
    * @returns { count: number, totalDebt: number, clients: Client[] }
    */
-  router.get('/debtors', (req, res) => controller.findDebtors(req, res));
+  router.get('/debtors', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findDebtors(req, res));
+
+  /**
+   * @route POST /clients/store-credits/expire
+   * @description Baixa o saldo das emissões de vale-troca vencidas, com
+   *              auditoria por cliente. Pode ser agendado (ex: diariamente).
+   * @returns { expiredAt, clientIds: string[], totalAmount: number, transactions: [...] }
+   */
+  router.post('/store-credits/expire', authorize(Permissions.MANAGE_STORE_CREDIT), (req, res) => controller.expireStoreCredits(req, res));
 
   // ============================================================================
   // ROTAS DE CRUD BÁSICO
@@ -51,7 +67,7 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @body { name: string, cpf?: string, phone?: string, email?: string, address?: string, creditLimit?: number }
    * @returns { success: boolean, data: Client }
    */
-  router.post('/', (req, res) => controller.create(req, res));
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.create(req, res));
 
   /**
    * @route GET /clients
@@ -63,7 +79,7 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @query search - Termo de busca (nome, CPF)
    * @returns { data: Client[], pagination: {...} }
    */
-  router.get('/', (req, res) => controller.findAll(req, res));
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
 
   /**
    * @route GET /clients/:id
@@ -71,7 +87,7 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @param id - ID do cliente
    * @returns { success: boolean, data: Client }
    */
-  router.get('/:id', (req, res) => controller.findById(req, res));
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
 
   /**
    * @route PUT /clients/:id
@@ -80,7 +96,7 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @body { name?: string, cpf?: string, phone?: string, email?: string, address?: string, creditLimit?: number }
    * @returns { success: boolean, data: Client }
    */
-  router.put('/:id', (req, res) => controller.update(req, res));
+  router.put('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.update(req, res));
 
   /**
    * @route DELETE /clients/:id
@@ -88,7 +104,45 @@ export const createClientRoutes = (controller: ClientController): Router => {
    * @param id - ID do cliente
    * @returns { status: 204 }
    */
-  router.delete('/:id', (req, res) => controller.delete(req, res));
+  router.delete('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.delete(req, res));
+
+  // ============================================================================
+  // ROTAS DO FIADO
+  // ============================================================================
+
+  /**
+   * @route POST /clients/:id/payments
+   * @description Registra pagamento parcial ou total do fiado.
+   *              Quita as vendas fiado pendentes da mais antiga para a mais nova.
+   * @param id - ID do cliente
+   * @body { amount: number, description?: string }
+   * @returns { transaction: ClientTransaction, remainingDebt: number, paidSaleIds: string[] }
+   */
+  router.post('/:id/payments', authorize(Permissions.MAKE_SALES), (req, res) => controller.registerPayment(req, res));
+
+  /**
+   * @route GET /clients/:id/statement
+   * @description Extrato do fiado com saldo acumulado, com o extrato do
+   *              vale-troca do mesmo período em `storeCredit`
+   * @param id - ID do cliente
+   * @query startDate - Data inicial (opcional)
+   * @query endDate - Data final (opcional)
+   * @returns { openingBalance, totalDebits, totalCredits, closingBalance, entries: [...], storeCredit: {...} }
+   */
+  router.get('/:id/statement', authorize(Permissions.LOOKUP), (req, res) => controller.getStatement(req, res));
+
+  // ============================================================================
+  // ROTAS DO VALE-TROCA
+  // ============================================================================
+
+  /**
+   * @route POST /clients/:id/store-credits
+   * @description Emite vale-troca manualmente (fora de uma devolução)
+   * @param id - ID do cliente
+   * @body { amount: number, reason: string, validityDays?: number }
+   * @returns StoreCreditTransaction
+   */
+  router.post('/:id/store-credits', authorize(Permissions.MANAGE_STORE_CREDIT), (req, res) => controller.issueStoreCredit(req, res));
 
   return router;
 };
@@ -4,6 +4,8 @@
 // Define todas as rotas relacionadas ao módulo financeiro.
 // Implementa endpoints para contas a pagar/receber e resumo financeiro.
 //
+// Permissões: todo o módulo é restrito a GERENTE ou ADMIN.
+//
 // Endpoints disponíveis:
 // - POST   /financial/accounts       - Criar conta a pagar/receber
 // - GET    /financial/accounts       - Listar contas (paginado)
@@ -12,23 +14,28 @@
 // - POST   /financial/accounts/:id/pay - Registrar pagamento
 // - POST   /financial/accounts/:id/cancel - Cancelar conta
 // - GET    /financial/summary        - Resumo financeiro
+// - GET    /financial/cash-flow      - Fluxo de caixa (diário/mensal/anual)
+//
+// POST /financial/accounts/:id/pay aceita o cabeçalho Idempotency-Key.
 // ============================================================================
 
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { FinancialController } from '../controllers/FinancialController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
 /**
  * Cria e configura as rotas do módulo financeiro.
  * 
  * @param {FinancialController} controller - Instância do controller financeiro
+ * @param {RequestHandler} idempotent - Middleware de idempotência (Idempotency-Key)
  * @returns {Router} Router do Express configurado
  * 
  * @example
  * const financialController = new FinancialController(...);
- * const financialRoutes = createFinancialRoutes(financialController);
+ * const financialRoutes = createFinancialRoutes(financialController, idempotencyMiddleware);
  * app.use('/api/financial', financialRoutes);
  */
-export const createFinancialRoutes = (controller: FinancialController): Router => {
+export const createFinancialRoutes = (controller: FinancialController, idempotent: RequestHandler): Router => {
   const router = Router();
 
   // ============================================================================
@@ -40,7 +47,7 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * @description Lista contas vencidas (a pagar e a receber)
    * @returns { count: number, accounts: FinancialAccount[] }
    */
-  router.get('/accounts/overdue', (req, res) => controller.findOverdueAccounts(req, res));
+  router.get('/accounts/overdue', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findOverdueAccounts(req, res));
 
   /**
    * @route GET /financial/summary
@@ -49,7 +56,17 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * @query endDate - Data final (YYYY-MM-DD) - obrigatório
    * @returns { summary: FinancialSummary }
    */
-  router.get('/summary', (req, res) => controller.getSummary(req, res));
+  router.get('/summary', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.getSummary(req, res));
+
+  /**
+   * @route GET /financial/cash-flow
+   * @description Fluxo de caixa do período com saldo inicial/final e totais por categoria
+   * @query startDate - Data inicial (YYYY-MM-DD) - obrigatório
+   * @query endDate - Data final (YYYY-MM-DD, inclui o dia inteiro) - obrigatório
+   * @query groupBy - daily (padrão), monthly ou yearly
+   * @returns CashFlowReport
+   */
+  router.get('/cash-flow', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.getCashFlow(req, res));
 
   // ============================================================================
   // ROTAS DE CONTAS A PAGAR/RECEBER
@@ -69,7 +86,7 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * }
    * @returns { success: boolean, data: FinancialAccount }
    */
-  router.post('/accounts', (req, res) => controller.createAccount(req, res));
+  router.post('/accounts', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.createAccount(req, res));
 
   /**
    * @route GET /financial/accounts
@@ -83,7 +100,7 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * @query endDate - Data final do vencimento
    * @returns { data: FinancialAccount[], pagination: {...} }
    */
-  router.get('/accounts', (req, res) => controller.findAllAccounts(req, res));
+  router.get('/accounts', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findAllAccounts(req, res));
 
   /**
    * @route GET /financial/accounts/:id
@@ -91,16 +108,17 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * @param id - ID da conta
    * @returns { success: boolean, data: FinancialAccount }
    */
-  router.get('/accounts/:id', (req, res) => controller.findAccountById(req, res));
+  router.get('/accounts/:id', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findAccountById(req, res));
 
   /**
    * @route POST /financial/accounts/:id/pay
    * @description Registra o pagamento de uma conta
    * @param id - ID da conta
+   * @header Idempotency-Key - Opcional; repetições devolvem o pagamento já registrado
    * @body { amount?: number, paidDate?: string }
    * @returns { message: string, account: FinancialAccount }
    */
-  router.post('/accounts/:id/pay', (req, res) => controller.payAccount(req, res));
+  router.post('/accounts/:id/pay', authorize(Permissions.VIEW_REPORTS), idempotent, (req, res) => controller.payAccount(req, res));
 
   /**
    * @route POST /financial/accounts/:id/cancel
@@ -108,7 +126,7 @@ export const createFinancialRoutes = (controller: FinancialController): Router =
    * @param id - ID da conta
    * @returns { message: string, account: FinancialAccount }
    */
-  router.post('/accounts/:id/cancel', (req, res) => controller.cancelAccount(req, res));
+  router.post('/accounts/:id/cancel', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.cancelAccount(req, res));
 
   return router;
 };
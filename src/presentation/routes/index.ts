@@ -7,15 +7,26 @@
 // Módulos de Estoque
 export { createCategoryRoutes } from './categoryRoutes';
 export { createSupplierRoutes } from './supplierRoutes';
+export { createPurchaseOrderRoutes } from './purchaseOrderRoutes';
 export { createProductRoutes } from './productRoutes';
 export { createStockMovementRoutes } from './stockMovementRoutes';
+export { createStockLotRoutes } from './stockLotRoutes';
+export { createStockLocationRoutes } from './stockLocationRoutes';
+export { createStockTransferRoutes } from './stockTransferRoutes';
+export { createInventoryCountRoutes } from './inventoryCountRoutes';
 
 // Módulos de Usuários
+export { createAuthRoutes } from './authRoutes';
 export { createUserRoutes } from './userRoutes';
+export { createAuditLogRoutes } from './auditLogRoutes';
 
 // Módulos de Clientes e Vendas
 export { createClientRoutes } from './clientRoutes';
 export { createSaleRoutes } from './saleRoutes';
+export { createSaleDraftRoutes } from './saleDraftRoutes';
+export { createPromotionRoutes } from './promotionRoutes';
+export { createQuoteRoutes } from './quoteRoutes';
+export { createCashRegisterRoutes } from './cashRegisterRoutes';
 
 // Módulos Financeiros
 export { createFinancialRoutes } from './financialRoutes';
@@ -0,0 +1,91 @@
+// ============================================================================
+// ROTAS DE INVENTÁRIO - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Contagem física do estoque de um local. A abertura guarda o saldo
+// esperado de cada produto; os usuários lançam o que contaram e a
+// aprovação lança um ajuste para cada produto contado com diferença.
+//
+// Permissões: consulta (todos os perfis) | contagem: qualquer usuário ativo
+//             | abertura, aprovação e cancelamento: GERENTE ou ADMIN
+// POST /:id/approve aceita o cabeçalho Idempotency-Key (repetição segura)
+//
+// Endpoints disponíveis:
+// - POST   /inventory-counts              - Abrir inventário
+// - GET    /inventory-counts              - Listar inventários
+// - GET    /inventory-counts/:id          - Buscar inventário por ID
+// - POST   /inventory-counts/:id/counts   - Lançar contagens
+// - POST   /inventory-counts/:id/approve  - Aprovar e lançar ajustes
+// - POST   /inventory-counts/:id/cancel   - Cancelar inventário
+// ============================================================================
+
+import { Router, RequestHandler } from 'express';
+import { InventoryCountController } from '../controllers/InventoryCountController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de inventário.
+ *
+ * @param {InventoryCountController} controller - Instância do controller de inventários
+ * @param {RequestHandler} idempotent - Middleware de idempotência
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const inventoryCountController = new InventoryCountController(...);
+ * app.use('/api/v1/inventory-counts', createInventoryCountRoutes(inventoryCountController, idempotent));
+ */
+export const createInventoryCountRoutes = (controller: InventoryCountController, idempotent: RequestHandler): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /inventory-counts
+   * @description Abre um inventário com o saldo esperado de cada produto ativo
+   * @body { locationId?, categoryId?, notes? }
+   * @returns InventoryCount
+   */
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /inventory-counts
+   * @description Lista inventários (mais recentes primeiro)
+   * @query locationId - Filtrar por local
+   * @query categoryId - Filtrar por categoria
+   * @query status - OPEN | APPROVED | CANCELLED
+   * @returns InventoryCount[]
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /inventory-counts/:id
+   * @description Busca um inventário com itens, contagens e diferenças
+   * @param id - ID do inventário
+   * @returns InventoryCount
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route POST /inventory-counts/:id/counts
+   * @description Lança as quantidades contadas pelo usuário (substitui a contagem anterior dele)
+   * @param id - ID do inventário
+   * @body { items: [{ productId, quantity }] }
+   * @returns InventoryCount
+   */
+  router.post('/:id/counts', authorize(Permissions.COUNT_INVENTORY), (req, res) => controller.recordCounts(req, res));
+
+  /**
+   * @route POST /inventory-counts/:id/approve
+   * @description Aprova o inventário e lança os ajustes dos produtos com diferença
+   * @param id - ID do inventário
+   * @returns { count: InventoryCount, movements: StockMovement[] }
+   */
+  router.post('/:id/approve', authorize(Permissions.MANAGE_INVENTORY), idempotent, (req, res) => controller.approve(req, res));
+
+  /**
+   * @route POST /inventory-counts/:id/cancel
+   * @description Cancela o inventário sem lançar ajustes
+   * @param id - ID do inventário
+   * @returns InventoryCount
+   */
+  router.post('/:id/cancel', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.cancel(req, res));
+
+  return router;
+};
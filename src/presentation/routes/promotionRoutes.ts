@@ -0,0 +1,93 @@
+// ============================================================================
+// ROTAS DE PROMOÇÕES - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Define as rotas do cadastro de promoções. As promoções vigentes são
+// aplicadas automaticamente em POST /sales.
+//
+// Permissões: consulta para qualquer usuário ativo; cadastro, alteração e
+// exclusão para GERENTE ou ADMIN.
+//
+// Endpoints disponíveis:
+// - POST   /promotions      - Criar promoção
+// - GET    /promotions      - Listar promoções (tipo/situação/vigentes)
+// - GET    /promotions/:id  - Buscar promoção por ID
+// - PUT    /promotions/:id  - Atualizar promoção
+// - DELETE /promotions/:id  - Excluir promoção (somente se nunca aplicada)
+// ============================================================================
+
+import { Router } from 'express';
+import { PromotionController } from '../controllers/PromotionController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de promoções.
+ *
+ * @param {PromotionController} controller - Instância do controller de promoções
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const promotionController = new PromotionController(...);
+ * app.use('/api/v1/promotions', createPromotionRoutes(promotionController));
+ */
+export const createPromotionRoutes = (controller: PromotionController): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /promotions
+   * @description Cria uma promoção
+   * @body {
+   *   name: string,
+   *   description?: string,
+   *   type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'BUY_X_GET_Y',
+   *   value: number,          // % (PERCENTAGE, BUY_X_GET_Y) ou R$ por unidade (FIXED_AMOUNT)
+   *   buyQuantity?: number,   // BUY_X_GET_Y: X
+   *   getQuantity?: number,   // BUY_X_GET_Y: Y
+   *   minPurchase?: number,   // valor bruto mínimo da venda
+   *   startDate: string,
+   *   endDate: string,        // YYYY-MM-DD vale até o fim do dia
+   *   isActive?: boolean,
+   *   productIds?: string[],  // omitido = todos
+   *   categoryIds?: string[]  // omitido = todas
+   * }
+   * @returns Promotion
+   */
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /promotions
+   * @description Lista promoções (mais recentes primeiro)
+   * @query type - PERCENTAGE, FIXED_AMOUNT ou BUY_X_GET_Y
+   * @query isActive - true/false
+   * @query running - true para somente as promoções valendo agora
+   * @returns { count: number, promotions: Promotion[] }
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /promotions/:id
+   * @description Busca uma promoção pelo ID
+   * @param id - ID da promoção
+   * @returns Promotion
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route PUT /promotions/:id
+   * @description Atualiza uma promoção; vendas já registradas não mudam
+   * @param id - ID da promoção
+   * @body Campos de POST /promotions (todos opcionais; null em productIds/categoryIds = todos)
+   * @returns Promotion
+   */
+  router.put('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.update(req, res));
+
+  /**
+   * @route DELETE /promotions/:id
+   * @description Exclui uma promoção que nunca foi aplicada em vendas
+   *              (as demais devem ser desativadas com isActive: false)
+   * @param id - ID da promoção
+   * @returns 204 No Content
+   */
+  router.delete('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.delete(req, res));
+
+  return router;
+};
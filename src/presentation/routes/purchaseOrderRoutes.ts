@@ -0,0 +1,108 @@
+// ============================================================================
+// ROTAS DE PEDIDOS DE COMPRA - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Define as rotas do ciclo de vida dos pedidos de compra a fornecedores (RF14).
+//
+// Permissões: solicitar e consultar pedidos para qualquer usuário ativo;
+// aprovação, recebimento e cancelamento para GERENTE ou ADMIN.
+//
+// Endpoints disponíveis:
+// - POST   /purchase-orders              - Criar pedido (PENDING)
+// - GET    /purchase-orders              - Listar pedidos (fornecedor/status)
+// - GET    /purchase-orders/:id          - Buscar pedido por ID
+// - POST   /purchase-orders/:id/approve  - Aprovar pedido
+// - POST   /purchase-orders/:id/receive  - Receber mercadoria (parcial ou total)
+// - POST   /purchase-orders/:id/cancel   - Cancelar pedido
+// ============================================================================
+
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/PurchaseOrderController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de pedidos de compra.
+ *
+ * @param {PurchaseOrderController} controller - Instância do controller de pedidos
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const purchaseOrderController = new PurchaseOrderController(...);
+ * app.use('/api/v1/purchase-orders', createPurchaseOrderRoutes(purchaseOrderController));
+ */
+export const createPurchaseOrderRoutes = (controller: PurchaseOrderController): Router => {
+  const router = Router();
+
+  // ============================================================================
+  // ROTAS DE CRUD BÁSICO
+  // ============================================================================
+
+  /**
+   * @route POST /purchase-orders
+   * @description Cria um pedido de compra; o total é calculado a partir dos itens
+   * @body {
+   *   supplierId: string,
+   *   items: [{ productId: string, quantity: number, unitPrice?: number }],
+   *   expectedDate?: string,
+   *   paymentTerms?: string,  // ex.: "30/60/90" (padrão: a do fornecedor)
+   *   notes?: string
+   * }
+   * @returns PurchaseOrder
+   */
+  router.post('/', authorize(Permissions.REQUEST_PURCHASES), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /purchase-orders
+   * @description Lista pedidos de compra (mais recentes primeiro)
+   * @query supplierId - Filtrar por fornecedor
+   * @query status - PENDING, APPROVED, RECEIVED ou CANCELLED
+   * @query startDate - Data inicial
+   * @query endDate - Data final
+   * @returns { count: number, totalAmount: number, orders: PurchaseOrder[] }
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /purchase-orders/:id
+   * @description Busca um pedido com suas contas a pagar e a situação de pagamento
+   * @param id - ID do pedido
+   * @returns PurchaseOrder & { payment: PurchaseOrderPaymentSummary, payables: FinancialAccount[] }
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  // ============================================================================
+  // ROTAS DE OPERAÇÕES
+  // ============================================================================
+
+  /**
+   * @route POST /purchase-orders/:id/approve
+   * @description Aprova um pedido pendente (GERENTE ou ADMIN)
+   * @param id - ID do pedido
+   * @returns { message: string, order: PurchaseOrder }
+   */
+  router.post('/:id/approve', authorize(Permissions.APPROVE_PURCHASES), (req, res) => controller.approve(req, res));
+
+  /**
+   * @route POST /purchase-orders/:id/receive
+   * @description Registra a entrega de um pedido aprovado. Gera entradas no
+   *              estoque, atualiza o custo dos produtos e lança as contas a
+   *              pagar da entrega; o pedido passa a RECEIVED quando todos os
+   *              itens chegaram.
+   * @param id - ID do pedido
+   * @body {
+   *   items: [{ productId: string, quantity: number, unitPrice?: number }],
+   *   notes?: string
+   * }
+   * @returns { message: string, order: PurchaseOrder, movements: StockMovement[], payables: FinancialAccount[] }
+   */
+  router.post('/:id/receive', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.receive(req, res));
+
+  /**
+   * @route POST /purchase-orders/:id/cancel
+   * @description Cancela um pedido pendente ou aprovado
+   * @param id - ID do pedido
+   * @returns { message: string, order: PurchaseOrder }
+   */
+  router.post('/:id/cancel', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.cancel(req, res));
+
+  return router;
+};
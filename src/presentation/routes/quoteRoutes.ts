@@ -0,0 +1,92 @@
+// ============================================================================
+// ROTAS DE ORÇAMENTOS - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Define as rotas de orçamentos (propostas de preço para o cliente, ex:
+// atacado). O orçamento é precificado como a venda, com as promoções
+// vigentes, mas não reserva nem baixa estoque.
+//
+// Permissões: consulta para qualquer usuário ativo; emitir, converter e
+// cancelar para quem pode vender.
+//
+// Endpoints disponíveis:
+// - POST   /quotes             - Criar orçamento
+// - GET    /quotes             - Listar orçamentos
+// - GET    /quotes/:id         - Buscar orçamento por ID
+// - POST   /quotes/:id/convert - Converter em venda (preços do dia)
+// - POST   /quotes/:id/cancel  - Cancelar orçamento aberto
+// ============================================================================
+
+import { Router } from 'express';
+import { QuoteController } from '../controllers/QuoteController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de orçamentos.
+ *
+ * @param {QuoteController} controller - Instância do controller de orçamentos
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const quoteController = new QuoteController(...);
+ * app.use('/api/v1/quotes', createQuoteRoutes(quoteController));
+ */
+export const createQuoteRoutes = (controller: QuoteController): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /quotes
+   * @description Cria um orçamento (emissor = usuário do token)
+   * @body {
+   *   clientId?: string,
+   *   items: [{ productId: string, quantity: number, discount?: number }],
+   *   discount?: number,
+   *   notes?: string,
+   *   validityDays?: number   // padrão: QUOTE_VALIDITY_DAYS
+   * }
+   * @returns Quote
+   */
+  router.post('/', authorize(Permissions.MAKE_SALES), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /quotes
+   * @description Lista orçamentos (mais recentes primeiro)
+   * @query clientId - Filtrar por cliente
+   * @query userId - Filtrar por emissor
+   * @query status - OPEN, CONVERTED ou CANCELLED
+   * @returns { count: number, quotes: Quote[] }
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /quotes/:id
+   * @description Busca um orçamento pelo ID
+   * @param id - ID do orçamento
+   * @returns Quote
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route POST /quotes/:id/convert
+   * @description Converte o orçamento aberto e válido em venda, conferindo
+   *              estoque e preços de novo (operador = usuário do token)
+   * @param id - ID do orçamento
+   * @body {
+   *   paymentMethod?: PaymentMethod,  // forma única (ou use payments)
+   *   payments?: [{ paymentMethod: PaymentMethod, amount: number, amountReceived?: number }],
+   *   amountPaid?: number,
+   *   overrideCreditLimit?: boolean
+   * }
+   * @returns { message, sale: Sale, quote: Quote, quotedTotal: number, priceChanges: [...] }
+   */
+  router.post('/:id/convert', authorize(Permissions.MAKE_SALES), authorize(Permissions.OVERRIDE_CREDIT_LIMIT), (req, res) => controller.convert(req, res));
+
+  /**
+   * @route POST /quotes/:id/cancel
+   * @description Cancela um orçamento aberto
+   * @param id - ID do orçamento
+   * @returns { message, quote: Quote }
+   */
+  router.post('/:id/cancel', authorize(Permissions.MAKE_SALES), (req, res) => controller.cancel(req, res));
+
+  return router;
+};
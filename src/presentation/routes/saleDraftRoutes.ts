@@ -0,0 +1,110 @@
+// ============================================================================
+// ROTAS DE VENDAS SUSPENSAS - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Define as rotas de vendas suspensas: vendas montadas no caixa e
+// estacionadas para atender o próximo cliente. Não baixam estoque até a
+// finalização e expiram após SALE_DRAFT_TTL_MINUTES sem alteração.
+//
+// Permissões: qualquer usuário que pode vender.
+//
+// Endpoints disponíveis:
+// - POST   /sale-drafts                      - Suspender venda
+// - GET    /sale-drafts                      - Listar vendas suspensas
+// - GET    /sale-drafts/:id                  - Retomar venda suspensa
+// - POST   /sale-drafts/:id/items            - Adicionar item
+// - DELETE /sale-drafts/:id/items/:itemId    - Remover item
+// - POST   /sale-drafts/:id/finalize         - Finalizar (registra a venda)
+// - DELETE /sale-drafts/:id                  - Descartar
+// ============================================================================
+
+import { Router } from 'express';
+import { SaleDraftController } from '../controllers/SaleDraftController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de vendas suspensas.
+ *
+ * @param {SaleDraftController} controller - Instância do controller de vendas suspensas
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const saleDraftController = new SaleDraftController(...);
+ * app.use('/api/v1/sale-drafts', createSaleDraftRoutes(saleDraftController));
+ */
+export const createSaleDraftRoutes = (controller: SaleDraftController): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /sale-drafts
+   * @description Suspende uma venda no caixa aberto do operador (usuário do token)
+   * @body {
+   *   clientId?: string,
+   *   items?: [{ productId: string, quantity: number, discount?: number }],
+   *   discount?: number,
+   *   notes?: string
+   * }
+   * @returns Sale (status DRAFT) + expiresAt
+   */
+  router.post('/', authorize(Permissions.MAKE_SALES), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /sale-drafts
+   * @description Lista vendas suspensas (sem filtros: as do próprio operador)
+   * @query userId - Filtrar por operador
+   * @query sessionId - Filtrar por sessão de caixa
+   * @returns { count: number, drafts: Sale[] }
+   */
+  router.get('/', authorize(Permissions.MAKE_SALES), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /sale-drafts/:id
+   * @description Retoma uma venda suspensa
+   * @param id - ID da venda suspensa
+   * @returns Sale (status DRAFT) + expiresAt
+   */
+  router.get('/:id', authorize(Permissions.MAKE_SALES), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route POST /sale-drafts/:id/items
+   * @description Adiciona um item (precificado como no caixa, sem baixar estoque)
+   * @param id - ID da venda suspensa
+   * @body { productId: string, quantity: number, discount?: number }
+   * @returns Sale (status DRAFT) + expiresAt
+   */
+  router.post('/:id/items', authorize(Permissions.MAKE_SALES), (req, res) => controller.addItem(req, res));
+
+  /**
+   * @route DELETE /sale-drafts/:id/items/:itemId
+   * @description Remove um item (o desconto geral é limitado ao novo subtotal)
+   * @param id - ID da venda suspensa
+   * @param itemId - ID do item (`items[].id`)
+   * @returns Sale (status DRAFT) + expiresAt
+   */
+  router.delete('/:id/items/:itemId', authorize(Permissions.MAKE_SALES), (req, res) => controller.removeItem(req, res));
+
+  /**
+   * @route POST /sale-drafts/:id/finalize
+   * @description Registra a venda (estoque, preços e promoções conferidos agora)
+   *              e exclui a venda suspensa
+   * @param id - ID da venda suspensa
+   * @body {
+   *   clientId?: string,              // substitui o da venda suspensa
+   *   paymentMethod?: PaymentMethod,  // forma única (ou use payments)
+   *   payments?: [{ paymentMethod: PaymentMethod, amount: number, amountReceived?: number }],
+   *   amountPaid?: number,
+   *   overrideCreditLimit?: boolean
+   * }
+   * @returns Sale
+   */
+  router.post('/:id/finalize', authorize(Permissions.MAKE_SALES), authorize(Permissions.OVERRIDE_CREDIT_LIMIT), (req, res) => controller.finalize(req, res));
+
+  /**
+   * @route DELETE /sale-drafts/:id
+   * @description Descarta a venda suspensa
+   * @param id - ID da venda suspensa
+   * @returns 204 No Content
+   */
+  router.delete('/:id', authorize(Permissions.MAKE_SALES), (req, res) => controller.discard(req, res));
+
+  return router;
+};
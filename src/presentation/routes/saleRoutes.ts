@@ -4,6 +4,9 @@
 // Define todas as rotas relacionadas ao módulo de vendas (PDV).
 // Implementa endpoints para registro de vendas, consultas e relatórios.
 //
+// Permissões: registrar, devolver itens e consultar vendas para qualquer
+// usuário ativo; relatórios e cancelamento para GERENTE ou ADMIN.
+//
 // Endpoints disponíveis:
 // - POST   /sales           - Registrar nova venda
 // - GET    /sales           - Listar vendas (paginado)
@@ -11,24 +14,31 @@
 // - GET    /sales/daily     - Vendas do dia atual
 // - GET    /sales/summary   - Resumo de vendas por período
 // - GET    /sales/:id       - Buscar venda por ID
+// - GET    /sales/:id/receipt - Cupom da venda (JSON, texto ou HTML)
+// - GET    /sales/:id/returns - Devoluções da venda
+// - POST   /sales/:id/returns - Devolver itens da venda
 // - POST   /sales/:id/cancel - Cancelar venda
+//
+// POST /sales aceita o cabeçalho Idempotency-Key (repetição segura).
 // ============================================================================
 
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { SaleController } from '../controllers/SaleController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
 /**
  * Cria e configura as rotas do módulo de vendas.
  * 
  * @param {SaleController} controller - Instância do controller de vendas
+ * @param {RequestHandler} idempotent - Middleware de idempotência (Idempotency-Key)
  * @returns {Router} Router do Express configurado
  * 
  * @example
  * const saleController = new SaleController(...);
- * const saleRoutes = createSaleRoutes(saleController);
+ * const saleRoutes = createSaleRoutes(saleController, idempotencyMiddleware);
  * app.use('/api/sales', saleRoutes);
  */
-export const createSaleRoutes = (controller: SaleController): Router => {
+export const createSaleRoutes = (controller: SaleController, idempotent: RequestHandler): Router => {
   const router = Router();
 
   // ============================================================================
@@ -42,14 +52,14 @@ export const createSaleRoutes = (controller: SaleController): Router => {
    * @query endDate - Data final (YYYY-MM-DD) - obrigatório
    * @returns { success: boolean, data: Sale[] }
    */
-  router.get('/period', (req, res) => controller.findByPeriod(req, res));
+  router.get('/period', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.findByPeriod(req, res));
 
   /**
    * @route GET /sales/daily
    * @description Retorna as vendas do dia atual com resumo
    * @returns { count: number, totalAmount: number, sales: Sale[] }
    */
-  router.get('/daily', (req, res) => controller.getDailyReport(req, res));
+  router.get('/daily', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.getDailyReport(req, res));
 
   /**
    * @route GET /sales/summary
@@ -58,7 +68,7 @@ export const createSaleRoutes = (controller: SaleController): Router => {
    * @query endDate - Data final (YYYY-MM-DD) - obrigatório
    * @returns { summary: SalesSummary }
    */
-  router.get('/summary', (req, res) => controller.getSummary(req, res));
+  router.get('/summary', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.getSummary(req, res));
 
   // ============================================================================
   // ROTAS DE CRUD BÁSICO
@@ -66,18 +76,25 @@ export const createSaleRoutes = (controller: SaleController): Router => {
 
   /**
    * @route POST /sales
-   * @description Registra uma nova venda no sistema
+   * @description Registra uma nova venda no sistema (operador = usuário do token)
+   * @header Idempotency-Key - Opcional; repetições devolvem a venda já registrada
    * @body { 
    *   clientId?: string, 
-   *   userId: string,
    *   items: [{ productId: string, quantity: number, unitPrice?: number }],
-   *   paymentMethod: PaymentMethod,
+   *   paymentMethod?: PaymentMethod,  // forma única (ou use payments)
+   *   payments?: [{                   // pagamento dividido: soma = total
+   *     paymentMethod: PaymentMethod,
+   *     amount: number,
+   *     amountReceived?: number       // dinheiro: valor entregue (troco)
+   *   }],
    *   discount?: number,
-   *   notes?: string
+   *   notes?: string,
+   *   overrideCreditLimit?: boolean,  // fiado acima do limite (GERENTE/ADMIN)
+   *   amountPaid?: number             // forma única em dinheiro: valor entregue (troco)
    * }
    * @returns { success: boolean, data: Sale }
    */
-  router.post('/', (req, res) => controller.create(req, res));
+  router.post('/', authorize(Permissions.MAKE_SALES), authorize(Permissions.OVERRIDE_CREDIT_LIMIT), idempotent, (req, res) => controller.create(req, res));
 
   /**
    * @route GET /sales
@@ -92,7 +109,7 @@ export const createSaleRoutes = (controller: SaleController): Router => {
    * @query endDate - Data final
    * @returns { data: Sale[], pagination: {...} }
    */
-  router.get('/', (req, res) => controller.findAll(req, res));
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
 
   /**
    * @route GET /sales/:id
@@ -100,7 +117,26 @@ export const createSaleRoutes = (controller: SaleController): Router => {
    * @param id - ID da venda
    * @returns { success: boolean, data: Sale }
    */
-  router.get('/:id', (req, res) => controller.findById(req, res));
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route GET /sales/:id/receipt
+   * @description Cupom da venda (RF08). Texto e HTML contam como via impressa;
+   *              reimpressões saem marcadas como "2ª via".
+   * @param id - ID da venda
+   * @query format - json (padrão), text ou html
+   * @query width - Colunas da impressora térmica no formato text (40 ou 48)
+   * @returns Cupom no formato solicitado
+   */
+  router.get('/:id/receipt', authorize(Permissions.LOOKUP), (req, res) => controller.getReceipt(req, res));
+
+  /**
+   * @route GET /sales/:id/returns
+   * @description Lista as devoluções da venda
+   * @param id - ID da venda
+   * @returns SaleReturn[]
+   */
+  router.get('/:id/returns', authorize(Permissions.LOOKUP), (req, res) => controller.findReturns(req, res));
 
   // ============================================================================
   // ROTAS DE OPERAÇÕES
@@ -113,7 +149,21 @@ export const createSaleRoutes = (controller: SaleController): Router => {
    * @body { reason?: string }
    * @returns { message: string, sale: Sale }
    */
-  router.post('/:id/cancel', (req, res) => controller.cancel(req, res));
+  router.post('/:id/cancel', authorize(Permissions.CANCEL_SALES), (req, res) => controller.cancel(req, res));
+
+  /**
+   * @route POST /sales/:id/returns
+   * @description Devolve itens da venda (parcial ou total). Itens voltam ao
+   *              estoque; avariados são baixados como perda.
+   * @param id - ID da venda
+   * @body {
+   *   items: [{ saleItemId: string, quantity: number, damaged?: boolean }],
+   *   refundMethod: 'CASH' | 'STORE_CREDIT' | 'FIADO',
+   *   reason?: string
+   * }
+   * @returns SaleReturn
+   */
+  router.post('/:id/returns', authorize(Permissions.MAKE_SALES), (req, res) => controller.createReturn(req, res));
 
   return router;
 };
@@ -0,0 +1,97 @@
+// ============================================================================
+// ROTAS DE LOCAIS DE ESTOQUE - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Cadastro dos locais (depósito, loja, ...), saldos de cada produto por
+// local e estoque baixo por local (RF05).
+//
+// Permissões: consulta (todos os perfis) | cadastro e mínimos: GERENTE ou ADMIN
+//
+// Endpoints disponíveis:
+// - GET    /stock-locations                            - Listar locais
+// - POST   /stock-locations                            - Cadastrar local
+// - GET    /stock-locations/stock                      - Saldos por local
+// - GET    /stock-locations/low-stock                  - Estoque baixo por local
+// - GET    /stock-locations/:id                        - Buscar local por ID
+// - PUT    /stock-locations/:id                        - Atualizar local
+// - PUT    /stock-locations/:id/products/:productId    - Mínimo do produto no local
+// ============================================================================
+
+import { Router } from 'express';
+import { StockLocationController } from '../controllers/StockLocationController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de locais de estoque.
+ *
+ * @param {StockLocationController} controller - Instância do controller de locais
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const stockLocationController = new StockLocationController(...);
+ * app.use('/api/v1/stock-locations', createStockLocationRoutes(stockLocationController));
+ */
+export const createStockLocationRoutes = (controller: StockLocationController): Router => {
+  const router = Router();
+
+  /**
+   * @route GET /stock-locations
+   * @description Lista os locais, o padrão primeiro
+   * @query isActive - Filtrar por situação
+   * @returns StockLocation[]
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route POST /stock-locations
+   * @description Cadastra um local; o primeiro local vira o padrão
+   * @body { name, description?, isDefault? }
+   * @returns StockLocation
+   */
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /stock-locations/stock
+   * @description Saldos de cada produto em cada local
+   * @query productId - Filtrar por produto
+   * @query locationId - Filtrar por local
+   * @returns { count: number, stocks: ProductStock[] }
+   */
+  router.get('/stock', authorize(Permissions.LOOKUP), (req, res) => controller.findStock(req, res));
+
+  /**
+   * @route GET /stock-locations/low-stock
+   * @description Saldos no mínimo do local ou abaixo dele
+   * @query locationId - Local (omitido = todos os locais)
+   * @returns { count: number, stocks: ProductStock[] }
+   */
+  router.get('/low-stock', authorize(Permissions.LOOKUP), (req, res) => controller.findLowStock(req, res));
+
+  /**
+   * @route GET /stock-locations/:id
+   * @description Busca um local pelo ID
+   * @param id - ID do local
+   * @returns StockLocation
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  /**
+   * @route PUT /stock-locations/:id
+   * @description Atualiza nome, descrição, situação ou marca o local como padrão
+   * @param id - ID do local
+   * @body { name?, description?, isActive?, isDefault? }
+   * @returns StockLocation
+   */
+  router.put('/:id', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.update(req, res));
+
+  /**
+   * @route PUT /stock-locations/:id/products/:productId
+   * @description Define o mínimo do produto no local
+   * @param id - ID do local
+   * @param productId - ID do produto
+   * @body { minQuantity: number | null }
+   * @returns ProductStock
+   */
+  router.put('/:id/products/:productId', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.setMinQuantity(req, res));
+
+  return router;
+};
@@ -0,0 +1,68 @@
+// ============================================================================
+// ROTAS DE LOTES DE ESTOQUE - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Consulta dos lotes e relatórios de validade por lote (RF13). Somente
+// leitura: os lotes são criados pelas entradas de estoque e baixados pelas
+// saídas.
+//
+// Permissões: consulta (todos os perfis).
+//
+// Endpoints disponíveis:
+// - GET    /stock-lots            - Listar lotes (ordem FEFO)
+// - GET    /stock-lots/expired    - Lotes vencidos com saldo
+// - GET    /stock-lots/expiring   - Lotes a vencer
+// - GET    /stock-lots/:id        - Buscar lote por ID
+// ============================================================================
+
+import { Router } from 'express';
+import { StockLotController } from '../controllers/StockLotController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de lotes de estoque.
+ * 
+ * @param {StockLotController} controller - Instância do controller de lotes
+ * @returns {Router} Router do Express configurado
+ * 
+ * @example
+ * const stockLotController = new StockLotController(...);
+ * app.use('/api/v1/stock-lots', createStockLotRoutes(stockLotController));
+ */
+export const createStockLotRoutes = (controller: StockLotController): Router => {
+  const router = Router();
+
+  /**
+   * @route GET /stock-lots
+   * @description Lista lotes com saldo, do que vence antes para o que vence depois
+   * @query productId - Filtrar por produto
+   * @query locationId - Filtrar por local
+   * @query includeDepleted - "true" para incluir lotes esgotados
+   * @returns { count: number, lots: StockLot[] }
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /stock-lots/expired
+   * @description Lotes vencidos que ainda têm saldo
+   * @returns { referenceDate, totalQuantity, totalValue, count, lots: StockLot[] }
+   */
+  router.get('/expired', authorize(Permissions.LOOKUP), (req, res) => controller.findExpired(req, res));
+
+  /**
+   * @route GET /stock-lots/expiring
+   * @description Lotes com saldo que vencem nos próximos dias
+   * @query days - Janela em dias (padrão: 7)
+   * @returns { referenceDate, days, totalQuantity, totalValue, count, lots: StockLot[] }
+   */
+  router.get('/expiring', authorize(Permissions.LOOKUP), (req, res) => controller.findExpiring(req, res));
+
+  /**
+   * @route GET /stock-lots/:id
+   * @description Busca um lote específico pelo ID
+   * @param id - ID do lote
+   * @returns StockLot
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  return router;
+};
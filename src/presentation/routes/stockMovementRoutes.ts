@@ -1,17 +1,23 @@
 // Rotas de StockMovement - Camada de Apresentação
-import { Router } from 'express';
+// Consulta: qualquer usuário | Movimentação/ajuste: GERENTE ou ADMIN | Relatório: GERENTE ou ADMIN
+// Reconciliação com o livro de movimentações: GET só relata | POST corrige (GERENTE ou ADMIN)
+// POST / aceita o cabeçalho Idempotency-Key (repetição segura)
+import { Router, RequestHandler } from 'express';
 import { StockMovementController } from '../controllers/StockMovementController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
-export const createStockMovementRoutes = (controller: StockMovementController): Router => {
+export const createStockMovementRoutes = (controller: StockMovementController, idempotent: RequestHandler): Router => {
   const router = Router();
 
-  router.post('/', (req, res) => controller.create(req, res));
-  router.get('/', (req, res) => controller.findAll(req, res));
-  router.get('/report', (req, res) => controller.getReport(req, res));
-  router.get('/date-range', (req, res) => controller.findByDateRange(req, res));
-  router.get('/product/:productId', (req, res) => controller.findByProduct(req, res));
-  router.get('/type/:type', (req, res) => controller.findByType(req, res));
-  router.get('/:id', (req, res) => controller.findById(req, res));
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), idempotent, (req, res) => controller.create(req, res));
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+  router.get('/report', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.getReport(req, res));
+  router.get('/reconciliation', authorize(Permissions.VIEW_REPORTS), (req, res) => controller.checkReconciliation(req, res));
+  router.post('/reconciliation', authorize(Permissions.MANAGE_INVENTORY), (req, res) => controller.reconcile(req, res));
+  router.get('/date-range', authorize(Permissions.LOOKUP), (req, res) => controller.findByDateRange(req, res));
+  router.get('/product/:productId', authorize(Permissions.LOOKUP), (req, res) => controller.findByProduct(req, res));
+  router.get('/type/:type', authorize(Permissions.LOOKUP), (req, res) => controller.findByType(req, res));
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
 
   return router;
 };
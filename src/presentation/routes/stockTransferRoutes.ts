@@ -0,0 +1,62 @@
+// ============================================================================
+// ROTAS DE TRANSFERÊNCIAS DE ESTOQUE - CAMADA DE APRESENTAÇÃO
+// ============================================================================
+// Transferência de um produto entre dois locais de estoque. Cada
+// transferência gera as duas movimentações TRANSFER (negativa na origem e
+// positiva no destino) na mesma transação.
+//
+// Permissões: consulta (todos os perfis) | transferência: GERENTE ou ADMIN
+// POST / aceita o cabeçalho Idempotency-Key (repetição segura)
+//
+// Endpoints disponíveis:
+// - POST   /stock-transfers       - Transferir estoque
+// - GET    /stock-transfers       - Listar transferências
+// - GET    /stock-transfers/:id   - Buscar transferência por ID
+// ============================================================================
+
+import { Router, RequestHandler } from 'express';
+import { StockTransferController } from '../controllers/StockTransferController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
+
+/**
+ * Cria e configura as rotas do módulo de transferências de estoque.
+ *
+ * @param {StockTransferController} controller - Instância do controller de transferências
+ * @param {RequestHandler} idempotent - Middleware de idempotência
+ * @returns {Router} Router do Express configurado
+ *
+ * @example
+ * const stockTransferController = new StockTransferController(...);
+ * app.use('/api/v1/stock-transfers', createStockTransferRoutes(stockTransferController, idempotent));
+ */
+export const createStockTransferRoutes = (controller: StockTransferController, idempotent: RequestHandler): Router => {
+  const router = Router();
+
+  /**
+   * @route POST /stock-transfers
+   * @description Transfere estoque de um local para outro
+   * @body { productId, fromLocationId, toLocationId, quantity, reason? }
+   * @returns { transfer: StockTransfer, movements: StockMovement[] }
+   */
+  router.post('/', authorize(Permissions.MANAGE_INVENTORY), idempotent, (req, res) => controller.create(req, res));
+
+  /**
+   * @route GET /stock-transfers
+   * @description Lista transferências (mais recentes primeiro)
+   * @query productId - Filtrar por produto
+   * @query locationId - Filtrar por local (origem ou destino)
+   * @query startDate, endDate - Período
+   * @returns StockTransfer[]
+   */
+  router.get('/', authorize(Permissions.LOOKUP), (req, res) => controller.findAll(req, res));
+
+  /**
+   * @route GET /stock-transfers/:id
+   * @description Busca uma transferência pelo ID
+   * @param id - ID da transferência
+   * @returns StockTransfer
+   */
+  router.get('/:id', authorize(Permissions.LOOKUP), (req, res) => controller.findById(req, res));
+
+  return router;
+};
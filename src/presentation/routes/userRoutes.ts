@@ -2,20 +2,25 @@
 // ROTAS DE USUÁRIOS - CAMADA DE APRESENTAÇÃO
 // ============================================================================
 // Define todas as rotas relacionadas ao gerenciamento de usuários do sistema.
-// Implementa endpoints para CRUD, autenticação e alteração de senha.
+// Implementa endpoints para CRUD e alteração de senha.
+// O login (POST /users/login) é público e fica em authRoutes.ts.
+//
+// Permissões: gerenciamento restrito a ADMIN; /me e a troca da própria
+// senha são liberados para qualquer usuário autenticado.
 //
 // Endpoints disponíveis:
 // - POST   /users           - Criar novo usuário
 // - GET    /users           - Listar usuários
+// - GET    /users/me        - Usuário autenticado
 // - GET    /users/:id       - Buscar usuário por ID
 // - PUT    /users/:id       - Atualizar usuário
 // - DELETE /users/:id       - Excluir usuário
-// - POST   /users/login     - Autenticar usuário
 // - PATCH  /users/:id/password - Alterar senha
 // ============================================================================
 
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
+import { authorize, Permissions } from '../middlewares/authorizationMiddleware';
 
 /**
  * Cria e configura as rotas do módulo de usuários.
@@ -32,16 +37,15 @@ export const createUserRoutes = (controller: UserController): Router => {
   const router = Router();
 
   // ============================================================================
-  // ROTAS DE AUTENTICAÇÃO (devem vir antes das rotas com parâmetros)
+  // ROTAS ESPECIAIS (devem vir antes das rotas com parâmetros :id)
   // ============================================================================
 
   /**
-   * @route POST /users/login
-   * @description Autentica um usuário no sistema
-   * @body { email: string, password: string }
-   * @returns { success: boolean, data: { user: User, token?: string } }
+   * @route GET /users/me
+   * @description Retorna o usuário dono do token de acesso
+   * @returns { id, name, email, role, isActive }
    */
-  router.post('/login', (req, res) => controller.login(req, res));
+  router.get('/me', authorize(Permissions.LOOKUP), (req, res) => controller.me(req, res));
 
   // ============================================================================
   // ROTAS DE CRUD BÁSICO
@@ -53,7 +57,7 @@ export const createUserRoutes = (controller: UserController): Router => {
    * @body { name: string, email: string, password: string, role: UserRole }
    * @returns { success: boolean, data: User }
    */
-  router.post('/', (req, res) => controller.create(req, res));
+  router.post('/', authorize(Permissions.MANAGE_USERS), (req, res) => controller.create(req, res));
 
   /**
    * @route GET /users
@@ -63,7 +67,7 @@ export const createUserRoutes = (controller: UserController): Router => {
    * @query search - Buscar por nome ou email
    * @returns { success: boolean, data: User[] }
    */
-  router.get('/', (req, res) => controller.findAll(req, res));
+  router.get('/', authorize(Permissions.MANAGE_USERS), (req, res) => controller.findAll(req, res));
 
   /**
    * @route GET /users/:id
@@ -71,7 +75,7 @@ export const createUserRoutes = (controller: UserController): Router => {
    * @param id - ID do usuário
    * @returns { success: boolean, data: User }
    */
-  router.get('/:id', (req, res) => controller.findById(req, res));
+  router.get('/:id', authorize(Permissions.MANAGE_USERS), (req, res) => controller.findById(req, res));
 
   /**
    * @route PUT /users/:id
@@ -80,7 +84,7 @@ export const createUserRoutes = (controller: UserController): Router => {
    * @body { name?: string, email?: string, role?: UserRole, isActive?: boolean }
    * @returns { success: boolean, data: User }
    */
-  router.put('/:id', (req, res) => controller.update(req, res));
+  router.put('/:id', authorize(Permissions.MANAGE_USERS), (req, res) => controller.update(req, res));
 
   /**
    * @route DELETE /users/:id
@@ -88,7 +92,7 @@ export const createUserRoutes = (controller: UserController): Router => {
    * @param id - ID do usuário
    * @returns { status: 204 }
    */
-  router.delete('/:id', (req, res) => controller.delete(req, res));
+  router.delete('/:id', authorize(Permissions.MANAGE_USERS), (req, res) => controller.delete(req, res));
 
   // ============================================================================
   // ROTAS DE ALTERAÇÃO DE SENHA
@@ -96,12 +100,13 @@ export const createUserRoutes = (controller: UserController): Router => {
 
   /**
    * @route PATCH /users/:id/password
-   * @description Altera a senha de um usuário
+   * @description Altera a senha de um usuário (quem gerencia usuários
+   *              redefine a de outro sem a senha atual)
    * @param id - ID do usuário
-   * @body { currentPassword: string, newPassword: string }
+   * @body { currentPassword?: string, newPassword: string }
    * @returns { success: boolean, message: string }
    */
-  router.patch('/:id/password', (req, res) => controller.changePassword(req, res));
+  router.patch('/:id/password', authorize(Permissions.CHANGE_PASSWORD), (req, res) => controller.changePassword(req, res));
 
   return router;
 };
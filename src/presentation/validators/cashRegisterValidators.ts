@@ -0,0 +1,73 @@
+// ============================================================================
+// VALIDADORES DE CAIXA
+// ============================================================================
+
+import { z } from 'zod';
+import { CashRegisterStatus } from '../../domain/entities/CashRegisterSession';
+
+/**
+ * Schema para abertura de caixa
+ */
+export const openCashRegisterSchema = z.object({
+  openingFloat: z
+    .number({ required_error: 'Fundo de troco é obrigatório' })
+    .nonnegative('Fundo de troco não pode ser negativo'),
+
+  terminal: z
+    .string()
+    .min(1, 'Identificação do caixa não pode ser vazia')
+    .max(50, 'Identificação do caixa deve ter no máximo 50 caracteres')
+    .optional(),
+
+  notes: z
+    .string()
+    .max(500, 'Observações devem ter no máximo 500 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para sangria e suprimento
+ */
+export const cashRegisterMovementSchema = z.object({
+  amount: z
+    .number({ required_error: 'Valor é obrigatório' })
+    .positive('Valor deve ser maior que zero'),
+
+  reason: z
+    .string({ required_error: 'Motivo é obrigatório' })
+    .min(1, 'Motivo é obrigatório')
+    .max(200, 'Motivo deve ter no máximo 200 caracteres'),
+});
+
+/**
+ * Schema para fechamento de caixa
+ */
+export const closeCashRegisterSchema = z.object({
+  counted: z.object({
+    CASH: z.number().nonnegative('Valor contado não pode ser negativo').optional(),
+    CARD: z.number().nonnegative('Valor contado não pode ser negativo').optional(),
+    PIX: z.number().nonnegative('Valor contado não pode ser negativo').optional(),
+  }, { required_error: 'Valores contados são obrigatórios' }),
+
+  notes: z
+    .string()
+    .max(500, 'Observações devem ter no máximo 500 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para filtros de sessões de caixa
+ */
+export const cashRegisterFiltersSchema = z.object({
+  userId: z.string().uuid('ID do operador deve ser um UUID válido').optional(),
+  terminal: z.string().optional(),
+  status: z.nativeEnum(CashRegisterStatus).optional(),
+  startDate: z.string().transform((str: string) => new Date(str)).optional(),
+  endDate: z.string().transform((str: string) => new Date(str)).optional(),
+});
+
+// Tipos inferidos
+export type OpenCashRegisterInput = z.infer<typeof openCashRegisterSchema>;
+export type CashRegisterMovementInput = z.infer<typeof cashRegisterMovementSchema>;
+export type CloseCashRegisterInput = z.infer<typeof closeCashRegisterSchema>;
+export type CashRegisterFiltersInput = z.infer<typeof cashRegisterFiltersSchema>;
@@ -85,6 +85,42 @@ export const clientIdSchema = z.object({
   id: z.string().uuid('ID deve ser um UUID válido'),
 });
 
+/**
+ * Schema para pagamento do fiado
+ */
+export const registerClientPaymentSchema = z.object({
+  amount: z
+    .number({ required_error: 'Valor do pagamento é obrigatório' })
+    .positive('Valor do pagamento deve ser maior que zero'),
+
+  description: z
+    .string()
+    .max(255, 'Descrição deve ter no máximo 255 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para emissão manual de vale-troca
+ */
+export const issueStoreCreditSchema = z.object({
+  amount: z
+    .number({ required_error: 'Valor do crédito é obrigatório' })
+    .positive('Valor do crédito deve ser maior que zero'),
+
+  reason: z
+    .string({ required_error: 'Motivo da emissão é obrigatório' })
+    .min(1, 'Motivo da emissão é obrigatório')
+    .max(255, 'Motivo deve ter no máximo 255 caracteres'),
+
+  validityDays: z
+    .number()
+    .int('Validade deve ser um número inteiro de dias')
+    .positive('Validade deve ser maior que zero')
+    .optional(),
+});
+
 // Tipos inferidos
 export type CreateClientInput = z.infer<typeof createClientSchema>;
 export type UpdateClientInput = z.infer<typeof updateClientSchema>;
+export type RegisterClientPaymentInput = z.infer<typeof registerClientPaymentSchema>;
+export type IssueStoreCreditInput = z.infer<typeof issueStoreCreditSchema>;
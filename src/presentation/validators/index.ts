@@ -49,3 +49,7 @@ export * from './saleValidators';
 export * from './userValidators';
 export * from './stockMovementValidators';
 export * from './financialValidators';
+export * from './purchaseOrderValidators';
+export * from './promotionValidators';
+export * from './quoteValidators';
+export * from './cashRegisterValidators';
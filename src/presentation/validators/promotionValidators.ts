@@ -0,0 +1,101 @@
+// ============================================================================
+// VALIDADORES DE PROMOÇÃO
+// ============================================================================
+
+import { z } from 'zod';
+import { PromotionType } from '../../domain/entities/Promotion';
+
+/**
+ * Campos comuns à criação e atualização de promoção
+ */
+const promotionFields = {
+  name: z
+    .string({ required_error: 'Nome é obrigatório' })
+    .min(1, 'Nome é obrigatório')
+    .max(100, 'Nome deve ter no máximo 100 caracteres'),
+
+  description: z
+    .string()
+    .max(500, 'Descrição deve ter no máximo 500 caracteres')
+    .optional(),
+
+  type: z.nativeEnum(PromotionType, {
+    errorMap: () => ({ message: 'Tipo deve ser PERCENTAGE, FIXED_AMOUNT ou BUY_X_GET_Y' }),
+  }),
+
+  value: z
+    .number({ required_error: 'Valor é obrigatório' })
+    .positive('Valor deve ser maior que zero'),
+
+  buyQuantity: z
+    .number()
+    .int('Quantidade a levar deve ser um número inteiro')
+    .positive('Quantidade a levar deve ser positiva')
+    .optional(),
+
+  getQuantity: z
+    .number()
+    .int('Quantidade bonificada deve ser um número inteiro')
+    .positive('Quantidade bonificada deve ser positiva')
+    .optional(),
+
+  minPurchase: z
+    .number()
+    .nonnegative('Compra mínima não pode ser negativa')
+    .optional(),
+
+  startDate: z
+    .string({ required_error: 'Data de início é obrigatória' })
+    .transform((str: string) => new Date(str)),
+
+  endDate: z
+    .string({ required_error: 'Data de fim é obrigatória' })
+    .transform((str: string) => new Date(str)),
+
+  isActive: z.boolean().optional(),
+
+  productIds: z
+    .array(z.string().uuid('ID do produto deve ser um UUID válido'))
+    .min(1, 'Informe ao menos um produto (ou omita para todos)')
+    .nullable()
+    .optional(),
+
+  categoryIds: z
+    .array(z.string().uuid('ID da categoria deve ser um UUID válido'))
+    .min(1, 'Informe ao menos uma categoria (ou omita para todas)')
+    .nullable()
+    .optional(),
+};
+
+/**
+ * Schema para criação de promoção
+ */
+export const createPromotionSchema = z
+  .object(promotionFields)
+  .refine(
+    (data) => data.type !== PromotionType.BUY_X_GET_Y || (data.buyQuantity && data.getQuantity),
+    { message: 'Promoção BUY_X_GET_Y exige buyQuantity e getQuantity', path: ['buyQuantity'] }
+  )
+  .refine(
+    (data) => data.type === PromotionType.FIXED_AMOUNT || data.value <= 100,
+    { message: 'Percentual de desconto não pode ser maior que 100', path: ['value'] }
+  );
+
+/**
+ * Schema para atualização de promoção
+ */
+export const updatePromotionSchema = z.object(promotionFields).partial();
+
+/**
+ * Schema para filtros de promoções
+ */
+export const promotionFiltersSchema = z.object({
+  type: z.nativeEnum(PromotionType).optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+  running: z.enum(['true', 'false']).optional(),
+});
+
+// Tipos inferidos
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+export type PromotionFiltersInput = z.infer<typeof promotionFiltersSchema>;
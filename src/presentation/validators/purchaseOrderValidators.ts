@@ -0,0 +1,121 @@
+// ============================================================================
+// VALIDADORES DE PEDIDO DE COMPRA
+// ============================================================================
+
+import { z } from 'zod';
+import { PurchaseOrderStatus } from '../../domain/entities/PurchaseOrder';
+
+/**
+ * Schema para item do pedido de compra
+ */
+export const purchaseItemSchema = z.object({
+  productId: z
+    .string({ required_error: 'ID do produto é obrigatório' })
+    .uuid('ID do produto deve ser um UUID válido'),
+
+  quantity: z
+    .number({ required_error: 'Quantidade é obrigatória' })
+    .int('Quantidade deve ser um número inteiro')
+    .positive('Quantidade deve ser positiva'),
+
+  unitPrice: z
+    .number()
+    .nonnegative('Custo unitário não pode ser negativo')
+    .optional(),
+});
+
+/**
+ * Schema para criação de pedido de compra
+ */
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z
+    .string({ required_error: 'Fornecedor é obrigatório' })
+    .uuid('ID do fornecedor deve ser um UUID válido'),
+
+  items: z
+    .array(purchaseItemSchema, { required_error: 'Itens do pedido são obrigatórios' })
+    .min(1, 'O pedido deve ter pelo menos 1 item'),
+
+  expectedDate: z
+    .string()
+    .datetime()
+    .transform((str: string) => new Date(str))
+    .optional(),
+
+  paymentTerms: z
+    .string()
+    .regex(/^\s*\d+\s*(\/\s*\d+\s*)*$/, 'Condição de pagamento deve ter dias separados por "/" (ex.: 30/60/90)')
+    .optional(),
+
+  notes: z
+    .string()
+    .max(1000, 'Observações devem ter no máximo 1000 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para item entregue (com o lote recebido)
+ */
+export const receivedItemSchema = purchaseItemSchema.extend({
+  expirationDate: z
+    .string()
+    .datetime()
+    .transform((str: string) => new Date(str))
+    .optional(),
+
+  lotCode: z
+    .string()
+    .max(50, 'Código do lote deve ter no máximo 50 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para recebimento de pedido de compra
+ */
+export const receivePurchaseOrderSchema = z.object({
+  items: z
+    .array(receivedItemSchema, { required_error: 'Itens entregues são obrigatórios' })
+    .min(1, 'Informe pelo menos 1 item entregue'),
+
+  notes: z
+    .string()
+    .max(500, 'Observação deve ter no máximo 500 caracteres')
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('ID do local deve ser um UUID válido')
+    .optional(),
+});
+
+/**
+ * Schema para filtros de pedidos de compra
+ */
+export const purchaseOrderFiltersSchema = z.object({
+  supplierId: z
+    .string()
+    .uuid('ID do fornecedor deve ser um UUID válido')
+    .optional(),
+
+  status: z
+    .nativeEnum(PurchaseOrderStatus)
+    .optional(),
+
+  startDate: z
+    .string()
+    .datetime()
+    .transform((str: string) => new Date(str))
+    .optional(),
+
+  endDate: z
+    .string()
+    .datetime()
+    .transform((str: string) => new Date(str))
+    .optional(),
+});
+
+// Tipos inferidos
+export type PurchaseItemInput = z.infer<typeof purchaseItemSchema>;
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrderFiltersInput = z.infer<typeof purchaseOrderFiltersSchema>;
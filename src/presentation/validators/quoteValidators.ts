@@ -0,0 +1,77 @@
+// ============================================================================
+// VALIDADORES DE ORÇAMENTO
+// ============================================================================
+
+import { z } from 'zod';
+import { PaymentMethod } from '../../domain/entities/Sale';
+import { QuoteStatus } from '../../domain/entities/Quote';
+import { saleItemSchema, salePaymentSchema } from './saleValidators';
+
+/**
+ * Schema para criação de orçamento
+ */
+export const createQuoteSchema = z.object({
+  clientId: z
+    .string()
+    .uuid('ID do cliente deve ser um UUID válido')
+    .optional(),
+
+  items: z
+    .array(saleItemSchema, { required_error: 'Itens do orçamento são obrigatórios' })
+    .min(1, 'O orçamento deve ter pelo menos 1 item'),
+
+  discount: z
+    .number()
+    .nonnegative('Desconto não pode ser negativo')
+    .default(0),
+
+  notes: z
+    .string()
+    .max(1000, 'Observações devem ter no máximo 1000 caracteres')
+    .optional(),
+
+  validityDays: z
+    .number()
+    .int('Validade deve ser um número inteiro de dias')
+    .positive('Validade deve ser maior que zero')
+    .optional(),
+});
+
+/**
+ * Schema para conversão do orçamento em venda
+ */
+export const convertQuoteSchema = z.object({
+  paymentMethod: z
+    .nativeEnum(PaymentMethod, {
+      errorMap: () => ({ message: 'Forma de pagamento inválida' }),
+    })
+    .optional(),
+
+  payments: z
+    .array(salePaymentSchema)
+    .min(1, 'Informe ao menos uma forma de pagamento')
+    .optional(),
+
+  overrideCreditLimit: z.boolean().optional(),
+
+  amountPaid: z
+    .number()
+    .nonnegative('Valor recebido não pode ser negativo')
+    .optional(),
+}).refine(
+  (data) => data.paymentMethod !== undefined || data.payments !== undefined,
+  { message: 'Forma de pagamento é obrigatória', path: ['paymentMethod'] }
+);
+
+/**
+ * Schema para filtros de orçamentos
+ */
+export const quoteFiltersSchema = z.object({
+  clientId: z.string().uuid('ID do cliente deve ser um UUID válido').optional(),
+  userId: z.string().uuid('ID do usuário deve ser um UUID válido').optional(),
+  status: z
+    .nativeEnum(QuoteStatus, {
+      errorMap: () => ({ message: 'Status inválido' }),
+    })
+    .optional(),
+});
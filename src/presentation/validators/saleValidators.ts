@@ -4,6 +4,7 @@
 
 import { z } from 'zod';
 import { PaymentMethod } from '../../domain/entities/Sale';
+import { RefundMethod } from '../../domain/entities/SaleReturn';
 
 /**
  * Schema para item da venda
@@ -27,16 +28,40 @@ export const saleItemSchema = z.object({
 /**
  * Schema para criação de venda
  */
+/**
+ * Schema para uma parcela do pagamento
+ */
+export const salePaymentSchema = z
+  .object({
+    paymentMethod: z.nativeEnum(PaymentMethod, {
+      required_error: 'Forma de pagamento é obrigatória',
+      errorMap: () => ({ message: 'Forma de pagamento inválida' }),
+    }),
+
+    amount: z
+      .number({ required_error: 'Valor é obrigatório' })
+      .positive('Valor deve ser maior que zero'),
+
+    amountReceived: z
+      .number()
+      .positive('Valor recebido deve ser maior que zero')
+      .optional(),
+  })
+  .refine(
+    (data) => data.amountReceived === undefined || data.paymentMethod === PaymentMethod.CASH,
+    { message: 'Valor recebido só se aplica a pagamento em dinheiro', path: ['amountReceived'] }
+  )
+  .refine(
+    (data) => data.amountReceived === undefined || data.amountReceived >= data.amount,
+    { message: 'Valor recebido não pode ser menor que o valor do pagamento', path: ['amountReceived'] }
+  );
+
 export const createSaleSchema = z.object({
   clientId: z
     .string()
     .uuid('ID do cliente deve ser um UUID válido')
     .optional(),
 
-  userId: z
-    .string({ required_error: 'ID do usuário é obrigatório' })
-    .uuid('ID do usuário deve ser um UUID válido'),
-
   items: z
     .array(saleItemSchema, { required_error: 'Itens da venda são obrigatórios' })
     .min(1, 'A venda deve ter pelo menos 1 item'),
@@ -46,10 +71,48 @@ export const createSaleSchema = z.object({
     .nonnegative('Desconto não pode ser negativo')
     .default(0),
 
-  paymentMethod: z.nativeEnum(PaymentMethod, {
-    required_error: 'Forma de pagamento é obrigatória',
-    errorMap: () => ({ message: 'Forma de pagamento inválida' }),
-  }),
+  paymentMethod: z
+    .nativeEnum(PaymentMethod, {
+      errorMap: () => ({ message: 'Forma de pagamento inválida' }),
+    })
+    .optional(),
+
+  payments: z
+    .array(salePaymentSchema)
+    .min(1, 'Informe ao menos uma forma de pagamento')
+    .optional(),
+
+  notes: z
+    .string()
+    .max(1000, 'Observações devem ter no máximo 1000 caracteres')
+    .optional(),
+
+  overrideCreditLimit: z.boolean().optional(),
+
+  amountPaid: z
+    .number()
+    .nonnegative('Valor recebido não pode ser negativo')
+    .optional(),
+}).refine(
+  (data) => data.paymentMethod !== undefined || data.payments !== undefined,
+  { message: 'Forma de pagamento é obrigatória', path: ['paymentMethod'] }
+);
+
+/**
+ * Schema para suspender uma venda
+ */
+export const createSaleDraftSchema = z.object({
+  clientId: z
+    .string()
+    .uuid('ID do cliente deve ser um UUID válido')
+    .optional(),
+
+  items: z.array(saleItemSchema).default([]),
+
+  discount: z
+    .number()
+    .nonnegative('Desconto não pode ser negativo')
+    .default(0),
 
   notes: z
     .string()
@@ -57,6 +120,66 @@ export const createSaleSchema = z.object({
     .optional(),
 });
 
+/**
+ * Schema para finalizar uma venda suspensa
+ */
+export const finalizeSaleDraftSchema = z.object({
+  clientId: z
+    .string()
+    .uuid('ID do cliente deve ser um UUID válido')
+    .optional(),
+
+  paymentMethod: z
+    .nativeEnum(PaymentMethod, {
+      errorMap: () => ({ message: 'Forma de pagamento inválida' }),
+    })
+    .optional(),
+
+  payments: z
+    .array(salePaymentSchema)
+    .min(1, 'Informe ao menos uma forma de pagamento')
+    .optional(),
+
+  overrideCreditLimit: z.boolean().optional(),
+
+  amountPaid: z
+    .number()
+    .nonnegative('Valor recebido não pode ser negativo')
+    .optional(),
+}).refine(
+  (data) => data.paymentMethod !== undefined || data.payments !== undefined,
+  { message: 'Forma de pagamento é obrigatória', path: ['paymentMethod'] }
+);
+
+/**
+ * Schema para devolução de itens da venda
+ */
+export const saleReturnSchema = z.object({
+  items: z
+    .array(z.object({
+      saleItemId: z
+        .string({ required_error: 'ID do item da venda é obrigatório' })
+        .uuid('ID do item da venda deve ser um UUID válido'),
+
+      quantity: z
+        .number({ required_error: 'Quantidade é obrigatória' })
+        .int('Quantidade deve ser um número inteiro')
+        .positive('Quantidade deve ser positiva'),
+
+      damaged: z.boolean().default(false),
+    }))
+    .min(1, 'Devolução deve ter pelo menos um item'),
+
+  refundMethod: z.nativeEnum(RefundMethod, {
+    errorMap: () => ({ message: 'Forma de reembolso inválida' }),
+  }),
+
+  reason: z
+    .string()
+    .max(200, 'Motivo deve ter no máximo 200 caracteres')
+    .optional(),
+});
+
 export const saleIdSchema = z.object({
   id: z.string().uuid('ID deve ser um UUID válido'),
 });
@@ -89,5 +212,7 @@ export const saleFiltersSchema = z.object({
 
 // Tipos inferidos
 export type SaleItemInput = z.infer<typeof saleItemSchema>;
+export type SalePaymentInput = z.infer<typeof salePaymentSchema>;
 export type CreateSaleInput = z.infer<typeof createSaleSchema>;
 export type SaleFiltersInput = z.infer<typeof saleFiltersSchema>;
+export type SaleReturnInput = z.infer<typeof saleReturnSchema>;
@@ -21,7 +21,7 @@ export const createStockMovementSchema = z.object({
   quantity: z
     .number({ required_error: 'Quantidade é obrigatória' })
     .int('Quantidade deve ser um número inteiro')
-    .positive('Quantidade deve ser positiva'),
+    .nonnegative('Quantidade não pode ser negativa'),
 
   reason: z
     .string()
@@ -32,7 +32,26 @@ export const createStockMovementSchema = z.object({
     .number()
     .nonnegative('Preço unitário não pode ser negativo')
     .optional(),
-});
+
+  expirationDate: z
+    .string()
+    .datetime()
+    .transform((str: string) => new Date(str))
+    .optional(),
+
+  lotCode: z
+    .string()
+    .max(50, 'Código do lote deve ter no máximo 50 caracteres')
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('ID do local deve ser um UUID válido')
+    .optional(),
+}).refine(
+  (data) => data.type === MovementType.ADJUSTMENT || data.quantity > 0,
+  { message: 'Quantidade deve ser positiva (zero só no ajuste)', path: ['quantity'] }
+);
 
 export const stockMovementIdSchema = z.object({
   id: z.string().uuid('ID deve ser um UUID válido'),
@@ -51,6 +70,31 @@ export const stockMovementFiltersSchema = z.object({
     .nativeEnum(MovementType)
     .optional(),
 
+  saleId: z
+    .string()
+    .uuid('ID da venda deve ser um UUID válido')
+    .optional(),
+
+  purchaseOrderId: z
+    .string()
+    .uuid('ID do pedido de compra deve ser um UUID válido')
+    .optional(),
+
+  userId: z
+    .string()
+    .uuid('ID do usuário deve ser um UUID válido')
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('ID do local deve ser um UUID válido')
+    .optional(),
+
+  transferId: z
+    .string()
+    .uuid('ID da transferência deve ser um UUID válido')
+    .optional(),
+
   startDate: z
     .string()
     .datetime()
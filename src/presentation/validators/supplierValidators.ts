@@ -35,6 +35,11 @@ export const createSupplierSchema = z.object({
     .length(14, 'CNPJ deve ter 14 dígitos')
     .regex(/^\d+$/, 'CNPJ deve conter apenas números')
     .optional(),
+
+  paymentTerms: z
+    .string()
+    .regex(/^\s*\d+\s*(\/\s*\d+\s*)*$/, 'Condição de pagamento deve ter dias separados por "/" (ex.: 30/60/90)')
+    .optional(),
 });
 
 /**
@@ -69,6 +74,11 @@ export const updateSupplierSchema = z.object({
     .length(14, 'CNPJ deve ter 14 dígitos')
     .regex(/^\d+$/, 'CNPJ deve conter apenas números')
     .optional(),
+
+  paymentTerms: z
+    .string()
+    .regex(/^\s*\d+\s*(\/\s*\d+\s*)*$/, 'Condição de pagamento deve ter dias separados por "/" (ex.: 30/60/90)')
+    .optional(),
 });
 
 export const supplierIdSchema = z.object({